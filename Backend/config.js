@@ -0,0 +1,40 @@
+const path = require('path');
+
+// Runtime configuration, overridable through environment variables.
+//   STORAGE_DRIVER  mongo (default) | json | memory
+//   MONGODB_URI     connection string used by the mongo driver
+//   DATA_FILE       file used by the json driver
+//   FILES_DRIVER    local (default) | memory, where attachments are kept
+//   ATTACHMENTS_DIR directory used by the local files driver
+//   JWT_SECRET      key used to sign session tokens; required with the mongo
+//                   driver unless NODE_ENV is development
+//   SCHEDULER_INTERVAL_MINUTES  how often recurring transactions are posted
+//   OCR_LANG_DIR    directory holding the gzipped Tesseract language data used
+//                   to read receipt photos (English is bundled)
+//   OCR_LANGUAGES   Tesseract languages to read, such as eng or eng+deu
+module.exports = {
+    port: parseInt(process.env.PORT, 10) || 3001,
+    storage: {
+        driver: process.env.STORAGE_DRIVER || 'mongo',
+        mongoUri: process.env.MONGODB_URI || 'mongodb://localhost:27017/budgettracking',
+        dataFile: process.env.DATA_FILE || path.join(__dirname, 'data', 'db.json'),
+        files: {
+            driver: process.env.FILES_DRIVER || 'local',
+            directory: process.env.ATTACHMENTS_DIR || path.join(__dirname, 'data', 'attachments')
+        }
+    },
+    auth: {
+        // Everyone who has read this file knows the fallback, so the server
+        // only uses it for local data or in development (see server.js)
+        jwtSecret: process.env.JWT_SECRET || 'dev-only-secret-change-me',
+        tokenTtl: process.env.TOKEN_TTL || '7d'
+    },
+    scheduler: {
+        intervalMinutes: parseFloat(process.env.SCHEDULER_INTERVAL_MINUTES) || 60
+    },
+    ocr: {
+        langDir: process.env.OCR_LANG_DIR ||
+            path.join(path.dirname(require.resolve('@tesseract.js-data/eng/package.json')), '4.0.0_best_int'),
+        languages: process.env.OCR_LANGUAGES || 'eng'
+    }
+};
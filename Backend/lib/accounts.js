@@ -0,0 +1,56 @@
+const { DEFAULT_CURRENCY, roundMoney } = require('./currency');
+
+// Make sure every account a transaction points at belongs to the user.
+// Returns an error message, or null when the accounts are fine.
+async function checkTransactionAccounts(storage, userId, transaction) {
+    for (const field of ['accountId', 'toAccountId']) {
+        if (!transaction[field]) continue;
+        const account = await storage.accounts.findById(userId, String(transaction[field]));
+        if (!account) {
+            return field === 'toAccountId' ? 'Destination account not found' : 'Account not found';
+        }
+    }
+    return null;
+}
+
+// Attach the current balance to each account: its opening balance plus the
+// net of everything booked against it (see getAccountTotals), in the
+// account's own currency. Money recorded before accounts existed is reported
+// separately as `unassigned`. `totalBalance` adds everything up in the base
+// currency. Balances are what the money is worth now, so they use the latest
+// exchange rates.
+async function computeAccountBalances(storage, userId, converter) {
+    const [accounts, totals] = await Promise.all([
+        storage.accounts.list(userId),
+        storage.transactions.getAccountTotals(userId)
+    ]);
+    const { baseCurrency, convert } = converter;
+
+    const summarise = (accountId, currency) => totals
+        .filter(item => String(item.accountId) === String(accountId))
+        .reduce((sum, item) => ({
+            net: sum.net + convert(item.net, item.currency, { to: currency }),
+            count: sum.count + item.count
+        }), { net: 0, count: 0 });
+
+    const withBalances = accounts.map(account => {
+        const currency = account.currency || DEFAULT_CURRENCY;
+        const { net, count } = summarise(account._id, currency);
+        return { ...account, currency, balance: roundMoney(account.openingBalance + net), transactionCount: count };
+    });
+    const unassigned = roundMoney(summarise(null, baseCurrency).net);
+    const totalBalance = withBalances.reduce(
+        (sum, account) => sum + convert(account.balance, account.currency),
+        unassigned
+    );
+
+    return {
+        accounts: withBalances,
+        unassigned,
+        totalBalance: roundMoney(totalBalance),
+        baseCurrency,
+        missingRates: converter.missingRates()
+    };
+}
+
+module.exports = { checkTransactionAccounts, computeAccountBalances };
@@ -0,0 +1,140 @@
+const express = require('express');
+const { createThumbnail } = require('./thumbnails');
+
+const startsWith = (data, bytes, offset = 0) => bytes.every((byte, index) => data[offset + index] === byte);
+const ascii = (text) => [...Buffer.from(text, 'latin1')];
+
+// Files that can be kept with a transaction, by the type the client sends.
+// Each is recognised by its first bytes too, so a renamed file can't pass
+// for something it isn't.
+const ATTACHMENT_TYPES = {
+    'image/jpeg': { extension: 'jpg', matches: (data) => startsWith(data, [0xff, 0xd8, 0xff]) },
+    'image/png': { extension: 'png', matches: (data) => startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+    'image/gif': { extension: 'gif', matches: (data) => startsWith(data, ascii('GIF87a')) || startsWith(data, ascii('GIF89a')) },
+    'image/webp': { extension: 'webp', matches: (data) => startsWith(data, ascii('RIFF')) && startsWith(data, ascii('WEBP'), 8) },
+    'application/pdf': { extension: 'pdf', matches: (data) => startsWith(data, ascii('%PDF-')) }
+};
+
+// The types the receipt scanner can read
+const RECEIPT_TYPES = ['image/jpeg', 'image/png', 'application/pdf'];
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Content type with any parameters (such as a charset) dropped
+const baseContentType = (header) => String(header || '').split(';')[0].trim().toLowerCase();
+
+// Route middleware for uploads sent as the raw request body. A body over
+// the limit is answered here rather than by Express's HTML error page.
+const readUpload = [
+    express.raw({ type: Object.keys(ATTACHMENT_TYPES), limit: MAX_ATTACHMENT_BYTES }),
+    (error, req, res, next) => {
+        if (error.type === 'entity.too.large') {
+            return res.status(413).json({ error: `Files must not exceed ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB` });
+        }
+        next(error);
+    }
+];
+
+// Check an uploaded file's type, size and contents against the allowed
+// types. Returns an error message, or null when the file is fine.
+function checkUpload(contentType, data, allowedTypes = Object.keys(ATTACHMENT_TYPES)) {
+    const type = allowedTypes.includes(contentType) ? ATTACHMENT_TYPES[contentType] : null;
+    if (!type) {
+        return `Unsupported file type. Use ${allowedTypes.join(', ')}`;
+    }
+    if (!Buffer.isBuffer(data) || data.length === 0) {
+        return 'The file is empty';
+    }
+    if (data.length > MAX_ATTACHMENT_BYTES) {
+        return `Files must not exceed ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`;
+    }
+    if (!type.matches(data)) {
+        return `The file is not a valid ${type.extension.toUpperCase()}`;
+    }
+    return null;
+}
+
+// Keep a file name to its last path segment and printable characters, with
+// a fallback when nothing usable is left
+function cleanFilename(name, contentType) {
+    const cleaned = String(name || '')
+        .split(/[\\/]/).pop()
+        .replace(/[\x00-\x1f\x7f"]/g, '')
+        .trim()
+        .slice(0, 255);
+    return cleaned || `attachment.${ATTACHMENT_TYPES[contentType]?.extension ?? 'bin'}`;
+}
+
+// An attachment as clients see it: where its files are stored stays private
+function toPublicAttachment({ fileKey, thumbnailKey, thumbnailType, ...attachment }) {
+    return { ...attachment, hasThumbnail: Boolean(thumbnailKey) };
+}
+
+// Store a checked upload, with a thumbnail for images, and record it against
+// the transaction. The files are removed again if the record can't be saved.
+async function saveAttachment(storage, userId, transactionId, { filename, contentType, data }) {
+    const thumbnail = createThumbnail(data, contentType);
+    const fileKey = await storage.files.put(data);
+    const thumbnailKey = thumbnail ? await storage.files.put(thumbnail.data) : null;
+    try {
+        return await storage.attachments.create(userId, {
+            transactionId,
+            filename: cleanFilename(filename, contentType),
+            contentType,
+            size: data.length,
+            fileKey,
+            thumbnailKey,
+            thumbnailType: thumbnail?.contentType ?? null
+        });
+    } catch (error) {
+        await storage.files.remove(fileKey);
+        if (thumbnailKey) await storage.files.remove(thumbnailKey);
+        throw error;
+    }
+}
+
+// Delete an attachment's record, then its files. A file left behind by a
+// failed removal is unreachable, which is better than a record without one.
+async function removeAttachment(storage, userId, attachment) {
+    const removed = await storage.attachments.remove(userId, String(attachment._id));
+    if (!removed) return null;
+    await storage.files.remove(removed.fileKey);
+    if (removed.thumbnailKey) await storage.files.remove(removed.thumbnailKey);
+    return removed;
+}
+
+async function removeTransactionAttachments(storage, userId, transactionId) {
+    const attachments = await storage.attachments.list(userId, { transactionId });
+    for (const attachment of attachments) {
+        await removeAttachment(storage, userId, attachment);
+    }
+    return attachments.length;
+}
+
+// Remove attachments whose transaction is gone, after transactions were
+// deleted in bulk (such as by reverting an import)
+async function removeOrphanedAttachments(storage, userId) {
+    const attachments = await storage.attachments.list(userId);
+    const transactionIds = [...new Set(attachments.map(attachment => String(attachment.transactionId)))];
+    let removed = 0;
+    for (const transactionId of transactionIds) {
+        if (!await storage.transactions.findById(userId, transactionId)) {
+            removed += await removeTransactionAttachments(storage, userId, transactionId);
+        }
+    }
+    return removed;
+}
+
+module.exports = {
+    ATTACHMENT_TYPES,
+    RECEIPT_TYPES,
+    MAX_ATTACHMENT_BYTES,
+    baseContentType,
+    readUpload,
+    checkUpload,
+    toPublicAttachment,
+    saveAttachment,
+    removeAttachment,
+    removeTransactionAttachments,
+    removeOrphanedAttachments
+};
@@ -0,0 +1,47 @@
+const crypto = require('crypto');
+const { promisify } = require('util');
+const jwt = require('jsonwebtoken');
+const config = require('../config');
+
+const scrypt = promisify(crypto.scrypt);
+const KEY_LENGTH = 64;
+
+// Passwords are stored as "salt:hash" using scrypt from Node's crypto module
+async function hashPassword(password) {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `${salt}:${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password, stored) {
+    const [salt, hash] = String(stored).split(':');
+    if (!salt || !hash) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scrypt(password, salt, KEY_LENGTH);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function signToken(user) {
+    return jwt.sign({ sub: String(user._id) }, config.auth.jwtSecret, {
+        expiresIn: config.auth.tokenTtl
+    });
+}
+
+// Reject requests without a valid bearer token and expose the caller as req.userId
+function requireAuth(req, res, next) {
+    const header = req.get('Authorization') || '';
+    const [scheme, token] = header.split(' ');
+    if (scheme !== 'Bearer' || !token) {
+        return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+        const payload = jwt.verify(token, config.auth.jwtSecret);
+        req.userId = payload.sub;
+        next();
+    } catch {
+        res.status(401).json({ error: 'Invalid or expired session' });
+    }
+}
+
+module.exports = { hashPassword, verifyPassword, signToken, requireAuth };
@@ -0,0 +1,75 @@
+// Share of a budget that can be spent before it is reported as "warning"
+const WARNING_THRESHOLD = 80;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The period a budget applies to on a given day. Weeks start on Monday.
+// Periods are whole UTC days, like the stored transaction dates.
+function getPeriodRange(budget, reference = new Date()) {
+    const year = reference.getUTCFullYear();
+    const month = reference.getUTCMonth();
+    switch (budget.period) {
+        case 'weekly': {
+            const daysSinceMonday = (reference.getUTCDay() + 6) % 7;
+            const from = new Date(Date.UTC(year, month, reference.getUTCDate() - daysSinceMonday));
+            return { from, to: new Date(from.getTime() + 7 * DAY_MS - 1) };
+        }
+        case 'monthly':
+            return { from: new Date(Date.UTC(year, month, 1)), to: new Date(Date.UTC(year, month + 1, 1) - 1) };
+        default:
+            return { from: new Date(budget.startDate), to: new Date(budget.endDate) };
+    }
+}
+
+// Custom budgets cover a single span, so only recurring ones have a previous period
+function getPreviousPeriodRange(budget, reference = new Date()) {
+    if (budget.period === 'custom') return null;
+    const { from } = getPeriodRange(budget, reference);
+    return getPeriodRange(budget, new Date(from.getTime() - 1));
+}
+
+// Attach spending progress to each budget. Spending comes from the same
+// per-category aggregation that powers /api/category-breakdown, queried once
+// per distinct period and converted to the base currency the budgets are in.
+async function computeBudgetProgress(transactions, userId, budgets, converter, reference = new Date()) {
+    const totalsByRange = new Map();
+    const spentIn = async (category, range) => {
+        const key = `${range.from.getTime()}-${range.to.getTime()}`;
+        if (!totalsByRange.has(key)) {
+            totalsByRange.set(key, transactions.getCategoryTotals(userId, { type: 'expense', ...range }));
+        }
+        const totals = await totalsByRange.get(key);
+        return totals
+            .filter(item => item.category === category)
+            .reduce((sum, item) => sum + converter.convert(item.value, item.currency, { date: item.day }), 0);
+    };
+
+    return Promise.all(budgets.map(async (budget) => {
+        const range = getPeriodRange(budget, reference);
+        const spent = await spentIn(budget.category, range);
+
+        // Unused money from the previous period carries over, but only if
+        // the budget already existed back then
+        let carriedOver = 0;
+        const previous = budget.rollover ? getPreviousPeriodRange(budget, reference) : null;
+        if (previous && previous.to >= new Date(budget.createdAt)) {
+            carriedOver = Math.max(0, budget.amount - await spentIn(budget.category, previous));
+        }
+
+        const available = budget.amount + carriedOver;
+        const percentUsed = available > 0 ? (spent / available) * 100 : (spent > 0 ? 100 : 0);
+
+        return {
+            ...budget,
+            periodStart: range.from,
+            periodEnd: range.to,
+            spent,
+            carriedOver,
+            available,
+            remaining: available - spent,
+            percentUsed,
+            status: percentUsed > 100 ? 'over' : percentUsed >= WARNING_THRESHOLD ? 'warning' : 'ok'
+        };
+    }));
+}
+
+module.exports = { getPeriodRange, computeBudgetProgress };
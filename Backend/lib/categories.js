@@ -0,0 +1,128 @@
+const { TRANSFER_CATEGORY } = require('./validation');
+const { resetModel } = require('./categorySuggestions');
+
+// Colours handed out to new categories in turn
+const CATEGORY_COLORS = [
+    '#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6',
+    '#ec4899', '#14b8a6', '#84cc16', '#06b6d4', '#a855f7', '#64748b'
+];
+
+// What every user starts with; these used to be hard-coded in the frontend
+const DEFAULT_CATEGORIES = [
+    { name: 'Salary', type: 'income', icon: 'briefcase' },
+    { name: 'Freelance', type: 'income', icon: 'laptop' },
+    { name: 'Investment', type: 'income', icon: 'trending-up' },
+    { name: 'Bonus', type: 'income', icon: 'award' },
+    { name: 'Gift', type: 'income', icon: 'gift' },
+    { name: 'Other Income', type: 'income', icon: 'circle-dollar-sign' },
+    { name: 'Food & Dining', type: 'expense', icon: 'utensils' },
+    { name: 'Transportation', type: 'expense', icon: 'car' },
+    { name: 'Shopping', type: 'expense', icon: 'shopping-bag' },
+    { name: 'Entertainment', type: 'expense', icon: 'film' },
+    { name: 'Bills & Utilities', type: 'expense', icon: 'receipt' },
+    { name: 'Healthcare', type: 'expense', icon: 'heart-pulse' },
+    { name: 'Travel', type: 'expense', icon: 'plane' },
+    { name: 'Education', type: 'expense', icon: 'graduation-cap' },
+    { name: 'Personal Care', type: 'expense', icon: 'sparkles' },
+    { name: 'Other Expenses', type: 'expense', icon: 'tag' }
+];
+
+// Stable colour for a category name that has no category, e.g. "Transfer"
+function colorFor(name) {
+    let hash = 0;
+    for (const char of String(name)) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    return CATEGORY_COLORS[hash % CATEGORY_COLORS.length];
+}
+
+const byName = (a, b) => a.name.localeCompare(b.name);
+
+// Seeding in progress per user, so parallel requests don't seed twice
+const seeding = new Map();
+
+// The user's categories, sorted by name. A user without any gets the
+// defaults plus every category their existing transactions already use.
+async function listCategories(storage, userId) {
+    const categories = await storage.categories.list(userId);
+    if (categories.length > 0) return categories.sort(byName);
+
+    if (!seeding.has(userId)) {
+        seeding.set(userId, seedCategories(storage, userId).finally(() => seeding.delete(userId)));
+    }
+    return seeding.get(userId);
+}
+
+async function seedCategories(storage, userId) {
+    const inUse = await storage.transactions.distinctCategories(userId);
+    const known = new Set(DEFAULT_CATEGORIES.map(category => category.name));
+    const seeds = [
+        ...DEFAULT_CATEGORIES,
+        ...inUse
+            .filter(name => name && name !== TRANSFER_CATEGORY && !known.has(name))
+            .map(name => ({ name, type: 'both', icon: 'tag' }))
+    ];
+
+    const created = [];
+    for (const [index, seed] of seeds.entries()) {
+        created.push(await storage.categories.create(userId, {
+            ...seed,
+            parentId: null,
+            color: CATEGORY_COLORS[index % CATEGORY_COLORS.length]
+        }));
+    }
+    return created.sort(byName);
+}
+
+// Look a category up by name, ignoring case
+function findCategory(categories, name) {
+    const wanted = String(name).trim().toLowerCase();
+    return categories.find(category => category.name.toLowerCase() === wanted) || null;
+}
+
+// Make sure a transaction's category, and those of its split lines, exist
+// and fit its type. Transfers are filed under "Transfer", which is not a
+// user category. Returns an error message, or null when the categories are
+// fine.
+function checkTransactionCategory(categories, { type, category, splits = [] }) {
+    if (type === 'transfer') return null;
+
+    for (const name of [category, ...splits.map(split => split.category)]) {
+        const match = findCategory(categories, name);
+        if (!match) {
+            return `Unknown category "${name}"`;
+        }
+        if (match.type !== 'both' && type && match.type !== type) {
+            return `"${match.name}" is an ${match.type} category`;
+        }
+    }
+    return null;
+}
+
+// Point everything that refers to a category by name at another name.
+// Returns the number of transactions that moved.
+async function renameCategoryEverywhere(storage, userId, from, to) {
+    for (const repository of [storage.budgets, storage.recurringRules]) {
+        const documents = await repository.list(userId, { category: from });
+        for (const document of documents) {
+            await repository.update(userId, String(document._id), { category: to });
+        }
+    }
+    // Categorisation rules name their category inside their actions
+    for (const rule of await storage.categoryRules.list(userId)) {
+        if (rule.actions.category === from) {
+            await storage.categoryRules.update(userId, String(rule._id), { actions: { ...rule.actions, category: to } });
+        }
+    }
+    const moved = await storage.transactions.renameCategory(userId, from, to);
+    // The suggestions learned the old name
+    resetModel(userId);
+    return moved;
+}
+
+module.exports = {
+    CATEGORY_COLORS,
+    colorFor,
+    listCategories,
+    findCategory,
+    checkTransactionCategory,
+    renameCategoryEverywhere
+};
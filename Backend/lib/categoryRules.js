@@ -0,0 +1,161 @@
+const { checkTransactionCategory, findCategory, listCategories } = require('./categories');
+const { parseTransactionQuery } = require('./transactionQuery');
+const { recordTransaction } = require('./categorySuggestions');
+const { compilePattern, createPatternTester } = require('./patterns');
+
+// Transactions read per storage call while re-running rules
+const RUN_PAGE_SIZE = 500;
+// Changed transactions listed in a preview; the counts cover all of them
+const PREVIEW_LIMIT = 200;
+
+// Enabled rules in the order they run: by priority, then by name
+function orderRules(rules) {
+    return rules
+        .filter(rule => rule.enabled !== false)
+        .sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+}
+
+// Enabled rules in order with their regexes compiled, as { rules,
+// testPatterns } where testPatterns tells which rules' patterns match a
+// description, under a time limit (see lib/patterns.js). Compile once per
+// request and hand the result to applyRules; a pattern saved before
+// validation refused slow ones matches nothing.
+function compileRules(rules) {
+    const ordered = orderRules(rules);
+    const patterns = ordered.map(({ conditions }) =>
+        (conditions.descriptionMatch === 'regex' ? compilePattern(conditions.descriptionValue).value || null : null));
+    return { rules: ordered, testPatterns: createPatternTester(patterns) };
+}
+
+// `patternMatched` is whether the rule's regex, if it has one, matched
+function matchesDescription({ descriptionMatch, descriptionValue }, description, patternMatched) {
+    if (!descriptionMatch) return true;
+    const text = String(description ?? '');
+    switch (descriptionMatch) {
+        case 'equals':
+            return text.trim().toLowerCase() === descriptionValue.trim().toLowerCase();
+        case 'regex':
+            return patternMatched;
+        default:
+            return text.toLowerCase().includes(descriptionValue.toLowerCase());
+    }
+}
+
+// Whether a transaction meets every condition of a rule. Amounts are
+// compared as recorded, in the transaction's own currency.
+function matchesRule(rule, transaction, patternMatched) {
+    const { minAmount, maxAmount, accountId, transactionType } = rule.conditions;
+    if (transactionType && transaction.type !== transactionType) return false;
+    if (accountId && String(transaction.accountId) !== String(accountId)) return false;
+    if (minAmount !== null && minAmount !== undefined && !(transaction.amount >= minAmount)) return false;
+    if (maxAmount !== null && maxAmount !== undefined && !(transaction.amount <= maxAmount)) return false;
+    return matchesDescription(rule.conditions, transaction.description, patternMatched);
+}
+
+// What compiled rules would change on a transaction: { changes, rules }
+// where `changes` holds only fields that end up different and `rules` the
+// { _id, name } of every rule that matched. Rules run in priority order and
+// the first to set a field wins it; tags from every match are added.
+// Conditions are checked against the transaction as given. Transfers are
+// never changed.
+function applyRules({ rules, testPatterns }, transaction) {
+    const result = { changes: {}, rules: [] };
+    if (transaction.type === 'transfer') return result;
+
+    const set = {};
+    const tags = new Set(transaction.tags || []);
+    const patternMatches = testPatterns(transaction.description);
+    for (const [index, rule] of rules.entries()) {
+        if (!matchesRule(rule, transaction, patternMatches[index])) continue;
+        result.rules.push({ _id: rule._id, name: rule.name });
+        const { category, transactionType, description } = rule.actions;
+        if (category && set.category === undefined) set.category = category;
+        if (transactionType && set.type === undefined) set.type = transactionType;
+        if (description && set.description === undefined) set.description = description;
+        (rule.actions.tags || []).forEach(tag => tags.add(tag));
+    }
+
+    for (const [field, value] of Object.entries(set)) {
+        if (transaction[field] !== value) result.changes[field] = value;
+    }
+    if (tags.size > (transaction.tags || []).length) result.changes.tags = [...tags];
+    return result;
+}
+
+// Let the user's rules fill in a new transaction that came without a
+// category or splits. Anything else is left exactly as it was sent.
+async function fillFromRules(storage, userId, input) {
+    if (input.category || input.type === 'transfer' || input.splits?.length) return input;
+    const rules = compileRules(await storage.categoryRules.list(userId));
+    const { changes } = applyRules(rules, input);
+    return { ...input, ...changes };
+}
+
+// Check a rule's category and account against the user's own. Returns an
+// error message, or null when they are fine.
+async function checkRuleReferences(storage, userId, rule) {
+    const { category, transactionType } = rule.actions;
+    if (category) {
+        const categories = await listCategories(storage, userId);
+        const error = checkTransactionCategory(categories, {
+            type: transactionType || rule.conditions.transactionType,
+            category
+        });
+        if (error) return error;
+        // Stored with the category's own spelling
+        rule.actions.category = findCategory(categories, category).name;
+    }
+    if (rule.conditions.accountId) {
+        const account = await storage.accounts.findById(userId, String(rule.conditions.accountId));
+        if (!account) return 'Account not found';
+    }
+    return null;
+}
+
+// Re-run rules over every recorded transaction. Without `apply` nothing is
+// saved and the result previews what would change. `ruleId` limits the run
+// to one rule. Changes that would leave a transaction with a category that
+// doesn't fit its type are skipped and listed with the reason.
+async function runRules(storage, userId, { ruleId = null, apply = false } = {}) {
+    const allRules = await storage.categoryRules.list(userId);
+    const rules = compileRules(ruleId ? allRules.filter(rule => String(rule._id) === String(ruleId)) : allRules);
+    const categories = await listCategories(storage, userId);
+    const summary = { scanned: 0, changed: 0, skipped: 0, items: [] };
+
+    const pageQuery = (cursor) => parseTransactionQuery({ limit: RUN_PAGE_SIZE, sort: 'date', order: 'asc', cursor }).criteria;
+    let page = await storage.transactions.list(userId, pageQuery(undefined));
+    for (;;) {
+        for (const transaction of page.items) {
+            summary.scanned += 1;
+            const { changes, rules: matched } = applyRules(rules, transaction);
+            if (Object.keys(changes).length === 0) continue;
+
+            // Split lines were categorised by hand, line by line
+            const error = transaction.splits?.length && (changes.category || changes.type)
+                ? 'Split transactions keep the categories of their lines'
+                : checkTransactionCategory(categories, { ...transaction, ...changes });
+            if (error) summary.skipped += 1;
+            else summary.changed += 1;
+            if (summary.items.length < PREVIEW_LIMIT) {
+                summary.items.push({ transaction, changes, rules: matched, error });
+            }
+            if (apply && !error) {
+                const updated = await storage.transactions.update(userId, String(transaction._id), changes);
+                if (updated) recordTransaction(userId, updated);
+            }
+        }
+        if (!page.nextCursor) break;
+        page = await storage.transactions.list(userId, pageQuery(page.nextCursor));
+    }
+
+    return summary;
+}
+
+module.exports = {
+    compileRules,
+    matchesRule,
+    applyRules,
+    fillFromRules,
+    checkRuleReferences,
+    runRules
+};
@@ -0,0 +1,188 @@
+const { normaliseDescription } = require('./duplicates');
+const { parseTransactionQuery } = require('./transactionQuery');
+
+// Transactions read per storage call while training
+const TRAIN_PAGE_SIZE = 500;
+// Categories offered per transaction, best first
+const MAX_SUGGESTIONS = 3;
+// Amount buckets, so "about 50" counts as evidence alongside the words
+const AMOUNT_BUCKETS = [5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000];
+
+// A naive Bayes model per user, kept in memory. It is trained from the
+// user's categorised transactions the first time it is asked for, then
+// updated as transactions are saved and deleted. Changes that touch many
+// transactions at once (renames, merges, reverted imports) drop it so the
+// next request trains it again.
+const models = new Map();
+
+const amountFeature = (amount) => {
+    const bucket = AMOUNT_BUCKETS.findIndex(limit => amount < limit);
+    return `amount:${bucket === -1 ? AMOUNT_BUCKETS.length : bucket}`;
+};
+
+// Description words plus the amount bucket. Numbers on their own, such as
+// card or reference numbers, say nothing about the category.
+function extractFeatures(transaction) {
+    const words = normaliseDescription(transaction.description)
+        .split(' ')
+        .filter(word => word.length > 1 && !/^\d+$/.test(word));
+    const features = [...new Set(words)];
+    if (Number.isFinite(transaction.amount)) features.push(amountFeature(Math.abs(transaction.amount)));
+    return features;
+}
+
+// Transfers have no category of their own to learn
+const isLabelled = (transaction) =>
+    (transaction.type === 'income' || transaction.type === 'expense') && Boolean(transaction.category);
+
+function createModel() {
+    return {
+        training: null,
+        // Learned transactions by id, so an edit or delete can be undone
+        examples: new Map(),
+        // Per type: { categories: Map(category -> { count, words, features: Map }), vocabulary: Map }
+        types: new Map()
+    };
+}
+
+function adjust(model, { type, category, features }, delta) {
+    if (!model.types.has(type)) model.types.set(type, { total: 0, categories: new Map(), vocabulary: new Map() });
+    const byType = model.types.get(type);
+    let entry = byType.categories.get(category);
+    if (!entry) {
+        entry = { count: 0, words: 0, features: new Map() };
+        byType.categories.set(category, entry);
+    }
+    byType.total += delta;
+    entry.count += delta;
+    entry.words += delta * features.length;
+    for (const feature of features) {
+        entry.features.set(feature, (entry.features.get(feature) ?? 0) + delta);
+        byType.vocabulary.set(feature, (byType.vocabulary.get(feature) ?? 0) + delta);
+        if (entry.features.get(feature) === 0) entry.features.delete(feature);
+        if (byType.vocabulary.get(feature) === 0) byType.vocabulary.delete(feature);
+    }
+    if (entry.count === 0) byType.categories.delete(category);
+}
+
+function forget(model, id) {
+    const example = model.examples.get(id);
+    if (!example) return;
+    adjust(model, example, -1);
+    model.examples.delete(id);
+}
+
+function learn(model, transaction) {
+    const id = String(transaction._id);
+    forget(model, id);
+    if (!isLabelled(transaction)) return;
+    const example = { type: transaction.type, category: transaction.category, features: extractFeatures(transaction) };
+    adjust(model, example, 1);
+    model.examples.set(id, example);
+}
+
+async function train(storage, userId) {
+    const model = createModel();
+    const pageQuery = (cursor) => parseTransactionQuery({ limit: TRAIN_PAGE_SIZE, sort: 'date', order: 'asc', cursor }).criteria;
+    let page = await storage.transactions.list(userId, pageQuery(undefined));
+    for (;;) {
+        page.items.forEach(transaction => learn(model, transaction));
+        if (!page.nextCursor) break;
+        page = await storage.transactions.list(userId, pageQuery(page.nextCursor));
+    }
+    return model;
+}
+
+// The user's model, training it first when there is none. Concurrent
+// requests share one training run, and transactions saved or deleted while
+// it runs are applied once it is done.
+async function getModel(storage, userId) {
+    const key = String(userId);
+    let entry = models.get(key);
+    if (!entry) {
+        entry = { training: null, pending: [] };
+        entry.training = train(storage, userId).then(model => {
+            entry.pending.forEach(change => change(model));
+            if (models.get(key) === entry) models.set(key, model);
+            return model;
+        }, error => {
+            if (models.get(key) === entry) models.delete(key);
+            throw error;
+        });
+        models.set(key, entry);
+    }
+    return entry.training ? entry.training : entry;
+}
+
+// Apply a change to the user's model, now or once it has trained. Users
+// without a model pick the change up from storage when it is trained.
+function updateModel(userId, change) {
+    const entry = models.get(String(userId));
+    if (!entry) return;
+    if (entry.training) entry.pending.push(change);
+    else change(entry);
+}
+
+// Categories for one transaction, best first, with a confidence from 0 to 1.
+// Words the user has never used don't count either way, and without a single
+// known word there is nothing to suggest.
+function classify(model, transaction) {
+    // The type comes from the client, so it is only ever used as a Map key
+    const byType = model.types.get(transaction.type);
+    if (!byType || byType.categories.size === 0) return [];
+    const features = extractFeatures(transaction).filter(feature => byType.vocabulary.has(feature));
+    if (!features.some(feature => !feature.startsWith('amount:'))) return [];
+    const vocabularySize = byType.vocabulary.size;
+
+    const scores = [...byType.categories].map(([category, entry]) => {
+        let score = Math.log(entry.count / byType.total);
+        for (const feature of features) {
+            // Laplace smoothing, so one unseen word doesn't rule a category out
+            score += Math.log(((entry.features.get(feature) ?? 0) + 1) / (entry.words + vocabularySize));
+        }
+        return { category, score };
+    });
+
+    // Normalise the log scores into probabilities
+    const best = Math.max(...scores.map(item => item.score));
+    const total = scores.reduce((sum, item) => sum + Math.exp(item.score - best), 0);
+    return scores
+        .map(({ category, score }) => ({ category, confidence: Math.round(Math.exp(score - best) / total * 100) / 100 }))
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, MAX_SUGGESTIONS);
+}
+
+// Suggested categories for transactions that aren't saved yet, as
+// [{ index, category, confidence, alternatives }]. Transactions with nothing
+// to go on, such as transfers or types the user never categorised, are left
+// out.
+async function suggestCategories(storage, userId, transactions) {
+    const model = await getModel(storage, userId);
+    const suggestions = [];
+    transactions.forEach((transaction, index) => {
+        const [best, ...alternatives] = classify(model, transaction);
+        if (best) suggestions.push({ index, ...best, alternatives });
+    });
+    return suggestions;
+}
+
+// Keep the model up to date as transactions are saved and deleted
+function recordTransaction(userId, transaction) {
+    updateModel(userId, model => learn(model, transaction));
+}
+
+function forgetTransaction(userId, transaction) {
+    updateModel(userId, model => forget(model, String(transaction._id)));
+}
+
+// Drop a user's model after a change to many transactions at once
+function resetModel(userId) {
+    models.delete(String(userId));
+}
+
+module.exports = {
+    suggestCategories,
+    recordTransaction,
+    forgetTransaction,
+    resetModel
+};
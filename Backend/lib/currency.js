@@ -0,0 +1,128 @@
+// Amounts recorded before currencies existed were all in dollars
+const DEFAULT_CURRENCY = 'USD';
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+// Normalise an ISO 4217 code such as "eur" to "EUR". Returns null when invalid.
+function parseCurrency(value) {
+    if (typeof value !== 'string') return null;
+    const code = value.trim().toUpperCase();
+    return CURRENCY_PATTERN.test(code) ? code : null;
+}
+
+// Calendar day (UTC) used to pick the exchange rate for a date
+function toDay(date) {
+    return new Date(date).toISOString().slice(0, 10);
+}
+
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+// Build a converter from a user's exchange-rate table. Each rate says that
+// one `from` is worth `rate` of `to` on `date`; the inverse direction is
+// derived. A conversion uses the latest rate on or before the requested day,
+// or the earliest known rate for older days. Without a `date` the latest rate
+// is used, which is what balances want. Pairs without any rate are converted
+// through the base currency when possible and otherwise count as zero; they
+// are collected in missingRates() so reports can warn about them.
+function createConverter(rates, baseCurrency = DEFAULT_CURRENCY) {
+    const series = new Map();
+    const addPoint = (from, to, day, rate) => {
+        const key = `${from}/${to}`;
+        if (!series.has(key)) series.set(key, []);
+        series.get(key).push({ day, rate });
+    };
+    for (const rate of rates) {
+        const day = toDay(rate.date);
+        addPoint(rate.from, rate.to, day, rate.rate);
+        addPoint(rate.to, rate.from, day, 1 / rate.rate);
+    }
+    for (const points of series.values()) {
+        points.sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0));
+    }
+
+    const rateFor = (from, to, day) => {
+        const points = series.get(`${from}/${to}`);
+        if (!points) return null;
+        let chosen = points[0];
+        for (const point of points) {
+            if (point.day > day) break;
+            chosen = point;
+        }
+        return chosen.rate;
+    };
+
+    const missing = new Set();
+
+    function convert(amount, currency, { date = null, to = baseCurrency } = {}) {
+        const from = currency || DEFAULT_CURRENCY;
+        if (from === to || amount === 0) return amount;
+
+        const day = date ? toDay(date) : '9999-12-31';
+        let rate = rateFor(from, to, day);
+        if (rate === null && from !== baseCurrency && to !== baseCurrency) {
+            const toBase = rateFor(from, baseCurrency, day);
+            const fromBase = rateFor(baseCurrency, to, day);
+            if (toBase !== null && fromBase !== null) rate = toBase * fromBase;
+        }
+        if (rate === null) {
+            missing.add(`${from}/${to}`);
+            return 0;
+        }
+        return amount * rate;
+    }
+
+    return {
+        baseCurrency,
+        convert,
+        missingRates: () => [...missing].sort()
+    };
+}
+
+// Converter for a user's base currency and exchange-rate table
+async function loadConverter(storage, userId) {
+    const [user, rates] = await Promise.all([
+        storage.users.findById(userId),
+        storage.exchangeRates.list(userId)
+    ]);
+    return createConverter(rates, user?.baseCurrency || DEFAULT_CURRENCY);
+}
+
+// Transactions without an explicit currency take their account's, falling
+// back to the user's base currency
+async function resolveCurrency(storage, userId, transaction) {
+    if (transaction.currency) return transaction.currency;
+    if (transaction.accountId) {
+        const account = await storage.accounts.findById(userId, String(transaction.accountId));
+        if (account?.currency) return account.currency;
+    }
+    const user = await storage.users.findById(userId);
+    return user?.baseCurrency || DEFAULT_CURRENCY;
+}
+
+// Split "date,from,to,rate" lines, e.g. exported from a bank or a rates site,
+// into raw rows with their 1-based line number. A header row and blank lines
+// are skipped; commas or semicolons separate columns.
+function parseRatesCsv(text) {
+    const rows = [];
+
+    String(text).split(/\r?\n/).forEach((line, index) => {
+        if (!line.trim()) return;
+        const cells = line.split(/[,;]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+        if (index === 0 && isNaN(new Date(cells[0]).getTime())) return;
+
+        const [date, from, to, rate] = cells;
+        rows.push({ line: index + 1, data: { date, from, to, rate } });
+    });
+
+    return rows;
+}
+
+module.exports = {
+    DEFAULT_CURRENCY,
+    parseCurrency,
+    toDay,
+    roundMoney,
+    createConverter,
+    loadConverter,
+    resolveCurrency,
+    parseRatesCsv
+};
@@ -0,0 +1,115 @@
+const { DEFAULT_CURRENCY } = require('./currency');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Banks can book a payment a couple of days after it was made, so dates
+// within this many days of each other still count as the same day
+const DEFAULT_TOLERANCE = { days: 2, amount: 0 };
+const MAX_TOLERANCE_DAYS = 31;
+
+// The user's matching tolerance, falling back to the defaults
+function resolveTolerance(user) {
+    return { ...DEFAULT_TOLERANCE, ...user?.duplicateTolerance };
+}
+
+// Check a { days, amount } tolerance from the settings form
+function parseTolerance(input) {
+    if (!input || typeof input !== 'object') {
+        return { error: 'Duplicate tolerance must be an object with days and amount' };
+    }
+    const days = Number(input.days);
+    if (!Number.isInteger(days) || days < 0 || days > MAX_TOLERANCE_DAYS) {
+        return { error: `Tolerance days must be a whole number from 0 to ${MAX_TOLERANCE_DAYS}` };
+    }
+    const amount = Number(input.amount);
+    if (!Number.isFinite(amount) || amount < 0) {
+        return { error: 'Tolerance amount must be zero or a positive number' };
+    }
+    return { value: { days, amount } };
+}
+
+// Lower case words without punctuation, so "AMAZON.COM*MK1" and
+// "Amazon com MK1" compare equal
+function normaliseDescription(text) {
+    return String(text ?? '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+// Whole days since the epoch, in UTC like the stored dates
+const dayNumber = (date) => Math.floor(new Date(date).getTime() / DAY_MS);
+
+// Same type, account and currency, amounts and dates within the tolerance,
+// and one description equal to or contained in the other (exports often
+// truncate them). When both come from bank statements their ids decide.
+function isLikelyDuplicate(a, b, tolerance) {
+    if (a.type !== b.type) return false;
+    if (String(a.accountId || '') !== String(b.accountId || '')) return false;
+    if (a.externalId && b.externalId) return a.externalId === b.externalId;
+    if ((a.currency || DEFAULT_CURRENCY) !== (b.currency || DEFAULT_CURRENCY)) return false;
+    // Half a cent of slack for floating point
+    if (Math.abs(a.amount - b.amount) > tolerance.amount + 0.005) return false;
+    if (Math.abs(dayNumber(a.date) - dayNumber(b.date)) > tolerance.days) return false;
+
+    const first = normaliseDescription(a.description);
+    const second = normaliseDescription(b.description);
+    if (!first || !second) return first === second;
+    return first.includes(second) || second.includes(first);
+}
+
+// Existing transactions each candidate probably duplicates. Only candidates
+// with at least one match are listed.
+function findMatches(candidates, existing, tolerance) {
+    return candidates
+        .map((candidate, index) => ({
+            index,
+            transactions: existing.filter(transaction => isLikelyDuplicate(candidate, transaction, tolerance))
+        }))
+        .filter(match => match.transactions.length > 0);
+}
+
+// The date range to load existing transactions from when checking candidates
+function matchRange(candidates, tolerance) {
+    const days = candidates.map(candidate => dayNumber(candidate.date));
+    return {
+        from: new Date((Math.min(...days) - tolerance.days) * DAY_MS),
+        to: new Date((Math.max(...days) + tolerance.days + 1) * DAY_MS - 1)
+    };
+}
+
+// Groups of existing transactions that look like copies of each other,
+// newest first. `transactions` must be sorted by date.
+function findDuplicateGroups(transactions, tolerance) {
+    // Union-find over every likely pair; pairs are only looked for within
+    // the date window, which keeps this close to linear
+    const parent = transactions.map((_, index) => index);
+    const root = (index) => (parent[index] === index ? index : (parent[index] = root(parent[index])));
+
+    for (let i = 0; i < transactions.length; i++) {
+        const day = dayNumber(transactions[i].date);
+        for (let j = i + 1; j < transactions.length; j++) {
+            if (dayNumber(transactions[j].date) - day > tolerance.days) break;
+            if (isLikelyDuplicate(transactions[i], transactions[j], tolerance)) {
+                parent[root(j)] = root(i);
+            }
+        }
+    }
+
+    const groups = new Map();
+    transactions.forEach((transaction, index) => {
+        const key = root(index);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key).push(transaction);
+    });
+    return [...groups.values()]
+        .filter(group => group.length > 1)
+        .reverse();
+}
+
+module.exports = {
+    DEFAULT_TOLERANCE,
+    resolveTolerance,
+    parseTolerance,
+    normaliseDescription,
+    isLikelyDuplicate,
+    findMatches,
+    matchRange,
+    findDuplicateGroups
+};
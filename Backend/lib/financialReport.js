@@ -0,0 +1,129 @@
+const { DEFAULT_CURRENCY, roundMoney } = require('./currency');
+const { listCategories, colorFor } = require('./categories');
+const { normaliseName } = require('./payees');
+const {
+    MONTH_NAMES,
+    percentChange,
+    addUtcMonths,
+    monthlyTotals,
+    expenseCategoryTotals,
+    summarisePeriods
+} = require('./reports');
+
+const TOP_MERCHANTS = 10;
+// A monthly report's overview also shows the months leading up to it, as
+// the Dashboard does, since a table of one month says little
+const MONTHLY_CONTEXT_MONTHS = 5;
+
+// Spending grouped by merchant, biggest first. Expenses with a payee are
+// grouped under it and named after it; the rest by their description,
+// ignoring case and punctuation, and named after the latest spelling.
+// `payeeNames` maps payee ids to names.
+function topMerchants(transactions, converter, payeeNames) {
+    const merchants = new Map();
+    for (const transaction of transactions) {
+        if (transaction.type !== 'expense') continue;
+        const payeeName = transaction.payeeId ? payeeNames.get(String(transaction.payeeId)) : undefined;
+        const key = payeeName !== undefined
+            ? `payee:${transaction.payeeId}`
+            : `description:${normaliseName(transaction.description)}`;
+        if (key === 'description:') continue;
+        const entry = merchants.get(key) || { name: '', total: 0, count: 0 };
+        entry.name = payeeName ?? transaction.description.trim();
+        entry.total += converter.convert(transaction.amount, transaction.currency, { date: transaction.date });
+        entry.count += 1;
+        merchants.set(key, entry);
+    }
+    return [...merchants.values()]
+        .sort((a, b) => b.total - a.total)
+        .slice(0, TOP_MERCHANTS)
+        .map(entry => ({ ...entry, total: roundMoney(entry.total) }));
+}
+
+// Everything a printable report shows for a period from parseReportPeriod:
+// the headline figures against the previous period, the monthly overview,
+// spending by category, the top merchants and every transaction. Totals are
+// in the base currency; ledger amounts stay in their own currency.
+async function buildFinancialReport(storage, userId, converter, period) {
+    const { template, range, comparison, label, previousLabel } = period;
+    const overviewRange = template === 'monthly'
+        ? { from: addUtcMonths(range.from, -MONTHLY_CONTEXT_MONTHS), to: range.to }
+        : range;
+
+    const [periods, months, current, previous, categories, transactions, accounts, payees] = await Promise.all([
+        summarisePeriods(storage, userId, converter, range, comparison),
+        monthlyTotals(storage, userId, converter, overviewRange),
+        expenseCategoryTotals(storage, userId, converter, range),
+        expenseCategoryTotals(storage, userId, converter, comparison),
+        listCategories(storage, userId),
+        storage.transactions.listInRange(userId, range),
+        storage.accounts.list(userId),
+        storage.payees.list(userId)
+    ]);
+    const summary = periods.current;
+    const earlier = periods.previous;
+
+    const totalSpent = [...current.values()].reduce((sum, value) => sum + value, 0);
+    const categoryRows = [...current]
+        .map(([name, value]) => {
+            const category = categories.find(item => item.name === name);
+            const previousValue = previous.get(name) || 0;
+            return {
+                name,
+                value: roundMoney(value),
+                share: totalSpent > 0 ? Math.round(value / totalSpent * 1000) / 10 : 0,
+                color: category?.color || colorFor(name),
+                previousValue: roundMoney(previousValue),
+                change: percentChange(value, previousValue)
+            };
+        })
+        .sort((a, b) => b.value - a.value);
+
+    const accountNames = new Map(accounts.map(account => [String(account._id), account.name]));
+    const ledger = transactions.map(transaction => ({
+        _id: transaction._id,
+        date: transaction.date,
+        type: transaction.type,
+        description: transaction.description,
+        category: transaction.category,
+        account: accountNames.get(String(transaction.accountId)) || '',
+        // Transfers only
+        toAccount: accountNames.get(String(transaction.toAccountId)) || '',
+        amount: transaction.amount,
+        currency: transaction.currency || DEFAULT_CURRENCY
+    }));
+
+    return {
+        template,
+        period: { label, from: range.from.toISOString(), to: range.to.toISOString() },
+        comparison: { label: previousLabel, from: comparison.from.toISOString(), to: comparison.to.toISOString() },
+        baseCurrency: converter.baseCurrency,
+        summary: {
+            income: roundMoney(summary.income),
+            expenses: roundMoney(summary.expenses),
+            net: roundMoney(summary.income - summary.expenses),
+            savingsRate: Math.round(summary.savingsRate * 10) / 10,
+            closingBalance: roundMoney(summary.totalBalance),
+            changes: {
+                income: percentChange(summary.income, earlier.income),
+                expenses: percentChange(summary.expenses, earlier.expenses),
+                savingsRate: Math.round((summary.savingsRate - earlier.savingsRate) * 10) / 10,
+                closingBalance: percentChange(summary.totalBalance, earlier.totalBalance)
+            }
+        },
+        months: months.map(item => ({
+            month: MONTH_NAMES[item.month - 1],
+            year: item.year,
+            income: item.income,
+            expenses: item.expenses,
+            net: roundMoney(item.income - item.expenses)
+        })),
+        categories: categoryRows,
+        merchants: topMerchants(transactions, converter, new Map(payees.map(payee => [String(payee._id), payee.name]))),
+        ledger,
+        generatedAt: new Date().toISOString(),
+        missingRates: converter.missingRates()
+    };
+}
+
+module.exports = { buildFinancialReport };
@@ -0,0 +1,76 @@
+const { createWorker, OEM } = require('tesseract.js');
+
+// Photos are read by Tesseract compiled to WebAssembly (tesseract.js), so
+// receipts never leave the server and nothing has to be installed beside
+// the npm packages. It runs in a worker thread, so a slow photo doesn't
+// hold up other requests. Language data is read from the configured
+// directory as gzipped <language>.traineddata.gz files; English comes with
+// the @tesseract.js-data/eng package.
+const OCR_TIMEOUT_MS = 60 * 1000;
+
+// One worker per configuration, started on the first photo and kept for
+// the next ones. Its jobs run one after the other.
+const workers = new Map();
+
+function getWorker({ langDir, languages }) {
+    const key = `${langDir}|${languages}`;
+    if (!workers.has(key)) {
+        const worker = createWorker(languages, OEM.LSTM_ONLY, {
+            langPath: langDir,
+            gzip: true,
+            // The language data is already on disk; never write a copy
+            cacheMethod: 'none',
+            errorHandler: error => console.error('OCR worker error:', error)
+        });
+        // A worker that failed to start is tried again on the next photo
+        worker.catch(() => workers.delete(key));
+        workers.set(key, worker);
+    }
+    return workers.get(key);
+}
+
+// Drop a worker that is stuck on a photo, so the next one starts afresh
+async function discardWorker(config) {
+    const key = `${config.langDir}|${config.languages}`;
+    const worker = workers.get(key);
+    workers.delete(key);
+    try {
+        await (await worker)?.terminate();
+    } catch {
+        // Already gone
+    }
+}
+
+// The text Tesseract finds in an image, as { lines }, or { error } when the
+// language data is missing or the image can't be read
+async function recognizeImage(buffer, config) {
+    let worker;
+    try {
+        worker = await getWorker(config);
+    } catch (error) {
+        console.error('Error starting OCR:', error);
+        return { error: "Reading photos isn't set up on this server. Enter the details by hand, or upload a PDF receipt." };
+    }
+
+    let timer;
+    const timeout = new Promise(resolve => {
+        timer = setTimeout(() => resolve(null), OCR_TIMEOUT_MS);
+    });
+    try {
+        const result = await Promise.race([worker.recognize(buffer), timeout]);
+        if (!result) {
+            await discardWorker(config);
+            return { error: 'Reading the photo took too long' };
+        }
+        const lines = result.data.text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+        return { lines };
+    } catch (error) {
+        // Usually an image format Tesseract can't decode
+        const message = String(error?.message ?? error).replace(/^Error: /, '').split('\n')[0];
+        return { error: `Couldn't read the photo: ${message}` };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+module.exports = { recognizeImage };
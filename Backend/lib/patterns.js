@@ -0,0 +1,99 @@
+const vm = require('vm');
+
+// Patterns users write for payees and categorisation rules. They are
+// JavaScript regular expressions matched ignoring case, so a careless one
+// can backtrack for minutes. Patterns that obviously would are refused when
+// saved, and every match runs under a time limit for the ones that slip
+// through.
+
+// Longest one pass of a request's patterns over a description may run
+const MATCH_TIMEOUT_MS = 100;
+
+// Quantifiers, and the ones that let what they follow repeat
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})/;
+const REPEAT = /^(?:[*+]|\{\d+,\d*\})/;
+
+// Whether a pattern repeats a group that holds a quantifier or a choice of
+// its own, such as (a+)+, (\w*\s)* or (a|aa)+. Those can take exponentially
+// long to fail on a long description.
+function hasNestedRepeat(pattern) {
+    // One entry per open group: whether anything inside it is quantified
+    // or offers alternatives
+    const groups = [];
+    const mark = () => {
+        if (groups.length > 0) groups[groups.length - 1] = true;
+    };
+    for (let i = 0; i < pattern.length; i += 1) {
+        const char = pattern[i];
+        if (char === '\\') {
+            i += 1;
+        } else if (char === '[') {
+            // Nothing in a character class is a group, a choice or a quantifier
+            for (i += 1; i < pattern.length && pattern[i] !== ']'; i += 1) {
+                if (pattern[i] === '\\') i += 1;
+            }
+        } else if (char === '(') {
+            groups.push(false);
+        } else if (char === ')') {
+            const ambiguousInside = groups.pop();
+            if (ambiguousInside && REPEAT.test(pattern.slice(i + 1))) return true;
+            if (ambiguousInside) mark();
+        } else if (char === '|') {
+            mark();
+        } else if (QUANTIFIER.test(pattern.slice(i)) && pattern[i - 1] !== '(') {
+            // A ? straight after ( starts (?: and the like instead
+            mark();
+        }
+    }
+    return false;
+}
+
+// Compile a user's pattern, matched ignoring case. Returns { value } with
+// the RegExp, or { error } finishing a sentence about the pattern.
+function compilePattern(pattern) {
+    let value;
+    try {
+        value = new RegExp(pattern, 'i');
+    } catch {
+        return { error: 'is not a valid regular expression' };
+    }
+    if (hasNestedRepeat(pattern)) {
+        return { error: 'repeats a group holding a repeat or a choice, such as (a+)+ or (a|aa)+, which can take too long to match' };
+    }
+    return { value };
+}
+
+// Matching runs in a context of its own, which is what lets the time limit
+// stop a pattern part way through. `progress` tells which one was running.
+const context = vm.createContext({ patterns: [], text: '', progress: { index: 0 } });
+const testAll = new vm.Script(`patterns.map((pattern, index) => {
+    progress.index = index;
+    return pattern !== null && pattern.test(text);
+})`);
+
+// A function telling which of `patterns` (RegExps, or null for none) match
+// a text, as an array of booleans. Build one per request: a pattern that
+// runs out of time is reported and left out for the rest of it.
+function createPatternTester(patterns) {
+    const active = [...patterns];
+    return (text) => {
+        if (active.every(pattern => pattern === null)) return active.map(() => false);
+        for (;;) {
+            Object.assign(context, { patterns: active, text: String(text ?? ''), progress: { index: 0 } });
+            try {
+                return [...testAll.runInContext(context, { timeout: MATCH_TIMEOUT_MS })];
+            } catch (error) {
+                if (error.code !== 'ERR_SCRIPT_EXECUTION_TIMEOUT') throw error;
+                const { index } = context.progress;
+                console.warn(`Pattern /${active[index].source}/ took too long to match and was skipped`);
+                active[index] = null;
+            }
+        }
+    };
+}
+
+module.exports = {
+    hasNestedRepeat,
+    compilePattern,
+    createPatternTester
+};
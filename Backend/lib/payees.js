@@ -0,0 +1,94 @@
+const { parseTransactionQuery } = require('./transactionQuery');
+const { compilePattern, createPatternTester } = require('./patterns');
+
+// Transactions read per storage call while matching payees
+const MATCH_PAGE_SIZE = 500;
+
+// Lower case with runs of punctuation and spaces folded into one space, so
+// "Amazon.com" and "AMAZON COM" compare equal
+const normaliseName = (text) => String(text ?? '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// A function giving the payee a description belongs to: the one whose name
+// or an alias is the whole description, or else the first, by name, with a
+// pattern matching part of it, or null when none fits. Patterns are
+// compiled once and run under a time limit (see lib/patterns.js), so build
+// one matcher per request; patterns saved before validation refused slow
+// ones are skipped.
+function createPayeeMatcher(payees) {
+    const ordered = [...payees].sort((a, b) => a.name.localeCompare(b.name));
+    const names = ordered.map(payee => new Set([payee.name, ...payee.aliases].map(normaliseName)));
+    // Every payee's patterns in one list, with the payee each belongs to
+    const owners = [];
+    const patterns = [];
+    for (const payee of ordered) {
+        for (const pattern of payee.patterns) {
+            const { value } = compilePattern(pattern);
+            if (!value) continue;
+            owners.push(payee);
+            patterns.push(value);
+        }
+    }
+    const testPatterns = createPatternTester(patterns);
+
+    return (description) => {
+        const text = normaliseName(description);
+        if (!text) return null;
+        const named = names.findIndex(set => set.has(text));
+        if (named !== -1) return ordered[named];
+        if (patterns.length === 0) return null;
+        const matched = testPatterns(description).indexOf(true);
+        return matched === -1 ? null : owners[matched];
+    };
+}
+
+// Give a new transaction that came without a payee the one its description
+// matches. Transfers, and transactions sent with a payee or with
+// `payeeId: null`, are left as they are.
+async function fillPayee(storage, userId, input) {
+    if (input.payeeId !== undefined || input.type === 'transfer') return input;
+    const payee = createPayeeMatcher(await storage.payees.list(userId))(input.description);
+    return payee ? { ...input, payeeId: String(payee._id) } : input;
+}
+
+// Make sure a transaction's payee is one of the user's. Returns an error
+// message, or null when it is fine.
+async function checkTransactionPayee(storage, userId, transaction) {
+    if (!transaction.payeeId) return null;
+    const payee = await storage.payees.findById(userId, String(transaction.payeeId));
+    return payee ? null : 'Payee not found';
+}
+
+// Give every recorded income or expense without a payee the one its
+// description matches, such as after adding a payee or an alias. Returns
+// { scanned, matched }.
+async function matchRecordedTransactions(storage, userId) {
+    const payees = await storage.payees.list(userId);
+    const summary = { scanned: 0, matched: 0 };
+    if (payees.length === 0) return summary;
+    const matchPayee = createPayeeMatcher(payees);
+
+    const pageQuery = (cursor) =>
+        parseTransactionQuery({ limit: MATCH_PAGE_SIZE, sort: 'date', order: 'asc', type: 'income,expense', cursor }).criteria;
+    let page = await storage.transactions.list(userId, pageQuery(undefined));
+    for (;;) {
+        for (const transaction of page.items) {
+            summary.scanned += 1;
+            if (transaction.payeeId) continue;
+            const payee = matchPayee(transaction.description);
+            if (!payee) continue;
+            await storage.transactions.update(userId, String(transaction._id), { payeeId: String(payee._id) });
+            summary.matched += 1;
+        }
+        if (!page.nextCursor) break;
+        page = await storage.transactions.list(userId, pageQuery(page.nextCursor));
+    }
+    return summary;
+}
+
+module.exports = {
+    normaliseName,
+    createPayeeMatcher,
+    fillPayee,
+    checkTransactionPayee,
+    matchRecordedTransactions
+};
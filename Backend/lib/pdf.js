@@ -0,0 +1,177 @@
+// A small PDF writer for generated reports: A4 pages with text in the
+// standard Helvetica fonts, filled rectangles and lines. The standard fonts
+// need no embedding, so documents stay small and nothing has to be
+// installed. Coordinates are in points from the top left of the page.
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+
+// Advance widths (1/1000 em) of characters 32-126 in Helvetica and
+// Helvetica-Bold, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+// Accented letters and symbols are about as wide as a digit
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has
+const WIN_ANSI_EXTRAS = {
+    '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+    '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+    '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+    'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// The WinAnsi code of a character, or null when the standard fonts can't
+// show it
+function winAnsiCode(char) {
+    const code = char.codePointAt(0);
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+    return WIN_ANSI_EXTRAS[char] ?? null;
+}
+
+// Whether every character of a text can be shown
+function canEncode(text) {
+    return [...String(text)].every(char => winAnsiCode(char) !== null);
+}
+
+// Text as a PDF string literal in WinAnsi, with characters the fonts can't
+// show replaced by "?"
+function encodeText(text) {
+    return [...String(text)].map(char => {
+        const code = winAnsiCode(char) ?? 63;
+        const byte = String.fromCharCode(code);
+        return byte === '(' || byte === ')' || byte === '\\' ? `\\${byte}` : byte;
+    }).join('');
+}
+
+function textWidth(text, size, bold = false) {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of String(text)) {
+        const code = char.codePointAt(0);
+        total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+    }
+    return total * size / 1000;
+}
+
+// Cut text to a width, ending it with an ellipsis when anything was cut
+function fitText(text, size, maxWidth, bold = false) {
+    const value = String(text);
+    if (textWidth(value, size, bold) <= maxWidth) return value;
+    let fitted = value;
+    while (fitted && textWidth(`${fitted}…`, size, bold) > maxWidth) {
+        fitted = fitted.slice(0, -1);
+    }
+    return `${fitted.trimEnd()}…`;
+}
+
+// "#3b82f6" as the "r g b" operands of a colour operator
+function rgb(hex) {
+    const value = /^#?([0-9a-f]{6})$/i.exec(hex || '')?.[1] ?? '000000';
+    return [0, 2, 4].map(offset => (parseInt(value.slice(offset, offset + 2), 16) / 255).toFixed(3)).join(' ');
+}
+
+const number = (value) => Number(value.toFixed(2));
+
+function createPage() {
+    const operations = [];
+    const y = (top) => number(PAGE_HEIGHT - top);
+
+    return {
+        width: PAGE_WIDTH,
+        height: PAGE_HEIGHT,
+
+        // Text with its baseline at `top`. `align` right or center measures
+        // from `x`; `maxWidth` cuts long text short.
+        text(x, top, value, { size = 10, bold = false, color = '#000000', align = 'left', maxWidth } = {}) {
+            const text = maxWidth ? fitText(value, size, maxWidth, bold) : String(value);
+            const width = textWidth(text, size, bold);
+            const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+            operations.push(
+                `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${rgb(color)} rg ${number(left)} ${y(top)} Td (${encodeText(text)}) Tj ET`
+            );
+        },
+
+        rect(x, top, width, height, { fill = '#000000' } = {}) {
+            operations.push(`${rgb(fill)} rg ${number(x)} ${y(top + height)} ${number(width)} ${number(height)} re f`);
+        },
+
+        line(x1, top1, x2, top2, { color = '#000000', width = 0.5 } = {}) {
+            operations.push(`${rgb(color)} RG ${width} w ${number(x1)} ${y(top1)} m ${number(x2)} ${y(top2)} l S`);
+        },
+
+        content: () => operations.join('\n')
+    };
+}
+
+// A document to add pages to; toBuffer() writes the file
+function createPdfDocument({ title = '' } = {}) {
+    const pages = [];
+
+    return {
+        pages,
+
+        addPage() {
+            const page = createPage();
+            pages.push(page);
+            return page;
+        },
+
+        toBuffer() {
+            // Objects 1-4 are the catalog, page tree, fonts and info; each
+            // page then takes a page object and its content stream
+            const objects = [];
+            const pageIds = pages.map((_, index) => 6 + index * 2);
+            objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+            objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+            objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+            objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+            objects[5] = `<< /Title (${encodeText(title)}) /Producer (Finance Tracker) >>`;
+            pages.forEach((page, index) => {
+                const content = page.content();
+                objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+                    `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+                objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+            });
+
+            // Text was encoded to single bytes above, so latin1 keeps every
+            // offset in the cross-reference table exact
+            let output = '%PDF-1.4\n';
+            const offsets = [];
+            for (let id = 1; id < objects.length; id++) {
+                offsets[id] = Buffer.byteLength(output, 'latin1');
+                output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+            }
+            const xref = Buffer.byteLength(output, 'latin1');
+            output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+            for (let id = 1; id < objects.length; id++) {
+                output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+            }
+            output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+            return Buffer.from(output, 'latin1');
+        }
+    };
+}
+
+module.exports = {
+    PAGE_WIDTH,
+    PAGE_HEIGHT,
+    canEncode,
+    textWidth,
+    fitText,
+    createPdfDocument
+};
@@ -0,0 +1,493 @@
+const zlib = require('zlib');
+
+// Reads the text layer of a PDF, line by line, the way it appears on the
+// page. Receipts e-mailed as PDFs and most till and web-shop exports carry
+// real text, so this needs no OCR. Scanned PDFs are just pictures and come
+// back without any text. Supports Flate-compressed streams, object streams
+// and fonts with ToUnicode maps; encrypted documents are not read.
+
+// Runs on the same line may sit this many points apart vertically
+const LINE_TOLERANCE = 3;
+// A TJ adjustment (1/1000 em) larger than this stands for a space
+const SPACE_ADJUSTMENT = 200;
+// Bytes all the streams of one document may inflate to. A few kilobytes of
+// deflated zeros expand to gigabytes; a receipt needs nowhere near this.
+const MAX_DECODED_BYTES = 32 * 1024 * 1024;
+
+// WinAnsi codes 128-159 that differ from Latin-1
+const WIN_ANSI_HIGH = {
+    0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡', 0x88: 'ˆ',
+    0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž', 0x91: '‘', 0x92: '’', 0x93: '“',
+    0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—', 0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›',
+    0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ'
+};
+
+const isWhitespace = (char) => char === ' ' || char === '\n' || char === '\r' || char === '\t' || char === '\f' || char === '\0';
+const isDelimiter = (char) => '()<>[]{}/%'.includes(char);
+
+// A tokenizer over PDF syntax, used both for objects and content streams.
+// Strings come back as { string } holding the raw bytes as latin1, names as
+// { name }, references as { ref } and operators as { op }.
+function createLexer(source, position = 0) {
+    let pos = position;
+
+    const skipSpace = () => {
+        while (pos < source.length) {
+            if (isWhitespace(source[pos])) {
+                pos++;
+            } else if (source[pos] === '%') {
+                while (pos < source.length && source[pos] !== '\n' && source[pos] !== '\r') pos++;
+            } else {
+                break;
+            }
+        }
+    };
+
+    const readLiteralString = () => {
+        let depth = 1;
+        let value = '';
+        pos++;
+        while (pos < source.length) {
+            const char = source[pos++];
+            if (char === '\\') {
+                const next = source[pos++];
+                if (next === 'n') value += '\n';
+                else if (next === 'r') value += '\r';
+                else if (next === 't') value += '\t';
+                else if (next === 'b') value += '\b';
+                else if (next === 'f') value += '\f';
+                else if (next === '\r' || next === '\n') {
+                    if (next === '\r' && source[pos] === '\n') pos++;
+                } else if (next >= '0' && next <= '7') {
+                    let octal = next;
+                    while (octal.length < 3 && source[pos] >= '0' && source[pos] <= '7') octal += source[pos++];
+                    value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+                } else {
+                    value += next ?? '';
+                }
+            } else if (char === '(') {
+                depth++;
+                value += char;
+            } else if (char === ')') {
+                if (--depth === 0) break;
+                value += char;
+            } else {
+                value += char;
+            }
+        }
+        return { string: value };
+    };
+
+    const readHexString = () => {
+        const end = source.indexOf('>', pos);
+        const hex = source.slice(pos + 1, end === -1 ? source.length : end).replace(/[^0-9a-fA-F]/g, '');
+        pos = end === -1 ? source.length : end + 1;
+        const padded = hex.length % 2 ? `${hex}0` : hex;
+        let value = '';
+        for (let i = 0; i < padded.length; i += 2) value += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+        return { string: value };
+    };
+
+    const readWord = () => {
+        const start = pos;
+        while (pos < source.length && !isWhitespace(source[pos]) && !isDelimiter(source[pos])) pos++;
+        return source.slice(start, pos);
+    };
+
+    // The next token, or null at the end
+    const next = () => {
+        skipSpace();
+        if (pos >= source.length) return null;
+        const char = source[pos];
+        if (char === '(') return readLiteralString();
+        if (char === '<') {
+            if (source[pos + 1] === '<') {
+                pos += 2;
+                return { op: '<<' };
+            }
+            return readHexString();
+        }
+        if (char === '>' && source[pos + 1] === '>') {
+            pos += 2;
+            return { op: '>>' };
+        }
+        if (char === '[' || char === ']' || char === '{' || char === '}') {
+            pos++;
+            return { op: char };
+        }
+        if (char === '/') {
+            pos++;
+            // Names can escape characters as #xx
+            return { name: readWord().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+        }
+        const word = readWord();
+        if (!word) {
+            // A stray delimiter such as ")"
+            pos++;
+            return next();
+        }
+        if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return Number(word);
+        if (word === 'true' || word === 'false') return word === 'true';
+        if (word === 'null') return null;
+        return { op: word };
+    };
+
+    return { next, get pos() { return pos; }, set pos(value) { pos = value; } };
+}
+
+// Parse one value (dictionary, array, reference...) starting at the lexer's
+// position
+function readValue(lexer, token = lexer.next()) {
+    if (typeof token === 'number') {
+        // "12 0 R" is a reference
+        const saved = lexer.pos;
+        const generation = lexer.next();
+        if (typeof generation === 'number') {
+            const keyword = lexer.next();
+            if (keyword?.op === 'R') return { ref: token };
+        }
+        lexer.pos = saved;
+        return token;
+    }
+    if (token?.op === '<<') {
+        const dict = {};
+        for (;;) {
+            const key = lexer.next();
+            if (key === null || key?.op === '>>') break;
+            if (key?.name !== undefined) dict[key.name] = readValue(lexer);
+        }
+        return dict;
+    }
+    if (token?.op === '[') {
+        const array = [];
+        for (;;) {
+            const item = lexer.next();
+            if (item === null || item?.op === ']') break;
+            array.push(readValue(lexer, item));
+        }
+        return array;
+    }
+    return token;
+}
+
+// Decode a stream's data, taking what it inflates to out of
+// `budget.remaining`. Returns null for filters that aren't supported and
+// once the document has used up its budget.
+function decodeStream(dict, data, budget) {
+    const filters = [].concat(dict.Filter ?? []).map(filter => filter.name);
+    let bytes = Buffer.from(data, 'latin1');
+    for (const filter of filters) {
+        if (filter !== 'FlateDecode' || budget.remaining <= 0) return null;
+        // Inflating past the limit throws instead of allocating
+        const maxOutputLength = budget.remaining;
+        try {
+            bytes = zlib.inflateSync(bytes, { maxOutputLength });
+        } catch (error) {
+            if (error.code === 'ERR_BUFFER_TOO_LARGE') throw error;
+            // Some writers leave a truncated stream; take what inflates
+            bytes = zlib.inflateSync(bytes, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength });
+        }
+        budget.remaining -= bytes.length;
+    }
+    return bytes.toString('latin1');
+}
+
+// Every object of the document by number, as { value, stream } where
+// `stream` is the decoded stream data, if any
+function readObjects(source) {
+    const objects = new Map();
+    const budget = { remaining: MAX_DECODED_BYTES };
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match;
+    while ((match = header.exec(source))) {
+        const lexer = createLexer(source, header.lastIndex);
+        const value = readValue(lexer);
+        let stream = null;
+        const after = source.slice(lexer.pos, lexer.pos + 20);
+        const streamMatch = /^\s*stream\r?\n/.exec(after);
+        if (streamMatch && value && typeof value === 'object') {
+            const start = lexer.pos + streamMatch[0].length;
+            const length = typeof value.Length === 'number' ? value.Length : -1;
+            const end = length >= 0 && source.slice(start + length, start + length + 20).includes('endstream')
+                ? start + length
+                : source.indexOf('endstream', start);
+            try {
+                stream = decodeStream(value, source.slice(start, end === -1 ? source.length : end).replace(/\r?\n$/, ''), budget);
+            } catch (error) {
+                stream = null;
+                // Nothing more is decoded once a stream overflows the budget
+                if (error.code === 'ERR_BUFFER_TOO_LARGE') budget.remaining = 0;
+            }
+            header.lastIndex = end === -1 ? source.length : end;
+        }
+        objects.set(Number(match[1]), { value, stream });
+    }
+
+    // Objects packed into object streams
+    for (const { value, stream } of [...objects.values()]) {
+        if (value?.Type?.name !== 'ObjStm' || stream === null || typeof value.First !== 'number') continue;
+        // /N is only what the file claims; read the pairs actually there
+        const lexer = createLexer(stream);
+        const offsets = [];
+        while (offsets.length < value.N) {
+            const number = lexer.next();
+            const offset = lexer.next();
+            if (!Number.isInteger(number) || !Number.isInteger(offset) || value.First + offset >= stream.length) break;
+            offsets.push({ number, offset });
+        }
+        for (const { number, offset } of offsets) {
+            if (objects.has(number)) continue;
+            objects.set(number, { value: readValue(createLexer(stream, value.First + offset)), stream: null });
+        }
+    }
+    return objects;
+}
+
+// Map character codes to text with a ToUnicode CMap
+function parseToUnicode(cmap) {
+    const map = new Map();
+    let codeLength = 1;
+    const hexToString = (hex) => {
+        let text = '';
+        for (let i = 0; i + 4 <= hex.length; i += 4) text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+        return hex.length === 2 ? String.fromCharCode(parseInt(hex, 16)) : text;
+    };
+
+    const range = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+    if (range) codeLength = range[1].length / 2;
+
+    for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+        for (const [, from, to] of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+            map.set(parseInt(from, 16), hexToString(to));
+        }
+    }
+    for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+        for (const [, low, high, rest] of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+            const start = parseInt(low, 16);
+            const end = parseInt(high, 16);
+            if (rest.startsWith('[')) {
+                [...rest.matchAll(/<([0-9a-fA-F]*)>/g)].forEach(([, to], i) => map.set(start + i, hexToString(to)));
+            } else {
+                const base = rest.slice(1, -1);
+                const first = parseInt(base.slice(-4) || '0', 16);
+                for (let code = start; code <= end && code - start < 0x10000; code++) {
+                    map.set(code, hexToString(base.slice(0, -4)) + String.fromCharCode(first + code - start));
+                }
+            }
+        }
+    }
+    return { map, codeLength };
+}
+
+function decodeText(bytes, font) {
+    if (font?.toUnicode) {
+        const { map, codeLength } = font.toUnicode;
+        let text = '';
+        for (let i = 0; i < bytes.length; i += codeLength) {
+            let code = 0;
+            for (let k = 0; k < codeLength; k++) code = code * 256 + (bytes.charCodeAt(i + k) || 0);
+            text += map.get(code) ?? '';
+        }
+        return text;
+    }
+    // Simple fonts without a map are close enough to WinAnsi
+    return [...bytes].map(char => WIN_ANSI_HIGH[char.charCodeAt(0)] ?? char).join('');
+}
+
+// Affine matrices as [a, b, c, d, e, f]; the result applies `first`, then
+// `second`
+function multiply(first, second) {
+    const [a, b, c, d, e, f] = first;
+    const [A, B, C, D, E, F] = second;
+    return [a * A + b * C, a * B + b * D, c * A + d * C, c * B + d * D, e * A + f * C + E, e * B + f * D + F];
+}
+
+const IDENTITY = [1, 0, 0, 1, 0, 0];
+
+// Text runs of one content stream as { x, y, text }, in page space with y
+// growing up the page
+function readContentRuns(content, fonts) {
+    const lexer = createLexer(content);
+    const runs = [];
+    let operands = [];
+    let font = null;
+    let fontSize = 1;
+    let leading = 0;
+    let ctm = IDENTITY;
+    const saved = [];
+    // Start of the current line, and where the next text is drawn
+    let lineMatrix = IDENTITY;
+    let textMatrix = IDENTITY;
+
+    const show = (text) => {
+        const [, , , , x, y] = multiply(textMatrix, ctm);
+        if (text) runs.push({ x, y, text });
+        // Roughly advance, so later runs on the line keep their order
+        textMatrix = multiply([1, 0, 0, 1, text.length * fontSize * 0.5, 0], textMatrix);
+    };
+    const moveLine = (tx, ty) => {
+        lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+        textMatrix = lineMatrix;
+    };
+
+    for (let token = lexer.next(); token !== null; token = lexer.next()) {
+        if (token?.op === '[' || token?.op === '<<') {
+            operands.push(readValue(lexer, token));
+            continue;
+        }
+        if (!token?.op) {
+            operands.push(token);
+            continue;
+        }
+        switch (token.op) {
+            case 'q':
+                saved.push(ctm);
+                break;
+            case 'Q':
+                ctm = saved.pop() ?? IDENTITY;
+                break;
+            case 'cm':
+                if (operands.length === 6) ctm = multiply(operands, ctm);
+                break;
+            case 'ID': {
+                // Inline image data is binary; skip to its end
+                const end = content.indexOf('EI', lexer.pos);
+                lexer.pos = end === -1 ? content.length : end + 2;
+                break;
+            }
+            case 'BT':
+                lineMatrix = IDENTITY;
+                textMatrix = IDENTITY;
+                break;
+            case 'Tf':
+                font = fonts[operands[0]?.name] ?? null;
+                fontSize = Math.abs(operands[1]) || 1;
+                break;
+            case 'TL':
+                leading = operands[0] ?? 0;
+                break;
+            case 'Td':
+                moveLine(operands[0] ?? 0, operands[1] ?? 0);
+                break;
+            case 'TD':
+                leading = -(operands[1] ?? 0);
+                moveLine(operands[0] ?? 0, operands[1] ?? 0);
+                break;
+            case 'Tm':
+                if (operands.length === 6) {
+                    lineMatrix = operands;
+                    textMatrix = operands;
+                }
+                break;
+            case 'T*':
+                moveLine(0, -leading);
+                break;
+            case 'Tj':
+                show(decodeText(operands[0]?.string ?? '', font));
+                break;
+            case "'":
+                moveLine(0, -leading);
+                show(decodeText(operands[0]?.string ?? '', font));
+                break;
+            case '"':
+                moveLine(0, -leading);
+                show(decodeText(operands[2]?.string ?? '', font));
+                break;
+            case 'TJ': {
+                let text = '';
+                for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+                    if (typeof item === 'number') {
+                        if (item < -SPACE_ADJUSTMENT && !text.endsWith(' ')) text += ' ';
+                    } else if (item?.string !== undefined) {
+                        text += decodeText(item.string, font);
+                    }
+                }
+                show(text);
+                break;
+            }
+            default:
+                break;
+        }
+        operands = [];
+    }
+    return runs;
+}
+
+// Runs grouped into lines, top of the page first
+function runsToLines(runs) {
+    const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+    const lines = [];
+    for (const run of sorted) {
+        const current = lines[lines.length - 1];
+        if (current && Math.abs(current.y - run.y) <= LINE_TOLERANCE) {
+            current.runs.push(run);
+        } else {
+            lines.push({ y: run.y, runs: [run] });
+        }
+    }
+    return lines
+        .map(({ runs: lineRuns }) => lineRuns
+            .sort((a, b) => a.x - b.x)
+            .map(run => run.text)
+            .join(' ')
+            .replace(/\s+/g, ' ')
+            .trim())
+        .filter(Boolean);
+}
+
+// The text of a PDF as lines, page by page. Returns an empty list when the
+// document has no text layer or can't be read.
+function extractPdfText(buffer) {
+    const source = buffer.toString('latin1');
+    if (!source.startsWith('%PDF-') || /\/Encrypt\s/.test(source)) return [];
+
+    const objects = readObjects(source);
+    const resolve = (value) => (value?.ref !== undefined ? objects.get(value.ref)?.value : value);
+    const streamOf = (value) => (value?.ref !== undefined ? objects.get(value.ref)?.stream : null);
+
+    // Pages in order, following the page tree from the catalog
+    const pages = [];
+    const visit = (node, seen = new Set()) => {
+        if (!node || seen.has(node)) return;
+        seen.add(node);
+        if (node.Type?.name === 'Page') pages.push(node);
+        for (const kid of node.Kids ?? []) visit(resolve(kid), seen);
+    };
+    const catalog = [...objects.values()].find(object => object.value?.Type?.name === 'Catalog')?.value;
+    visit(resolve(catalog?.Pages));
+    if (pages.length === 0) {
+        for (const { value } of objects.values()) if (value?.Type?.name === 'Page') pages.push(value);
+    }
+
+    const fontCache = new Map();
+    const loadFont = (ref) => {
+        const key = ref?.ref ?? ref;
+        if (!fontCache.has(key)) {
+            const dict = resolve(ref);
+            const cmap = streamOf(dict?.ToUnicode);
+            fontCache.set(key, { toUnicode: cmap ? parseToUnicode(cmap) : null });
+        }
+        return fontCache.get(key);
+    };
+
+    const lines = [];
+    for (const page of pages) {
+        // Resources can be inherited from the page tree
+        let resources = resolve(page.Resources);
+        for (let node = resolve(page.Parent); !resources && node; node = resolve(node.Parent)) {
+            resources = resolve(node.Resources);
+        }
+        const fonts = {};
+        for (const [name, ref] of Object.entries(resolve(resources?.Font) ?? {})) fonts[name] = loadFont(ref);
+
+        // Contents is one stream or an array of them, possibly by reference
+        const contentList = resolve(page.Contents);
+        const contents = (Array.isArray(contentList) ? contentList : [page.Contents])
+            .map(streamOf)
+            .filter(stream => typeof stream === 'string');
+        lines.push(...runsToLines(readContentRuns(contents.join('\n'), fonts)));
+    }
+    return lines;
+}
+
+module.exports = { extractPdfText };
@@ -0,0 +1,136 @@
+// Pick the merchant, date, total and tax out of a receipt's text. Each field
+// comes back as { value, confidence } with confidence from 0 to 1, or null
+// when nothing was found, so the form can highlight what to double-check.
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Words that mark the amount paid, strongest first
+const TOTAL_LABELS = [
+    { pattern: /\b(grand\s*total|amount\s*due|balance\s*due|total\s*due|to\s*pay|total\s*paid|amount\s*paid|gesamt(betrag)?|summe|montant\s*total|totale)\b/i, confidence: 0.9 },
+    { pattern: /\btotal\b/i, confidence: 0.8 }
+];
+const SUBTOTAL = /\b(sub\s*-?\s*total|zwischensumme|net\s*total|total\s*(before|excl))/i;
+const TAX_LABEL = /\b(tax|vat|gst|hst|pst|mwst|ust|tva|iva)\b/i;
+// Lines that are never the merchant's name
+const NOT_MERCHANT = /\b(receipt|invoice|tax|vat|tel|phone|fax|www\.|https?:|@|date|time|order|table|cashier|server|welcome|thank)\b|^\W*$/i;
+
+const CURRENCY_SYMBOLS = { '€': 'EUR', '£': 'GBP', '$': 'USD', '¥': 'JPY', '₹': 'INR', 'CHF': 'CHF' };
+const CURRENCY_CODES = /\b(EUR|GBP|USD|CAD|AUD|CHF|JPY|SEK|NOK|DKK|PLN|CZK|INR|NZD)\b/;
+
+// Amounts written like 1,234.56, 1.234,56, 12,50 or 12.50
+const AMOUNT = /-?\d{1,3}(?:[ .,]\d{3})*[.,]\d{2}\b|-?\d+[.,]\d{2}\b/g;
+
+function parseAmount(text) {
+    const compact = text.replace(/\s/g, '');
+    // The last separator followed by two digits is the decimal point
+    const decimal = compact.slice(-3, -2);
+    const whole = compact.slice(0, -3).replace(/[.,]/g, '');
+    const value = parseFloat(`${whole}.${compact.slice(-2)}`);
+    return decimal === '.' || decimal === ',' ? value : NaN;
+}
+
+const amountsIn = (line) => [...line.matchAll(AMOUNT)].map(match => parseAmount(match[0])).filter(Number.isFinite);
+
+const isoDate = (year, month, day) => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+};
+
+const fullYear = (year) => (year.length === 2 ? 2000 + Number(year) : Number(year));
+
+// The first date on the receipt. Numeric dates with both parts at most 12
+// are ambiguous; day first is assumed, with less confidence.
+function findDate(lines) {
+    for (const line of lines) {
+        let match = /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/.exec(line);
+        if (match) {
+            const value = isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+            if (value) return { value, confidence: 0.9 };
+        }
+
+        match = /\b(\d{1,2})(?:st|nd|rd|th)?[\s.-]+([a-z]{3})[a-z]*\.?[\s.,-]+(\d{2,4})\b/i.exec(line);
+        if (match && MONTHS.includes(match[2].toLowerCase())) {
+            const value = isoDate(fullYear(match[3]), MONTHS.indexOf(match[2].toLowerCase()) + 1, Number(match[1]));
+            if (value) return { value, confidence: 0.9 };
+        }
+        match = /\b([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/i.exec(line);
+        if (match && MONTHS.includes(match[1].toLowerCase())) {
+            const value = isoDate(Number(match[3]), MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[2]));
+            if (value) return { value, confidence: 0.9 };
+        }
+
+        match = /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})\b/.exec(line);
+        if (match) {
+            const first = Number(match[1]);
+            const second = Number(match[2]);
+            const year = fullYear(match[3]);
+            // Month first only when the day can't be first
+            const value = second > 12 ? isoDate(year, first, second) : isoDate(year, second, first);
+            if (value) return { value, confidence: first > 12 || second > 12 ? 0.8 : 0.6 };
+        }
+    }
+    return null;
+}
+
+// The amount on the strongest total line; the last such line wins, as
+// totals come after subtotals. Without any, the largest amount is a guess.
+function findTotal(lines) {
+    for (const { pattern, confidence } of TOTAL_LABELS) {
+        const candidates = lines.filter(line => pattern.test(line) && !SUBTOTAL.test(line) && !TAX_LABEL.test(line));
+        for (const line of candidates.reverse()) {
+            const amounts = amountsIn(line);
+            if (amounts.length > 0) return { value: Math.abs(amounts[amounts.length - 1]), confidence };
+        }
+    }
+    const amounts = lines.flatMap(amountsIn).map(Math.abs);
+    return amounts.length > 0 ? { value: Math.max(...amounts), confidence: 0.4 } : null;
+}
+
+// Tax lines often show the rate too ("VAT 20% 1.00"), so the last amount
+// on the line is the tax. Several tax lines (one per rate) add up.
+function findTax(lines, total) {
+    const amounts = lines
+        .filter(line => TAX_LABEL.test(line) && !/\b(excl|before|net|no)\b/i.test(line))
+        .map(line => amountsIn(line.replace(/\d+([.,]\d+)?\s*%/g, '')))
+        .filter(found => found.length > 0)
+        .map(found => Math.abs(found[found.length - 1]))
+        // A "total incl. tax" line isn't the tax
+        .filter(amount => !total || amount < total.value);
+    if (amounts.length === 0) return null;
+    const value = Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 100) / 100;
+    return { value, confidence: amounts.length === 1 ? 0.8 : 0.6 };
+}
+
+// The merchant is usually printed first, above the address
+function findMerchant(lines) {
+    const index = lines.slice(0, 6).findIndex(line => /\p{L}{2}/u.test(line) && !NOT_MERCHANT.test(line) && amountsIn(line).length === 0);
+    if (index === -1) return null;
+    const value = lines[index].replace(/\s+/g, ' ').trim().slice(0, 100);
+    return { value, confidence: index === 0 ? 0.7 : 0.5 };
+}
+
+function findCurrency(lines) {
+    const text = lines.join('\n');
+    const code = CURRENCY_CODES.exec(text);
+    if (code) return { value: code[1], confidence: 0.8 };
+    for (const [symbol, currency] of Object.entries(CURRENCY_SYMBOLS)) {
+        // "$" alone is shared by many currencies
+        if (text.includes(symbol)) return { value: currency, confidence: symbol === '$' ? 0.5 : 0.8 };
+    }
+    return null;
+}
+
+function parseReceipt(lines) {
+    const cleaned = lines.map(line => line.trim()).filter(Boolean);
+    const total = findTotal(cleaned);
+    return {
+        merchant: findMerchant(cleaned),
+        date: findDate(cleaned),
+        total,
+        tax: findTax(cleaned, total),
+        currency: findCurrency(cleaned)
+    };
+}
+
+module.exports = { parseReceipt };
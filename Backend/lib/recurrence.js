@@ -0,0 +1,97 @@
+// Occurrence dates for recurring rules. All arithmetic happens on UTC
+// midnights so a rule always lands on the same calendar day regardless of
+// the server's timezone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FREQUENCIES = ['daily', 'weekly', 'biweekly', 'monthly', 'yearly'];
+
+// Safety net against rules that would otherwise enumerate forever
+const MAX_OCCURRENCES = 10000;
+
+function toUtcMidnight(value) {
+    const date = new Date(value);
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function daysInMonth(year, month) {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// The nth (1-4) or last (-1) given weekday of a month
+function nthWeekdayOfMonth(year, month, weekOfMonth, weekday) {
+    if (weekOfMonth === -1) {
+        const last = new Date(Date.UTC(year, month, daysInMonth(year, month)));
+        const offset = (last.getUTCDay() - weekday + 7) % 7;
+        return new Date(last.getTime() - offset * DAY_MS);
+    }
+    const first = new Date(Date.UTC(year, month, 1));
+    const offset = (weekday - first.getUTCDay() + 7) % 7;
+    return new Date(Date.UTC(year, month, 1 + offset + (weekOfMonth - 1) * 7));
+}
+
+// Occurrence within a given month for monthly and yearly rules
+function occurrenceInMonth(rule, year, month) {
+    if (rule.monthlyMode === 'nthWeekday') {
+        return nthWeekdayOfMonth(year, month, rule.weekOfMonth, rule.weekday);
+    }
+    // Days past the end of a short month fall on its last day (31st -> 30th, 28th...)
+    const day = Math.min(rule.dayOfMonth, daysInMonth(year, month));
+    return new Date(Date.UTC(year, month, day));
+}
+
+// The nth candidate date of a rule before start/end/count limits are applied
+function candidate(rule, start, n) {
+    switch (rule.frequency) {
+        case 'daily':
+            return new Date(start.getTime() + n * DAY_MS);
+        case 'weekly':
+            return new Date(start.getTime() + n * 7 * DAY_MS);
+        case 'biweekly':
+            return new Date(start.getTime() + n * 14 * DAY_MS);
+        case 'monthly': {
+            const monthIndex = start.getUTCMonth() + n;
+            return occurrenceInMonth(rule, start.getUTCFullYear() + Math.floor(monthIndex / 12), monthIndex % 12);
+        }
+        case 'yearly':
+            return occurrenceInMonth(rule, start.getUTCFullYear() + n, start.getUTCMonth());
+        default:
+            throw new Error(`Unknown frequency "${rule.frequency}"`);
+    }
+}
+
+// Yield every occurrence of a rule, in order, up to and including `until`
+function* occurrences(rule, until) {
+    const start = toUtcMidnight(rule.startDate);
+    const end = rule.endDate ? toUtcMidnight(rule.endDate) : null;
+    let emitted = 0;
+
+    for (let n = 0; n < MAX_OCCURRENCES; n++) {
+        const date = candidate(rule, start, n);
+        // Monthly "nth weekday" dates in the first month may fall before the start
+        if (date < start) continue;
+        if ((end && date > end) || (until && date > until)) return;
+        if (rule.count && emitted >= rule.count) return;
+        emitted++;
+        yield date;
+    }
+}
+
+// Occurrences due on or before `now` that come after the last posted one
+function dueOccurrences(rule, now = new Date()) {
+    const after = rule.lastOccurrence ? toUtcMidnight(rule.lastOccurrence) : null;
+    return [...occurrences(rule, toUtcMidnight(now))].filter(date => !after || date > after);
+}
+
+// The next `limit` occurrences falling on or after `from`
+function upcomingOccurrences(rule, limit = 5, from = new Date()) {
+    const fromDay = toUtcMidnight(from);
+    const upcoming = [];
+    for (const date of occurrences(rule)) {
+        if (date < fromDay) continue;
+        upcoming.push(date);
+        if (upcoming.length >= limit) break;
+    }
+    return upcoming;
+}
+
+module.exports = { FREQUENCIES, dueOccurrences, upcomingOccurrences, toUtcMidnight };
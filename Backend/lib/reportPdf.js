@@ -0,0 +1,348 @@
+const { createPdfDocument, canEncode, textWidth } = require('./pdf');
+const { DATE_FORMATS, formatDate } = require('./transactionExport');
+
+const MARGIN = 40;
+const TOP = 50;
+const BOTTOM = 790;
+const CONTENT_WIDTH = 595 - MARGIN * 2;
+
+const COLORS = {
+    text: '#111827',
+    muted: '#6b7280',
+    border: '#e5e7eb',
+    header: '#f3f4f6',
+    income: '#16a34a',
+    expense: '#dc2626',
+    warning: '#b45309'
+};
+
+const TEMPLATE_NAMES = { monthly: 'Monthly', quarterly: 'Quarterly', annual: 'Annual' };
+
+const formatters = new Map();
+
+// "$1,234.50" or "€1,234.50"; currencies whose symbol the PDF fonts lack
+// are written as "1,234.50 INR" instead
+function formatMoney(amount, currency) {
+    if (!formatters.has(currency)) {
+        const symbol = new Intl.NumberFormat('en-US', { style: 'currency', currency });
+        const code = new Intl.NumberFormat('en-US', { style: 'currency', currency, currencyDisplay: 'code' });
+        formatters.set(currency, canEncode(symbol.format(1)) ? symbol : code);
+    }
+    return formatters.get(currency).format(amount);
+}
+
+const formatChange = (change, unit = '%') =>
+    change === null || change === undefined ? '' : `${change > 0 ? '+' : ''}${change}${unit}`;
+
+const formatDay = (date) => new Date(date).toLocaleDateString('en-US', {
+    day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC'
+});
+
+// Lays sections out top to bottom, starting a new page whenever the next
+// block would run into the footer
+function createLayout(title) {
+    const doc = createPdfDocument({ title });
+    const layout = {
+        doc,
+        page: doc.addPage(),
+        y: TOP,
+        newPage() {
+            layout.page = doc.addPage();
+            layout.y = TOP;
+        },
+        ensureSpace(height) {
+            if (layout.y + height > BOTTOM) layout.newPage();
+        }
+    };
+    return layout;
+}
+
+function sectionTitle(layout, text) {
+    layout.ensureSpace(60);
+    layout.y += 14;
+    layout.page.text(MARGIN, layout.y, text, { size: 13, bold: true, color: COLORS.text });
+    layout.y += 8;
+    layout.page.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, { color: COLORS.border });
+    layout.y += 14;
+}
+
+// A table with a shaded header row, which is repeated at the top of every
+// page the table runs onto. Columns are { label, width, align }; rows are
+// arrays of cell text, or { cells, bold } for emphasised rows.
+function table(layout, columns, rows) {
+    const rowHeight = 15;
+    const header = () => {
+        layout.page.rect(MARGIN, layout.y - 10, CONTENT_WIDTH, rowHeight, { fill: COLORS.header });
+        drawRow(columns.map(column => column.label), { bold: true, color: COLORS.muted });
+    };
+    const drawRow = (cells, { bold = false, color = COLORS.text } = {}) => {
+        let x = MARGIN;
+        columns.forEach((column, index) => {
+            const right = column.align === 'right';
+            layout.page.text(right ? x + column.width - 4 : x + 4, layout.y, cells[index] ?? '', {
+                size: 8.5,
+                bold,
+                color: column.color?.(cells[index]) || color,
+                align: right ? 'right' : 'left',
+                maxWidth: column.width - 8
+            });
+            x += column.width;
+        });
+        layout.y += rowHeight;
+    };
+
+    layout.ensureSpace(rowHeight * 2);
+    header();
+    for (const row of rows) {
+        if (layout.y + rowHeight > BOTTOM) {
+            layout.newPage();
+            header();
+        }
+        const { cells, bold } = Array.isArray(row) ? { cells: row, bold: false } : row;
+        drawRow(cells, { bold });
+        layout.page.line(MARGIN, layout.y - 10, MARGIN + CONTENT_WIDTH, layout.y - 10, { color: COLORS.border, width: 0.3 });
+    }
+    layout.y += 4;
+}
+
+function emptyNote(layout, text) {
+    layout.page.text(MARGIN, layout.y, text, { size: 9, color: COLORS.muted });
+    layout.y += 16;
+}
+
+function header(layout, report) {
+    const { page } = layout;
+    page.text(MARGIN, layout.y, `Financial report - ${report.period.label}`, { size: 20, bold: true, color: COLORS.text });
+    page.text(MARGIN + CONTENT_WIDTH, layout.y, `Generated ${formatDay(report.generatedAt)}`, {
+        size: 8.5, color: COLORS.muted, align: 'right'
+    });
+    layout.y += 18;
+    page.text(
+        MARGIN,
+        layout.y,
+        `${TEMPLATE_NAMES[report.template]} report, ${formatDay(report.period.from)} to ${formatDay(report.period.to)}. ` +
+            `Totals in ${report.baseCurrency}, compared with ${report.comparison.label}.`,
+        { size: 9.5, color: COLORS.muted, maxWidth: CONTENT_WIDTH }
+    );
+    layout.y += 14;
+    if (report.missingRates.length > 0) {
+        page.text(
+            MARGIN,
+            layout.y,
+            `No exchange rate for ${report.missingRates.join(', ')}; those amounts are left out of the totals.`,
+            { size: 9, color: COLORS.warning, maxWidth: CONTENT_WIDTH }
+        );
+        layout.y += 14;
+    }
+}
+
+function summaryTiles(layout, report) {
+    const { summary, baseCurrency } = report;
+    const tiles = [
+        { label: 'Income', value: formatMoney(summary.income, baseCurrency), change: formatChange(summary.changes.income) },
+        { label: 'Expenses', value: formatMoney(summary.expenses, baseCurrency), change: formatChange(summary.changes.expenses) },
+        { label: 'Savings rate', value: `${summary.savingsRate}%`, change: formatChange(summary.changes.savingsRate, ' pts') },
+        {
+            label: 'Closing balance',
+            value: formatMoney(summary.closingBalance, baseCurrency),
+            change: formatChange(summary.changes.closingBalance)
+        }
+    ];
+    const gap = 10;
+    const width = (CONTENT_WIDTH - gap * (tiles.length - 1)) / tiles.length;
+    const top = layout.y + 6;
+    tiles.forEach((tile, index) => {
+        const x = MARGIN + index * (width + gap);
+        layout.page.rect(x, top, width, 58, { fill: COLORS.header });
+        layout.page.text(x + 10, top + 16, tile.label, { size: 8.5, color: COLORS.muted });
+        layout.page.text(x + 10, top + 34, tile.value, { size: 13, bold: true, color: COLORS.text, maxWidth: width - 20 });
+        if (tile.change) {
+            layout.page.text(x + 10, top + 49, `${tile.change} vs ${report.comparison.label}`, {
+                size: 7.5, color: COLORS.muted, maxWidth: width - 20
+            });
+        }
+    });
+    layout.y = top + 58 + 10;
+    layout.page.text(
+        MARGIN,
+        layout.y,
+        `Net ${summary.net >= 0 ? 'saved' : 'overspent'}: ${formatMoney(Math.abs(summary.net), baseCurrency)}`,
+        { size: 9.5, bold: true, color: summary.net >= 0 ? COLORS.income : COLORS.expense }
+    );
+    layout.y += 8;
+}
+
+// Income and expense bars side by side for each month
+function monthlyChart(layout, months) {
+    const height = 110;
+    layout.ensureSpace(height + 30);
+    const { page } = layout;
+    const top = layout.y;
+    const highest = Math.max(1, ...months.flatMap(item => [item.income, item.expenses]));
+    const slot = CONTENT_WIDTH / months.length;
+    const barWidth = Math.min(18, slot / 3);
+
+    page.line(MARGIN, top + height, MARGIN + CONTENT_WIDTH, top + height, { color: COLORS.border });
+    months.forEach((item, index) => {
+        const center = MARGIN + slot * index + slot / 2;
+        [[item.income, COLORS.income, -barWidth - 1], [item.expenses, COLORS.expense, 1]].forEach(([value, fill, offset]) => {
+            const barHeight = value / highest * height;
+            if (barHeight > 0) page.rect(center + offset, top + height - barHeight, barWidth, barHeight, { fill });
+        });
+        page.text(center, top + height + 11, months.length > 6 ? item.month : `${item.month} ${item.year}`, {
+            size: 7.5, color: COLORS.muted, align: 'center'
+        });
+    });
+
+    const legendY = top + height + 24;
+    [['Income', COLORS.income], ['Expenses', COLORS.expense]].forEach(([label, fill], index) => {
+        const x = MARGIN + index * 70;
+        page.rect(x, legendY - 7, 8, 8, { fill });
+        page.text(x + 12, legendY, label, { size: 8, color: COLORS.muted });
+    });
+    layout.y = legendY + 16;
+}
+
+function monthlyOverview(layout, report) {
+    sectionTitle(layout, 'Monthly overview');
+    const { months, baseCurrency } = report;
+    monthlyChart(layout, months);
+    const totals = months.reduce((sum, item) => ({
+        income: sum.income + item.income,
+        expenses: sum.expenses + item.expenses
+    }), { income: 0, expenses: 0 });
+    table(layout, [
+        { label: 'Month', width: 155 },
+        { label: 'Income', width: 120, align: 'right' },
+        { label: 'Expenses', width: 120, align: 'right' },
+        { label: 'Net', width: 120, align: 'right' }
+    ], [
+        ...months.map(item => [
+            `${item.month} ${item.year}`,
+            formatMoney(item.income, baseCurrency),
+            formatMoney(item.expenses, baseCurrency),
+            formatMoney(item.net, baseCurrency)
+        ]),
+        {
+            cells: [
+                'Total',
+                formatMoney(totals.income, baseCurrency),
+                formatMoney(totals.expenses, baseCurrency),
+                formatMoney(totals.income - totals.expenses, baseCurrency)
+            ],
+            bold: true
+        }
+    ]);
+}
+
+// One horizontal bar per category, in the category's colour
+function categoryBreakdown(layout, report) {
+    sectionTitle(layout, 'Spending by category');
+    const { categories, baseCurrency } = report;
+    if (categories.length === 0) {
+        emptyNote(layout, 'No expenses in this period.');
+        return;
+    }
+
+    const labelWidth = 130;
+    const valueWidth = 150;
+    const barSpace = CONTENT_WIDTH - labelWidth - valueWidth;
+    const highest = categories[0].value || 1;
+    for (const category of categories) {
+        layout.ensureSpace(16);
+        const { page } = layout;
+        page.text(MARGIN, layout.y, category.name, { size: 8.5, color: COLORS.text, maxWidth: labelWidth - 8 });
+        page.rect(MARGIN + labelWidth, layout.y - 8, Math.max(1, category.value / highest * barSpace), 9, { fill: category.color });
+        page.text(
+            MARGIN + CONTENT_WIDTH,
+            layout.y,
+            `${formatMoney(category.value, baseCurrency)}  (${category.share}%)`,
+            { size: 8.5, color: COLORS.text, align: 'right' }
+        );
+        layout.y += 16;
+    }
+    layout.y += 6;
+
+    table(layout, [
+        { label: 'Category', width: 175 },
+        { label: 'Spent', width: 95, align: 'right' },
+        { label: 'Share', width: 60, align: 'right' },
+        { label: report.comparison.label, width: 95, align: 'right' },
+        { label: 'Change', width: 90, align: 'right' }
+    ], categories.map(category => [
+        category.name,
+        formatMoney(category.value, baseCurrency),
+        `${category.share}%`,
+        formatMoney(category.previousValue, baseCurrency),
+        formatChange(category.change) || 'new'
+    ]));
+}
+
+function topMerchants(layout, report) {
+    sectionTitle(layout, 'Top merchants');
+    if (report.merchants.length === 0) {
+        emptyNote(layout, 'No expenses in this period.');
+        return;
+    }
+    table(layout, [
+        { label: '#', width: 30, align: 'right' },
+        { label: 'Merchant', width: 285 },
+        { label: 'Transactions', width: 90, align: 'right' },
+        { label: 'Spent', width: 110, align: 'right' }
+    ], report.merchants.map((merchant, index) => [
+        String(index + 1),
+        merchant.name,
+        String(merchant.count),
+        formatMoney(merchant.total, report.baseCurrency)
+    ]));
+}
+
+function ledger(layout, report) {
+    sectionTitle(layout, 'Transaction ledger');
+    if (report.ledger.length === 0) {
+        emptyNote(layout, 'No transactions in this period.');
+        return;
+    }
+    const signs = { income: '+', expense: '-', transfer: '' };
+    const amountColor = (text) => (text.startsWith('+') ? COLORS.income : text.startsWith('-') ? COLORS.expense : null);
+    table(layout, [
+        { label: 'Date', width: 60 },
+        { label: 'Description', width: 175 },
+        { label: 'Category', width: 90 },
+        { label: 'Account', width: 100 },
+        { label: 'Amount', width: 90, align: 'right', color: amountColor }
+    ], report.ledger.map(transaction => [
+        formatDate(transaction.date, DATE_FORMATS[0]),
+        transaction.description,
+        transaction.type === 'transfer' ? 'Transfer' : transaction.category,
+        transaction.type === 'transfer' ? `${transaction.account} » ${transaction.toAccount}` : transaction.account,
+        `${signs[transaction.type]}${formatMoney(transaction.amount, transaction.currency)}`
+    ]));
+    layout.page.text(MARGIN, layout.y + 4, `${report.ledger.length} transactions`, { size: 8.5, color: COLORS.muted });
+    layout.y += 16;
+}
+
+// Render a report from buildFinancialReport as a PDF file
+function renderReportPdf(report) {
+    const title = `Financial report - ${report.period.label}`;
+    const layout = createLayout(title);
+    header(layout, report);
+    summaryTiles(layout, report);
+    monthlyOverview(layout, report);
+    categoryBreakdown(layout, report);
+    topMerchants(layout, report);
+    ledger(layout, report);
+
+    // Page numbers go on once the number of pages is known
+    const { pages } = layout.doc;
+    pages.forEach((page, index) => {
+        page.line(MARGIN, BOTTOM + 12, MARGIN + CONTENT_WIDTH, BOTTOM + 12, { color: COLORS.border });
+        page.text(MARGIN, BOTTOM + 26, title, { size: 8, color: COLORS.muted, maxWidth: CONTENT_WIDTH - textWidth('Page 000 of 000', 8) - 20 });
+        page.text(MARGIN + CONTENT_WIDTH, BOTTOM + 26, `Page ${index + 1} of ${pages.length}`, {
+            size: 8, color: COLORS.muted, align: 'right'
+        });
+    });
+    return layout.doc.toBuffer();
+}
+
+module.exports = { renderReportPdf };
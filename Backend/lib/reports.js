@@ -0,0 +1,317 @@
+const { roundMoney } = require('./currency');
+const { computeAccountBalances } = require('./accounts');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Named ranges the dashboard reports understand; "custom" takes from/to
+const RANGE_PRESETS = ['this-month', 'last-month', 'ytd', 'last-6-months', 'last-12-months', 'custom'];
+// "previous" is the period right before the range, "year" the same period a year earlier
+const COMPARISONS = ['previous', 'year', 'none'];
+// Printable reports cover one calendar period; `period` names it as
+// YYYY-MM, YYYY-Qn or YYYY respectively
+const REPORT_TEMPLATES = {
+    monthly: { months: 1, pattern: /^(\d{4})-(0[1-9]|1[0-2])$/, example: '2024-05' },
+    quarterly: { months: 3, pattern: /^(\d{4})-Q([1-4])$/i, example: '2024-Q2' },
+    annual: { months: 12, pattern: /^(\d{4})$/, example: '2024' }
+};
+
+// Ranges are whole UTC days, the same days totals are bucketed by
+function startOfUtcDay(date) {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Move a day by whole months, clamping the 31st to shorter months
+function addUtcMonths(date, months) {
+    const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+    return target;
+}
+
+function monthRange(year, month, count) {
+    return {
+        from: new Date(Date.UTC(year, month, 1)),
+        to: new Date(Date.UTC(year, month + count, 1) - 1)
+    };
+}
+
+function presetRange(preset, today) {
+    const year = today.getUTCFullYear();
+    const month = today.getUTCMonth();
+    switch (preset) {
+        case 'this-month':
+            return monthRange(year, month, 1);
+        case 'last-month':
+            return monthRange(year, month - 1, 1);
+        case 'ytd':
+            return { from: new Date(Date.UTC(year, 0, 1)), to: new Date(startOfUtcDay(today).getTime() + DAY_MS - 1) };
+        case 'last-6-months':
+            return monthRange(year, month - 5, 6);
+        case 'last-12-months':
+            return monthRange(year, month - 11, 12);
+        default:
+            return null;
+    }
+}
+
+// Number of calendar months a range covers, or 0 if it doesn't start and
+// end on month boundaries
+function wholeMonths({ from, to }) {
+    const end = new Date(to.getTime() + 1);
+    if (from.getUTCDate() !== 1 || end.getUTCDate() !== 1 || startOfUtcDay(end).getTime() !== end.getTime()) return 0;
+    return (end.getUTCFullYear() - from.getUTCFullYear()) * 12 + end.getUTCMonth() - from.getUTCMonth();
+}
+
+function shiftMonths({ from, to }, months) {
+    const end = new Date(startOfUtcDay(to).getTime() + DAY_MS);
+    return {
+        from: addUtcMonths(from, -months),
+        to: new Date(addUtcMonths(end, -months).getTime() - 1)
+    };
+}
+
+function comparisonRange(range, comparison) {
+    if (comparison === 'year') return shiftMonths(range, 12);
+    // Calendar months compare with the months before them, anything else
+    // with a span of the same length ending the day before
+    const months = wholeMonths(range);
+    if (months > 0) return shiftMonths(range, months);
+    const length = range.to.getTime() - range.from.getTime();
+    const to = new Date(range.from.getTime() - 1);
+    return { from: new Date(to.getTime() - length), to };
+}
+
+function parseDay(value, param) {
+    const parsedDate = new Date(value);
+    if (isNaN(parsedDate.getTime())) return null;
+    // A bare YYYY-MM-DD upper bound should include the whole day
+    if (param === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        parsedDate.setUTCHours(23, 59, 59, 999);
+    }
+    return parsedDate;
+}
+
+// Translate the `range`, `from`, `to` and `compare` query parameters of the
+// report endpoints into { range, comparison } where both are { from, to }
+// and comparison is null when not wanted. Returns { error } when malformed.
+function parseReportRange(query, defaultPreset, today = new Date()) {
+    const preset = query.range || (query.from || query.to ? 'custom' : defaultPreset);
+    if (!RANGE_PRESETS.includes(preset)) {
+        return { error: `Range must be one of: ${RANGE_PRESETS.join(', ')}` };
+    }
+
+    let range = presetRange(preset, today);
+    if (preset === 'custom') {
+        if (!query.from || !query.to) {
+            return { error: 'A custom range needs both "from" and "to"' };
+        }
+        const from = parseDay(String(query.from), 'from');
+        const to = parseDay(String(query.to), 'to');
+        if (!from) return { error: '"from" must be a valid date' };
+        if (!to) return { error: '"to" must be a valid date' };
+        if (from > to) return { error: '"from" must be on or before "to"' };
+        range = { from, to };
+    }
+
+    // Year to date is most useful next to the same stretch of last year
+    const compare = query.compare || (preset === 'ytd' ? 'year' : 'previous');
+    if (!COMPARISONS.includes(compare)) {
+        return { error: `Compare must be one of: ${COMPARISONS.join(', ')}` };
+    }
+
+    return { range, comparison: compare === 'none' ? null : comparisonRange(range, compare) };
+}
+
+// The name of a report period, e.g. "May 2024", "Q2 2024" or "2024"
+function periodLabel(template, { from }) {
+    const year = from.getUTCFullYear();
+    if (template === 'annual') return String(year);
+    if (template === 'quarterly') return `Q${Math.floor(from.getUTCMonth() / 3) + 1} ${year}`;
+    return `${from.toLocaleString('en-US', { month: 'long', timeZone: 'UTC' })} ${year}`;
+}
+
+// Translate the `template` and `period` query parameters of a printable
+// report into { template, range, comparison, label, previousLabel }. The
+// period defaults to the last one that has ended, and compares with the
+// period before it. Returns { error } when malformed.
+function parseReportPeriod(query, today = new Date()) {
+    const template = query.template || 'monthly';
+    const settings = REPORT_TEMPLATES[template];
+    if (!settings) {
+        return { error: `Template must be one of: ${Object.keys(REPORT_TEMPLATES).join(', ')}` };
+    }
+
+    let from;
+    if (query.period) {
+        const match = settings.pattern.exec(String(query.period));
+        if (!match) {
+            return { error: `Period must look like ${settings.example} for a ${template} report` };
+        }
+        const year = Number(match[1]);
+        const index = match[2] ? Number(match[2]) - 1 : 0;
+        from = new Date(Date.UTC(year, template === 'quarterly' ? index * 3 : index, 1));
+    } else {
+        const year = today.getUTCFullYear();
+        const month = today.getUTCMonth();
+        from = new Date(Date.UTC(year, month - month % settings.months - settings.months, 1));
+    }
+
+    const range = monthRange(from.getUTCFullYear(), from.getUTCMonth(), settings.months);
+    const comparison = shiftMonths(range, settings.months);
+    return {
+        template,
+        range,
+        comparison,
+        label: periodLabel(template, range),
+        previousLabel: periodLabel(template, comparison)
+    };
+}
+
+// Calendar months (UTC) touched by a range, oldest first
+function monthsInRange({ from, to }) {
+    const result = [];
+    let year = from.getUTCFullYear();
+    let month = from.getUTCMonth();
+    while (Date.UTC(year, month, 1) <= to.getTime()) {
+        result.push({ year, month: month + 1 });
+        month += 1;
+        if (month === 12) {
+            month = 0;
+            year += 1;
+        }
+    }
+    return result;
+}
+
+// Whether a YYYY-MM-DD total falls inside a range
+function dayInRange(day, { from, to }) {
+    const date = new Date(day);
+    return date >= startOfUtcDay(from) && date <= to;
+}
+
+// Percentage change from one period to the next, or null when there is
+// nothing to compare against
+function percentChange(current, previous) {
+    if (!previous) return null;
+    return Math.round((current - previous) / Math.abs(previous) * 1000) / 10;
+}
+
+// Income and expenses of every calendar month a range touches, in the base
+// currency, months without transactions included. Every day is converted at
+// that day's exchange rate.
+async function monthlyTotals(storage, userId, converter, range) {
+    const monthlyData = await storage.transactions.getMonthlyTotals(userId, range);
+    const byMonth = new Map();
+    for (const item of monthlyData) {
+        const key = `${item.year}-${item.month}`;
+        const entry = byMonth.get(key) || { income: 0, expenses: 0 };
+        entry.income += converter.convert(item.income, item.currency, { date: item.day });
+        entry.expenses += converter.convert(item.expenses, item.currency, { date: item.day });
+        byMonth.set(key, entry);
+    }
+    return monthsInRange(range).map(({ year, month }) => {
+        const entry = byMonth.get(`${year}-${month}`) || { income: 0, expenses: 0 };
+        return { year, month, income: roundMoney(entry.income), expenses: roundMoney(entry.expenses) };
+    });
+}
+
+// Spending per category name over a range, in the base currency
+async function expenseCategoryTotals(storage, userId, converter, range) {
+    const categoryData = await storage.transactions.getCategoryTotals(userId, { type: 'expense', ...range });
+    const byCategory = new Map();
+    for (const item of categoryData) {
+        const value = converter.convert(item.value, item.currency, { date: item.day });
+        byCategory.set(item.category, (byCategory.get(item.category) || 0) + value);
+    }
+    return byCategory;
+}
+
+// Expenses per tag over a range, in the base currency
+async function expenseTagTotals(storage, userId, converter, range) {
+    const tagData = await storage.transactions.getTagTotals(userId, { type: 'expense', ...range });
+    const byTag = new Map();
+    for (const item of tagData) {
+        const value = converter.convert(item.value, item.currency, { date: item.day });
+        byTag.set(item.tag, (byTag.get(item.tag) || 0) + value);
+    }
+    return byTag;
+}
+
+// Expenses per payee over a range, in the base currency, keyed by payee id
+// (null for transactions without one). Each entry holds the total, the
+// number of transactions and the total of every month the range touches,
+// oldest first.
+async function expensePayeeTotals(storage, userId, converter, range) {
+    const payeeData = await storage.transactions.getPayeeTotals(userId, { type: 'expense', ...range });
+    const months = monthsInRange(range);
+    const byPayee = new Map();
+    for (const item of payeeData) {
+        const key = item.payeeId ? String(item.payeeId) : null;
+        if (!byPayee.has(key)) {
+            byPayee.set(key, { total: 0, count: 0, monthly: months.map(() => 0) });
+        }
+        const entry = byPayee.get(key);
+        const value = converter.convert(item.value, item.currency, { date: item.day });
+        const date = new Date(item.day);
+        const monthIndex = months.findIndex(({ year, month }) =>
+            year === date.getUTCFullYear() && month === date.getUTCMonth() + 1);
+        entry.total += value;
+        entry.count += item.count;
+        if (monthIndex >= 0) entry.monthly[monthIndex] += value;
+    }
+    return byPayee;
+}
+
+// Income, expenses and savings rate over a range, plus the total balance at
+// its end: today's balance less everything that happened afterwards
+function summarise(totals, converter, totalBalance, range) {
+    let income = 0;
+    let expenses = 0;
+    let netAfter = 0;
+    for (const item of totals) {
+        const value = converter.convert(item.total, item.currency, { date: item.day });
+        if (new Date(item.day) > range.to) {
+            netAfter += item.type === 'income' ? value : -value;
+        } else if (dayInRange(item.day, range)) {
+            if (item.type === 'income') income += value;
+            else expenses += value;
+        }
+    }
+    const savingsRate = income > 0 ? (income - expenses) / income * 100 : 0;
+    return { totalBalance: totalBalance - netAfter, income, expenses, savingsRate };
+}
+
+// Summaries of a range and, when given, its comparison period, in the base
+// currency. `previous` is null without a comparison.
+async function summarisePeriods(storage, userId, converter, range, comparison) {
+    // Everything from the earlier period onwards, so balances can be walked
+    // back from today
+    const from = comparison && comparison.from < range.from ? comparison.from : range.from;
+    const [{ totalBalance }, totals] = await Promise.all([
+        computeAccountBalances(storage, userId, converter),
+        storage.transactions.getTotalsByType(userId, { from })
+    ]);
+    return {
+        current: summarise(totals, converter, totalBalance, range),
+        previous: comparison ? summarise(totals, converter, totalBalance, comparison) : null
+    };
+}
+
+module.exports = {
+    MONTH_NAMES,
+    RANGE_PRESETS,
+    COMPARISONS,
+    REPORT_TEMPLATES,
+    addUtcMonths,
+    parseReportRange,
+    parseReportPeriod,
+    monthsInRange,
+    dayInRange,
+    percentChange,
+    monthlyTotals,
+    expenseCategoryTotals,
+    expenseTagTotals,
+    expensePayeeTotals,
+    summarisePeriods
+};
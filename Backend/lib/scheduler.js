@@ -0,0 +1,78 @@
+const { dueOccurrences } = require('./recurrence');
+const { recordTransaction } = require('./categorySuggestions');
+
+// Postings run one at a time so the scheduler and API-triggered runs can
+// never race each other into posting the same occurrence twice.
+let queue = Promise.resolve();
+
+function enqueue(task) {
+    const run = queue.then(task);
+    queue = run.catch(() => {});
+    return run;
+}
+
+// Materialise every due occurrence of a rule into a transaction. Safe to call
+// repeatedly: occurrences already posted are skipped, so a run after downtime
+// simply catches up. Returns the number of transactions created.
+function postDueOccurrences(storage, rule, now = new Date()) {
+    return enqueue(async () => {
+        if (!rule.active) return 0;
+
+        const userId = String(rule.userId);
+        const ruleId = String(rule._id);
+        let posted = 0;
+        let lastOccurrence = null;
+
+        for (const occurrenceDate of dueOccurrences(rule, now)) {
+            const existing = await storage.transactions.findByOccurrence(userId, ruleId, occurrenceDate);
+            if (!existing) {
+                const transaction = await storage.transactions.create(userId, {
+                    type: rule.type,
+                    amount: rule.amount,
+                    category: rule.category,
+                    description: rule.description,
+                    accountId: rule.accountId || null,
+                    currency: rule.currency,
+                    date: occurrenceDate,
+                    recurringRuleId: ruleId,
+                    occurrenceDate
+                });
+                recordTransaction(userId, transaction);
+                posted++;
+            }
+            lastOccurrence = occurrenceDate;
+        }
+
+        if (lastOccurrence) {
+            await storage.recurringRules.update(userId, ruleId, {
+                lastOccurrence,
+                postedCount: (rule.postedCount || 0) + posted
+            });
+        }
+        if (posted > 0) {
+            console.log(`Recurring rule ${ruleId} posted ${posted} transaction(s)`);
+        }
+        return posted;
+    });
+}
+
+async function runScheduler(storage) {
+    try {
+        const rules = await storage.recurringRules.listAll({ active: true });
+        for (const rule of rules) {
+            await postDueOccurrences(storage, rule);
+        }
+    } catch (error) {
+        console.error('Error running recurring transaction scheduler:', error);
+    }
+}
+
+// Post due occurrences now and then again every `intervalMinutes`
+function startScheduler(storage, { intervalMinutes }) {
+    runScheduler(storage);
+    const timer = setInterval(() => runScheduler(storage), intervalMinutes * 60 * 1000);
+    timer.unref();
+    return timer;
+}
+
+module.exports = { postDueOccurrences, startScheduler };
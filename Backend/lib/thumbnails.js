@@ -0,0 +1,227 @@
+const zlib = require('zlib');
+
+// Small previews for image attachments, made without any image library.
+// PNGs are decoded and scaled down here. JPEGs from phones and cameras carry
+// a ready-made thumbnail in their EXIF data, which is used as it is; JPEGs
+// without one, and other image types, get no thumbnail.
+
+// Longest side of a thumbnail, in pixels
+const THUMBNAIL_SIZE = 200;
+// Thumbnails are made on the upload request, so larger images are not
+// decoded at all: they would hold up every other request and the memory
+// they need grows with their pixels, not their file size
+const MAX_DECODED_PIXELS = 4 * 1000 * 1000;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+// Samples per pixel by PNG colour type
+const PNG_CHANNELS = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function readPngChunks(buffer) {
+    const chunks = [];
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString('latin1', offset + 4, offset + 8);
+        chunks.push({ type, data: buffer.subarray(offset + 8, offset + 8 + length) });
+        if (type === 'IEND') break;
+        offset += 12 + length;
+    }
+    return chunks;
+}
+
+const paeth = (left, up, upLeft) => {
+    const estimate = left + up - upLeft;
+    const toLeft = Math.abs(estimate - left);
+    const toUp = Math.abs(estimate - up);
+    const toUpLeft = Math.abs(estimate - upLeft);
+    if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+    return toUp <= toUpLeft ? up : upLeft;
+};
+
+// Undo one row's PNG filter in place
+function unfilterRow(filter, row, previous, bytesPerPixel) {
+    for (let i = 0; i < row.length; i++) {
+        const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+        const up = previous[i];
+        const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+        switch (filter) {
+            case 1: row[i] = (row[i] + left) & 0xff; break;
+            case 2: row[i] = (row[i] + up) & 0xff; break;
+            case 3: row[i] = (row[i] + ((left + up) >> 1)) & 0xff; break;
+            case 4: row[i] = (row[i] + paeth(left, up, upLeft)) & 0xff; break;
+            default: break;
+        }
+    }
+}
+
+// Sample `index` of a row. 16-bit samples are cut to their high byte.
+function readSample(row, index, bitDepth) {
+    if (bitDepth === 8) return row[index];
+    if (bitDepth === 16) return row[index * 2];
+    const perByte = 8 / bitDepth;
+    const shift = 8 - bitDepth * (index % perByte + 1);
+    return (row[Math.floor(index / perByte)] >> shift) & ((1 << bitDepth) - 1);
+}
+
+// Stretch a sample of fewer than 8 bits to 0-255
+const toByte = (value, bitDepth) => (bitDepth < 8 ? Math.round(value * 255 / ((1 << bitDepth) - 1)) : value);
+
+// Decode a non-interlaced PNG straight into a scaled-down RGBA image by
+// averaging the pixels that fall into each thumbnail pixel
+function scalePng(buffer) {
+    const chunks = readPngChunks(buffer);
+    const header = chunks.find(chunk => chunk.type === 'IHDR')?.data;
+    if (!header || header.length < 13) return null;
+    const width = header.readUInt32BE(0);
+    const height = header.readUInt32BE(4);
+    const [bitDepth, colorType, , , interlace] = header.subarray(8, 13);
+    const channels = PNG_CHANNELS[colorType];
+    if (!channels || interlace !== 0 || width === 0 || height === 0 || width * height > MAX_DECODED_PIXELS) return null;
+
+    const palette = chunks.find(chunk => chunk.type === 'PLTE')?.data;
+    const transparency = chunks.find(chunk => chunk.type === 'tRNS')?.data;
+    if (colorType === 3 && !palette) return null;
+    const rowBytes = Math.ceil(width * channels * bitDepth / 8);
+    const bytesPerPixel = Math.max(1, Math.ceil(channels * bitDepth / 8));
+    // Never inflate past what the header says the image holds
+    const pixels = zlib.inflateSync(
+        Buffer.concat(chunks.filter(chunk => chunk.type === 'IDAT').map(chunk => chunk.data)),
+        { maxOutputLength: height * (rowBytes + 1) }
+    );
+    if (pixels.length < height * (rowBytes + 1)) return null;
+
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+    const targetWidth = Math.max(1, Math.round(width * scale));
+    const targetHeight = Math.max(1, Math.round(height * scale));
+    const sums = new Float64Array(targetWidth * targetHeight * 4);
+    const counts = new Uint32Array(targetWidth * targetHeight);
+
+    // Two row buffers and one pixel, reused for the whole image
+    let row = Buffer.alloc(rowBytes);
+    let previous = Buffer.alloc(rowBytes);
+    const rgba = new Uint8Array(4);
+    for (let y = 0; y < height; y++) {
+        const start = y * (rowBytes + 1);
+        pixels.copy(row, 0, start + 1, start + 1 + rowBytes);
+        unfilterRow(pixels[start], row, previous, bytesPerPixel);
+
+        const targetRow = Math.min(targetHeight - 1, Math.floor(y * scale)) * targetWidth;
+        for (let x = 0; x < width; x++) {
+            if (colorType === 3) {
+                const entry = readSample(row, x, bitDepth);
+                rgba[0] = palette[entry * 3] ?? 0;
+                rgba[1] = palette[entry * 3 + 1] ?? 0;
+                rgba[2] = palette[entry * 3 + 2] ?? 0;
+                rgba[3] = transparency?.[entry] ?? 255;
+            } else if (colorType === 0 || colorType === 4) {
+                rgba[0] = rgba[1] = rgba[2] = toByte(readSample(row, x * channels, bitDepth), bitDepth);
+                rgba[3] = colorType === 4 ? toByte(readSample(row, x * channels + 1, bitDepth), bitDepth) : 255;
+            } else {
+                for (let channel = 0; channel < channels; channel++) {
+                    rgba[channel] = toByte(readSample(row, x * channels + channel, bitDepth), bitDepth);
+                }
+                if (colorType === 2) rgba[3] = 255;
+            }
+            const target = targetRow + Math.min(targetWidth - 1, Math.floor(x * scale));
+            for (let channel = 0; channel < 4; channel++) sums[target * 4 + channel] += rgba[channel];
+            counts[target]++;
+        }
+        [previous, row] = [row, previous];
+    }
+
+    const scaled = Buffer.alloc(targetWidth * targetHeight * 4);
+    for (let i = 0; i < counts.length; i++) {
+        for (let channel = 0; channel < 4; channel++) {
+            scaled[i * 4 + channel] = counts[i] ? Math.round(sums[i * 4 + channel] / counts[i]) : 0;
+        }
+    }
+    return { width: targetWidth, height: targetHeight, rgba: scaled };
+}
+
+function pngChunk(type, data) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(zlib.crc32(body));
+    return Buffer.concat([length, body, crc]);
+}
+
+function encodePng({ width, height, rgba }) {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 6; // RGBA
+    // Every row unfiltered
+    const rows = Buffer.alloc(height * (width * 4 + 1));
+    for (let y = 0; y < height; y++) {
+        rgba.copy(rows, y * (width * 4 + 1) + 1, y * width * 4, (y + 1) * width * 4);
+    }
+    return Buffer.concat([
+        PNG_SIGNATURE,
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', zlib.deflateSync(rows)),
+        pngChunk('IEND', Buffer.alloc(0))
+    ]);
+}
+
+// The JPEG thumbnail stored in a JPEG's EXIF block (IFD1), if there is one
+function exifThumbnail(buffer) {
+    let offset = 2;
+    while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+        const marker = buffer[offset + 1];
+        const length = buffer.readUInt16BE(offset + 2);
+        // Image data starts; EXIF always comes before it
+        if (marker === 0xda) return null;
+        if (marker === 0xe1 && buffer.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0') {
+            const tiff = buffer.subarray(offset + 10, offset + 2 + length);
+            if (tiff.length < 8) return null;
+            const littleEndian = tiff.toString('latin1', 0, 2) === 'II';
+            const read16 = (at) => (littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+            const read32 = (at) => (littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+            try {
+                // Skip IFD0 to reach IFD1, which describes the thumbnail
+                const ifd0 = read32(4);
+                const ifd1 = read32(ifd0 + 2 + read16(ifd0) * 12);
+                if (!ifd1) return null;
+                const tags = {};
+                for (let i = 0; i < read16(ifd1); i++) {
+                    const entry = ifd1 + 2 + i * 12;
+                    tags[read16(entry)] = read32(entry + 8);
+                }
+                const start = tags[0x0201];
+                const size = tags[0x0202];
+                if (!start || !size || start + size > tiff.length) return null;
+                const thumbnail = tiff.subarray(start, start + size);
+                return thumbnail[0] === 0xff && thumbnail[1] === 0xd8 ? Buffer.from(thumbnail) : null;
+            } catch {
+                // Offsets pointing outside the block
+                return null;
+            }
+        }
+        offset += 2 + length;
+    }
+    return null;
+}
+
+// A thumbnail for an image attachment as { data, contentType }, or null when
+// the image type isn't supported or the file can't be read
+function createThumbnail(buffer, contentType) {
+    try {
+        if (contentType === 'image/png') {
+            const scaled = scalePng(buffer);
+            return scaled && { data: encodePng(scaled), contentType: 'image/png' };
+        }
+        if (contentType === 'image/jpeg') {
+            const thumbnail = exifThumbnail(buffer);
+            return thumbnail && { data: thumbnail, contentType: 'image/jpeg' };
+        }
+    } catch (error) {
+        // A damaged image only costs its thumbnail
+        console.error('Error creating thumbnail:', error.message);
+    }
+    return null;
+}
+
+module.exports = { createThumbnail };
@@ -0,0 +1,143 @@
+const { DEFAULT_CURRENCY } = require('./currency');
+
+const EXPORT_FORMATS = ['csv', 'json'];
+const TRANSFER_OPTIONS = ['include', 'skip'];
+
+// Column keys with the header each gets in CSV files. The headers are the
+// ones the upload page recognises, so an exported file imports again as is,
+// apart from transfers, which need two accounts. Those can be skipped.
+const EXPORT_COLUMNS = {
+    date: 'Date',
+    type: 'Type',
+    amount: 'Amount',
+    currency: 'Currency',
+    category: 'Category',
+    description: 'Description',
+    account: 'Account',
+    tags: 'Tags'
+};
+
+// The date layouts the upload page can read back
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'dd-MM-yyyy'];
+
+// Check the format, columns, dateFormat, decimal and transfers query
+// parameters of an export. Columns may be repeated or comma separated and
+// default to all; transfers are included unless `transfers=skip`.
+function parseExportOptions(query) {
+    const format = query.format || 'csv';
+    if (!EXPORT_FORMATS.includes(format)) {
+        return { error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` };
+    }
+
+    const columns = query.columns === undefined
+        ? Object.keys(EXPORT_COLUMNS)
+        : [].concat(query.columns).flatMap(item => String(item).split(',')).map(item => item.trim()).filter(Boolean);
+    if (columns.length === 0 || columns.some(column => !EXPORT_COLUMNS[column])) {
+        return { error: `Columns must be some of: ${Object.keys(EXPORT_COLUMNS).join(', ')}` };
+    }
+
+    const dateFormat = query.dateFormat || DATE_FORMATS[0];
+    if (!DATE_FORMATS.includes(dateFormat)) {
+        return { error: `Date format must be one of: ${DATE_FORMATS.join(', ')}` };
+    }
+
+    const decimal = query.decimal || '.';
+    if (decimal !== '.' && decimal !== ',') {
+        return { error: 'Decimal separator must be "." or ","' };
+    }
+
+    const transfers = query.transfers || 'include';
+    if (!TRANSFER_OPTIONS.includes(transfers)) {
+        return { error: `Transfers must be one of: ${TRANSFER_OPTIONS.join(', ')}` };
+    }
+
+    return { value: { format, columns: [...new Set(columns)], dateFormat, decimal, transfers } };
+}
+
+// Stored dates are midnight UTC of the day the money moved
+function formatDate(date, pattern) {
+    const value = new Date(date);
+    const pad = (number) => String(number).padStart(2, '0');
+    return pattern
+        .replace('yyyy', value.getUTCFullYear())
+        .replace('MM', pad(value.getUTCMonth() + 1))
+        .replace('dd', pad(value.getUTCDate()));
+}
+
+// Quote cells holding the delimiter, quotes or line breaks. Cells a
+// spreadsheet would run as a formula get a leading apostrophe, which the
+// upload page drops again.
+function csvCell(value, delimiter) {
+    let text = String(value ?? '');
+    if (/^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Turns transactions into the chunks of an export file: `start` once, then
+// `rows` for each page of transactions, then `end`. `accountNames` maps
+// account ids to names.
+function createExporter(options, accountNames) {
+    const { format, columns, dateFormat, decimal, transfers } = options;
+    // A split transaction becomes a row per line, in the line's category,
+    // which the upload page reads back as separate transactions
+    const rowsOf = (transaction) => {
+        if (transaction.type === 'transfer' && transfers === 'skip') return [];
+        if (!transaction.splits?.length) return [transaction];
+        return transaction.splits.map(line => ({ ...transaction, category: line.category, amount: line.amount }));
+    };
+
+    const valueOf = (transaction, column) => {
+        switch (column) {
+            case 'date': return formatDate(transaction.date, dateFormat);
+            case 'currency': return transaction.currency || DEFAULT_CURRENCY;
+            case 'account': return accountNames.get(String(transaction.accountId)) || '';
+            // One cell, as the upload page's tag column reads them
+            case 'tags': return (transaction.tags || []).join(', ');
+            default: return transaction[column];
+        }
+    };
+
+    if (format === 'json') {
+        // Amounts stay numbers; JSON has no decimal separator to choose
+        let first = true;
+        return {
+            contentType: 'application/json',
+            start: '[',
+            rows: (transactions) => transactions.flatMap(rowsOf).map(transaction => {
+                const record = Object.fromEntries(columns.map(column => [column, valueOf(transaction, column)]));
+                if (transaction.type === 'transfer' && columns.includes('account')) {
+                    record.toAccount = accountNames.get(String(transaction.toAccountId)) || '';
+                }
+                const chunk = `${first ? '' : ','}\n${JSON.stringify(record)}`;
+                first = false;
+                return chunk;
+            }).join(''),
+            end: '\n]\n'
+        };
+    }
+
+    // A decimal comma needs another delimiter, as European spreadsheets use
+    const delimiter = decimal === ',' ? ';' : ',';
+    const line = (cells) => `${cells.map(cell => csvCell(cell, delimiter)).join(delimiter)}\r\n`;
+    return {
+        contentType: 'text/csv; charset=utf-8',
+        // The byte order mark makes Excel read the file as UTF-8
+        start: `﻿${line(columns.map(column => EXPORT_COLUMNS[column]))}`,
+        rows: (transactions) => transactions.flatMap(rowsOf).map(transaction => line(columns.map(column =>
+            column === 'amount'
+                ? transaction.amount.toFixed(2).replace('.', decimal)
+                : valueOf(transaction, column)
+        ))).join(''),
+        end: ''
+    };
+}
+
+module.exports = {
+    EXPORT_COLUMNS,
+    DATE_FORMATS,
+    parseExportOptions,
+    formatDate,
+    createExporter
+};
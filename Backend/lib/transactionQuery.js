@@ -0,0 +1,103 @@
+// Fields clients may sort the transaction list by
+const SORTABLE_FIELDS = ['date', 'amount', 'category', 'description', 'createdAt'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 500;
+
+// Accept both repeated (?category=a&category=b) and comma separated (?category=a,b) values
+function toList(value) {
+    if (value === undefined) return [];
+    return (Array.isArray(value) ? value : [value])
+        .flatMap(item => String(item).split(','))
+        .map(item => item.trim())
+        .filter(Boolean);
+}
+
+function encodeCursor(transaction, sortField) {
+    const payload = { v: transaction[sortField], id: String(transaction._id) };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+    try {
+        const { v, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+        if (typeof id !== 'string' || !id) return null;
+        return { v, id };
+    } catch {
+        return null;
+    }
+}
+
+// Translate the query string of GET /api/transactions into storage-neutral
+// list criteria. Returns { error } when a parameter is malformed.
+function parseTransactionQuery(query) {
+    const criteria = {};
+
+    const types = toList(query.type).filter(type => type !== 'all');
+    if (types.some(type => !['income', 'expense', 'transfer'].includes(type))) {
+        return { error: 'Type must be "income", "expense" or "transfer"' };
+    }
+    criteria.types = types;
+    criteria.categories = toList(query.category);
+    // Tags are stored in lower case
+    criteria.tags = toList(query.tag).map(tag => tag.toLowerCase());
+
+    // Transactions touching an account, including transfers into it
+    if (query.account) {
+        criteria.accountId = String(query.account);
+    }
+    if (query.payee) {
+        criteria.payeeId = String(query.payee);
+    }
+
+    for (const param of ['from', 'to']) {
+        if (!query[param]) continue;
+        const parsedDate = new Date(query[param]);
+        if (isNaN(parsedDate.getTime())) {
+            return { error: `"${param}" must be a valid date` };
+        }
+        // A bare YYYY-MM-DD upper bound should include the whole day
+        if (param === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(query.to)) {
+            parsedDate.setUTCHours(23, 59, 59, 999);
+        }
+        criteria[param] = parsedDate;
+    }
+
+    for (const param of ['minAmount', 'maxAmount']) {
+        if (query[param] === undefined || query[param] === '') continue;
+        const parsedAmount = parseFloat(query[param]);
+        if (isNaN(parsedAmount)) {
+            return { error: `"${param}" must be a number` };
+        }
+        criteria[param] = parsedAmount;
+    }
+
+    if (query.q && String(query.q).trim()) {
+        criteria.search = String(query.q).trim();
+    }
+
+    criteria.sortField = query.sort || 'date';
+    if (!SORTABLE_FIELDS.includes(criteria.sortField)) {
+        return { error: `Sort must be one of: ${SORTABLE_FIELDS.join(', ')}` };
+    }
+    criteria.direction = query.order === 'asc' ? 1 : -1;
+
+    criteria.limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(query.limit, 10);
+    if (isNaN(criteria.limit) || criteria.limit < 1 || criteria.limit > MAX_PAGE_SIZE) {
+        return { error: `Limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    }
+
+    criteria.page = query.page === undefined ? 1 : parseInt(query.page, 10);
+    if (isNaN(criteria.page) || criteria.page < 1) {
+        return { error: 'Page must be a positive integer' };
+    }
+
+    criteria.cursor = null;
+    if (query.cursor) {
+        criteria.cursor = decodeCursor(query.cursor);
+        if (!criteria.cursor) return { error: 'Invalid cursor' };
+    }
+
+    return { criteria };
+}
+
+module.exports = { parseTransactionQuery, encodeCursor };
@@ -0,0 +1,675 @@
+const { parseCurrency } = require('./currency');
+const { compilePattern } = require('./patterns');
+
+const TRANSACTION_TYPES = ['income', 'expense', 'transfer'];
+const CURRENCY_ERROR = 'Currency must be a 3-letter ISO code such as "EUR"';
+
+// Transfers move money between accounts, so they don't need a category
+const TRANSFER_CATEGORY = 'Transfer';
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const TAGS_ERROR = `Tags must be a list of at most ${MAX_TAGS} words of up to ${MAX_TAG_LENGTH} characters`;
+
+const MAX_SPLITS = 50;
+const MAX_MEMO_LENGTH = 100;
+const SPLITS_ERROR = `Splits must be a list of at most ${MAX_SPLITS} lines, each with a category, a positive amount and a memo of up to ${MAX_MEMO_LENGTH} characters`;
+
+const toCents = (amount) => Math.round(amount * 100);
+
+// Parse split lines into { category, amount, memo? } with amounts rounded
+// to the cent. Returns null when the list is malformed.
+function parseSplits(splits) {
+    if (!Array.isArray(splits) || splits.length > MAX_SPLITS) return null;
+    const parsed = [];
+    for (const split of splits) {
+        if (!split || typeof split !== 'object') return null;
+        const category = typeof split.category === 'string' ? split.category.trim() : '';
+        const amount = toCents(parseFloat(split.amount)) / 100;
+        const memo = split.memo === undefined || split.memo === null ? '' : String(split.memo).trim();
+        if (!category || !(amount > 0) || memo.length > MAX_MEMO_LENGTH) return null;
+        parsed.push(memo ? { category, amount, memo } : { category, amount });
+    }
+    return parsed;
+}
+
+// A split transaction is filed under its largest line
+const primarySplitCategory = (splits) =>
+    splits.reduce((largest, split) => (split.amount > largest.amount ? split : largest)).category;
+
+// Normalise a list of tags to trimmed lower case without repeats. Returns
+// null when the list is malformed.
+function parseTags(tags) {
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) return null;
+    const parsed = [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+    if (parsed.length > MAX_TAGS || parsed.some(tag => tag.length > MAX_TAG_LENGTH)) return null;
+    return parsed;
+}
+
+// Validate a transaction payload. With `partial` set only the fields present
+// are checked (used by PATCH). Returns { error } or { value } with parsed fields.
+// Whether the referenced accounts exist is checked separately, see lib/accounts.js.
+function validateTransactionInput(input, { partial = false } = {}) {
+    const fields = ['type', 'amount', 'category', 'date', 'description'];
+    const value = {};
+    let data = input.type === 'transfer' && !input.category
+        ? { ...input, category: TRANSFER_CATEGORY }
+        : input;
+
+    if (data.splits !== undefined) {
+        value.splits = parseSplits(data.splits);
+        if (!value.splits) {
+            return { error: SPLITS_ERROR };
+        }
+        if (value.splits.length > 0) {
+            data = { ...data, category: primarySplitCategory(value.splits) };
+        }
+    }
+
+    for (const field of fields) {
+        if (partial && data[field] === undefined) continue;
+        if (!data[field]) {
+            return { error: partial ? `${field} cannot be empty` : 'All fields are required' };
+        }
+    }
+
+    if (data.amount !== undefined) {
+        const parsedAmount = parseFloat(data.amount);
+        if (isNaN(parsedAmount) || parsedAmount < 0) {
+            return { error: 'Amount must be a positive number' };
+        }
+        value.amount = parsedAmount;
+    }
+
+    if (data.date !== undefined) {
+        const parsedDate = new Date(data.date);
+        if (isNaN(parsedDate.getTime())) {
+            return { error: 'Date must be a valid date' };
+        }
+        value.date = parsedDate;
+    }
+
+    if (data.type !== undefined) {
+        if (!TRANSACTION_TYPES.includes(data.type)) {
+            return { error: 'Type must be "income", "expense" or "transfer"' };
+        }
+        value.type = data.type;
+    }
+
+    if (data.description !== undefined) {
+        if (typeof data.description !== 'string') {
+            return { error: 'Description must be text' };
+        }
+        if (data.description.length > 200) {
+            return { error: 'Description must not exceed 200 characters' };
+        }
+        value.description = data.description;
+    }
+
+    if (data.category !== undefined) {
+        if (typeof data.category !== 'string') {
+            return { error: 'Category must be text' };
+        }
+        value.category = data.category;
+    }
+
+    if (data.tags !== undefined) {
+        value.tags = parseTags(data.tags);
+        if (!value.tags) {
+            return { error: TAGS_ERROR };
+        }
+    }
+
+    // Left out, the currency is taken from the account (see lib/currency.js)
+    if (data.currency !== undefined && data.currency !== null && data.currency !== '') {
+        value.currency = parseCurrency(data.currency);
+        if (!value.currency) {
+            return { error: CURRENCY_ERROR };
+        }
+    }
+
+    for (const field of ['accountId', 'toAccountId']) {
+        if (data[field] === undefined) continue;
+        if (data[field] !== null && typeof data[field] !== 'string') {
+            return { error: `${field} must be an account id` };
+        }
+        value[field] = data[field] || null;
+    }
+
+    if (data.payeeId !== undefined) {
+        if (data.payeeId !== null && typeof data.payeeId !== 'string') {
+            return { error: 'payeeId must be a payee id' };
+        }
+        value.payeeId = data.payeeId || null;
+    }
+
+    // Only transfers have a destination account, and they have no payee
+    if (value.type !== undefined && value.type !== 'transfer') {
+        value.toAccountId = null;
+    }
+    if (value.type === 'transfer') {
+        value.payeeId = null;
+    }
+
+    if (!partial) {
+        const error = checkTransferAccounts(value) || checkSplits(value);
+        if (error) return { error };
+    }
+
+    return { value };
+}
+
+// Split lines must share out the whole amount, and transfers can't be split.
+// Runs on the complete transaction, like checkTransferAccounts.
+function checkSplits(transaction) {
+    const splits = transaction.splits || [];
+    if (splits.length === 0) return null;
+    if (transaction.type === 'transfer') {
+        return 'Transfers cannot be split';
+    }
+    if (splits.length < 2) {
+        return 'A split needs at least two lines';
+    }
+    const total = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+    if (total !== toCents(transaction.amount)) {
+        return `Splits add up to ${(total / 100).toFixed(2)}, not the transaction's ${transaction.amount.toFixed(2)}`;
+    }
+    return null;
+}
+
+// A transfer needs two different accounts. Runs on the complete transaction,
+// so PATCH handlers call it after merging the changes into the stored one.
+function checkTransferAccounts(transaction) {
+    if (transaction.type !== 'transfer') return null;
+    if (!transaction.accountId || !transaction.toAccountId) {
+        return 'Transfers need both a source and a destination account';
+    }
+    if (String(transaction.accountId) === String(transaction.toAccountId)) {
+        return 'Transfers need two different accounts';
+    }
+    return null;
+}
+
+const BUDGET_PERIODS = ['monthly', 'weekly', 'custom'];
+
+// Validate a budget payload. Returns { error } or { value } with parsed fields.
+function validateBudgetInput(data) {
+    const { category, period, amount, startDate, endDate, rollover } = data;
+
+    if (!category || !period || amount === undefined || amount === '') {
+        return { error: 'Category, period and amount are required' };
+    }
+
+    if (!BUDGET_PERIODS.includes(period)) {
+        return { error: `Period must be one of: ${BUDGET_PERIODS.join(', ')}` };
+    }
+
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+        return { error: 'Amount must be a positive number' };
+    }
+
+    const value = {
+        category,
+        period,
+        amount: parsedAmount,
+        rollover: Boolean(rollover),
+        startDate: null,
+        endDate: null
+    };
+
+    if (period === 'custom') {
+        const parsedStart = new Date(startDate);
+        const parsedEnd = new Date(endDate);
+        if (!startDate || !endDate || isNaN(parsedStart.getTime()) || isNaN(parsedEnd.getTime())) {
+            return { error: 'Custom budgets need a valid start and end date' };
+        }
+        if (parsedEnd < parsedStart) {
+            return { error: 'End date must not be before the start date' };
+        }
+        // A bare YYYY-MM-DD end date should include the whole day
+        if (/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+            parsedEnd.setUTCHours(23, 59, 59, 999);
+        }
+        value.startDate = parsedStart;
+        value.endDate = parsedEnd;
+        // Rolling over only makes sense between recurring periods
+        value.rollover = false;
+    }
+
+    return { value };
+}
+
+const RECURRING_FREQUENCIES = ['daily', 'weekly', 'biweekly', 'monthly', 'yearly'];
+const WEEKS_OF_MONTH = [1, 2, 3, 4, -1];
+
+// Validate a recurring rule payload: the transaction it posts plus its
+// schedule. Returns { error } or { value } with parsed fields.
+function validateRecurringRuleInput(data) {
+    // The date of each posted transaction comes from the schedule
+    const transaction = validateTransactionInput({ ...data, date: data.startDate });
+    if (transaction.error) {
+        return transaction;
+    }
+    const { date: startDate, toAccountId, ...transactionFields } = transaction.value;
+    if (transactionFields.type === 'transfer') {
+        return { error: 'Recurring rules can only post income or expenses' };
+    }
+
+    if (!RECURRING_FREQUENCIES.includes(data.frequency)) {
+        return { error: `Frequency must be one of: ${RECURRING_FREQUENCIES.join(', ')}` };
+    }
+
+    const value = {
+        ...transactionFields,
+        frequency: data.frequency,
+        startDate,
+        endDate: null,
+        count: null,
+        monthlyMode: 'dayOfMonth',
+        dayOfMonth: null,
+        weekOfMonth: null,
+        weekday: null,
+        active: data.active === undefined ? true : Boolean(data.active)
+    };
+
+    if (data.endDate) {
+        const parsedEnd = new Date(data.endDate);
+        if (isNaN(parsedEnd.getTime()) || parsedEnd < startDate) {
+            return { error: 'End date must be a valid date on or after the start date' };
+        }
+        value.endDate = parsedEnd;
+    }
+
+    if (data.count !== undefined && data.count !== null && data.count !== '') {
+        const parsedCount = Number(data.count);
+        if (!Number.isInteger(parsedCount) || parsedCount < 1) {
+            return { error: 'Count must be a positive whole number' };
+        }
+        value.count = parsedCount;
+    }
+
+    if (data.frequency === 'monthly' || data.frequency === 'yearly') {
+        if (data.monthlyMode === 'nthWeekday') {
+            const weekOfMonth = Number(data.weekOfMonth);
+            const weekday = Number(data.weekday);
+            if (!WEEKS_OF_MONTH.includes(weekOfMonth)) {
+                return { error: 'Week of month must be 1, 2, 3, 4 or -1 (last)' };
+            }
+            if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+                return { error: 'Weekday must be between 0 (Sunday) and 6 (Saturday)' };
+            }
+            Object.assign(value, { monthlyMode: 'nthWeekday', weekOfMonth, weekday });
+        } else {
+            // Default to the day of the month the rule starts on
+            const dayOfMonth = data.dayOfMonth ? Number(data.dayOfMonth) : startDate.getUTCDate();
+            if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+                return { error: 'Day of month must be between 1 and 31' };
+            }
+            value.dayOfMonth = dayOfMonth;
+        }
+    }
+
+    return { value };
+}
+
+const ACCOUNT_TYPES = ['checking', 'savings', 'credit', 'cash'];
+
+// Validate an account payload. Returns { error } or { value } with parsed fields.
+function validateAccountInput(data) {
+    const { name, type, openingBalance, currency } = data;
+
+    if (!name || !type) {
+        return { error: 'Name and type are required' };
+    }
+
+    if (name.length > 50) {
+        return { error: 'Name must not exceed 50 characters' };
+    }
+
+    if (!ACCOUNT_TYPES.includes(type)) {
+        return { error: `Type must be one of: ${ACCOUNT_TYPES.join(', ')}` };
+    }
+
+    // Negative opening balances are fine: credit cards usually start in debt
+    const parsedBalance = openingBalance === undefined || openingBalance === '' ? 0 : parseFloat(openingBalance);
+    if (isNaN(parsedBalance)) {
+        return { error: 'Opening balance must be a number' };
+    }
+
+    const value = { name: name.trim(), type, openingBalance: parsedBalance };
+
+    // Left out, the user's base currency is used
+    if (currency) {
+        value.currency = parseCurrency(currency);
+        if (!value.currency) {
+            return { error: CURRENCY_ERROR };
+        }
+    }
+
+    return { value };
+}
+
+const CATEGORY_TYPES = ['income', 'expense', 'both'];
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const ICON_PATTERN = /^[a-z0-9-]{1,30}$/;
+
+// Validate a category payload. Whether the parent exists and may have
+// children is checked by the route. Returns { error } or { value } with parsed fields.
+function validateCategoryInput(data) {
+    const { name, type = 'both', parentId = null, color, icon } = data;
+
+    if (!name || !name.trim()) {
+        return { error: 'Name is required' };
+    }
+    if (name.trim().length > 50) {
+        return { error: 'Name must not exceed 50 characters' };
+    }
+    if (name.trim() === TRANSFER_CATEGORY) {
+        return { error: `"${TRANSFER_CATEGORY}" is reserved for transfers` };
+    }
+
+    if (!CATEGORY_TYPES.includes(type)) {
+        return { error: `Type must be one of: ${CATEGORY_TYPES.join(', ')}` };
+    }
+
+    if (parentId !== null && typeof parentId !== 'string') {
+        return { error: 'Parent must be a category id' };
+    }
+
+    // Left out, the colour is picked by lib/categories.js
+    if (color !== undefined && !COLOR_PATTERN.test(color)) {
+        return { error: 'Color must be a hex colour such as "#22c55e"' };
+    }
+    if (icon !== undefined && !ICON_PATTERN.test(icon)) {
+        return { error: 'Icon must be an icon name such as "utensils"' };
+    }
+
+    const value = { name: name.trim(), type, parentId: parentId || null };
+    if (color !== undefined) value.color = color.toLowerCase();
+    if (icon !== undefined) value.icon = icon;
+
+    return { value };
+}
+
+const RULE_DESCRIPTION_MATCHES = ['contains', 'equals', 'regex'];
+const RULE_TYPES = ['income', 'expense'];
+const MAX_RULE_PATTERN_LENGTH = 200;
+
+const optionalAmount = (amount) => (amount === undefined || amount === null || amount === '' ? null : parseFloat(amount));
+
+// Validate a categorisation rule: `conditions` a transaction must all meet
+// and `actions` applied to it. Whether the category and account exist is
+// checked by the route. Returns { error } or { value } with parsed fields.
+function validateCategoryRuleInput(data) {
+    const { name, priority = 0, enabled = true, conditions = {}, actions = {} } = data;
+
+    if (!name || !name.trim()) {
+        return { error: 'Name is required' };
+    }
+    if (name.trim().length > 50) {
+        return { error: 'Name must not exceed 50 characters' };
+    }
+
+    const parsedPriority = parseInt(priority, 10);
+    if (isNaN(parsedPriority)) {
+        return { error: 'Priority must be a whole number' };
+    }
+
+    const descriptionMatch = conditions.descriptionMatch || null;
+    const descriptionValue = typeof conditions.descriptionValue === 'string' ? conditions.descriptionValue : '';
+    if (descriptionMatch !== null && !RULE_DESCRIPTION_MATCHES.includes(descriptionMatch)) {
+        return { error: `Description match must be one of: ${RULE_DESCRIPTION_MATCHES.join(', ')}` };
+    }
+    if (descriptionMatch && !descriptionValue.trim()) {
+        return { error: 'Enter the text the description should match' };
+    }
+    if (descriptionValue.length > MAX_RULE_PATTERN_LENGTH) {
+        return { error: `Description pattern must not exceed ${MAX_RULE_PATTERN_LENGTH} characters` };
+    }
+    if (descriptionMatch === 'regex') {
+        const { error } = compilePattern(descriptionValue);
+        if (error) {
+            return { error: `Description pattern ${error}` };
+        }
+    }
+
+    const minAmount = optionalAmount(conditions.minAmount);
+    const maxAmount = optionalAmount(conditions.maxAmount);
+    if ((minAmount !== null && (isNaN(minAmount) || minAmount < 0)) || (maxAmount !== null && (isNaN(maxAmount) || maxAmount < 0))) {
+        return { error: 'Amounts must be positive numbers' };
+    }
+    if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+        return { error: 'Minimum amount must not exceed the maximum' };
+    }
+
+    // Transfers have no category, so rules leave them alone
+    if (conditions.transactionType && !RULE_TYPES.includes(conditions.transactionType)) {
+        return { error: 'Rules only match income and expenses' };
+    }
+    if (actions.transactionType && !RULE_TYPES.includes(actions.transactionType)) {
+        return { error: 'Rules can only set the type to income or expense' };
+    }
+    if (conditions.accountId !== undefined && conditions.accountId !== null && typeof conditions.accountId !== 'string') {
+        return { error: 'accountId must be an account id' };
+    }
+
+    const tags = parseTags(actions.tags ?? []);
+    if (!tags) {
+        return { error: TAGS_ERROR };
+    }
+    const description = typeof actions.description === 'string' ? actions.description.trim() : '';
+    if (description.length > 200) {
+        return { error: 'Description must not exceed 200 characters' };
+    }
+
+    const value = {
+        name: name.trim(),
+        priority: parsedPriority,
+        enabled: Boolean(enabled),
+        conditions: {
+            descriptionMatch,
+            descriptionValue: descriptionMatch ? descriptionValue : null,
+            minAmount,
+            maxAmount,
+            accountId: conditions.accountId || null,
+            transactionType: conditions.transactionType || null
+        },
+        actions: {
+            category: actions.category ? String(actions.category).trim() : null,
+            transactionType: actions.transactionType || null,
+            tags,
+            description: description || null
+        }
+    };
+
+    const { descriptionMatch: hasDescription, ...otherConditions } = value.conditions;
+    if (!hasDescription && Object.values(otherConditions).every(condition => condition === null)) {
+        return { error: 'Add at least one condition' };
+    }
+    const { tags: addedTags, ...otherActions } = value.actions;
+    if (addedTags.length === 0 && Object.values(otherActions).every(action => action === null)) {
+        return { error: 'Add at least one action' };
+    }
+
+    return { value };
+}
+
+const IMPORT_AMOUNT_MODES = ['type-column', 'signed', 'debit-credit'];
+const IMPORT_DATE_FORMATS = ['auto', 'yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'dd-MM-yyyy'];
+const IMPORT_COLUMNS = ['date', 'description', 'category', 'type', 'amount', 'debit', 'credit', 'tags'];
+
+// Columns each amount mode reads the amount and direction from
+const AMOUNT_MODE_COLUMNS = {
+    'type-column': ['type', 'amount'],
+    signed: ['amount'],
+    'debit-credit': ['debit', 'credit']
+};
+
+// Validate a spreadsheet import profile. Columns are zero-based indexes into
+// the sheet; unmapped ones are null. Returns { error } or { value } with parsed fields.
+function validateImportProfileInput(data) {
+    const {
+        name,
+        headers = [],
+        sheetName = null,
+        headerRow = 1,
+        columns = {},
+        amountMode = 'signed',
+        dateFormat = 'auto',
+        defaultCategory = null
+    } = data;
+
+    if (!name || !name.trim()) {
+        return { error: 'Name is required' };
+    }
+    if (name.trim().length > 50) {
+        return { error: 'Name must not exceed 50 characters' };
+    }
+
+    if (!Array.isArray(headers) || headers.some(header => typeof header !== 'string')) {
+        return { error: 'Headers must be a list of column names' };
+    }
+
+    const parsedHeaderRow = parseInt(headerRow, 10);
+    if (isNaN(parsedHeaderRow) || parsedHeaderRow < 1) {
+        return { error: 'Header row must be a positive integer' };
+    }
+
+    if (!IMPORT_AMOUNT_MODES.includes(amountMode)) {
+        return { error: `Amount mode must be one of: ${IMPORT_AMOUNT_MODES.join(', ')}` };
+    }
+    if (!IMPORT_DATE_FORMATS.includes(dateFormat)) {
+        return { error: `Date format must be one of: ${IMPORT_DATE_FORMATS.join(', ')}` };
+    }
+
+    const parsedColumns = {};
+    for (const field of IMPORT_COLUMNS) {
+        const column = columns[field];
+        if (column === undefined || column === null || column === '') {
+            parsedColumns[field] = null;
+            continue;
+        }
+        const parsedColumn = parseInt(column, 10);
+        if (isNaN(parsedColumn) || parsedColumn < 0) {
+            return { error: `Column for ${field} must be a column number` };
+        }
+        parsedColumns[field] = parsedColumn;
+    }
+
+    const required = ['date', 'description', ...AMOUNT_MODE_COLUMNS[amountMode]];
+    const missing = required.filter(field => parsedColumns[field] === null);
+    if (missing.length > 0) {
+        return { error: `Map a column to: ${missing.join(', ')}` };
+    }
+
+    return {
+        value: {
+            name: name.trim(),
+            headers: headers.map(header => header.trim()),
+            sheetName: sheetName || null,
+            headerRow: parsedHeaderRow,
+            columns: parsedColumns,
+            amountMode,
+            dateFormat,
+            defaultCategory: defaultCategory ? String(defaultCategory).trim() : null
+        }
+    };
+}
+
+// Validate an exchange rate: one `from` is worth `rate` of `to` on `date`.
+// Returns { error } or { value } with parsed fields.
+function validateExchangeRateInput(data) {
+    if (!data.date || !data.from || !data.to || data.rate === undefined || data.rate === '') {
+        return { error: 'Date, from, to and rate are required' };
+    }
+
+    const parsedDate = new Date(data.date);
+    if (isNaN(parsedDate.getTime())) {
+        return { error: 'Date must be a valid date' };
+    }
+
+    const from = parseCurrency(data.from);
+    const to = parseCurrency(data.to);
+    if (!from || !to) {
+        return { error: CURRENCY_ERROR };
+    }
+    if (from === to) {
+        return { error: 'From and to must be different currencies' };
+    }
+
+    const parsedRate = parseFloat(data.rate);
+    if (isNaN(parsedRate) || parsedRate <= 0) {
+        return { error: 'Rate must be a positive number' };
+    }
+
+    // Rates apply to whole days
+    parsedDate.setUTCHours(0, 0, 0, 0);
+    return { value: { date: parsedDate, from, to, rate: parsedRate } };
+}
+
+const MAX_PAYEE_ALIASES = 50;
+const MAX_PAYEE_PATTERNS = 20;
+
+// Trimmed, non-empty strings without repeats (ignoring case), or null when
+// the list is malformed or too long
+function parseTextList(list, { max, maxLength }) {
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) return null;
+    const seen = new Set();
+    const parsed = [];
+    for (const item of list.map(text => text.trim()).filter(Boolean)) {
+        if (item.length > maxLength) return null;
+        if (seen.has(item.toLowerCase())) continue;
+        seen.add(item.toLowerCase());
+        parsed.push(item);
+    }
+    return parsed.length > max ? null : parsed;
+}
+
+// Validate a payee. Aliases are other spellings of the name; patterns are
+// regular expressions for descriptions that vary, such as "^AMZN Mktp".
+// Returns { error } or { value } with parsed fields.
+function validatePayeeInput(data) {
+    const { name, aliases = [], patterns = [] } = data;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+        return { error: 'Name is required' };
+    }
+    if (name.trim().length > 100) {
+        return { error: 'Name must not exceed 100 characters' };
+    }
+
+    const parsedAliases = parseTextList(aliases, { max: MAX_PAYEE_ALIASES, maxLength: 200 });
+    if (!parsedAliases) {
+        return { error: `Aliases must be a list of at most ${MAX_PAYEE_ALIASES} names of up to 200 characters` };
+    }
+
+    const parsedPatterns = parseTextList(patterns, { max: MAX_PAYEE_PATTERNS, maxLength: MAX_RULE_PATTERN_LENGTH });
+    if (!parsedPatterns) {
+        return { error: `Patterns must be a list of at most ${MAX_PAYEE_PATTERNS} patterns of up to ${MAX_RULE_PATTERN_LENGTH} characters` };
+    }
+    for (const pattern of parsedPatterns) {
+        const { error } = compilePattern(pattern);
+        if (error) {
+            return { error: `"${pattern}" ${error}` };
+        }
+    }
+
+    return { value: { name: name.trim(), aliases: parsedAliases, patterns: parsedPatterns } };
+}
+
+module.exports = {
+    TRANSFER_CATEGORY,
+    parseTags,
+    validateTransactionInput,
+    checkTransferAccounts,
+    checkSplits,
+    validateBudgetInput,
+    validateRecurringRuleInput,
+    validateAccountInput,
+    validateCategoryInput,
+    validateExchangeRateInput,
+    validateImportProfileInput,
+    validateCategoryRuleInput,
+    validatePayeeInput
+};
@@ -0,0 +1,95 @@
+const express = require('express');
+const { validateAccountInput } = require('../lib/validation');
+const { computeAccountBalances } = require('../lib/accounts');
+const { DEFAULT_CURRENCY, loadConverter } = require('../lib/currency');
+
+function accountRoutes(storage) {
+    const router = express.Router();
+
+    // Get all accounts with their current balance. `unassigned` is the net of
+    // transactions recorded without an account, in the base currency.
+    router.get('/accounts', async (req, res) => {
+        try {
+            const converter = await loadConverter(storage, req.userId);
+            res.json(await computeAccountBalances(storage, req.userId, converter));
+        } catch (error) {
+            console.error('Error in GET /api/accounts:', error);
+            res.status(500).json({ error: 'Error fetching accounts' });
+        }
+    });
+
+    // Add new account
+    router.post('/accounts', async (req, res) => {
+        try {
+            const { error, value } = validateAccountInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+
+            if (!value.currency) {
+                const user = await storage.users.findById(req.userId);
+                value.currency = user?.baseCurrency || DEFAULT_CURRENCY;
+            }
+
+            const account = await storage.accounts.create(req.userId, value);
+            console.log('Account saved successfully:', account._id);
+            res.status(201).json(account);
+        } catch (error) {
+            console.error('Error in POST /api/accounts:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error creating account' });
+        }
+    });
+
+    // Update account
+    router.put('/accounts/:id', async (req, res) => {
+        try {
+            const { error, value } = validateAccountInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+
+            const account = await storage.accounts.update(req.userId, req.params.id, value);
+            if (!account) {
+                return res.status(404).json({ error: 'Account not found' });
+            }
+            res.json(account);
+        } catch (error) {
+            console.error('Error in PUT /api/accounts/:id:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error updating account' });
+        }
+    });
+
+    // Delete account. Accounts that still have transactions are kept so that
+    // no balance silently disappears.
+    router.delete('/accounts/:id', async (req, res) => {
+        try {
+            const converter = await loadConverter(storage, req.userId);
+            const { accounts } = await computeAccountBalances(storage, req.userId, converter);
+            const existing = accounts.find(account => String(account._id) === req.params.id);
+            if (!existing) {
+                return res.status(404).json({ error: 'Account not found' });
+            }
+            if (existing.transactionCount > 0) {
+                return res.status(409).json({
+                    error: `"${existing.name}" still has ${existing.transactionCount} transaction(s). Move or delete them first.`
+                });
+            }
+
+            const account = await storage.accounts.remove(req.userId, req.params.id);
+            res.json({ message: 'Account deleted', id: account._id });
+        } catch (error) {
+            console.error('Error in DELETE /api/accounts/:id:', error);
+            res.status(500).json({ error: 'Error deleting account' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = accountRoutes;
@@ -0,0 +1,127 @@
+const express = require('express');
+const {
+    baseContentType,
+    readUpload,
+    checkUpload,
+    toPublicAttachment,
+    saveAttachment,
+    removeAttachment
+} = require('../lib/attachments');
+
+function attachmentRoutes(storage) {
+    const router = express.Router();
+
+    // The caller's attachment, as long as it belongs to the transaction in the path
+    const findAttachment = async (req) => {
+        const attachment = await storage.attachments.findById(req.userId, req.params.attachmentId);
+        return attachment && String(attachment.transactionId) === req.params.id ? attachment : null;
+    };
+
+    // Get a transaction's attachments, oldest first
+    router.get('/transactions/:id/attachments', async (req, res) => {
+        try {
+            const transaction = await storage.transactions.findById(req.userId, req.params.id);
+            if (!transaction) {
+                return res.status(404).json({ error: 'Transaction not found' });
+            }
+            const attachments = await storage.attachments.list(req.userId, { transactionId: String(transaction._id) });
+            res.json(attachments
+                .sort((a, b) => new Date(a.createdAt) - new Date(b.createdAt))
+                .map(toPublicAttachment));
+        } catch (error) {
+            console.error('Error in GET /api/transactions/:id/attachments:', error);
+            res.status(500).json({ error: 'Error fetching attachments' });
+        }
+    });
+
+    // Attach a file to a transaction. The file is the raw request body and
+    // its name comes from the `filename` query parameter.
+    router.post('/transactions/:id/attachments', readUpload, async (req, res) => {
+        try {
+            const transaction = await storage.transactions.findById(req.userId, req.params.id);
+            if (!transaction) {
+                return res.status(404).json({ error: 'Transaction not found' });
+            }
+
+            const contentType = baseContentType(req.get('Content-Type'));
+            const uploadError = checkUpload(contentType, req.body);
+            if (uploadError) {
+                return res.status(400).json({ error: uploadError });
+            }
+
+            const attachment = await saveAttachment(storage, req.userId, String(transaction._id), {
+                filename: req.query.filename,
+                contentType,
+                data: req.body
+            });
+
+            console.log('Attachment saved successfully:', attachment._id);
+            res.status(201).json(toPublicAttachment(attachment));
+        } catch (error) {
+            console.error('Error in POST /api/transactions/:id/attachments:', error);
+            res.status(500).json({ error: 'Error saving attachment' });
+        }
+    });
+
+    // Download an attachment. `?inline=true` asks the browser to show it
+    // rather than save it.
+    router.get('/transactions/:id/attachments/:attachmentId', async (req, res) => {
+        try {
+            const attachment = await findAttachment(req);
+            const data = attachment && await storage.files.get(attachment.fileKey);
+            if (!data) {
+                return res.status(404).json({ error: 'Attachment not found' });
+            }
+            res.type(attachment.contentType);
+            if (req.query.inline === 'true') {
+                res.set('Content-Disposition', 'inline');
+            } else {
+                res.attachment(attachment.filename);
+            }
+            // Uploads are checked by their contents; never let a browser guess
+            res.set('X-Content-Type-Options', 'nosniff');
+            res.send(data);
+        } catch (error) {
+            console.error('Error in GET /api/transactions/:id/attachments/:attachmentId:', error);
+            res.status(500).json({ error: 'Error downloading attachment' });
+        }
+    });
+
+    // A small preview of an image attachment
+    router.get('/transactions/:id/attachments/:attachmentId/thumbnail', async (req, res) => {
+        try {
+            const attachment = await findAttachment(req);
+            const data = attachment?.thumbnailKey && await storage.files.get(attachment.thumbnailKey);
+            if (!data) {
+                return res.status(404).json({ error: 'Thumbnail not found' });
+            }
+            res.type(attachment.thumbnailType);
+            res.set('X-Content-Type-Options', 'nosniff');
+            res.send(data);
+        } catch (error) {
+            console.error('Error in GET /api/transactions/:id/attachments/:attachmentId/thumbnail:', error);
+            res.status(500).json({ error: 'Error fetching thumbnail' });
+        }
+    });
+
+    // Delete an attachment and its files
+    router.delete('/transactions/:id/attachments/:attachmentId', async (req, res) => {
+        try {
+            const attachment = await findAttachment(req);
+            const removed = attachment && await removeAttachment(storage, req.userId, attachment);
+            if (!removed) {
+                return res.status(404).json({ error: 'Attachment not found' });
+            }
+
+            console.log('Attachment deleted successfully:', removed._id);
+            res.json({ message: 'Attachment deleted', id: removed._id });
+        } catch (error) {
+            console.error('Error in DELETE /api/transactions/:id/attachments/:attachmentId:', error);
+            res.status(500).json({ error: 'Error deleting attachment' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = attachmentRoutes;
@@ -0,0 +1,133 @@
+const express = require('express');
+const { hashPassword, verifyPassword, signToken, requireAuth } = require('../lib/auth');
+const { DEFAULT_CURRENCY, parseCurrency } = require('../lib/currency');
+const { resolveTolerance, parseTolerance } = require('../lib/duplicates');
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Never send the password hash back to clients
+function toPublicUser(user) {
+    return {
+        _id: user._id,
+        name: user.name,
+        email: user.email,
+        baseCurrency: user.baseCurrency || DEFAULT_CURRENCY,
+        duplicateTolerance: resolveTolerance(user),
+        createdAt: user.createdAt
+    };
+}
+
+function authRoutes(storage) {
+    const router = express.Router();
+
+    // Register a new user and start a session
+    router.post('/register', async (req, res) => {
+        try {
+            const { name, email, password } = req.body;
+
+            if (!name || !email || !password) {
+                return res.status(400).json({ error: 'Name, email and password are required' });
+            }
+            if (!EMAIL_PATTERN.test(email)) {
+                return res.status(400).json({ error: 'Email must be a valid email address' });
+            }
+            if (password.length < MIN_PASSWORD_LENGTH) {
+                return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+            }
+
+            const isFirstUser = (await storage.users.count()) === 0;
+            const user = await storage.users.create({
+                name: name.trim(),
+                email: email.trim().toLowerCase(),
+                passwordHash: await hashPassword(password)
+            });
+
+            // The first account adopts the ledger that existed before accounts did
+            if (isFirstUser) {
+                const claimed = await storage.transactions.claimUnowned(String(user._id));
+                if (claimed > 0) console.log(`Assigned ${claimed} existing transactions to ${user.email}`);
+            }
+
+            console.log('User registered successfully:', user._id);
+            res.status(201).json({ token: signToken(user), user: toPublicUser(user) });
+        } catch (error) {
+            if (error.code === 11000) {
+                return res.status(409).json({ error: 'An account with this email already exists' });
+            }
+            console.error('Error in POST /api/auth/register:', error);
+            res.status(500).json({ error: 'Error creating account' });
+        }
+    });
+
+    // Log in with email and password
+    router.post('/login', async (req, res) => {
+        try {
+            const { email, password } = req.body;
+            if (!email || !password) {
+                return res.status(400).json({ error: 'Email and password are required' });
+            }
+
+            const user = await storage.users.findByEmail(email.trim());
+            if (!user || !(await verifyPassword(password, user.passwordHash))) {
+                return res.status(401).json({ error: 'Invalid email or password' });
+            }
+
+            res.json({ token: signToken(user), user: toPublicUser(user) });
+        } catch (error) {
+            console.error('Error in POST /api/auth/login:', error);
+            res.status(500).json({ error: 'Error logging in' });
+        }
+    });
+
+    // Get the currently logged in user
+    router.get('/me', requireAuth, async (req, res) => {
+        try {
+            const user = await storage.users.findById(req.userId);
+            if (!user) {
+                return res.status(401).json({ error: 'Account no longer exists' });
+            }
+            res.json(toPublicUser(user));
+        } catch (error) {
+            res.status(500).json({ error: 'Error fetching account' });
+        }
+    });
+
+    // Update the current user's settings: the base currency reports are
+    // converted to and the tolerance used to flag duplicates. Settings left
+    // out of the body are kept.
+    router.patch('/me', requireAuth, async (req, res) => {
+        try {
+            const changes = {};
+            if (req.body.baseCurrency !== undefined) {
+                changes.baseCurrency = parseCurrency(req.body.baseCurrency);
+                if (!changes.baseCurrency) {
+                    return res.status(400).json({ error: 'Base currency must be a 3-letter ISO code such as "EUR"' });
+                }
+            }
+            if (req.body.duplicateTolerance !== undefined) {
+                const { error, value } = parseTolerance(req.body.duplicateTolerance);
+                if (error) {
+                    return res.status(400).json({ error });
+                }
+                changes.duplicateTolerance = value;
+            }
+            if (Object.keys(changes).length === 0) {
+                return res.status(400).json({ error: 'Nothing to update' });
+            }
+
+            const user = await storage.users.update(req.userId, changes);
+            if (!user) {
+                return res.status(401).json({ error: 'Account no longer exists' });
+            }
+            res.json(toPublicUser(user));
+        } catch (error) {
+            console.error('Error in PATCH /api/auth/me:', error);
+            res.status(500).json({ error: 'Error updating account' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = authRoutes;
@@ -0,0 +1,103 @@
+const express = require('express');
+const { validateBudgetInput } = require('../lib/validation');
+const { computeBudgetProgress } = require('../lib/budgets');
+const { loadConverter } = require('../lib/currency');
+const { listCategories, checkTransactionCategory } = require('../lib/categories');
+
+function budgetRoutes(storage) {
+    const router = express.Router();
+
+    // Get all budgets with spending for their current period.
+    // ?date=YYYY-MM-DD evaluates the periods around another day instead.
+    router.get('/budgets', async (req, res) => {
+        try {
+            const reference = req.query.date ? new Date(req.query.date) : new Date();
+            if (isNaN(reference.getTime())) {
+                return res.status(400).json({ error: 'Date must be a valid date' });
+            }
+
+            const [budgets, converter] = await Promise.all([
+                storage.budgets.list(req.userId),
+                loadConverter(storage, req.userId)
+            ]);
+            res.json(await computeBudgetProgress(storage.transactions, req.userId, budgets, converter, reference));
+        } catch (error) {
+            console.error('Error in GET /api/budgets:', error);
+            res.status(500).json({ error: 'Error fetching budgets' });
+        }
+    });
+
+    // Add new budget
+    router.post('/budgets', async (req, res) => {
+        try {
+            const { error, value } = validateBudgetInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+            const categoryError = checkTransactionCategory(
+                await listCategories(storage, req.userId),
+                { type: 'expense', category: value.category }
+            );
+            if (categoryError) {
+                return res.status(400).json({ error: categoryError });
+            }
+
+            const budget = await storage.budgets.create(req.userId, value);
+            console.log('Budget saved successfully:', budget._id);
+            res.status(201).json(budget);
+        } catch (error) {
+            console.error('Error in POST /api/budgets:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error creating budget' });
+        }
+    });
+
+    // Update budget
+    router.put('/budgets/:id', async (req, res) => {
+        try {
+            const { error, value } = validateBudgetInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+            const categoryError = checkTransactionCategory(
+                await listCategories(storage, req.userId),
+                { type: 'expense', category: value.category }
+            );
+            if (categoryError) {
+                return res.status(400).json({ error: categoryError });
+            }
+
+            const budget = await storage.budgets.update(req.userId, req.params.id, value);
+            if (!budget) {
+                return res.status(404).json({ error: 'Budget not found' });
+            }
+            res.json(budget);
+        } catch (error) {
+            console.error('Error in PUT /api/budgets/:id:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error updating budget' });
+        }
+    });
+
+    // Delete budget
+    router.delete('/budgets/:id', async (req, res) => {
+        try {
+            const budget = await storage.budgets.remove(req.userId, req.params.id);
+            if (!budget) {
+                return res.status(404).json({ error: 'Budget not found' });
+            }
+            res.json({ message: 'Budget deleted', id: budget._id });
+        } catch (error) {
+            console.error('Error in DELETE /api/budgets/:id:', error);
+            res.status(500).json({ error: 'Error deleting budget' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = budgetRoutes;
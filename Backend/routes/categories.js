@@ -0,0 +1,278 @@
+const express = require('express');
+const { validateCategoryInput } = require('../lib/validation');
+const {
+    CATEGORY_COLORS,
+    listCategories,
+    findCategory,
+    renameCategoryEverywhere
+} = require('../lib/categories');
+const { suggestCategories } = require('../lib/categorySuggestions');
+const { parseTransactionQuery } = require('../lib/transactionQuery');
+
+// Rows a single suggestion request may carry
+const MAX_SUGGESTION_ROWS = 5000;
+
+// Check where a category sits in the hierarchy: names are unique, and a
+// subcategory's parent must be a top-level category. Returns { status, error }
+// or null when the category fits.
+function checkPlacement(categories, value, current = null) {
+    const sameName = findCategory(categories, value.name);
+    if (sameName && String(sameName._id) !== String(current?._id)) {
+        return { status: 409, error: `A category called "${sameName.name}" already exists` };
+    }
+    if (!value.parentId) return null;
+
+    const parent = categories.find(category => String(category._id) === value.parentId);
+    if (!parent) {
+        return { status: 400, error: 'Parent category not found' };
+    }
+    if (current && String(parent._id) === String(current._id)) {
+        return { status: 400, error: 'A category cannot be its own parent' };
+    }
+    if (parent.parentId) {
+        return { status: 400, error: 'Subcategories cannot have subcategories of their own' };
+    }
+    if (current && categories.some(category => String(category.parentId) === String(current._id))) {
+        return { status: 400, error: `"${current.name}" has subcategories, so it must stay top-level` };
+    }
+    return null;
+}
+
+// A category can only narrow to income or expense once nothing of the other
+// type uses it: transactions and split lines, recurring rules and
+// categorisation rules, and budgets, which track expenses. Returns an error
+// message, or null when the change is fine.
+async function checkTypeChange(storage, userId, category, type) {
+    if (type === undefined || type === category.type || type === 'both') return null;
+    const otherType = type === 'income' ? 'expense' : 'income';
+
+    const { criteria } = parseTransactionQuery({ type: otherType, limit: 1 });
+    criteria.categories = [category.name];
+    const [transactions, recurringRules, categoryRules, budgets] = await Promise.all([
+        storage.transactions.list(userId, criteria),
+        storage.recurringRules.list(userId, { category: category.name }),
+        storage.categoryRules.list(userId),
+        otherType === 'expense' ? storage.budgets.list(userId, { category: category.name }) : []
+    ]);
+    const uses = [
+        transactions.items.length > 0 && `${otherType} transactions`,
+        recurringRules.some(rule => rule.type === otherType) && `${otherType} recurring rules`,
+        categoryRules.some(rule => rule.actions.category === category.name &&
+            (rule.actions.transactionType || rule.conditions.transactionType) === otherType) && `${otherType} categorisation rules`,
+        budgets.length > 0 && 'budgets'
+    ].filter(Boolean);
+    if (uses.length === 0) return null;
+    return `"${category.name}" is still used by ${uses.join(', ')}, so it can't be for ${type} only`;
+}
+
+function categoryRoutes(storage) {
+    const router = express.Router();
+
+    // Get all categories with how many transactions use each
+    router.get('/categories', async (req, res) => {
+        try {
+            const [categories, usage] = await Promise.all([
+                listCategories(storage, req.userId),
+                storage.transactions.getCategoryUsage(req.userId)
+            ]);
+            res.json(categories.map(category => ({
+                ...category,
+                transactionCount: usage.find(item => item.category === category.name)?.count || 0
+            })));
+        } catch (error) {
+            console.error('Error in GET /api/categories:', error);
+            res.status(500).json({ error: 'Error fetching categories' });
+        }
+    });
+
+    // Add new category
+    router.post('/categories', async (req, res) => {
+        try {
+            const { error, value } = validateCategoryInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+
+            const categories = await listCategories(storage, req.userId);
+            const placementError = checkPlacement(categories, value);
+            if (placementError) {
+                return res.status(placementError.status).json({ error: placementError.error });
+            }
+            if (!value.color) {
+                value.color = CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length];
+            }
+
+            const category = await storage.categories.create(req.userId, value);
+            console.log('Category saved successfully:', category._id);
+            res.status(201).json(category);
+        } catch (error) {
+            console.error('Error in POST /api/categories:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error creating category' });
+        }
+    });
+
+    // Update category. Renaming it moves its transactions, budgets and
+    // recurring rules along; `renamed` says how many transactions moved.
+    router.put('/categories/:id', async (req, res) => {
+        try {
+            const { error, value } = validateCategoryInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+
+            const categories = await listCategories(storage, req.userId);
+            const existing = categories.find(category => String(category._id) === req.params.id);
+            if (!existing) {
+                return res.status(404).json({ error: 'Category not found' });
+            }
+            const placementError = checkPlacement(categories, value, existing);
+            if (placementError) {
+                return res.status(placementError.status).json({ error: placementError.error });
+            }
+            const typeError = await checkTypeChange(storage, req.userId, existing, value.type);
+            if (typeError) {
+                return res.status(409).json({ error: typeError });
+            }
+
+            const category = await storage.categories.update(req.userId, req.params.id, value);
+            const renamed = value.name !== existing.name
+                ? await renameCategoryEverywhere(storage, req.userId, existing.name, value.name)
+                : 0;
+            if (renamed > 0) {
+                console.log(`Renamed category "${existing.name}" to "${value.name}" on ${renamed} transactions`);
+            }
+            res.json({ ...category, renamed });
+        } catch (error) {
+            console.error('Error in PUT /api/categories/:id:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error updating category' });
+        }
+    });
+
+    // Suggest categories for transactions that aren't saved yet, learned from
+    // the ones already categorised. Takes { transactions: [{ type, amount,
+    // description }] } and returns { suggestions: [{ index, category,
+    // confidence, alternatives }] } for the rows there is something to go on.
+    router.post('/categories/suggest', async (req, res) => {
+        try {
+            const { transactions } = req.body;
+            if (!Array.isArray(transactions) || transactions.length > MAX_SUGGESTION_ROWS) {
+                return res.status(400).json({ error: `Transactions must be an array of at most ${MAX_SUGGESTION_ROWS} rows` });
+            }
+
+            const suggestions = await suggestCategories(storage, req.userId, transactions.map(row => ({
+                type: row?.type,
+                amount: parseFloat(row?.amount),
+                description: row?.description
+            })));
+            res.json({ suggestions });
+        } catch (error) {
+            console.error('Error in POST /api/categories/suggest:', error);
+            res.status(500).json({ error: 'Error suggesting categories' });
+        }
+    });
+
+    // Merge a category into another: its transactions, budgets and recurring
+    // rules move to the target, its subcategories are re-parented, and the
+    // category itself is deleted.
+    router.post('/categories/:id/merge', async (req, res) => {
+        try {
+            const { targetId } = req.body;
+            const categories = await listCategories(storage, req.userId);
+            const source = categories.find(category => String(category._id) === req.params.id);
+            const target = categories.find(category => String(category._id) === targetId);
+            if (!source) {
+                return res.status(404).json({ error: 'Category not found' });
+            }
+            if (!target) {
+                return res.status(400).json({ error: 'Target category not found' });
+            }
+            if (source === target) {
+                return res.status(400).json({ error: 'Pick a different category to merge into' });
+            }
+            // Moved transactions must still fit their category
+            if (target.type !== 'both' && target.type !== source.type) {
+                return res.status(400).json({
+                    error: `"${source.name}" can't be merged into "${target.name}", which is for ${target.type} only`
+                });
+            }
+
+            const children = categories.filter(category => String(category.parentId) === String(source._id));
+            if (children.length > 0 && target.parentId) {
+                return res.status(400).json({
+                    error: `"${source.name}" has subcategories, so it can only be merged into a top-level category`
+                });
+            }
+
+            for (const child of children) {
+                await storage.categories.update(req.userId, String(child._id), { parentId: String(target._id) });
+            }
+            const merged = await renameCategoryEverywhere(storage, req.userId, source.name, target.name);
+            await storage.categories.remove(req.userId, req.params.id);
+
+            console.log(`Merged category "${source.name}" into "${target.name}" (${merged} transactions)`);
+            res.json({ message: 'Category merged', id: source._id, target: target._id, merged });
+        } catch (error) {
+            console.error('Error in POST /api/categories/:id/merge:', error);
+            res.status(500).json({ error: 'Error merging category' });
+        }
+    });
+
+    // Delete category. Categories still in use are kept so no transaction
+    // loses its category; merge them into another one instead.
+    router.delete('/categories/:id', async (req, res) => {
+        try {
+            const [categories, usage] = await Promise.all([
+                listCategories(storage, req.userId),
+                storage.transactions.getCategoryUsage(req.userId)
+            ]);
+            const existing = categories.find(category => String(category._id) === req.params.id);
+            if (!existing) {
+                return res.status(404).json({ error: 'Category not found' });
+            }
+
+            const count = usage.find(item => item.category === existing.name)?.count || 0;
+            if (count > 0) {
+                return res.status(409).json({
+                    error: `"${existing.name}" is used by ${count} transaction(s). Merge it into another category instead.`
+                });
+            }
+            const rules = await storage.categoryRules.list(req.userId);
+            const ruleCount = rules.filter(rule => rule.actions.category === existing.name).length;
+            if (ruleCount > 0) {
+                return res.status(409).json({
+                    error: `"${existing.name}" is set by ${ruleCount} rule(s). Change or delete them first.`
+                });
+            }
+            const [budgets, recurringRules] = await Promise.all([
+                storage.budgets.list(req.userId, { category: existing.name }),
+                storage.recurringRules.list(req.userId, { category: existing.name })
+            ]);
+            if (budgets.length > 0 || recurringRules.length > 0) {
+                return res.status(409).json({
+                    error: `"${existing.name}" is used by ${budgets.length} budget(s) and ${recurringRules.length} recurring rule(s). Change or delete them first, or merge it into another category.`
+                });
+            }
+            if (categories.some(category => String(category.parentId) === String(existing._id))) {
+                return res.status(409).json({
+                    error: `"${existing.name}" has subcategories. Move or delete them first.`
+                });
+            }
+
+            const category = await storage.categories.remove(req.userId, req.params.id);
+            res.json({ message: 'Category deleted', id: category._id });
+        } catch (error) {
+            console.error('Error in DELETE /api/categories/:id:', error);
+            res.status(500).json({ error: 'Error deleting category' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = categoryRoutes;
@@ -0,0 +1,146 @@
+const express = require('express');
+const { validateCategoryRuleInput, parseTags } = require('../lib/validation');
+const { compileRules, applyRules, checkRuleReferences, runRules } = require('../lib/categoryRules');
+
+// Rows a single match request may carry
+const MAX_MATCH_ROWS = 5000;
+
+const byPriority = (a, b) => a.priority - b.priority || a.name.localeCompare(b.name);
+
+function categoryRuleRoutes(storage) {
+    const router = express.Router();
+
+    // Get all categorisation rules, in the order they run
+    router.get('/category-rules', async (req, res) => {
+        try {
+            const rules = await storage.categoryRules.list(req.userId);
+            res.json(rules.sort(byPriority));
+        } catch (error) {
+            console.error('Error in GET /api/category-rules:', error);
+            res.status(500).json({ error: 'Error fetching rules' });
+        }
+    });
+
+    // Add new rule
+    router.post('/category-rules', async (req, res) => {
+        try {
+            const { error, value } = validateCategoryRuleInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+            const referenceError = await checkRuleReferences(storage, req.userId, value);
+            if (referenceError) {
+                return res.status(400).json({ error: referenceError });
+            }
+
+            const rule = await storage.categoryRules.create(req.userId, value);
+            console.log('Rule saved successfully:', rule._id);
+            res.status(201).json(rule);
+        } catch (error) {
+            console.error('Error in POST /api/category-rules:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error creating rule' });
+        }
+    });
+
+    // Update rule
+    router.put('/category-rules/:id', async (req, res) => {
+        try {
+            const { error, value } = validateCategoryRuleInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+            const referenceError = await checkRuleReferences(storage, req.userId, value);
+            if (referenceError) {
+                return res.status(400).json({ error: referenceError });
+            }
+
+            const rule = await storage.categoryRules.update(req.userId, req.params.id, value);
+            if (!rule) {
+                return res.status(404).json({ error: 'Rule not found' });
+            }
+            res.json(rule);
+        } catch (error) {
+            console.error('Error in PUT /api/category-rules/:id:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error updating rule' });
+        }
+    });
+
+    // Delete rule
+    router.delete('/category-rules/:id', async (req, res) => {
+        try {
+            const rule = await storage.categoryRules.remove(req.userId, req.params.id);
+            if (!rule) {
+                return res.status(404).json({ error: 'Rule not found' });
+            }
+            res.json({ message: 'Rule deleted', id: rule._id });
+        } catch (error) {
+            console.error('Error in DELETE /api/category-rules/:id:', error);
+            res.status(500).json({ error: 'Error deleting rule' });
+        }
+    });
+
+    // Work out what the rules change on transactions that haven't been saved
+    // yet, such as the rows of an import or a form being filled in. Takes
+    // { transactions: [{ type, amount, description, accountId, tags }] }
+    // and returns the rows something matched as { index, changes, rules }.
+    router.post('/category-rules/match', async (req, res) => {
+        try {
+            const { transactions } = req.body;
+            if (!Array.isArray(transactions) || transactions.length > MAX_MATCH_ROWS) {
+                return res.status(400).json({ error: `Transactions must be an array of at most ${MAX_MATCH_ROWS} rows` });
+            }
+
+            const rules = compileRules(await storage.categoryRules.list(req.userId));
+            const matches = [];
+            transactions.forEach((row, index) => {
+                const candidate = {
+                    type: row?.type,
+                    amount: parseFloat(row?.amount),
+                    description: row?.description,
+                    accountId: row?.accountId || null,
+                    tags: parseTags(row?.tags ?? []) || [],
+                    category: row?.category
+                };
+                const result = applyRules(rules, candidate);
+                if (result.rules.length > 0) {
+                    matches.push({ index, ...result });
+                }
+            });
+
+            res.json({ matches });
+        } catch (error) {
+            console.error('Error in POST /api/category-rules/match:', error);
+            res.status(500).json({ error: 'Error matching rules' });
+        }
+    });
+
+    // Re-run the rules, or the one given as `ruleId`, over every recorded
+    // transaction. `apply: false` (the default) only previews the changes.
+    router.post('/category-rules/run', async (req, res) => {
+        try {
+            const { ruleId = null, apply = false } = req.body;
+            if (ruleId && !(await storage.categoryRules.findById(req.userId, String(ruleId)))) {
+                return res.status(404).json({ error: 'Rule not found' });
+            }
+
+            const result = await runRules(storage, req.userId, { ruleId, apply: apply === true });
+            if (apply === true) {
+                console.log(`Rules re-run: ${result.changed} transactions changed, ${result.skipped} skipped`);
+            }
+            res.json({ ...result, applied: apply === true });
+        } catch (error) {
+            console.error('Error in POST /api/category-rules/run:', error);
+            res.status(500).json({ error: 'Error running rules' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = categoryRuleRoutes;
@@ -0,0 +1,87 @@
+const express = require('express');
+const { resolveCurrency } = require('../lib/currency');
+const { resolveTolerance, findMatches, matchRange, findDuplicateGroups } = require('../lib/duplicates');
+
+function duplicateRoutes(storage) {
+    const router = express.Router();
+
+    const toleranceFor = async (userId) => resolveTolerance(await storage.users.findById(userId));
+
+    // Check transactions that are about to be saved against the ones already
+    // recorded. Each candidate is { type, amount, date, description,
+    // accountId?, currency?, externalId? }; candidates without a currency are
+    // in their account's. `fingerprints` are SHA-256 hashes of files being imported,
+    // and `excludeId` leaves out the transaction being edited.
+    router.post('/transactions/duplicates/check', async (req, res) => {
+        try {
+            const { transactions, fingerprints = [], excludeId = null } = req.body;
+            if (!Array.isArray(transactions) || !Array.isArray(fingerprints)) {
+                return res.status(400).json({ error: 'Transactions and fingerprints must be arrays' });
+            }
+
+            // Rows still being fixed in the import grid can't match anything
+            const currencies = new Map();
+            const candidates = [];
+            for (const [index, transaction] of transactions.entries()) {
+                const amount = Number(transaction?.amount);
+                if (!Number.isFinite(amount) || isNaN(new Date(transaction.date).getTime())) continue;
+
+                const accountId = transaction.accountId || null;
+                if (!transaction.currency && !currencies.has(accountId)) {
+                    currencies.set(accountId, await resolveCurrency(storage, req.userId, { accountId }));
+                }
+                candidates.push({
+                    index,
+                    transaction: {
+                        ...transaction,
+                        amount,
+                        accountId,
+                        currency: transaction.currency || currencies.get(accountId)
+                    }
+                });
+            }
+
+            let matches = [];
+            if (candidates.length > 0) {
+                const tolerance = await toleranceFor(req.userId);
+                const existing = (await storage.transactions.listInRange(
+                    req.userId,
+                    matchRange(candidates.map(candidate => candidate.transaction), tolerance)
+                )).filter(transaction => String(transaction._id) !== String(excludeId));
+                matches = findMatches(candidates.map(candidate => candidate.transaction), existing, tolerance)
+                    .map(match => ({ ...match, index: candidates[match.index].index }));
+            }
+
+            // Files of reverted uploads, and files none of whose rows were
+            // saved, can be imported again
+            const batches = fingerprints.length > 0 ? await storage.importBatches.list(req.userId) : [];
+            const importedFiles = batches
+                .filter(batch => !batch.revertedAt)
+                .flatMap(batch => batch.files
+                    .filter(file => fingerprints.includes(file.fingerprint) && file.rowCount > 0)
+                    .map(file => ({ ...file, batchId: batch._id, importedAt: batch.createdAt })));
+
+            res.json({ matches, importedFiles });
+        } catch (error) {
+            console.error('Error in POST /api/transactions/duplicates/check:', error);
+            res.status(500).json({ error: 'Error checking for duplicates' });
+        }
+    });
+
+    // Find groups of recorded transactions that look like copies of each
+    // other, newest first, using the user's tolerance
+    router.get('/transactions/duplicates', async (req, res) => {
+        try {
+            const tolerance = await toleranceFor(req.userId);
+            const transactions = await storage.transactions.listInRange(req.userId, {});
+            res.json({ tolerance, groups: findDuplicateGroups(transactions, tolerance) });
+        } catch (error) {
+            console.error('Error in GET /api/transactions/duplicates:', error);
+            res.status(500).json({ error: 'Error finding duplicates' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = duplicateRoutes;
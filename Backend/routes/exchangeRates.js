@@ -0,0 +1,105 @@
+const express = require('express');
+const { validateExchangeRateInput } = require('../lib/validation');
+const { parseRatesCsv } = require('../lib/currency');
+
+// Save a rate, replacing any rate already recorded for the same pair and day
+async function upsertRate(storage, userId, value) {
+    const [existing] = await storage.exchangeRates.list(userId, {
+        from: value.from,
+        to: value.to,
+        date: value.date.toISOString()
+    });
+    if (existing) {
+        return storage.exchangeRates.update(userId, String(existing._id), { rate: value.rate });
+    }
+    return storage.exchangeRates.create(userId, value);
+}
+
+function exchangeRateRoutes(storage) {
+    const router = express.Router();
+
+    // Get all exchange rates, newest first
+    router.get('/exchange-rates', async (req, res) => {
+        try {
+            const rates = await storage.exchangeRates.list(req.userId);
+            rates.sort((a, b) => new Date(b.date) - new Date(a.date));
+            res.json(rates);
+        } catch (error) {
+            console.error('Error in GET /api/exchange-rates:', error);
+            res.status(500).json({ error: 'Error fetching exchange rates' });
+        }
+    });
+
+    // Add or replace an exchange rate
+    router.post('/exchange-rates', async (req, res) => {
+        try {
+            const { error, value } = validateExchangeRateInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+
+            const rate = await upsertRate(storage, req.userId, value);
+            console.log('Exchange rate saved successfully:', rate._id);
+            res.status(201).json(rate);
+        } catch (error) {
+            console.error('Error in POST /api/exchange-rates:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error saving exchange rate' });
+        }
+    });
+
+    // Import historical rates from CSV text with date,from,to,rate columns.
+    // Valid lines are saved even when others fail; failures are reported by
+    // line number.
+    router.post('/exchange-rates/import', async (req, res) => {
+        try {
+            const { csv } = req.body;
+            if (typeof csv !== 'string' || !csv.trim()) {
+                return res.status(400).json({ error: 'CSV text is required' });
+            }
+
+            const rows = parseRatesCsv(csv);
+            if (rows.length === 0) {
+                return res.status(400).json({ error: 'No exchange rates found in the CSV' });
+            }
+
+            let imported = 0;
+            const errors = [];
+            for (const row of rows) {
+                const { error, value } = validateExchangeRateInput(row.data);
+                if (error) {
+                    errors.push({ line: row.line, error });
+                    continue;
+                }
+                await upsertRate(storage, req.userId, value);
+                imported++;
+            }
+
+            console.log(`Exchange rate import completed: ${imported} imported, ${errors.length} errors`);
+            res.json({ imported, errors });
+        } catch (error) {
+            console.error('Error in POST /api/exchange-rates/import:', error);
+            res.status(500).json({ error: 'Error importing exchange rates' });
+        }
+    });
+
+    // Delete exchange rate
+    router.delete('/exchange-rates/:id', async (req, res) => {
+        try {
+            const rate = await storage.exchangeRates.remove(req.userId, req.params.id);
+            if (!rate) {
+                return res.status(404).json({ error: 'Exchange rate not found' });
+            }
+            res.json({ message: 'Exchange rate deleted', id: rate._id });
+        } catch (error) {
+            console.error('Error in DELETE /api/exchange-rates/:id:', error);
+            res.status(500).json({ error: 'Error deleting exchange rate' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = exchangeRateRoutes;
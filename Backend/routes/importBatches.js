@@ -0,0 +1,48 @@
+const express = require('express');
+const { resetModel } = require('../lib/categorySuggestions');
+const { removeOrphanedAttachments } = require('../lib/attachments');
+
+function importBatchRoutes(storage) {
+    const router = express.Router();
+
+    // Get every bulk upload, newest first
+    router.get('/import-batches', async (req, res) => {
+        try {
+            const batches = await storage.importBatches.list(req.userId);
+            res.json(batches.sort((a, b) => new Date(b.createdAt) - new Date(a.createdAt)));
+        } catch (error) {
+            console.error('Error in GET /api/import-batches:', error);
+            res.status(500).json({ error: 'Error fetching import history' });
+        }
+    });
+
+    // Revert a bulk upload: delete every transaction it created, including
+    // ones edited since, and anything attached to them. The batch stays in
+    // the history, marked as reverted, and its files can be imported again.
+    router.post('/import-batches/:id/revert', async (req, res) => {
+        try {
+            const batch = await storage.importBatches.findById(req.userId, req.params.id);
+            if (!batch) {
+                return res.status(404).json({ error: 'Import batch not found' });
+            }
+            if (batch.revertedAt) {
+                return res.status(409).json({ error: 'This import has already been reverted' });
+            }
+
+            const removed = await storage.transactions.removeByImportBatch(req.userId, String(batch._id));
+            resetModel(req.userId);
+            await removeOrphanedAttachments(storage, req.userId);
+            const updated = await storage.importBatches.update(req.userId, req.params.id, { revertedAt: new Date() });
+
+            console.log(`Import batch reverted successfully: ${batch._id} (${removed} transactions removed)`);
+            res.json({ ...updated, removed });
+        } catch (error) {
+            console.error('Error in POST /api/import-batches/:id/revert:', error);
+            res.status(500).json({ error: 'Error reverting import' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = importBatchRoutes;
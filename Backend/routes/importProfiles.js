@@ -0,0 +1,96 @@
+const express = require('express');
+const { validateImportProfileInput } = require('../lib/validation');
+
+const byName = (a, b) => a.name.localeCompare(b.name);
+
+// Another profile of the user's with the same name, ignoring case
+async function findNameClash(storage, userId, name, id = null) {
+    const profiles = await storage.importProfiles.list(userId);
+    return profiles.find(profile =>
+        profile.name.toLowerCase() === name.toLowerCase() && String(profile._id) !== String(id));
+}
+
+function importProfileRoutes(storage) {
+    const router = express.Router();
+
+    // Get all import profiles, by name
+    router.get('/import-profiles', async (req, res) => {
+        try {
+            const profiles = await storage.importProfiles.list(req.userId);
+            res.json(profiles.sort(byName));
+        } catch (error) {
+            console.error('Error in GET /api/import-profiles:', error);
+            res.status(500).json({ error: 'Error fetching import profiles' });
+        }
+    });
+
+    // Add new import profile
+    router.post('/import-profiles', async (req, res) => {
+        try {
+            const { error, value } = validateImportProfileInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+
+            const clash = await findNameClash(storage, req.userId, value.name);
+            if (clash) {
+                return res.status(409).json({ error: `An import profile called "${clash.name}" already exists` });
+            }
+
+            const profile = await storage.importProfiles.create(req.userId, value);
+            console.log('Import profile saved successfully:', profile._id);
+            res.status(201).json(profile);
+        } catch (error) {
+            console.error('Error in POST /api/import-profiles:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error creating import profile' });
+        }
+    });
+
+    // Update import profile
+    router.put('/import-profiles/:id', async (req, res) => {
+        try {
+            const { error, value } = validateImportProfileInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+
+            const clash = await findNameClash(storage, req.userId, value.name, req.params.id);
+            if (clash) {
+                return res.status(409).json({ error: `An import profile called "${clash.name}" already exists` });
+            }
+
+            const profile = await storage.importProfiles.update(req.userId, req.params.id, value);
+            if (!profile) {
+                return res.status(404).json({ error: 'Import profile not found' });
+            }
+            res.json(profile);
+        } catch (error) {
+            console.error('Error in PUT /api/import-profiles/:id:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error updating import profile' });
+        }
+    });
+
+    // Delete import profile
+    router.delete('/import-profiles/:id', async (req, res) => {
+        try {
+            const profile = await storage.importProfiles.remove(req.userId, req.params.id);
+            if (!profile) {
+                return res.status(404).json({ error: 'Import profile not found' });
+            }
+            res.json({ message: 'Import profile deleted', id: profile._id });
+        } catch (error) {
+            console.error('Error in DELETE /api/import-profiles/:id:', error);
+            res.status(500).json({ error: 'Error deleting import profile' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = importProfileRoutes;
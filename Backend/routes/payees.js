@@ -0,0 +1,182 @@
+const express = require('express');
+const { validatePayeeInput } = require('../lib/validation');
+const { loadConverter, roundMoney } = require('../lib/currency');
+const { createPayeeMatcher, matchRecordedTransactions } = require('../lib/payees');
+const { parseReportRange, monthsInRange, expensePayeeTotals } = require('../lib/reports');
+
+// Descriptions a single match request may carry
+const MAX_MATCH_DESCRIPTIONS = 5000;
+
+const byName = (a, b) => a.name.localeCompare(b.name);
+
+function payeeRoutes(storage) {
+    const router = express.Router();
+
+    // Names are unique per user, ignoring case
+    const findNameClash = async (userId, name, exceptId = null) => {
+        const payees = await storage.payees.list(userId);
+        return payees.find(payee =>
+            String(payee._id) !== exceptId && payee.name.toLowerCase() === name.toLowerCase());
+    };
+
+    // Get all payees, by name
+    router.get('/payees', async (req, res) => {
+        try {
+            const payees = await storage.payees.list(req.userId);
+            res.json(payees.sort(byName));
+        } catch (error) {
+            console.error('Error in GET /api/payees:', error);
+            res.status(500).json({ error: 'Error fetching payees' });
+        }
+    });
+
+    // Add new payee
+    router.post('/payees', async (req, res) => {
+        try {
+            const { error, value } = validatePayeeInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+            if (await findNameClash(req.userId, value.name)) {
+                return res.status(400).json({ error: `A payee named "${value.name}" already exists` });
+            }
+
+            const payee = await storage.payees.create(req.userId, value);
+            console.log('Payee saved successfully:', payee._id);
+            res.status(201).json(payee);
+        } catch (error) {
+            console.error('Error in POST /api/payees:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error creating payee' });
+        }
+    });
+
+    // Update payee
+    router.put('/payees/:id', async (req, res) => {
+        try {
+            const { error, value } = validatePayeeInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+            if (await findNameClash(req.userId, value.name, req.params.id)) {
+                return res.status(400).json({ error: `A payee named "${value.name}" already exists` });
+            }
+
+            const payee = await storage.payees.update(req.userId, req.params.id, value);
+            if (!payee) {
+                return res.status(404).json({ error: 'Payee not found' });
+            }
+            res.json(payee);
+        } catch (error) {
+            console.error('Error in PUT /api/payees/:id:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error updating payee' });
+        }
+    });
+
+    // Delete payee. Its transactions are kept, without a payee.
+    router.delete('/payees/:id', async (req, res) => {
+        try {
+            const payee = await storage.payees.remove(req.userId, req.params.id);
+            if (!payee) {
+                return res.status(404).json({ error: 'Payee not found' });
+            }
+            const cleared = await storage.transactions.clearPayee(req.userId, String(payee._id));
+
+            console.log('Payee deleted successfully:', payee._id);
+            res.json({ message: 'Payee deleted', id: payee._id, cleared });
+        } catch (error) {
+            console.error('Error in DELETE /api/payees/:id:', error);
+            res.status(500).json({ error: 'Error deleting payee' });
+        }
+    });
+
+    // Find the payees of descriptions that haven't been saved yet, such as a
+    // form being filled in. Takes { descriptions: [string] } and returns the
+    // ones matched as { index, payeeId }.
+    router.post('/payees/match', async (req, res) => {
+        try {
+            const { descriptions } = req.body;
+            if (!Array.isArray(descriptions) || descriptions.length > MAX_MATCH_DESCRIPTIONS) {
+                return res.status(400).json({ error: `Descriptions must be an array of at most ${MAX_MATCH_DESCRIPTIONS} items` });
+            }
+
+            const matchPayee = createPayeeMatcher(await storage.payees.list(req.userId));
+            const matches = [];
+            descriptions.forEach((description, index) => {
+                const payee = matchPayee(typeof description === 'string' ? description : '');
+                if (payee) {
+                    matches.push({ index, payeeId: payee._id });
+                }
+            });
+
+            res.json({ matches });
+        } catch (error) {
+            console.error('Error in POST /api/payees/match:', error);
+            res.status(500).json({ error: 'Error matching payees' });
+        }
+    });
+
+    // Give recorded transactions without a payee the one their description
+    // matches. Transactions that already have a payee are left alone.
+    router.post('/payees/apply', async (req, res) => {
+        try {
+            const result = await matchRecordedTransactions(storage, req.userId);
+            console.log(`Payees matched: ${result.matched} of ${result.scanned} transactions`);
+            res.json(result);
+        } catch (error) {
+            console.error('Error in POST /api/payees/apply:', error);
+            res.status(500).json({ error: 'Error matching transactions' });
+        }
+    });
+
+    // Spending per payee over a range, in the user's base currency: the
+    // total, number of transactions, average ticket and the total of every
+    // month in the range. Expenses without a payee are summed as
+    // `unassigned`.
+    router.get('/payees/spending', async (req, res) => {
+        const { error, range } = parseReportRange(req.query, 'last-12-months');
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        try {
+            const converter = await loadConverter(storage, req.userId);
+            const [payees, totals] = await Promise.all([
+                storage.payees.list(req.userId),
+                expensePayeeTotals(storage, req.userId, converter, range)
+            ]);
+
+            const summarise = (entry) => ({
+                total: roundMoney(entry.total),
+                count: entry.count,
+                average: entry.count > 0 ? roundMoney(entry.total / entry.count) : 0,
+                monthly: entry.monthly.map(roundMoney)
+            });
+            const payeeSpending = payees
+                .filter(payee => totals.has(String(payee._id)))
+                .map(payee => ({ payeeId: payee._id, name: payee.name, ...summarise(totals.get(String(payee._id))) }))
+                .sort((a, b) => b.total - a.total);
+
+            res.json({
+                from: range.from.toISOString(),
+                to: range.to.toISOString(),
+                baseCurrency: converter.baseCurrency,
+                months: monthsInRange(range),
+                payees: payeeSpending,
+                unassigned: totals.has(null) ? summarise(totals.get(null)) : null
+            });
+        } catch (error) {
+            console.error('Error in GET /api/payees/spending:', error);
+            res.status(500).json({ error: 'Error fetching payee spending' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = payeeRoutes;
@@ -0,0 +1,49 @@
+const express = require('express');
+const { RECEIPT_TYPES, baseContentType, readUpload, checkUpload } = require('../lib/attachments');
+const { extractPdfText } = require('../lib/pdfText');
+const { recognizeImage } = require('../lib/ocr');
+const { parseReceipt } = require('../lib/receiptParser');
+
+function receiptRoutes(storage, ocrConfig) {
+    const router = express.Router();
+
+    // Read a receipt sent as the raw body (a JPEG or PNG photo, or a PDF)
+    // and pick out the merchant, date, total, tax and currency. Nothing is
+    // saved; the receipt is attached once the transaction is created.
+    router.post('/receipts/scan', readUpload, async (req, res) => {
+        try {
+            const contentType = baseContentType(req.get('Content-Type'));
+            const uploadError = checkUpload(contentType, req.body, RECEIPT_TYPES);
+            if (uploadError) {
+                return res.status(400).json({ error: uploadError });
+            }
+
+            let lines;
+            if (contentType === 'application/pdf') {
+                lines = extractPdfText(req.body);
+                if (lines.length === 0) {
+                    return res.status(422).json({ error: 'This PDF has no text to read. Upload a photo of the receipt instead.' });
+                }
+            } else {
+                const result = await recognizeImage(req.body, ocrConfig);
+                if (result.error) {
+                    return res.status(422).json({ error: result.error });
+                }
+                lines = result.lines;
+            }
+
+            res.json({
+                fields: parseReceipt(lines),
+                lines,
+                engine: contentType === 'application/pdf' ? 'pdf' : 'ocr'
+            });
+        } catch (error) {
+            console.error('Error in POST /api/receipts/scan:', error);
+            res.status(500).json({ error: 'Error reading receipt' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = receiptRoutes;
@@ -0,0 +1,137 @@
+const express = require('express');
+const { validateRecurringRuleInput } = require('../lib/validation');
+const { checkTransactionAccounts } = require('../lib/accounts');
+const { listCategories, checkTransactionCategory } = require('../lib/categories');
+const { resolveCurrency } = require('../lib/currency');
+const { upcomingOccurrences } = require('../lib/recurrence');
+const { postDueOccurrences } = require('../lib/scheduler');
+
+const DEFAULT_PREVIEW_COUNT = 5;
+const MAX_PREVIEW_COUNT = 50;
+
+function previewCount(query) {
+    const limit = parseInt(query.limit, 10);
+    return isNaN(limit) ? DEFAULT_PREVIEW_COUNT : Math.min(Math.max(limit, 1), MAX_PREVIEW_COUNT);
+}
+
+function recurringRoutes(storage) {
+    const router = express.Router();
+
+    // Get all recurring rules with their next few occurrences
+    router.get('/recurring-rules', async (req, res) => {
+        try {
+            const rules = await storage.recurringRules.list(req.userId);
+            res.json(rules.map(rule => ({
+                ...rule,
+                upcoming: rule.active ? upcomingOccurrences(rule, 3) : []
+            })));
+        } catch (error) {
+            console.error('Error in GET /api/recurring-rules:', error);
+            res.status(500).json({ error: 'Error fetching recurring rules' });
+        }
+    });
+
+    // Preview the occurrences of a rule that hasn't been saved yet
+    router.post('/recurring-rules/preview', async (req, res) => {
+        const { error, value } = validateRecurringRuleInput(req.body);
+        if (error) {
+            return res.status(400).json({ error });
+        }
+        res.json(upcomingOccurrences(value, previewCount(req.query)));
+    });
+
+    // Preview the upcoming occurrences of a saved rule
+    router.get('/recurring-rules/:id/preview', async (req, res) => {
+        try {
+            const rule = await storage.recurringRules.findById(req.userId, req.params.id);
+            if (!rule) {
+                return res.status(404).json({ error: 'Recurring rule not found' });
+            }
+            res.json(upcomingOccurrences(rule, previewCount(req.query)));
+        } catch (error) {
+            res.status(500).json({ error: 'Error previewing recurring rule' });
+        }
+    });
+
+    // Add new recurring rule and post any occurrences already due
+    router.post('/recurring-rules', async (req, res) => {
+        try {
+            const { error, value } = validateRecurringRuleInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+            const accountError = await checkTransactionAccounts(storage, req.userId, value);
+            if (accountError) {
+                return res.status(400).json({ error: accountError });
+            }
+            const categoryError = checkTransactionCategory(await listCategories(storage, req.userId), value);
+            if (categoryError) {
+                return res.status(400).json({ error: categoryError });
+            }
+
+            value.currency = await resolveCurrency(storage, req.userId, value);
+
+            const rule = await storage.recurringRules.create(req.userId, { ...value, postedCount: 0 });
+            const posted = await postDueOccurrences(storage, rule);
+            console.log('Recurring rule saved successfully:', rule._id);
+            res.status(201).json({ ...(await storage.recurringRules.findById(req.userId, String(rule._id))), posted });
+        } catch (error) {
+            console.error('Error in POST /api/recurring-rules:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error creating recurring rule' });
+        }
+    });
+
+    // Update recurring rule. Occurrences already posted are left untouched.
+    router.put('/recurring-rules/:id', async (req, res) => {
+        try {
+            const { error, value } = validateRecurringRuleInput(req.body);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+            const accountError = await checkTransactionAccounts(storage, req.userId, value);
+            if (accountError) {
+                return res.status(400).json({ error: accountError });
+            }
+            const categoryError = checkTransactionCategory(await listCategories(storage, req.userId), value);
+            if (categoryError) {
+                return res.status(400).json({ error: categoryError });
+            }
+
+            value.currency = await resolveCurrency(storage, req.userId, value);
+
+            const rule = await storage.recurringRules.update(req.userId, req.params.id, value);
+            if (!rule) {
+                return res.status(404).json({ error: 'Recurring rule not found' });
+            }
+            const posted = await postDueOccurrences(storage, rule);
+            res.json({ ...(await storage.recurringRules.findById(req.userId, req.params.id)), posted });
+        } catch (error) {
+            console.error('Error in PUT /api/recurring-rules/:id:', error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error updating recurring rule' });
+        }
+    });
+
+    // Delete recurring rule. Transactions it already posted are kept.
+    router.delete('/recurring-rules/:id', async (req, res) => {
+        try {
+            const rule = await storage.recurringRules.remove(req.userId, req.params.id);
+            if (!rule) {
+                return res.status(404).json({ error: 'Recurring rule not found' });
+            }
+            res.json({ message: 'Recurring rule deleted', id: rule._id });
+        } catch (error) {
+            console.error('Error in DELETE /api/recurring-rules/:id:', error);
+            res.status(500).json({ error: 'Error deleting recurring rule' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = recurringRoutes;
@@ -0,0 +1,210 @@
+const express = require('express');
+const { loadConverter, roundMoney } = require('../lib/currency');
+const { listCategories, colorFor } = require('../lib/categories');
+const { buildFinancialReport } = require('../lib/financialReport');
+const { renderReportPdf } = require('../lib/reportPdf');
+const {
+    MONTH_NAMES,
+    parseReportRange,
+    parseReportPeriod,
+    percentChange,
+    monthlyTotals,
+    expenseCategoryTotals,
+    expenseTagTotals,
+    summarisePeriods
+} = require('../lib/reports');
+
+function toRangeJson(range) {
+    return range && { from: range.from.toISOString(), to: range.to.toISOString() };
+}
+
+function reportRoutes(storage) {
+    const router = express.Router();
+
+    // Get monthly overview data, in the user's base currency. Every day is
+    // converted at that day's exchange rate. Months without transactions are
+    // included, and with a comparison each month carries the matching month
+    // of the comparison period.
+    router.get('/monthly-overview', async (req, res) => {
+        const { error, range, comparison } = parseReportRange(req.query, 'last-6-months');
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        try {
+            const converter = await loadConverter(storage, req.userId);
+            const [current, previous] = await Promise.all([
+                monthlyTotals(storage, req.userId, converter, range),
+                comparison ? monthlyTotals(storage, req.userId, converter, comparison) : null
+            ]);
+
+            const formattedData = current.map((item, index) => {
+                const entry = {
+                    month: MONTH_NAMES[item.month - 1],
+                    year: item.year,
+                    income: item.income,
+                    expenses: item.expenses
+                };
+                if (previous) {
+                    entry.previousIncome = previous[index]?.income ?? 0;
+                    entry.previousExpenses = previous[index]?.expenses ?? 0;
+                }
+                return entry;
+            });
+
+            res.json(formattedData);
+        } catch (error) {
+            res.status(500).json({ error: 'Error fetching monthly overview' });
+        }
+    });
+
+    // Get category breakdown, in the user's base currency. Each slice keeps
+    // the colour and icon of its category and, with a comparison, how much
+    // spending in it changed.
+    router.get('/category-breakdown', async (req, res) => {
+        const { error, range, comparison } = parseReportRange(req.query, 'this-month');
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        try {
+            const converter = await loadConverter(storage, req.userId);
+            const [current, previous, categories] = await Promise.all([
+                expenseCategoryTotals(storage, req.userId, converter, range),
+                comparison ? expenseCategoryTotals(storage, req.userId, converter, comparison) : null,
+                listCategories(storage, req.userId)
+            ]);
+
+            const formattedData = [...current].map(([name, value]) => {
+                const category = categories.find(item => item.name === name);
+                const entry = {
+                    name,
+                    value: roundMoney(value),
+                    color: category?.color || colorFor(name),
+                    icon: category?.icon || 'tag'
+                };
+                if (previous) {
+                    const previousValue = previous.get(name) || 0;
+                    entry.previousValue = roundMoney(previousValue);
+                    entry.change = percentChange(value, previousValue);
+                }
+                return entry;
+            });
+
+            res.json(formattedData);
+        } catch (error) {
+            res.status(500).json({ error: 'Error fetching category breakdown' });
+        }
+    });
+
+    // Get spending per tag, in the user's base currency, biggest first. A
+    // transaction with several tags counts in full under each, so the
+    // values can add up to more than the total spent.
+    router.get('/tag-breakdown', async (req, res) => {
+        const { error, range, comparison } = parseReportRange(req.query, 'this-month');
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        try {
+            const converter = await loadConverter(storage, req.userId);
+            const [current, previous] = await Promise.all([
+                expenseTagTotals(storage, req.userId, converter, range),
+                comparison ? expenseTagTotals(storage, req.userId, converter, comparison) : null
+            ]);
+
+            const formattedData = [...current].map(([tag, value]) => {
+                const entry = { tag, value: roundMoney(value) };
+                if (previous) {
+                    const previousValue = previous.get(tag) || 0;
+                    entry.previousValue = roundMoney(previousValue);
+                    entry.change = percentChange(value, previousValue);
+                }
+                return entry;
+            });
+
+            res.json(formattedData.sort((a, b) => b.value - a.value));
+        } catch (error) {
+            res.status(500).json({ error: 'Error fetching tag breakdown' });
+        }
+    });
+
+    // Get stats overview for a range, in the user's base currency.
+    // `changes` holds the percentage change of each figure against the
+    // comparison period (percentage points for the savings rate), and
+    // `missingRates` lists currency pairs that had no exchange rate and were
+    // left out.
+    router.get('/stats', async (req, res) => {
+        const { error, range, comparison } = parseReportRange(req.query, 'this-month');
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        try {
+            const converter = await loadConverter(storage, req.userId);
+            const { current, previous } = await summarisePeriods(storage, req.userId, converter, range, comparison);
+
+            res.json({
+                totalBalance: current.totalBalance.toFixed(2),
+                income: current.income.toFixed(2),
+                expenses: current.expenses.toFixed(2),
+                savingsRate: current.savingsRate.toFixed(1),
+                changes: previous && {
+                    totalBalance: percentChange(current.totalBalance, previous.totalBalance),
+                    income: percentChange(current.income, previous.income),
+                    expenses: percentChange(current.expenses, previous.expenses),
+                    savingsRate: Math.round((current.savingsRate - previous.savingsRate) * 10) / 10
+                },
+                range: toRangeJson(range),
+                comparison: toRangeJson(comparison),
+                baseCurrency: converter.baseCurrency,
+                missingRates: converter.missingRates()
+            });
+        } catch (error) {
+            res.status(500).json({ error: 'Error fetching stats' });
+        }
+    });
+
+    // Get a printable report for one month, quarter or year
+    // (?template=monthly|quarterly|annual&period=2024-05|2024-Q2|2024),
+    // compared with the period before it. The Reports page previews this
+    // before downloading the PDF.
+    router.get('/reports', async (req, res) => {
+        const period = parseReportPeriod(req.query);
+        if (period.error) {
+            return res.status(400).json({ error: period.error });
+        }
+
+        try {
+            const converter = await loadConverter(storage, req.userId);
+            res.json(await buildFinancialReport(storage, req.userId, converter, period));
+        } catch (error) {
+            console.error('Error in GET /api/reports:', error);
+            res.status(500).json({ error: 'Error building report' });
+        }
+    });
+
+    // The same report as a PDF file, rendered here so nothing has to be
+    // installed to print it
+    router.get('/reports/pdf', async (req, res) => {
+        const period = parseReportPeriod(req.query);
+        if (period.error) {
+            return res.status(400).json({ error: period.error });
+        }
+
+        try {
+            const converter = await loadConverter(storage, req.userId);
+            const report = await buildFinancialReport(storage, req.userId, converter, period);
+            res.setHeader('Content-Type', 'application/pdf');
+            res.attachment(`report-${period.label.replace(/\s+/g, '-').toLowerCase()}.pdf`);
+            res.send(renderReportPdf(report));
+        } catch (error) {
+            console.error('Error in GET /api/reports/pdf:', error);
+            res.status(500).json({ error: 'Error building report' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = reportRoutes;
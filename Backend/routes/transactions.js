@@ -0,0 +1,453 @@
+const { once } = require('events');
+const express = require('express');
+const { validateTransactionInput, checkTransferAccounts, checkSplits, parseTags } = require('../lib/validation');
+const { checkTransactionAccounts } = require('../lib/accounts');
+const { listCategories, findCategory, checkTransactionCategory } = require('../lib/categories');
+const { parseCurrency, resolveCurrency } = require('../lib/currency');
+const { parseTransactionQuery } = require('../lib/transactionQuery');
+const { parseExportOptions, createExporter } = require('../lib/transactionExport');
+const { fillFromRules } = require('../lib/categoryRules');
+const { recordTransaction, forgetTransaction } = require('../lib/categorySuggestions');
+const { removeTransactionAttachments } = require('../lib/attachments');
+const { createPayeeMatcher, fillPayee, checkTransactionPayee } = require('../lib/payees');
+
+// Transactions read per storage call while streaming an export
+const EXPORT_PAGE_SIZE = 500;
+
+// SHA-256 in hex, as the upload page computes it
+const FINGERPRINT_PATTERN = /^[a-f0-9]{64}$/;
+
+// Check one row of a bulk upload and turn it into the transaction to save.
+// Rows get the payee their description matches.
+function prepareBulkRow(transactionData, { categories, matchPayee, defaultCurrency, accountId }) {
+    // Validate required fields
+    if (!transactionData.type || !transactionData.amount || !transactionData.category || !transactionData.date || !transactionData.description) {
+        return { error: 'Missing required fields' };
+    }
+
+    // Spreadsheet cells arrive as text; anything else can't be stored
+    if (typeof transactionData.description !== 'string' || typeof transactionData.category !== 'string') {
+        return { error: 'Description and category must be text' };
+    }
+
+    // Validate transaction type
+    if (transactionData.type !== 'income' && transactionData.type !== 'expense') {
+        return { error: 'Invalid type. Must be "income" or "expense"' };
+    }
+
+    // Validate category; spreadsheets are matched ignoring case
+    const categoryError = checkTransactionCategory(categories, transactionData);
+    if (categoryError) {
+        return { error: categoryError };
+    }
+
+    // Validate amount
+    const parsedAmount = parseFloat(transactionData.amount);
+    if (isNaN(parsedAmount) || parsedAmount < 0) {
+        return { error: 'Invalid amount. Must be a positive number' };
+    }
+
+    // Validate date
+    const parsedDate = new Date(transactionData.date);
+    if (isNaN(parsedDate.getTime())) {
+        return { error: 'Invalid date format' };
+    }
+
+    // Validate description length
+    if (transactionData.description.length > 200) {
+        return { error: 'Description must not exceed 200 characters' };
+    }
+
+    // Validate currency
+    const currency = transactionData.currency ? parseCurrency(transactionData.currency) : defaultCurrency;
+    if (!currency) {
+        return { error: 'Invalid currency. Must be a 3-letter ISO code' };
+    }
+
+    // Validate the bank's transaction id
+    if (transactionData.externalId !== undefined && transactionData.externalId !== null &&
+        (typeof transactionData.externalId !== 'string' || transactionData.externalId.length > 255)) {
+        return { error: 'External id must be text of at most 255 characters' };
+    }
+
+    // Validate tags, such as ones added by categorisation rules
+    const tags = transactionData.tags === undefined ? [] : parseTags(transactionData.tags);
+    if (!tags) {
+        return { error: 'Invalid tags. Must be a list of short words' };
+    }
+
+    const payee = matchPayee(transactionData.description);
+
+    return {
+        value: {
+            type: transactionData.type,
+            amount: parsedAmount,
+            category: findCategory(categories, transactionData.category).name,
+            date: parsedDate,
+            description: transactionData.description,
+            accountId,
+            currency,
+            ...(transactionData.externalId ? { externalId: transactionData.externalId } : {}),
+            ...(tags.length > 0 ? { tags } : {}),
+            ...(payee ? { payeeId: String(payee._id) } : {})
+        }
+    };
+}
+
+function transactionRoutes(storage) {
+    const router = express.Router();
+
+    // Get transactions, filtered, sorted and paginated.
+    // Supports either ?page=N or keyset pagination via the returned nextCursor.
+    router.get('/transactions', async (req, res) => {
+        try {
+            const { error, criteria } = parseTransactionQuery(req.query);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+
+            res.json(await storage.transactions.list(req.userId, criteria));
+        } catch (error) {
+            res.status(500).json({ error: 'Error fetching transactions' });
+        }
+    });
+
+    // Get the distinct categories in use, for filter dropdowns
+    router.get('/transactions/categories', async (req, res) => {
+        try {
+            res.json(await storage.transactions.distinctCategories(req.userId));
+        } catch (error) {
+            res.status(500).json({ error: 'Error fetching categories' });
+        }
+    });
+
+    // Get the tags in use with how many transactions carry each, most used
+    // first, for the tag input and filters
+    router.get('/transactions/tags', async (req, res) => {
+        try {
+            const usage = await storage.transactions.getTagUsage(req.userId);
+            res.json(usage.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag)));
+        } catch (error) {
+            res.status(500).json({ error: 'Error fetching tags' });
+        }
+    });
+
+    // Download the transactions matching the filters of GET /transactions as
+    // a CSV or JSON file. Takes format, columns, dateFormat, decimal and
+    // transfers too.
+    // Pages are written as they are read, so large histories never sit in
+    // memory at once.
+    router.get('/transactions/export', async (req, res) => {
+        try {
+            const { error: optionsError, value: options } = parseExportOptions(req.query);
+            if (optionsError) {
+                return res.status(400).json({ error: optionsError });
+            }
+            const pageQuery = (cursor) => parseTransactionQuery({ ...req.query, limit: EXPORT_PAGE_SIZE, page: undefined, cursor });
+            const { error, criteria } = pageQuery(undefined);
+            if (error) {
+                return res.status(400).json({ error });
+            }
+
+            // The file can't say what it leaves out, so a header counts it
+            if (options.transfers === 'skip') {
+                const types = criteria.types.length > 0 ? criteria.types.filter(type => type === 'transfer') : ['transfer'];
+                const skipped = types.length > 0
+                    ? (await storage.transactions.list(req.userId, { ...criteria, types, limit: 1 })).total
+                    : 0;
+                res.setHeader('X-Skipped-Transfers', String(skipped));
+            }
+
+            const accounts = await storage.accounts.list(req.userId);
+            const exporter = createExporter(options, new Map(accounts.map(account => [String(account._id), account.name])));
+
+            res.setHeader('Content-Type', exporter.contentType);
+            res.attachment(`transactions-${new Date().toISOString().slice(0, 10)}.${options.format}`);
+            res.write(exporter.start);
+
+            let page = await storage.transactions.list(req.userId, criteria);
+            for (;;) {
+                if (!res.write(exporter.rows(page.items))) {
+                    await once(res, 'drain');
+                }
+                if (!page.nextCursor) break;
+                page = await storage.transactions.list(req.userId, pageQuery(page.nextCursor).criteria);
+            }
+            res.end(exporter.end);
+        } catch (error) {
+            console.error('Error in GET /api/transactions/export:', error);
+            // Cut a download that already started rather than end it looking complete
+            if (res.headersSent) {
+                return res.destroy(error);
+            }
+            res.status(500).json({ error: 'Error exporting transactions' });
+        }
+    });
+
+    // Add new transaction. Left without a category, the user's
+    // categorisation rules fill it in (see lib/categoryRules.js); left
+    // without a payee, the payee its description matches is used.
+    router.post('/transactions', async (req, res) => {
+        try {
+            console.log('POST /api/transactions hit with body:', req.body); // Debug log
+
+            const input = await fillPayee(storage, req.userId, await fillFromRules(storage, req.userId, req.body));
+            const { error, value } = validateTransactionInput(input);
+            if (error) {
+                console.log('Validation failed:', error);
+                return res.status(400).json({ error });
+            }
+            const accountError = await checkTransactionAccounts(storage, req.userId, value);
+            if (accountError) {
+                return res.status(400).json({ error: accountError });
+            }
+            const categoryError = checkTransactionCategory(await listCategories(storage, req.userId), value);
+            if (categoryError) {
+                return res.status(400).json({ error: categoryError });
+            }
+            const payeeError = await checkTransactionPayee(storage, req.userId, value);
+            if (payeeError) {
+                return res.status(400).json({ error: payeeError });
+            }
+
+            value.currency = await resolveCurrency(storage, req.userId, value);
+
+            const transaction = await storage.transactions.create(req.userId, value);
+            recordTransaction(req.userId, transaction);
+            console.log('Transaction saved successfully:', transaction._id);
+            res.status(201).json(transaction);
+        } catch (error) {
+            console.error('Error in POST /api/transactions:', error); // Debug log
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error creating transaction' }); // Changed to 500 for non-validation errors
+        }
+    });
+
+    // Shared handler for PUT (full replacement) and PATCH (partial update)
+    const updateTransaction = (partial) => async (req, res) => {
+        try {
+            const { error, value } = validateTransactionInput(req.body, { partial });
+            if (error) {
+                console.log('Validation failed:', error);
+                return res.status(400).json({ error });
+            }
+
+            // A partial change can turn a transaction into a transfer (or move
+            // one), so check the accounts against the result of the update
+            let updated = value;
+            if (partial) {
+                const existing = await storage.transactions.findById(req.userId, req.params.id);
+                if (!existing) {
+                    return res.status(404).json({ error: 'Transaction not found' });
+                }
+                // A split transaction's category follows its lines
+                if (value.category !== undefined && value.splits === undefined && existing.splits?.length) {
+                    return res.status(400).json({ error: 'This transaction is split; change the categories of its splits instead' });
+                }
+                updated = { ...existing, ...value };
+                const mergeError = checkTransferAccounts(updated) || checkSplits(updated);
+                if (mergeError) {
+                    return res.status(400).json({ error: mergeError });
+                }
+            } else if (value.splits === undefined) {
+                // A full replacement without splits files the whole amount under its category
+                value.splits = [];
+            }
+            const accountError = await checkTransactionAccounts(storage, req.userId, value);
+            if (accountError) {
+                return res.status(400).json({ error: accountError });
+            }
+            // Leave the categories alone when a patch doesn't touch them
+            if (value.type !== undefined || value.category !== undefined || value.splits !== undefined) {
+                const categoryError = checkTransactionCategory(await listCategories(storage, req.userId), updated);
+                if (categoryError) {
+                    return res.status(400).json({ error: categoryError });
+                }
+            }
+            const payeeError = await checkTransactionPayee(storage, req.userId, value);
+            if (payeeError) {
+                return res.status(400).json({ error: payeeError });
+            }
+
+            const transaction = await storage.transactions.update(req.userId, req.params.id, value);
+            if (!transaction) {
+                return res.status(404).json({ error: 'Transaction not found' });
+            }
+            recordTransaction(req.userId, transaction);
+
+            console.log('Transaction updated successfully:', transaction._id);
+            res.json(transaction);
+        } catch (error) {
+            console.error(`Error in ${req.method} /api/transactions/:id:`, error);
+            if (error.name === 'ValidationError') {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Error updating transaction' });
+        }
+    };
+
+    // Update transaction
+    router.put('/transactions/:id', updateTransaction(false));
+    router.patch('/transactions/:id', updateTransaction(true));
+
+    // Delete transaction
+    router.delete('/transactions/:id', async (req, res) => {
+        try {
+            const transaction = await storage.transactions.remove(req.userId, req.params.id);
+            if (!transaction) {
+                return res.status(404).json({ error: 'Transaction not found' });
+            }
+            forgetTransaction(req.userId, transaction);
+            await removeTransactionAttachments(storage, req.userId, String(transaction._id));
+
+            console.log('Transaction deleted successfully:', transaction._id);
+            res.json({ message: 'Transaction deleted', id: transaction._id });
+        } catch (error) {
+            console.error('Error in DELETE /api/transactions/:id:', error);
+            res.status(500).json({ error: 'Error deleting transaction' });
+        }
+    });
+
+    // Bulk add transactions from Excel. An optional accountId books every row
+    // against that account. Each upload is recorded as an import batch that
+    // tags the transactions it creates, so it can be reverted later. `files`
+    // lists the uploaded files as { name, fingerprint }, and rows carrying a
+    // fingerprint count towards that file. Rows from bank statements can carry
+    // the bank's `externalId`. With `atomic` either every row is
+    // saved or, if any row is invalid or fails to save, none is.
+    router.post('/transactions/bulk', async (req, res) => {
+        try {
+            const { transactions, accountId = null, files = [], atomic = false } = req.body;
+
+            if (!Array.isArray(transactions) || transactions.length === 0) {
+                return res.status(400).json({ error: 'Transactions array is required and cannot be empty' });
+            }
+            if (!Array.isArray(files)) {
+                return res.status(400).json({ error: 'Files must be an array' });
+            }
+
+            console.log('POST /api/transactions/bulk hit with:', transactions.length, 'transactions');
+
+            const accountError = await checkTransactionAccounts(storage, req.userId, { accountId });
+            if (accountError) {
+                return res.status(400).json({ error: accountError });
+            }
+
+            // Rows without their own currency are in the account's currency
+            const defaultCurrency = await resolveCurrency(storage, req.userId, { accountId });
+            const categories = await listCategories(storage, req.userId);
+            const matchPayee = createPayeeMatcher(await storage.payees.list(req.userId));
+
+            const results = {
+                success: [],
+                errors: []
+            };
+
+            // Validate every row before anything is saved
+            const prepared = [];
+            transactions.forEach((transactionData, index) => {
+                const { error, value } = prepareBulkRow(transactionData || {}, { categories, matchPayee, defaultCurrency, accountId });
+                if (error) {
+                    results.errors.push({ index, error, data: transactionData });
+                } else {
+                    prepared.push({ index, value });
+                }
+            });
+
+            if (atomic && results.errors.length > 0) {
+                return res.status(400).json({
+                    error: `Nothing was imported because ${results.errors.length} of ${transactions.length} rows are invalid`,
+                    successCount: 0,
+                    errorCount: results.errors.length,
+                    results: results
+                });
+            }
+
+            let batch = null;
+            if (prepared.length > 0) {
+                batch = await storage.importBatches.create(req.userId, {
+                    files: files.filter(file => file?.name).map(file => ({
+                        name: String(file.name).slice(0, 255),
+                        fingerprint: FINGERPRINT_PATTERN.test(file.fingerprint) ? file.fingerprint : null,
+                        rowCount: 0
+                    })),
+                    accountId,
+                    atomic: Boolean(atomic),
+                    rowCount: transactions.length,
+                    transactionCount: 0,
+                    revertedAt: null
+                });
+                const tagged = prepared.map(({ value }) => ({ ...value, importBatchId: batch._id }));
+
+                if (atomic) {
+                    let saved;
+                    try {
+                        saved = await storage.transactions.createMany(req.userId, tagged);
+                    } catch (error) {
+                        await storage.importBatches.remove(req.userId, batch._id);
+                        throw error;
+                    }
+                    saved.forEach((transaction, k) => results.success.push({ index: prepared[k].index, transaction }));
+                } else {
+                    for (const [k, { index }] of prepared.entries()) {
+                        try {
+                            const savedTransaction = await storage.transactions.create(req.userId, tagged[k]);
+                            results.success.push({
+                                index,
+                                transaction: savedTransaction
+                            });
+
+                            console.log(`Transaction ${index + 1} saved successfully:`, savedTransaction._id);
+                        } catch (error) {
+                            console.error(`Error processing transaction ${index + 1}:`, error);
+                            results.errors.push({
+                                index,
+                                error: error.message || 'Unknown error',
+                                data: transactions[index]
+                            });
+                        }
+                    }
+                }
+
+                results.success.forEach(item => recordTransaction(req.userId, item.transaction));
+
+                // A batch that created nothing has nothing to revert
+                if (results.success.length === 0) {
+                    await storage.importBatches.remove(req.userId, batch._id);
+                    batch = null;
+                } else {
+                    const savedRows = results.success.map(item => transactions[item.index]);
+                    batch = await storage.importBatches.update(req.userId, batch._id, {
+                        transactionCount: results.success.length,
+                        files: batch.files.map(file => ({
+                            ...file,
+                            rowCount: file.fingerprint
+                                ? savedRows.filter(row => row.fingerprint === file.fingerprint).length
+                                : 0
+                        }))
+                    });
+                }
+            }
+
+            console.log(`Bulk upload completed: ${results.success.length} successful, ${results.errors.length} errors`);
+
+            res.status(200).json({
+                message: `Bulk upload completed: ${results.success.length} successful, ${results.errors.length} errors`,
+                successCount: results.success.length,
+                errorCount: results.errors.length,
+                batchId: batch?._id ?? null,
+                results: results
+            });
+
+        } catch (error) {
+            console.error('Error in POST /api/transactions/bulk:', error);
+            res.status(500).json({ error: 'Error processing bulk transactions' });
+        }
+    });
+
+    return router;
+}
+
+module.exports = transactionRoutes;
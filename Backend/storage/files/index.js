@@ -0,0 +1,23 @@
+// File storage drivers keep the bytes behind attachments out of the
+// database. Every driver offers the same three methods:
+//
+//   put(buffer)     -> key to read the file back with
+//   get(key)        -> Buffer | null
+//   remove(key)     -> nothing; removing a missing file is not an error
+//
+// Keys are opaque strings chosen by the driver. Ownership is checked on the
+// attachment records, so drivers never see user ids. Another backend, such
+// as an object store, only needs these three methods and a case below.
+
+function createFileStore(config) {
+    switch (config.driver) {
+        case 'local':
+            return require('./local')(config.directory);
+        case 'memory':
+            return require('./memory')();
+        default:
+            throw new Error(`Unknown file storage driver "${config.driver}". Use local or memory.`);
+    }
+}
+
+module.exports = { createFileStore };
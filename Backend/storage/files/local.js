@@ -0,0 +1,39 @@
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+
+// Keys are generated here, so they are always safe to use as file names
+const KEY_PATTERN = /^[a-f0-9]{32}$/;
+
+// Files on local disk, each under a random key. Keys are spread over
+// subdirectories by their first two characters to keep directories small.
+function createLocalFileStore(directory) {
+    const filePath = (key) => path.join(directory, key.slice(0, 2), key);
+    console.log(`Storing attachments in ${directory}`);
+
+    return {
+        async put(buffer) {
+            const key = crypto.randomBytes(16).toString('hex');
+            await fs.mkdir(path.dirname(filePath(key)), { recursive: true });
+            await fs.writeFile(filePath(key), buffer);
+            return key;
+        },
+
+        async get(key) {
+            if (!KEY_PATTERN.test(key)) return null;
+            try {
+                return await fs.readFile(filePath(key));
+            } catch (error) {
+                if (error.code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+
+        async remove(key) {
+            if (!KEY_PATTERN.test(key)) return;
+            await fs.rm(filePath(key), { force: true });
+        }
+    };
+}
+
+module.exports = createLocalFileStore;
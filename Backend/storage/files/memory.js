@@ -0,0 +1,24 @@
+const crypto = require('crypto');
+
+// Files kept in memory, alongside the memory storage driver's data
+function createMemoryFileStore() {
+    const files = new Map();
+
+    return {
+        async put(buffer) {
+            const key = crypto.randomBytes(16).toString('hex');
+            files.set(key, Buffer.from(buffer));
+            return key;
+        },
+
+        async get(key) {
+            return files.get(key) ?? null;
+        },
+
+        async remove(key) {
+            files.delete(key);
+        }
+    };
+}
+
+module.exports = createMemoryFileStore;
@@ -0,0 +1,69 @@
+// Storage drivers share one repository interface, so routes never talk to a
+// database directly. Every transaction method is scoped to the owning user.
+//
+// `storage.transactions`:
+//   list(userId, criteria)              -> { items, total, nextCursor }
+//   distinctCategories(userId)          -> string[]
+//   getCategoryUsage(userId)            -> [{ category, count }]
+//   getTagUsage(userId)                 -> [{ tag, count }]
+//   renameCategory(userId, from, to)    -> number of transactions moved
+//   clearPayee(userId, payeeId)         -> number of transactions that lost the payee
+//   listInRange(userId, range)          -> transactions in the range, oldest first
+//   findById(userId, id)                -> transaction | null
+//   create(userId, data)                -> transaction
+//   createMany(userId, data[])          -> transactions, all saved or none (throws)
+//   update(userId, id, changes)         -> transaction | null
+//   remove(userId, id)                  -> removed transaction | null
+//   removeByImportBatch(userId, batchId) -> number of transactions removed
+//   findByOccurrence(userId, ruleId, date) -> transaction posted by a recurring rule | null
+//   claimUnowned(userId)                -> number of transactions adopted
+//   getAccountTotals(userId)            -> [{ accountId, currency, net, count }] (accountId null for unassigned)
+//   getTotalsByType(userId, range)      -> [{ type, currency, day, total }]
+//   getMonthlyTotals(userId, range)     -> [{ year, month, currency, day, income, expenses }]
+//   getCategoryTotals(userId, { type, ...range }) -> [{ category, currency, day, value }]
+//   getTagTotals(userId, { type, ...range }) -> [{ tag, currency, day, value }]
+//   getPayeeTotals(userId, { type, ...range }) -> [{ payeeId, currency, day, value, count }] (payeeId null for none)
+//
+// Totals are split by currency and by day (YYYY-MM-DD, UTC) so that callers
+// can convert them with lib/currency.js; transactions without a currency
+// count as USD. A split transaction matches, and is counted under, the
+// category of each of its lines. A transaction with several tags counts in
+// full towards each of them.
+//
+// `storage.users`:
+//   findById(id), findByEmail(email)    -> user | null
+//   create({ name, email, passwordHash }) -> user (throws code 11000 on duplicate email)
+//   update(id, changes)                 -> user | null
+//   count()                             -> number
+//
+// `storage.accounts`, `storage.budgets`, `storage.categories`, `storage.recurringRules`,
+// `storage.exchangeRates`, `storage.importProfiles`, `storage.importBatches`, `storage.categoryRules`,
+// `storage.attachments`, `storage.payees`
+// (simple per-user collections):
+//   list(userId, filter?)               -> documents matching the equality filter
+//   listAll(filter?)                    -> same, across every user (background jobs only)
+//   findById(userId, id)                -> document | null
+//   create(userId, data)                -> document
+//   update(userId, id, changes)         -> document | null
+//   remove(userId, id)                  -> removed document | null
+//
+// `storage.files`: the bytes behind attachments, from one of the file
+// storage drivers in ./files (see there for the interface).
+//
+// where `range` is { from?: Date, to?: Date } and `criteria` comes from
+// lib/transactionQuery.js.
+
+async function createStorage(config) {
+    switch (config.driver) {
+        case 'mongo':
+            return require('./mongo')(config);
+        case 'json':
+            return require('./json')(config);
+        case 'memory':
+            return require('./json')({ ...config, dataFile: null, files: { driver: 'memory' } });
+        default:
+            throw new Error(`Unknown storage driver "${config.driver}". Use mongo, json or memory.`);
+    }
+}
+
+module.exports = { createStorage };
@@ -0,0 +1,33 @@
+const { createJsonStore } = require('./jsonStore');
+const createTransactionRepository = require('./transactionRepository');
+const createUserRepository = require('./userRepository');
+const createOwnedRepository = require('./ownedRepository');
+const { createFileStore } = require('../files');
+
+// File-backed storage for running without any database service. Passing no
+// file keeps everything in memory, which is handy for tests and demos.
+async function createJsonStorage({ dataFile, files }) {
+    const store = createJsonStore(dataFile);
+    await store.load();
+    console.log(dataFile ? `Using JSON storage at ${dataFile}` : 'Using in-memory storage');
+
+    return {
+        name: dataFile ? 'json' : 'memory',
+        transactions: createTransactionRepository(store),
+        users: createUserRepository(store),
+        accounts: createOwnedRepository(store, 'accounts'),
+        budgets: createOwnedRepository(store, 'budgets'),
+        categories: createOwnedRepository(store, 'categories'),
+        recurringRules: createOwnedRepository(store, 'recurringRules'),
+        exchangeRates: createOwnedRepository(store, 'exchangeRates'),
+        importProfiles: createOwnedRepository(store, 'importProfiles'),
+        importBatches: createOwnedRepository(store, 'importBatches'),
+        categoryRules: createOwnedRepository(store, 'categoryRules'),
+        attachments: createOwnedRepository(store, 'attachments'),
+        payees: createOwnedRepository(store, 'payees'),
+        files: createFileStore(files),
+        close: () => store.close()
+    };
+}
+
+module.exports = createJsonStorage;
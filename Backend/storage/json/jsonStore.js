@@ -0,0 +1,60 @@
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+
+// Generate ids shaped like Mongo ObjectIds so clients can't tell the drivers apart
+function generateId() {
+    return crypto.randomBytes(12).toString('hex');
+}
+
+// Dates are kept as ISO strings, the same way they come back out of JSON
+function toStored(data) {
+    const stored = {};
+    for (const [key, value] of Object.entries(data)) {
+        stored[key] = value instanceof Date ? value.toISOString() : value;
+    }
+    return stored;
+}
+
+// A tiny document store that keeps every collection in memory and, when
+// given a file path, writes the whole dataset back to disk after each change.
+function createJsonStore(filePath) {
+    let data = {};
+    let writeQueue = Promise.resolve();
+
+    return {
+        async load() {
+            if (!filePath) return;
+            try {
+                data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+            } catch (error) {
+                if (error.code !== 'ENOENT') throw error;
+            }
+        },
+
+        collection(name) {
+            if (!data[name]) data[name] = [];
+            return data[name];
+        },
+
+        // Writes are serialised and go through a temp file so a crash
+        // mid-write never leaves a truncated data file behind.
+        persist() {
+            if (!filePath) return Promise.resolve();
+            const snapshot = JSON.stringify(data, null, 2);
+            const tempPath = `${filePath}.tmp`;
+            writeQueue = writeQueue.catch(() => {}).then(async () => {
+                await fs.mkdir(path.dirname(filePath), { recursive: true });
+                await fs.writeFile(tempPath, snapshot);
+                await fs.rename(tempPath, filePath);
+            });
+            return writeQueue;
+        },
+
+        close() {
+            return writeQueue.catch(() => {});
+        }
+    };
+}
+
+module.exports = { createJsonStore, generateId, toStored };
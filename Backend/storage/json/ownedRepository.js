@@ -0,0 +1,58 @@
+const { generateId, toStored } = require('./jsonStore');
+
+function matches(document, filter) {
+    return Object.entries(filter).every(([key, value]) => document[key] === value);
+}
+
+// Basic CRUD for a collection whose documents belong to a single user
+function createOwnedRepository(store, collectionName) {
+    const documents = () => store.collection(collectionName);
+    const findOwned = (userId, id) =>
+        documents().find(document => document._id === id && document.userId === userId);
+
+    return {
+        async list(userId, filter = {}) {
+            return documents()
+                .filter(document => document.userId === userId && matches(document, filter))
+                .map(document => ({ ...document }));
+        },
+
+        // Unscoped, for background jobs that work across every user
+        async listAll(filter = {}) {
+            return documents()
+                .filter(document => matches(document, filter))
+                .map(document => ({ ...document }));
+        },
+
+        async findById(userId, id) {
+            const document = findOwned(userId, id);
+            return document ? { ...document } : null;
+        },
+
+        async create(userId, data) {
+            const now = new Date().toISOString();
+            const document = { _id: generateId(), userId, ...toStored(data), createdAt: now, updatedAt: now };
+            documents().push(document);
+            await store.persist();
+            return { ...document };
+        },
+
+        async update(userId, id, changes) {
+            const document = findOwned(userId, id);
+            if (!document) return null;
+            Object.assign(document, toStored(changes), { updatedAt: new Date().toISOString() });
+            await store.persist();
+            return { ...document };
+        },
+
+        async remove(userId, id) {
+            const index = documents().indexOf(findOwned(userId, id));
+            if (index === -1) return null;
+            const [removed] = documents().splice(index, 1);
+            await store.persist();
+            return removed;
+        }
+    };
+}
+
+module.exports = createOwnedRepository;
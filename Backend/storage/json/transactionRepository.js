@@ -0,0 +1,324 @@
+const { generateId, toStored } = require('./jsonStore');
+const { encodeCursor } = require('../../lib/transactionQuery');
+const { DEFAULT_CURRENCY } = require('../../lib/currency');
+
+// Values are stored as they appear in JSON: dates as ISO strings, which
+// compare correctly as plain strings.
+function compareValues(a, b) {
+    if (a < b) return -1;
+    if (a > b) return 1;
+    return 0;
+}
+
+// Hand out copies so callers can never mutate the store behind its back
+const clone = (transaction) => (transaction
+    ? { ...transaction, ...(transaction.splits && { splits: transaction.splits.map(split => ({ ...split })) }) }
+    : null);
+
+function inRange(transaction, { from, to } = {}) {
+    const date = new Date(transaction.date);
+    if (from && date < from) return false;
+    if (to && date > to) return false;
+    return true;
+}
+
+// Totals are grouped by currency and day so they can be converted with the
+// exchange rate of the day the money moved
+const currencyOf = (transaction) => transaction.currency || DEFAULT_CURRENCY;
+const dayOf = (transaction) => transaction.date.slice(0, 10);
+
+// Add `amount` to the `field` of the row for `group`, creating it on first use
+function addTo(rows, group, field, amount) {
+    const key = Object.values(group).join('|');
+    if (!rows.has(key)) rows.set(key, { ...group, [field]: 0 });
+    const row = rows.get(key);
+    row[field] = (row[field] || 0) + amount;
+}
+
+// The categories a transaction's money went to: one per split line, or
+// just its own when it isn't split
+const categoryLines = (transaction) => (transaction.splits?.length
+    ? transaction.splits
+    : [{ category: transaction.category, amount: transaction.amount }]);
+
+const categoriesOf = (transaction) => [
+    ...new Set([transaction.category, ...(transaction.splits || []).map(split => split.category)])
+];
+
+function matchesCriteria(transaction, criteria) {
+    if (criteria.types?.length && !criteria.types.includes(transaction.type)) return false;
+    if (criteria.categories?.length &&
+        !categoriesOf(transaction).some(category => criteria.categories.includes(category))) {
+        return false;
+    }
+    if (criteria.tags?.length && !(transaction.tags || []).some(tag => criteria.tags.includes(tag))) return false;
+    if (criteria.accountId &&
+        transaction.accountId !== criteria.accountId && transaction.toAccountId !== criteria.accountId) {
+        return false;
+    }
+    if (criteria.payeeId && String(transaction.payeeId) !== criteria.payeeId) return false;
+    if (!inRange(transaction, criteria)) return false;
+    if (criteria.minAmount !== undefined && transaction.amount < criteria.minAmount) return false;
+    if (criteria.maxAmount !== undefined && transaction.amount > criteria.maxAmount) return false;
+    if (criteria.search) {
+        const search = criteria.search.toLowerCase();
+        if (!transaction.description.toLowerCase().includes(search) &&
+            !categoriesOf(transaction).some(category => category.toLowerCase().includes(search))) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function createTransactionRepository(store) {
+    const allTransactions = () => store.collection('transactions');
+    const transactions = (userId) => allTransactions().filter(transaction => transaction.userId === userId);
+    const findOwned = (userId, id) =>
+        allTransactions().find(transaction => transaction._id === id && transaction.userId === userId);
+
+    return {
+        async list(userId, criteria) {
+            const { sortField, direction, limit, page, cursor } = criteria;
+
+            // _id breaks ties so that cursors are stable for duplicate sort values
+            const compare = (a, b) => direction * (
+                compareValues(a[sortField], b[sortField]) || compareValues(a._id, b._id)
+            );
+
+            const matching = transactions(userId)
+                .filter(transaction => matchesCriteria(transaction, criteria))
+                .sort(compare);
+
+            let window;
+            if (cursor) {
+                const boundary = { [sortField]: cursor.v, _id: cursor.id };
+                window = matching.filter(transaction => compare(transaction, boundary) > 0);
+            } else {
+                window = matching.slice((page - 1) * limit);
+            }
+
+            const items = window.slice(0, limit).map(clone);
+            const hasMore = window.length > limit;
+
+            return {
+                items,
+                total: matching.length,
+                nextCursor: hasMore ? encodeCursor(items[items.length - 1], sortField) : null
+            };
+        },
+
+        async distinctCategories(userId) {
+            return [...new Set(transactions(userId).flatMap(categoriesOf))].sort();
+        },
+
+        async getCategoryUsage(userId) {
+            const counts = new Map();
+            for (const transaction of transactions(userId)) {
+                for (const category of categoriesOf(transaction)) {
+                    counts.set(category, (counts.get(category) || 0) + 1);
+                }
+            }
+            return [...counts].map(([category, count]) => ({ category, count }));
+        },
+
+        async getTagUsage(userId) {
+            const counts = new Map();
+            for (const transaction of transactions(userId)) {
+                for (const tag of transaction.tags || []) {
+                    counts.set(tag, (counts.get(tag) || 0) + 1);
+                }
+            }
+            return [...counts].map(([tag, count]) => ({ tag, count }));
+        },
+
+        // Move every transaction filed under one category to another,
+        // including split lines
+        async renameCategory(userId, from, to) {
+            const now = new Date().toISOString();
+            const affected = transactions(userId).filter(transaction => categoriesOf(transaction).includes(from));
+            affected.forEach(transaction => Object.assign(transaction, {
+                category: transaction.category === from ? to : transaction.category,
+                ...(transaction.splits && {
+                    splits: transaction.splits.map(split => (split.category === from ? { ...split, category: to } : split))
+                }),
+                updatedAt: now
+            }));
+            if (affected.length > 0) await store.persist();
+            return affected.length;
+        },
+
+        async clearPayee(userId, payeeId) {
+            const now = new Date().toISOString();
+            const affected = transactions(userId).filter(transaction => String(transaction.payeeId) === String(payeeId));
+            affected.forEach(transaction => Object.assign(transaction, { payeeId: null, updatedAt: now }));
+            if (affected.length > 0) await store.persist();
+            return affected.length;
+        },
+
+        async listInRange(userId, range) {
+            return transactions(userId)
+                .filter(transaction => inRange(transaction, range))
+                .sort((a, b) => compareValues(a.date, b.date) || compareValues(a._id, b._id))
+                .map(clone);
+        },
+
+        async findById(userId, id) {
+            return clone(findOwned(userId, id));
+        },
+
+        async create(userId, data) {
+            const now = new Date().toISOString();
+            const transaction = { _id: generateId(), userId, ...toStored(data), createdAt: now, updatedAt: now };
+            allTransactions().push(transaction);
+            await store.persist();
+            return clone(transaction);
+        },
+
+        // Rows are checked before they get here, so adding them in one go and
+        // persisting once saves all of them or, if the write fails, none
+        async createMany(userId, documents) {
+            const now = new Date().toISOString();
+            const created = documents.map(data => ({
+                _id: generateId(), userId, ...toStored(data), createdAt: now, updatedAt: now
+            }));
+            allTransactions().push(...created);
+            try {
+                await store.persist();
+            } catch (error) {
+                const kept = allTransactions().filter(transaction => !created.includes(transaction));
+                allTransactions().splice(0, allTransactions().length, ...kept);
+                throw error;
+            }
+            return created.map(clone);
+        },
+
+        async update(userId, id, changes) {
+            const transaction = findOwned(userId, id);
+            if (!transaction) return null;
+            Object.assign(transaction, toStored(changes), { updatedAt: new Date().toISOString() });
+            await store.persist();
+            return clone(transaction);
+        },
+
+        async remove(userId, id) {
+            const index = allTransactions().indexOf(findOwned(userId, id));
+            if (index === -1) return null;
+            const [removed] = allTransactions().splice(index, 1);
+            await store.persist();
+            return removed;
+        },
+
+        async removeByImportBatch(userId, importBatchId) {
+            const removed = transactions(userId).filter(transaction => transaction.importBatchId === importBatchId);
+            if (removed.length === 0) return 0;
+            const kept = allTransactions().filter(transaction => !removed.includes(transaction));
+            allTransactions().splice(0, allTransactions().length, ...kept);
+            await store.persist();
+            return removed.length;
+        },
+
+        async findByOccurrence(userId, recurringRuleId, occurrenceDate) {
+            const date = occurrenceDate.toISOString();
+            return clone(transactions(userId).find(transaction =>
+                transaction.recurringRuleId === recurringRuleId && transaction.occurrenceDate === date
+            ));
+        },
+
+        // Hand transactions recorded before accounts existed to the given user
+        async claimUnowned(userId) {
+            const unowned = allTransactions().filter(transaction => !transaction.userId);
+            unowned.forEach(transaction => { transaction.userId = userId; });
+            if (unowned.length > 0) await store.persist();
+            return unowned.length;
+        },
+
+        // Net movement and transaction count per account and currency. A
+        // transfer counts against its source and towards its destination.
+        async getAccountTotals(userId) {
+            const totals = new Map();
+            const add = (accountId, currency, amount) => {
+                const key = `${accountId || ''}:${currency}`;
+                if (!totals.has(key)) totals.set(key, { accountId: accountId || null, currency, net: 0, count: 0 });
+                const total = totals.get(key);
+                total.net += amount;
+                total.count++;
+            };
+            for (const transaction of transactions(userId)) {
+                const currency = currencyOf(transaction);
+                if (transaction.type === 'transfer') {
+                    add(transaction.accountId, currency, -transaction.amount);
+                    add(transaction.toAccountId, currency, transaction.amount);
+                } else {
+                    add(transaction.accountId, currency,
+                        transaction.type === 'income' ? transaction.amount : -transaction.amount);
+                }
+            }
+            return [...totals.values()];
+        },
+
+        async getTotalsByType(userId, range) {
+            const totals = new Map();
+            for (const transaction of transactions(userId)) {
+                if (transaction.type === 'transfer' || !inRange(transaction, range)) continue;
+                const group = { type: transaction.type, currency: currencyOf(transaction), day: dayOf(transaction) };
+                addTo(totals, group, 'total', transaction.amount);
+            }
+            return [...totals.values()];
+        },
+
+        // Months are bucketed in UTC, like Mongo's $month/$year operators
+        async getMonthlyTotals(userId, range) {
+            const buckets = new Map();
+            for (const transaction of transactions(userId)) {
+                if (!inRange(transaction, range)) continue;
+                const date = new Date(transaction.date);
+                const group = {
+                    year: date.getUTCFullYear(),
+                    month: date.getUTCMonth() + 1,
+                    currency: currencyOf(transaction),
+                    day: dayOf(transaction)
+                };
+                addTo(buckets, group, 'income', transaction.type === 'income' ? transaction.amount : 0);
+                addTo(buckets, group, 'expenses', transaction.type === 'expense' ? transaction.amount : 0);
+            }
+            return [...buckets.values()].sort((a, b) => a.year - b.year || a.month - b.month);
+        },
+
+        async getCategoryTotals(userId, { type, ...range }) {
+            const totals = new Map();
+            for (const transaction of transactions(userId)) {
+                if (transaction.type !== type || !inRange(transaction, range)) continue;
+                for (const line of categoryLines(transaction)) {
+                    const group = { category: line.category, currency: currencyOf(transaction), day: dayOf(transaction) };
+                    addTo(totals, group, 'value', line.amount);
+                }
+            }
+            return [...totals.values()];
+        },
+
+        async getPayeeTotals(userId, { type, ...range }) {
+            const totals = new Map();
+            for (const transaction of transactions(userId)) {
+                if (transaction.type !== type || !inRange(transaction, range)) continue;
+                const group = { payeeId: transaction.payeeId || null, currency: currencyOf(transaction), day: dayOf(transaction) };
+                addTo(totals, group, 'value', transaction.amount);
+                addTo(totals, group, 'count', 1);
+            }
+            return [...totals.values()];
+        },
+
+        async getTagTotals(userId, { type, ...range }) {
+            const totals = new Map();
+            for (const transaction of transactions(userId)) {
+                if (transaction.type !== type || !inRange(transaction, range)) continue;
+                for (const tag of transaction.tags || []) {
+                    const group = { tag, currency: currencyOf(transaction), day: dayOf(transaction) };
+                    addTo(totals, group, 'value', transaction.amount);
+                }
+            }
+            return [...totals.values()];
+        }
+    };
+}
+
+module.exports = createTransactionRepository;
@@ -0,0 +1,44 @@
+const { generateId, toStored } = require('./jsonStore');
+
+function createUserRepository(store) {
+    const users = () => store.collection('users');
+
+    return {
+        async findById(id) {
+            const user = users().find(item => item._id === id);
+            return user ? { ...user } : null;
+        },
+
+        async findByEmail(email) {
+            const user = users().find(item => item.email === email.toLowerCase());
+            return user ? { ...user } : null;
+        },
+
+        async create(data) {
+            const email = data.email.trim().toLowerCase();
+            if (users().some(item => item.email === email)) {
+                // Mirror the duplicate key error Mongo raises for the unique index
+                throw Object.assign(new Error('Email already registered'), { code: 11000 });
+            }
+            const now = new Date().toISOString();
+            const user = { _id: generateId(), ...data, email, createdAt: now, updatedAt: now };
+            users().push(user);
+            await store.persist();
+            return { ...user };
+        },
+
+        async update(id, changes) {
+            const user = users().find(item => item._id === id);
+            if (!user) return null;
+            Object.assign(user, toStored(changes), { updatedAt: new Date().toISOString() });
+            await store.persist();
+            return { ...user };
+        },
+
+        async count() {
+            return users().length;
+        }
+    };
+}
+
+module.exports = createUserRepository;
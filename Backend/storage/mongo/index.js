@@ -0,0 +1,41 @@
+const mongoose = require('mongoose');
+const createTransactionRepository = require('./transactionRepository');
+const createUserRepository = require('./userRepository');
+const createOwnedRepository = require('./ownedRepository');
+const { createFileStore } = require('../files');
+const Attachment = require('./models/Attachment');
+const Account = require('./models/Account');
+const Budget = require('./models/Budget');
+const Category = require('./models/Category');
+const CategoryRule = require('./models/CategoryRule');
+const ExchangeRate = require('./models/ExchangeRate');
+const ImportProfile = require('./models/ImportProfile');
+const ImportBatch = require('./models/ImportBatch');
+const Payee = require('./models/Payee');
+const RecurringRule = require('./models/RecurringRule');
+
+async function createMongoStorage({ mongoUri, files }) {
+    await mongoose.connect(mongoUri);
+    console.log('Connected to MongoDB');
+
+    return {
+        name: 'mongo',
+        transactions: createTransactionRepository(),
+        users: createUserRepository(),
+        accounts: createOwnedRepository(Account),
+        budgets: createOwnedRepository(Budget),
+        categories: createOwnedRepository(Category, { sort: { name: 1 } }),
+        recurringRules: createOwnedRepository(RecurringRule),
+        exchangeRates: createOwnedRepository(ExchangeRate, { sort: { date: -1 } }),
+        importProfiles: createOwnedRepository(ImportProfile, { sort: { name: 1 } }),
+        importBatches: createOwnedRepository(ImportBatch, { sort: { createdAt: -1 } }),
+        categoryRules: createOwnedRepository(CategoryRule, { sort: { priority: 1, name: 1 } }),
+        attachments: createOwnedRepository(Attachment),
+        payees: createOwnedRepository(Payee, { sort: { name: 1 } }),
+        // Uploaded files stay on disk rather than in the database
+        files: createFileStore(files),
+        close: () => mongoose.disconnect()
+    };
+}
+
+module.exports = createMongoStorage;
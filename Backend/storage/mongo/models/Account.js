@@ -0,0 +1,35 @@
+const mongoose = require('mongoose');
+
+// Account Schema: where money is held. Balances are derived from the opening
+// balance plus the transactions booked against the account.
+const accountSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    name: {
+        type: String,
+        required: true,
+        maxlength: 50
+    },
+    type: {
+        type: String,
+        enum: ['checking', 'savings', 'credit', 'cash'],
+        required: true
+    },
+    // ISO 4217 code the account is held in
+    currency: {
+        type: String,
+        match: /^[A-Z]{3}$/,
+        default: 'USD'
+    },
+    // May be negative, e.g. a credit card that already carries debt
+    openingBalance: {
+        type: Number,
+        default: 0
+    }
+}, { timestamps: true });
+
+module.exports = mongoose.model('Account', accountSchema);
@@ -0,0 +1,47 @@
+const mongoose = require('mongoose');
+
+// Attachment Schema: a file kept with a transaction, such as the receipt it
+// was scanned from. The bytes live in the file store under `fileKey`.
+const attachmentSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    transactionId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Transaction',
+        required: true,
+        index: true
+    },
+    filename: {
+        type: String,
+        required: true,
+        maxlength: 255
+    },
+    contentType: {
+        type: String,
+        required: true
+    },
+    size: {
+        type: Number,
+        required: true,
+        min: 0
+    },
+    fileKey: {
+        type: String,
+        required: true
+    },
+    // Small preview of an image, when one could be made
+    thumbnailKey: {
+        type: String,
+        default: null
+    },
+    thumbnailType: {
+        type: String,
+        default: null
+    }
+}, { timestamps: true });
+
+module.exports = mongoose.model('Attachment', attachmentSchema);
@@ -0,0 +1,34 @@
+const mongoose = require('mongoose');
+
+// Budget Schema
+const budgetSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    category: {
+        type: String,
+        required: true
+    },
+    period: {
+        type: String,
+        enum: ['monthly', 'weekly', 'custom'],
+        required: true
+    },
+    amount: {
+        type: Number,
+        required: true,
+        min: 0
+    },
+    // Only used by custom budgets
+    startDate: Date,
+    endDate: Date,
+    rollover: {
+        type: Boolean,
+        default: false
+    }
+}, { timestamps: true });
+
+module.exports = mongoose.model('Budget', budgetSchema);
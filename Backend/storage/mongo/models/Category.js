@@ -0,0 +1,43 @@
+const mongoose = require('mongoose');
+
+// Category Schema: what transactions are filed under. Transactions refer to a
+// category by name, so renames and merges rewrite them (see lib/categories.js).
+const categorySchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    name: {
+        type: String,
+        required: true,
+        maxlength: 50
+    },
+    // Which transactions may use the category
+    type: {
+        type: String,
+        enum: ['income', 'expense', 'both'],
+        default: 'both'
+    },
+    // Subcategories point at a top-level category; only one level is allowed
+    parentId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Category',
+        default: null
+    },
+    color: {
+        type: String,
+        match: /^#[0-9a-f]{6}$/i,
+        required: true
+    },
+    // Icon name understood by the frontend, e.g. "utensils"
+    icon: {
+        type: String,
+        default: 'tag'
+    }
+}, { timestamps: true });
+
+categorySchema.index({ userId: 1, name: 1 }, { unique: true });
+
+module.exports = mongoose.model('Category', categorySchema);
@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+// Categorisation Rule Schema: transactions meeting every condition get the
+// actions applied, on manual entry, on import and when rules are re-run.
+// Conditions left null match anything.
+const categoryRuleSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    name: {
+        type: String,
+        required: true,
+        maxlength: 50
+    },
+    // Lower numbers run first and win when rules set the same field
+    priority: {
+        type: Number,
+        default: 0
+    },
+    enabled: {
+        type: Boolean,
+        default: true
+    },
+    conditions: {
+        // Matched ignoring case
+        descriptionMatch: { type: String, enum: ['contains', 'equals', 'regex', null], default: null },
+        descriptionValue: { type: String, maxlength: 200, default: null },
+        minAmount: { type: Number, min: 0, default: null },
+        maxAmount: { type: Number, min: 0, default: null },
+        accountId: { type: mongoose.Schema.Types.ObjectId, ref: 'Account', default: null },
+        transactionType: { type: String, enum: ['income', 'expense', null], default: null }
+    },
+    actions: {
+        category: { type: String, default: null },
+        transactionType: { type: String, enum: ['income', 'expense', null], default: null },
+        // Added to the transaction's own tags
+        tags: { type: [String], default: [] },
+        description: { type: String, maxlength: 200, default: null }
+    }
+}, { timestamps: true });
+
+module.exports = mongoose.model('CategoryRule', categoryRuleSchema);
@@ -0,0 +1,35 @@
+const mongoose = require('mongoose');
+
+// Exchange Rate Schema: one `from` is worth `rate` of `to` on `date`
+const exchangeRateSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    from: {
+        type: String,
+        required: true,
+        match: /^[A-Z]{3}$/
+    },
+    to: {
+        type: String,
+        required: true,
+        match: /^[A-Z]{3}$/
+    },
+    date: {
+        type: Date,
+        required: true
+    },
+    rate: {
+        type: Number,
+        required: true,
+        min: 0
+    }
+}, { timestamps: true });
+
+// One rate per currency pair and day
+exchangeRateSchema.index({ userId: 1, from: 1, to: 1, date: 1 }, { unique: true });
+
+module.exports = mongoose.model('ExchangeRate', exchangeRateSchema);
@@ -0,0 +1,49 @@
+const mongoose = require('mongoose');
+
+// Import Batch Schema: one bulk upload. Every transaction it created carries
+// its id, so the whole upload can be reverted. Files are recognised by the
+// SHA-256 of their contents, so importing one again changes nothing.
+const importBatchSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    files: [{
+        _id: false,
+        name: { type: String, required: true, maxlength: 255 },
+        fingerprint: { type: String, match: /^[a-f0-9]{64}$/, default: null },
+        // Transactions created from this file
+        rowCount: { type: Number, min: 0, default: 0 }
+    }],
+    // Account every row was booked against
+    accountId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Account',
+        default: null
+    },
+    // All-or-nothing uploads save every row or none
+    atomic: {
+        type: Boolean,
+        default: false
+    },
+    // Rows sent, and how many of them became transactions
+    rowCount: {
+        type: Number,
+        min: 0,
+        default: 0
+    },
+    transactionCount: {
+        type: Number,
+        min: 0,
+        default: 0
+    },
+    // Set once the batch's transactions have been deleted again
+    revertedAt: {
+        type: Date,
+        default: null
+    }
+}, { timestamps: true });
+
+module.exports = mongoose.model('ImportBatch', importBatchSchema);
@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+
+// Import Profile Schema: how the columns of a bank's spreadsheet export map
+// to transaction fields. Files whose header row matches `headers` get the
+// profile applied automatically.
+const importProfileSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    name: {
+        type: String,
+        required: true,
+        maxlength: 50
+    },
+    headers: {
+        type: [String],
+        default: []
+    },
+    sheetName: {
+        type: String,
+        default: null
+    },
+    // 1-based row holding the column headers; data starts below it
+    headerRow: {
+        type: Number,
+        min: 1,
+        default: 1
+    },
+    // Zero-based column index for each mapped field
+    columns: {
+        date: { type: Number, min: 0, required: true },
+        description: { type: Number, min: 0, required: true },
+        category: { type: Number, min: 0, default: null },
+        type: { type: Number, min: 0, default: null },
+        amount: { type: Number, min: 0, default: null },
+        debit: { type: Number, min: 0, default: null },
+        credit: { type: Number, min: 0, default: null },
+        tags: { type: Number, min: 0, default: null }
+    },
+    // How income and expenses are told apart (see lib/validation.js)
+    amountMode: {
+        type: String,
+        enum: ['type-column', 'signed', 'debit-credit'],
+        default: 'signed'
+    },
+    dateFormat: {
+        type: String,
+        enum: ['auto', 'yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'dd-MM-yyyy'],
+        default: 'auto'
+    },
+    // Used for rows whose category cell is blank or not mapped
+    defaultCategory: {
+        type: String,
+        default: null
+    }
+}, { timestamps: true });
+
+importProfileSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+module.exports = mongoose.model('ImportProfile', importProfileSchema);
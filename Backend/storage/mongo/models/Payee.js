@@ -0,0 +1,30 @@
+const mongoose = require('mongoose');
+
+// Payee Schema: one merchant or person however their name shows up on
+// statements. Descriptions equal to the name or an alias, ignoring case and
+// punctuation, or containing a match for one of the patterns belong to the
+// payee (see lib/payees.js).
+const payeeSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    name: {
+        type: String,
+        required: true,
+        maxlength: 100
+    },
+    aliases: {
+        type: [String],
+        default: []
+    },
+    // Regular expressions, matched ignoring case
+    patterns: {
+        type: [String],
+        default: []
+    }
+}, { timestamps: true });
+
+module.exports = mongoose.model('Payee', payeeSchema);
@@ -0,0 +1,86 @@
+const mongoose = require('mongoose');
+
+// Recurring Rule Schema. The transaction fields mirror Transaction; the rest
+// describes when occurrences fall (see lib/recurrence.js).
+const recurringRuleSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    type: {
+        type: String,
+        enum: ['income', 'expense'],
+        required: true
+    },
+    amount: {
+        type: Number,
+        required: true,
+        min: 0
+    },
+    currency: {
+        type: String,
+        match: /^[A-Z]{3}$/
+    },
+    category: {
+        type: String,
+        required: true
+    },
+    description: {
+        type: String,
+        required: true,
+        maxlength: 200
+    },
+    accountId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Account'
+    },
+    frequency: {
+        type: String,
+        enum: ['daily', 'weekly', 'biweekly', 'monthly', 'yearly'],
+        required: true
+    },
+    startDate: {
+        type: Date,
+        required: true
+    },
+    endDate: Date,
+    count: {
+        type: Number,
+        min: 1
+    },
+    // Monthly and yearly rules fall either on a day of the month or on the
+    // nth (or last, -1) weekday of the month
+    monthlyMode: {
+        type: String,
+        enum: ['dayOfMonth', 'nthWeekday'],
+        default: 'dayOfMonth'
+    },
+    dayOfMonth: {
+        type: Number,
+        min: 1,
+        max: 31
+    },
+    weekOfMonth: {
+        type: Number,
+        enum: [1, 2, 3, 4, -1]
+    },
+    weekday: {
+        type: Number,
+        min: 0,
+        max: 6
+    },
+    active: {
+        type: Boolean,
+        default: true
+    },
+    // Most recent occurrence already posted as a transaction
+    lastOccurrence: Date,
+    postedCount: {
+        type: Number,
+        default: 0
+    }
+}, { timestamps: true });
+
+module.exports = mongoose.model('RecurringRule', recurringRuleSchema);
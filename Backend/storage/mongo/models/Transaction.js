@@ -0,0 +1,99 @@
+const mongoose = require('mongoose');
+
+// Transaction Schema
+const transactionSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    type: {
+        type: String,
+        enum: ['income', 'expense', 'transfer'],
+        required: true
+    },
+    amount: {
+        type: Number,
+        required: true,
+        min: 0
+    },
+    // ISO 4217 code; transactions from before currencies existed have none and count as USD
+    currency: {
+        type: String,
+        match: /^[A-Z]{3}$/
+    },
+    category: {
+        type: String,
+        required: true
+    },
+    date: {
+        type: Date,
+        required: true
+    },
+    description: {
+        type: String,
+        required: true,
+        maxlength: 200
+    },
+    // Account the money leaves (expenses, transfers) or arrives in (income).
+    // Transactions recorded before accounts existed have none.
+    accountId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Account',
+        index: true
+    },
+    // Destination of a transfer
+    toAccountId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Account'
+    },
+    // The merchant or person the money went to or came from
+    payeeId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Payee',
+        index: true
+    },
+    // Set on transactions posted by a recurring rule
+    recurringRuleId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'RecurringRule'
+    },
+    occurrenceDate: Date,
+    // Set on transactions created by a bulk upload
+    importBatchId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'ImportBatch',
+        index: true
+    },
+    // The bank's own id for the transaction (OFX FITID), kept from
+    // statement imports to recognise the same transaction downloaded again
+    externalId: {
+        type: String,
+        maxlength: 255
+    },
+    // Lower-case labels, e.g. added by categorisation rules
+    tags: {
+        type: [String],
+        default: undefined
+    },
+    // Lines splitting the amount across categories; they add up to the
+    // amount and `category` holds the largest line's category
+    splits: {
+        type: [{
+            _id: false,
+            category: { type: String, required: true },
+            amount: { type: Number, required: true, min: 0 },
+            memo: { type: String, maxlength: 100 }
+        }],
+        default: undefined
+    }
+}, { timestamps: true });
+
+// A recurring rule can post each occurrence only once
+transactionSchema.index(
+    { recurringRuleId: 1, occurrenceDate: 1 },
+    { unique: true, partialFilterExpression: { recurringRuleId: { $exists: true } } }
+);
+
+module.exports = mongoose.model('Transaction', transactionSchema);
@@ -0,0 +1,35 @@
+const mongoose = require('mongoose');
+
+// User Schema
+const userSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: true,
+        maxlength: 100
+    },
+    email: {
+        type: String,
+        required: true,
+        unique: true,
+        lowercase: true,
+        trim: true
+    },
+    passwordHash: {
+        type: String,
+        required: true
+    },
+    // Currency reports and totals are converted to
+    baseCurrency: {
+        type: String,
+        match: /^[A-Z]{3}$/,
+        default: 'USD'
+    },
+    // How far apart two transactions may be and still be flagged as
+    // duplicates (see lib/duplicates.js)
+    duplicateTolerance: {
+        days: { type: Number, min: 0, max: 31, default: 2 },
+        amount: { type: Number, min: 0, default: 0 }
+    }
+}, { timestamps: true });
+
+module.exports = mongoose.model('User', userSchema);
@@ -0,0 +1,40 @@
+const mongoose = require('mongoose');
+
+// Basic CRUD for a model whose documents belong to a single user
+function createOwnedRepository(Model, { sort = { createdAt: 1 } } = {}) {
+    return {
+        async list(userId, filter = {}) {
+            return Model.find({ ...filter, userId }).sort(sort).lean();
+        },
+
+        // Unscoped, for background jobs that work across every user
+        async listAll(filter = {}) {
+            return Model.find(filter).sort(sort).lean();
+        },
+
+        async findById(userId, id) {
+            if (!mongoose.isValidObjectId(id)) return null;
+            return Model.findOne({ _id: id, userId }).lean();
+        },
+
+        async create(userId, data) {
+            const document = await new Model({ ...data, userId }).save();
+            return document.toObject();
+        },
+
+        async update(userId, id, changes) {
+            if (!mongoose.isValidObjectId(id)) return null;
+            return Model.findOneAndUpdate({ _id: id, userId }, changes, {
+                new: true,
+                runValidators: true
+            }).lean();
+        },
+
+        async remove(userId, id) {
+            if (!mongoose.isValidObjectId(id)) return null;
+            return Model.findOneAndDelete({ _id: id, userId }).lean();
+        }
+    };
+}
+
+module.exports = createOwnedRepository;
@@ -0,0 +1,405 @@
+const mongoose = require('mongoose');
+const Transaction = require('./models/Transaction');
+const { encodeCursor } = require('../../lib/transactionQuery');
+const { DEFAULT_CURRENCY } = require('../../lib/currency');
+
+function escapeRegex(text) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Aggregation pipelines don't cast, so owner ids must be real ObjectIds there
+const ownedBy = (userId) => ({ userId: new mongoose.Types.ObjectId(userId) });
+
+// Build a Mongo filter from the list criteria produced by parseTransactionQuery
+function toFilter(userId, criteria) {
+    const filter = ownedBy(userId);
+    const conditions = [];
+
+    if (criteria.types?.length) filter.type = { $in: criteria.types };
+    // A split transaction matches the categories of any of its lines
+    if (criteria.categories?.length) {
+        conditions.push({
+            $or: [{ category: { $in: criteria.categories } }, { 'splits.category': { $in: criteria.categories } }]
+        });
+    }
+
+    if (criteria.tags?.length) filter.tags = { $in: criteria.tags };
+
+    if (criteria.accountId) {
+        if (!mongoose.isValidObjectId(criteria.accountId)) {
+            // An id that can't exist matches nothing
+            filter._id = null;
+        } else {
+            const accountId = new mongoose.Types.ObjectId(criteria.accountId);
+            conditions.push({ $or: [{ accountId }, { toAccountId: accountId }] });
+        }
+    }
+
+    if (criteria.payeeId) {
+        if (!mongoose.isValidObjectId(criteria.payeeId)) {
+            filter._id = null;
+        } else {
+            filter.payeeId = new mongoose.Types.ObjectId(criteria.payeeId);
+        }
+    }
+
+    if (criteria.from || criteria.to) {
+        filter.date = {};
+        if (criteria.from) filter.date.$gte = criteria.from;
+        if (criteria.to) filter.date.$lte = criteria.to;
+    }
+
+    if (criteria.minAmount !== undefined || criteria.maxAmount !== undefined) {
+        filter.amount = {};
+        if (criteria.minAmount !== undefined) filter.amount.$gte = criteria.minAmount;
+        if (criteria.maxAmount !== undefined) filter.amount.$lte = criteria.maxAmount;
+    }
+
+    if (criteria.search) {
+        const pattern = new RegExp(escapeRegex(criteria.search), 'i');
+        filter.$or = [{ description: pattern }, { category: pattern }, { 'splits.category': pattern }];
+    }
+
+    if (conditions.length) filter.$and = conditions;
+    return filter;
+}
+
+// Totals are grouped by currency and day so they can be converted with the
+// exchange rate of the day the money moved
+const currencyOf = { $ifNull: ['$currency', DEFAULT_CURRENCY] };
+const dayOf = { $dateToString: { format: '%Y-%m-%d', date: '$date' } };
+
+function dateMatch({ from, to } = {}) {
+    if (!from && !to) return {};
+    const date = {};
+    if (from) date.$gte = from;
+    if (to) date.$lte = to;
+    return { date };
+}
+
+// Standalone servers can't run multi-document transactions, only replica
+// sets and sharded clusters can
+const transactionsUnsupported = (error) =>
+    error.code === 20 || /replica set member or mongos/i.test(error.message);
+
+function createTransactionRepository() {
+    return {
+        async list(userId, criteria) {
+            const { sortField, direction, limit, page, cursor } = criteria;
+            const filter = toFilter(userId, criteria);
+
+            // _id breaks ties so that cursors are stable for duplicate sort values
+            const sort = { [sortField]: direction, _id: direction };
+            let pageFilter = filter;
+            if (cursor) {
+                if (!mongoose.isValidObjectId(cursor.id)) {
+                    return { items: [], total: 0, nextCursor: null };
+                }
+                const value = sortField === 'date' || sortField === 'createdAt' ? new Date(cursor.v) : cursor.v;
+                const operator = direction === 1 ? '$gt' : '$lt';
+                const id = new mongoose.Types.ObjectId(cursor.id);
+                pageFilter = {
+                    $and: [filter, {
+                        $or: [
+                            { [sortField]: { [operator]: value } },
+                            { [sortField]: value, _id: { [operator]: id } }
+                        ]
+                    }]
+                };
+            }
+
+            const [items, total] = await Promise.all([
+                Transaction.find(pageFilter)
+                    .sort(sort)
+                    .skip(cursor ? 0 : (page - 1) * limit)
+                    .limit(limit + 1)
+                    .lean(),
+                Transaction.countDocuments(filter)
+            ]);
+
+            const hasMore = items.length > limit;
+            if (hasMore) items.pop();
+
+            return {
+                items,
+                total,
+                nextCursor: hasMore ? encodeCursor(items[items.length - 1], sortField) : null
+            };
+        },
+
+        async distinctCategories(userId) {
+            const [categories, splitCategories] = await Promise.all([
+                Transaction.distinct('category', ownedBy(userId)),
+                Transaction.distinct('splits.category', ownedBy(userId))
+            ]);
+            return [...new Set([...categories, ...splitCategories])].sort();
+        },
+
+        async getCategoryUsage(userId) {
+            const usage = await Transaction.aggregate([
+                { $match: ownedBy(userId) },
+                // Each transaction counts once for every category it uses
+                { $project: { categories: { $setUnion: [['$category'], { $ifNull: ['$splits.category', []] }] } } },
+                { $unwind: '$categories' },
+                { $group: { _id: '$categories', count: { $sum: 1 } } }
+            ]);
+            return usage.map(item => ({ category: item._id, count: item.count }));
+        },
+
+        async getTagUsage(userId) {
+            const usage = await Transaction.aggregate([
+                { $match: { ...ownedBy(userId), 'tags.0': { $exists: true } } },
+                { $unwind: '$tags' },
+                { $group: { _id: '$tags', count: { $sum: 1 } } }
+            ]);
+            return usage.map(item => ({ tag: item._id, count: item.count }));
+        },
+
+        // Move every transaction filed under one category to another,
+        // including split lines
+        async renameCategory(userId, from, to) {
+            const filter = { ...ownedBy(userId), $or: [{ category: from }, { 'splits.category': from }] };
+            const count = await Transaction.countDocuments(filter);
+            await Transaction.updateMany({ ...ownedBy(userId), category: from }, { $set: { category: to } });
+            await Transaction.updateMany(
+                { ...ownedBy(userId), 'splits.category': from },
+                { $set: { 'splits.$[split].category': to } },
+                { arrayFilters: [{ 'split.category': from }] }
+            );
+            return count;
+        },
+
+        async clearPayee(userId, payeeId) {
+            if (!mongoose.isValidObjectId(payeeId)) return 0;
+            const result = await Transaction.updateMany(
+                { ...ownedBy(userId), payeeId },
+                { $set: { payeeId: null } }
+            );
+            return result.modifiedCount;
+        },
+
+        async listInRange(userId, range) {
+            return Transaction.find({ userId, ...dateMatch(range) }).sort({ date: 1, _id: 1 }).lean();
+        },
+
+        async findById(userId, id) {
+            if (!mongoose.isValidObjectId(id)) return null;
+            return Transaction.findOne({ _id: id, userId }).lean();
+        },
+
+        async create(userId, data) {
+            const transaction = await new Transaction({ ...data, userId }).save();
+            return transaction.toObject();
+        },
+
+        // Inside a Mongo transaction where the server supports them. Elsewhere
+        // the rows are inserted directly and deleted again if any insert fails.
+        async createMany(userId, documents) {
+            const rows = documents.map(data => ({ ...data, _id: new mongoose.Types.ObjectId(), userId }));
+            const session = await mongoose.startSession();
+            try {
+                let created;
+                await session.withTransaction(async () => {
+                    created = await Transaction.insertMany(rows, { session });
+                });
+                return created.map(transaction => transaction.toObject());
+            } catch (error) {
+                if (!transactionsUnsupported(error)) throw error;
+                try {
+                    const created = await Transaction.insertMany(rows);
+                    return created.map(transaction => transaction.toObject());
+                } catch (insertError) {
+                    await Transaction.deleteMany({ _id: { $in: rows.map(row => row._id) } });
+                    throw insertError;
+                }
+            } finally {
+                await session.endSession();
+            }
+        },
+
+        async update(userId, id, changes) {
+            if (!mongoose.isValidObjectId(id)) return null;
+            return Transaction.findOneAndUpdate({ _id: id, userId }, changes, {
+                new: true,
+                runValidators: true
+            }).lean();
+        },
+
+        async remove(userId, id) {
+            if (!mongoose.isValidObjectId(id)) return null;
+            return Transaction.findOneAndDelete({ _id: id, userId }).lean();
+        },
+
+        async removeByImportBatch(userId, importBatchId) {
+            if (!mongoose.isValidObjectId(importBatchId)) return 0;
+            const result = await Transaction.deleteMany({ userId, importBatchId });
+            return result.deletedCount;
+        },
+
+        async findByOccurrence(userId, recurringRuleId, occurrenceDate) {
+            return Transaction.findOne({ userId, recurringRuleId, occurrenceDate }).lean();
+        },
+
+        // Hand transactions recorded before accounts existed to the given user
+        async claimUnowned(userId) {
+            const result = await Transaction.updateMany(
+                { userId: { $exists: false } },
+                { $set: { userId } }
+            );
+            return result.modifiedCount;
+        },
+
+        // Net movement and transaction count per account and currency. A
+        // transfer counts against its source and towards its destination.
+        async getAccountTotals(userId) {
+            const totals = await Transaction.aggregate([
+                { $match: ownedBy(userId) },
+                {
+                    $project: {
+                        currency: currencyOf,
+                        entries: {
+                            $switch: {
+                                branches: [
+                                    {
+                                        case: { $eq: ['$type', 'transfer'] },
+                                        then: [
+                                            { accountId: '$accountId', amount: { $multiply: ['$amount', -1] } },
+                                            { accountId: '$toAccountId', amount: '$amount' }
+                                        ]
+                                    },
+                                    {
+                                        case: { $eq: ['$type', 'income'] },
+                                        then: [{ accountId: '$accountId', amount: '$amount' }]
+                                    }
+                                ],
+                                default: [{ accountId: '$accountId', amount: { $multiply: ['$amount', -1] } }]
+                            }
+                        }
+                    }
+                },
+                { $unwind: '$entries' },
+                {
+                    $group: {
+                        _id: { accountId: { $ifNull: ['$entries.accountId', null] }, currency: '$currency' },
+                        net: { $sum: '$entries.amount' },
+                        count: { $sum: 1 }
+                    }
+                }
+            ]);
+            return totals.map(item => ({
+                accountId: item._id.accountId,
+                currency: item._id.currency,
+                net: item.net,
+                count: item.count
+            }));
+        },
+
+        async getTotalsByType(userId, range) {
+            const totals = await Transaction.aggregate([
+                { $match: { ...ownedBy(userId), type: { $in: ['income', 'expense'] }, ...dateMatch(range) } },
+                {
+                    $group: {
+                        _id: { type: '$type', currency: currencyOf, day: dayOf },
+                        total: { $sum: '$amount' }
+                    }
+                }
+            ]);
+            return totals.map(item => ({ ...item._id, total: item.total }));
+        },
+
+        async getMonthlyTotals(userId, range) {
+            const monthlyData = await Transaction.aggregate([
+                { $match: { ...ownedBy(userId), ...dateMatch(range) } },
+                {
+                    $group: {
+                        _id: {
+                            month: { $month: '$date' },
+                            year: { $year: '$date' },
+                            currency: currencyOf,
+                            day: dayOf
+                        },
+                        income: {
+                            $sum: {
+                                $cond: [{ $eq: ['$type', 'income'] }, '$amount', 0]
+                            }
+                        },
+                        expenses: {
+                            $sum: {
+                                $cond: [{ $eq: ['$type', 'expense'] }, '$amount', 0]
+                            }
+                        }
+                    }
+                },
+                {
+                    $sort: { '_id.year': 1, '_id.month': 1 }
+                }
+            ]);
+            return monthlyData.map(item => ({
+                year: item._id.year,
+                month: item._id.month,
+                currency: item._id.currency,
+                day: item._id.day,
+                income: item.income,
+                expenses: item.expenses
+            }));
+        },
+
+        async getCategoryTotals(userId, { type, ...range }) {
+            const categoryData = await Transaction.aggregate([
+                { $match: { ...ownedBy(userId), type, ...dateMatch(range) } },
+                // A split transaction counts each line in its own category
+                {
+                    $project: {
+                        currency: currencyOf,
+                        day: dayOf,
+                        entries: {
+                            $cond: [
+                                { $gt: [{ $size: { $ifNull: ['$splits', []] } }, 0] },
+                                '$splits',
+                                [{ category: '$category', amount: '$amount' }]
+                            ]
+                        }
+                    }
+                },
+                { $unwind: '$entries' },
+                {
+                    $group: {
+                        _id: { category: '$entries.category', currency: '$currency', day: '$day' },
+                        value: { $sum: '$entries.amount' }
+                    }
+                }
+            ]);
+            return categoryData.map(item => ({ ...item._id, value: item.value }));
+        },
+
+        async getPayeeTotals(userId, { type, ...range }) {
+            const payeeData = await Transaction.aggregate([
+                { $match: { ...ownedBy(userId), type, ...dateMatch(range) } },
+                {
+                    $group: {
+                        _id: { payeeId: { $ifNull: ['$payeeId', null] }, currency: currencyOf, day: dayOf },
+                        value: { $sum: '$amount' },
+                        count: { $sum: 1 }
+                    }
+                }
+            ]);
+            return payeeData.map(item => ({ ...item._id, value: item.value, count: item.count }));
+        },
+
+        async getTagTotals(userId, { type, ...range }) {
+            const tagData = await Transaction.aggregate([
+                { $match: { ...ownedBy(userId), type, 'tags.0': { $exists: true }, ...dateMatch(range) } },
+                { $unwind: '$tags' },
+                {
+                    $group: {
+                        _id: { tag: '$tags', currency: currencyOf, day: dayOf },
+                        value: { $sum: '$amount' }
+                    }
+                }
+            ]);
+            return tagData.map(item => ({ ...item._id, value: item.value }));
+        }
+    };
+}
+
+module.exports = createTransactionRepository;
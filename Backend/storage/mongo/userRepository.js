@@ -0,0 +1,31 @@
+const mongoose = require('mongoose');
+const User = require('./models/User');
+
+function createUserRepository() {
+    return {
+        async findById(id) {
+            if (!mongoose.isValidObjectId(id)) return null;
+            return User.findById(id).lean();
+        },
+
+        async findByEmail(email) {
+            return User.findOne({ email: email.toLowerCase() }).lean();
+        },
+
+        async create(data) {
+            const user = await new User(data).save();
+            return user.toObject();
+        },
+
+        async update(id, changes) {
+            if (!mongoose.isValidObjectId(id)) return null;
+            return User.findByIdAndUpdate(id, changes, { new: true, runValidators: true }).lean();
+        },
+
+        async count() {
+            return User.countDocuments();
+        }
+    };
+}
+
+module.exports = createUserRepository;
@@ -0,0 +1,27 @@
+// Periods must not depend on where the server runs
+process.env.TZ = 'America/New_York';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { getPeriodRange } = require('../lib/budgets');
+
+const iso = ({ from, to }) => [from.toISOString(), to.toISOString()];
+
+test('monthly periods are whole UTC months', () => {
+    assert.deepEqual(iso(getPeriodRange({ period: 'monthly' }, new Date('2026-10-01T00:00:00Z'))),
+        ['2026-10-01T00:00:00.000Z', '2026-10-31T23:59:59.999Z']);
+    assert.deepEqual(iso(getPeriodRange({ period: 'monthly' }, new Date('2026-12-31T23:00:00Z'))),
+        ['2026-12-01T00:00:00.000Z', '2026-12-31T23:59:59.999Z']);
+});
+
+test('weekly periods run from Monday to Sunday in UTC', () => {
+    assert.deepEqual(iso(getPeriodRange({ period: 'weekly' }, new Date('2026-10-19T02:00:00Z'))),
+        ['2026-10-19T00:00:00.000Z', '2026-10-25T23:59:59.999Z']);
+    assert.deepEqual(iso(getPeriodRange({ period: 'weekly' }, new Date('2026-10-18T23:00:00Z'))),
+        ['2026-10-12T00:00:00.000Z', '2026-10-18T23:59:59.999Z']);
+});
+
+test('custom budgets keep their own dates', () => {
+    const budget = { period: 'custom', startDate: '2026-03-01T00:00:00.000Z', endDate: '2026-03-15T00:00:00.000Z' };
+    assert.deepEqual(iso(getPeriodRange(budget)), ['2026-03-01T00:00:00.000Z', '2026-03-15T00:00:00.000Z']);
+});
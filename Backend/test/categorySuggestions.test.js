@@ -0,0 +1,40 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { suggestCategories, resetModel } = require('../lib/categorySuggestions');
+
+// Just enough storage to train a model from
+const storageWith = (items) => ({
+    transactions: { list: async () => ({ items, nextCursor: null }) }
+});
+
+const history = [
+    { _id: '1', type: 'expense', amount: 4.5, category: 'Food & Dining', description: 'Corner Cafe' },
+    { _id: '2', type: 'expense', amount: 5, category: 'Food & Dining', description: 'Corner Cafe latte' },
+    { _id: '3', type: 'expense', amount: 60, category: 'Transportation', description: 'Shell fuel' },
+    { _id: '4', type: 'income', amount: 2500, category: 'Salary', description: 'ACME payroll' }
+];
+
+test('suggests the category of similar transactions of the same type', async (t) => {
+    t.after(() => resetModel('user-a'));
+    const suggestions = await suggestCategories(storageWith(history), 'user-a', [
+        { type: 'expense', amount: 4, description: 'CORNER CAFE' },
+        { type: 'expense', amount: 55, description: 'shell station fuel' },
+        { type: 'income', amount: 2500, description: 'corner cafe' },
+        { type: 'transfer', amount: 10, description: 'Corner Cafe' }
+    ]);
+    assert.deepEqual(suggestions.map(({ index, category }) => [index, category]), [
+        [0, 'Food & Dining'],
+        [1, 'Transportation']
+    ]);
+});
+
+test('types that name Object properties are ignored instead of failing the batch', async (t) => {
+    t.after(() => resetModel('user-b'));
+    const suggestions = await suggestCategories(storageWith(history), 'user-b', [
+        { type: 'constructor', amount: 4, description: 'Corner Cafe' },
+        { type: '__proto__', amount: 4, description: 'Corner Cafe' },
+        { type: 'toString', amount: 4, description: 'Corner Cafe' },
+        { type: 'expense', amount: 4, description: 'Corner Cafe' }
+    ]);
+    assert.deepEqual(suggestions.map(({ index }) => index), [3]);
+});
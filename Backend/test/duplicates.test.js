@@ -0,0 +1,80 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+    DEFAULT_TOLERANCE,
+    parseTolerance,
+    normaliseDescription,
+    isLikelyDuplicate,
+    findMatches,
+    matchRange,
+    findDuplicateGroups
+} = require('../lib/duplicates');
+
+const transaction = (overrides) => ({
+    type: 'expense',
+    amount: 12.5,
+    date: '2026-10-01T00:00:00.000Z',
+    description: 'Corner Cafe',
+    ...overrides
+});
+
+test('parseTolerance checks days and amount', () => {
+    assert.deepEqual(parseTolerance({ days: '3', amount: '0.5' }), { value: { days: 3, amount: 0.5 } });
+    assert.ok(parseTolerance({ days: 1.5, amount: 0 }).error);
+    assert.ok(parseTolerance({ days: 32, amount: 0 }).error);
+    assert.ok(parseTolerance({ days: 2, amount: -1 }).error);
+    assert.ok(parseTolerance(null).error);
+});
+
+test('descriptions compare without case or punctuation', () => {
+    assert.equal(normaliseDescription('AMAZON.COM*MK1'), normaliseDescription('Amazon com MK1'));
+    assert.equal(normaliseDescription(undefined), '');
+});
+
+test('likely duplicates are within the tolerance', () => {
+    const original = transaction();
+    assert.ok(isLikelyDuplicate(original, transaction({ date: '2026-10-03T00:00:00.000Z' }), DEFAULT_TOLERANCE));
+    assert.ok(isLikelyDuplicate(original, transaction({ description: 'CORNER CAFE LONDON' }), DEFAULT_TOLERANCE));
+    assert.ok(!isLikelyDuplicate(original, transaction({ date: '2026-10-04T00:00:00.000Z' }), DEFAULT_TOLERANCE));
+    assert.ok(!isLikelyDuplicate(original, transaction({ amount: 12.51 }), DEFAULT_TOLERANCE));
+    assert.ok(isLikelyDuplicate(original, transaction({ amount: 12.51 }), { days: 2, amount: 0.01 }));
+    assert.ok(!isLikelyDuplicate(original, transaction({ type: 'income' }), DEFAULT_TOLERANCE));
+    assert.ok(!isLikelyDuplicate(original, transaction({ currency: 'EUR' }), DEFAULT_TOLERANCE));
+    assert.ok(!isLikelyDuplicate(original, transaction({ accountId: 'a1' }), DEFAULT_TOLERANCE));
+});
+
+test('bank ids decide when both transactions have one', () => {
+    assert.ok(!isLikelyDuplicate(transaction({ externalId: 'x1' }), transaction({ externalId: 'x2' }), DEFAULT_TOLERANCE));
+    assert.ok(isLikelyDuplicate(
+        transaction({ externalId: 'x1' }),
+        transaction({ externalId: 'x1', amount: 99, description: 'Other' }),
+        DEFAULT_TOLERANCE
+    ));
+});
+
+test('findMatches lists only candidates with matches', () => {
+    const existing = [transaction({ id: 't1' })];
+    const candidates = [transaction({ description: 'Bakery' }), transaction({ date: '2026-10-02T00:00:00.000Z' })];
+    const matches = findMatches(candidates, existing, DEFAULT_TOLERANCE);
+    assert.deepEqual(matches.map(match => match.index), [1]);
+    assert.deepEqual(matches[0].transactions.map(match => match.id), ['t1']);
+});
+
+test('matchRange widens the candidate dates by the tolerance', () => {
+    const range = matchRange([transaction(), transaction({ date: '2026-10-05T12:00:00.000Z' })], DEFAULT_TOLERANCE);
+    assert.equal(range.from.toISOString(), '2026-09-29T00:00:00.000Z');
+    assert.equal(range.to.toISOString(), '2026-10-07T23:59:59.999Z');
+});
+
+test('duplicate groups chain through shared matches, newest first', () => {
+    const transactions = [
+        transaction({ id: 'a', date: '2026-10-01T00:00:00.000Z' }),
+        transaction({ id: 'b', date: '2026-10-03T00:00:00.000Z' }),
+        transaction({ id: 'c', date: '2026-10-05T00:00:00.000Z' }),
+        transaction({ id: 'd', date: '2026-10-06T00:00:00.000Z', description: 'Bakery' }),
+        transaction({ id: 'e', date: '2026-10-20T00:00:00.000Z', amount: 4 }),
+        transaction({ id: 'f', date: '2026-10-20T00:00:00.000Z', amount: 4 })
+    ];
+    const groups = findDuplicateGroups(transactions, DEFAULT_TOLERANCE);
+    assert.deepEqual(groups.map(group => group.map(item => item.id)), [['e', 'f'], ['a', 'b', 'c']]);
+});
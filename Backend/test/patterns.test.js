@@ -0,0 +1,55 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { hasNestedRepeat, compilePattern, createPatternTester } = require('../lib/patterns');
+const { createPayeeMatcher } = require('../lib/payees');
+const { compileRules, applyRules } = require('../lib/categoryRules');
+
+test('hasNestedRepeat refuses groups repeated around a repeat or a choice', () => {
+    for (const pattern of ['(a+)+$', '(\\w*\\s)*x', '((ab)+)+', '(a{2,})*', '(?:x?)+', '(a|a)+$', '(a|aa)+$', '(?:foo|bar)*']) {
+        assert.equal(hasNestedRepeat(pattern), true, pattern);
+    }
+});
+
+test('hasNestedRepeat accepts ordinary patterns', () => {
+    for (const pattern of ['^AMZN Mktp', 'AMAZON PRIME\\*', '(?:ab)+', 'uber|lyft', '(ab){3}', '(a+){3}', '[(|+)]+', '\\(a+\\)+', '\\d+ items?']) {
+        assert.equal(hasNestedRepeat(pattern), false, pattern);
+    }
+});
+
+test('compilePattern compiles ignoring case or says what is wrong', () => {
+    assert.ok(compilePattern('^amzn').value.test('AMZN Mktp'));
+    assert.match(compilePattern('(').error, /not a valid regular expression/);
+    assert.match(compilePattern('(a|a)+$').error, /too long to match/);
+});
+
+test('createPatternTester skips a pattern that runs out of time', () => {
+    const slow = new RegExp('(a|aa)+$', 'i');
+    const testPatterns = createPatternTester([slow, /b/i, null]);
+    const started = Date.now();
+    assert.deepEqual(testPatterns(`${'a'.repeat(40)}b!`), [false, true, false]);
+    // The slow pattern is left out from then on
+    assert.deepEqual(testPatterns(`${'a'.repeat(40)}!`), [false, false, false]);
+    assert.ok(Date.now() - started < 2000);
+});
+
+test('a payee saved with a slow pattern no longer stalls matching', () => {
+    const payees = [
+        { _id: 'p1', name: 'Evil', aliases: [], patterns: ['(a|a)+$'] },
+        { _id: 'p2', name: 'Amazon', aliases: ['Amazon.com'], patterns: ['^AMZN Mktp'] }
+    ];
+    const matchPayee = createPayeeMatcher(payees);
+    const started = Date.now();
+    assert.equal(matchPayee('a'.repeat(29) + '!'), null);
+    assert.equal(matchPayee('AMZN Mktp US*2K4')._id, 'p2');
+    assert.equal(matchPayee('AMAZON COM')._id, 'p2');
+    assert.ok(Date.now() - started < 2000);
+});
+
+test('category rules match regexes through the tester', () => {
+    const rules = compileRules([
+        { _id: 'r1', name: 'Slow', priority: 0, conditions: { descriptionMatch: 'regex', descriptionValue: '(a|aa)+$' }, actions: { category: 'Shopping' } },
+        { _id: 'r2', name: 'Uber', priority: 1, conditions: { descriptionMatch: 'regex', descriptionValue: '^uber' }, actions: { category: 'Transportation' } }
+    ]);
+    assert.deepEqual(applyRules(rules, { type: 'expense', amount: 5, description: 'UBER *TRIP' }).changes, { category: 'Transportation' });
+    assert.deepEqual(applyRules(rules, { type: 'expense', amount: 5, description: `${'a'.repeat(40)}!` }).rules, []);
+});
@@ -0,0 +1,60 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const zlib = require('zlib');
+const { extractPdfText } = require('../lib/pdfText');
+
+const streamObject = (id, dict, data) => Buffer.concat([
+    Buffer.from(`${id} 0 obj\n<< ${dict} /Length ${data.length} >>\nstream\n`, 'latin1'),
+    data,
+    Buffer.from('\nendstream\nendobj\n', 'latin1')
+]);
+
+// A one page document whose font sits in a compressed object stream
+function receiptPdf() {
+    const content = zlib.deflateSync(Buffer.from('BT /F1 12 Tf 72 700 Td (Corner Cafe) Tj 0 -20 Td (TOTAL 12.50) Tj ET'));
+    const font = '5 0 ';
+    const objectStream = zlib.deflateSync(Buffer.from(`${font}<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>`));
+    return Buffer.concat([
+        Buffer.from([
+            '%PDF-1.5',
+            '1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj',
+            '2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj',
+            '3 0 obj\n<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>\nendobj',
+            ''
+        ].join('\n'), 'latin1'),
+        streamObject(4, '/Filter /FlateDecode', content),
+        streamObject(6, `/Type /ObjStm /N 1 /First ${font.length} /Filter /FlateDecode`, objectStream),
+        Buffer.from('%%EOF\n', 'latin1')
+    ]);
+}
+
+test('reads the lines of a page', () => {
+    assert.deepEqual(extractPdfText(receiptPdf()), ['Corner Cafe', 'TOTAL 12.50']);
+});
+
+test('ignores files that are not PDFs', () => {
+    assert.deepEqual(extractPdfText(Buffer.from('Corner Cafe\nTOTAL 12.50')), []);
+});
+
+test('an object stream claiming more objects than it holds is read quickly', () => {
+    const pdf = Buffer.concat([
+        Buffer.from('%PDF-1.5\n', 'latin1'),
+        streamObject(1, '/Type /ObjStm /N 100000000 /First 4', Buffer.from('2 0 <<>>'))
+    ]);
+    const started = Date.now();
+    assert.deepEqual(extractPdfText(pdf), []);
+    assert.ok(Date.now() - started < 1000);
+});
+
+test('streams stop inflating at the document budget', () => {
+    // 64 MB of zeros compresses to about 64 KB; two of them pass the budget
+    const bomb = zlib.deflateSync(Buffer.alloc(64 * 1024 * 1024));
+    const pdf = Buffer.concat([
+        Buffer.from('%PDF-1.4\n', 'latin1'),
+        streamObject(1, '/Filter /FlateDecode', bomb),
+        streamObject(2, '/Filter /FlateDecode', bomb)
+    ]);
+    const before = process.memoryUsage().rss;
+    assert.deepEqual(extractPdfText(pdf), []);
+    assert.ok(process.memoryUsage().rss - before < 200 * 1024 * 1024);
+});
@@ -0,0 +1,57 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseReceipt } = require('../lib/receiptParser');
+
+test('reads merchant, date, total, tax and currency', () => {
+    const receipt = parseReceipt([
+        'Corner Cafe',
+        '12 High Street',
+        'Tel 020 7946 0000',
+        'Date: 2026-10-14 08:31',
+        'Flat white          3.20',
+        'Croissant           2.80',
+        'Subtotal            5.00',
+        'VAT 20%             1.00',
+        'TOTAL GBP           6.00'
+    ]);
+    assert.deepEqual(receipt, {
+        merchant: { value: 'Corner Cafe', confidence: 0.7 },
+        date: { value: '2026-10-14', confidence: 0.9 },
+        total: { value: 6, confidence: 0.8 },
+        tax: { value: 1, confidence: 0.8 },
+        currency: { value: 'GBP', confidence: 0.8 }
+    });
+});
+
+test('reads European amounts and stronger total labels', () => {
+    const receipt = parseReceipt([
+        'Bäckerei Müller',
+        '03.10.2026',
+        'Zwischensumme   1.180,00',
+        'MwSt 19%          188,40',
+        'Gesamtbetrag €  1.180,00'
+    ]);
+    assert.equal(receipt.merchant.value, 'Bäckerei Müller');
+    assert.deepEqual(receipt.date, { value: '2026-10-03', confidence: 0.6 });
+    assert.deepEqual(receipt.total, { value: 1180, confidence: 0.9 });
+    assert.deepEqual(receipt.tax, { value: 188.4, confidence: 0.8 });
+    assert.deepEqual(receipt.currency, { value: 'EUR', confidence: 0.8 });
+});
+
+test('dates written with month names', () => {
+    assert.equal(parseReceipt(['Shop', '14th Oct 2026']).date.value, '2026-10-14');
+    assert.equal(parseReceipt(['Shop', 'October 14, 2026']).date.value, '2026-10-14');
+    // Month first when the day can't be first
+    assert.deepEqual(parseReceipt(['Shop', '10/14/26']).date, { value: '2026-10-14', confidence: 0.8 });
+});
+
+test('falls back to the largest amount without a total line', () => {
+    const receipt = parseReceipt(['Market', 'Apples 2.40', 'Pears 3.10', '$ 5.50']);
+    assert.deepEqual(receipt.total, { value: 5.5, confidence: 0.4 });
+    assert.deepEqual(receipt.currency, { value: 'USD', confidence: 0.5 });
+    assert.equal(receipt.tax, null);
+});
+
+test('finds nothing in an empty receipt', () => {
+    assert.deepEqual(parseReceipt(['', '   ']), { merchant: null, date: null, total: null, tax: null, currency: null });
+});
@@ -0,0 +1,54 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { dueOccurrences, upcomingOccurrences } = require('../lib/recurrence');
+
+const days = (dates) => dates.map(date => date.toISOString().slice(0, 10));
+
+test('monthly rules fall on the last day of short months', () => {
+    const rule = { frequency: 'monthly', startDate: '2026-01-31T00:00:00.000Z', dayOfMonth: 31 };
+    assert.deepEqual(days(upcomingOccurrences(rule, 4, new Date('2026-01-01T00:00:00Z'))),
+        ['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+});
+
+test('nth weekday rules skip dates before the start', () => {
+    // Last Friday of the month, starting after January's
+    const rule = { frequency: 'monthly', monthlyMode: 'nthWeekday', weekOfMonth: -1, weekday: 5, startDate: '2026-01-31T00:00:00.000Z' };
+    assert.deepEqual(days(upcomingOccurrences(rule, 2, new Date('2026-01-01T00:00:00Z'))), ['2026-02-27', '2026-03-27']);
+
+    const second = { frequency: 'monthly', monthlyMode: 'nthWeekday', weekOfMonth: 2, weekday: 1, startDate: '2026-10-01T00:00:00.000Z' };
+    assert.deepEqual(days(upcomingOccurrences(second, 2, new Date('2026-10-01T00:00:00Z'))), ['2026-10-12', '2026-11-09']);
+});
+
+test('yearly rules on 29 February fall back to the 28th', () => {
+    const rule = { frequency: 'yearly', startDate: '2028-02-29T00:00:00.000Z', dayOfMonth: 29 };
+    assert.deepEqual(days(upcomingOccurrences(rule, 2, new Date('2028-01-01T00:00:00Z'))), ['2028-02-29', '2029-02-28']);
+});
+
+test('due occurrences come after the last posted one and stop at today', () => {
+    const rule = {
+        frequency: 'weekly',
+        startDate: '2026-10-01T00:00:00.000Z',
+        lastOccurrence: '2026-10-08T00:00:00.000Z'
+    };
+    assert.deepEqual(days(dueOccurrences(rule, new Date('2026-10-22T15:00:00Z'))), ['2026-10-15', '2026-10-22']);
+});
+
+test('end dates and counts limit the occurrences', () => {
+    const ended = { frequency: 'daily', startDate: '2026-10-01T00:00:00.000Z', endDate: '2026-10-03T00:00:00.000Z' };
+    assert.deepEqual(days(upcomingOccurrences(ended, 10, new Date('2026-10-01T00:00:00Z'))), ['2026-10-01', '2026-10-02', '2026-10-03']);
+
+    const counted = { frequency: 'biweekly', startDate: '2026-10-01T00:00:00.000Z', count: 2 };
+    assert.deepEqual(days(dueOccurrences(counted, new Date('2027-01-01T00:00:00Z'))), ['2026-10-01', '2026-10-15']);
+});
+
+test('occurrences keep their calendar day in any server timezone', () => {
+    // A start stored at UTC midnight is the evening before in New York
+    const rule = { frequency: 'monthly', startDate: '2026-11-01T00:00:00.000Z', dayOfMonth: 1 };
+    const previous = process.env.TZ;
+    process.env.TZ = 'America/New_York';
+    try {
+        assert.deepEqual(days(upcomingOccurrences(rule, 2, new Date('2026-11-01T00:00:00Z'))), ['2026-11-01', '2026-12-01']);
+    } finally {
+        process.env.TZ = previous;
+    }
+});
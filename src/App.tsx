@@ -4,11 +4,25 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { Layout } from "./components/Layout";
+import { RequireAuth } from "./components/RequireAuth";
+import { AuthProvider } from "./hooks/use-auth";
 import Dashboard from "./pages/Dashboard";
 import AddTransaction from "./pages/AddTransaction";
 import Transactions from "./pages/Transactions";
 import ReceiptUpload from "./pages/ReceiptUpload";
+import Accounts from "./pages/Accounts";
+import Budgets from "./pages/Budgets";
+import Categories from "./pages/Categories";
+import Rules from "./pages/Rules";
+import Merchants from "./pages/Merchants";
+import Recurring from "./pages/Recurring";
+import Currencies from "./pages/Currencies";
+import Duplicates from "./pages/Duplicates";
+import ImportHistory from "./pages/ImportHistory";
+import Reports from "./pages/Reports";
 import NotFound from "./pages/NotFound";
+import Login from "./pages/Login";
+import Register from "./pages/Register";
 
 const queryClient = new QueryClient();
 
@@ -18,16 +32,39 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Layout>
+        <AuthProvider>
           <Routes>
-            <Route path="/" element={<Dashboard />} />
-            <Route path="/add" element={<AddTransaction />} />
-            <Route path="/transactions" element={<Transactions />} />
-            <Route path="/upload" element={<ReceiptUpload />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
+            <Route path="/login" element={<Login />} />
+            <Route path="/register" element={<Register />} />
+            <Route
+              path="*"
+              element={
+                <RequireAuth>
+                  <Layout>
+                    <Routes>
+                      <Route path="/" element={<Dashboard />} />
+                      <Route path="/add" element={<AddTransaction />} />
+                      <Route path="/transactions" element={<Transactions />} />
+                      <Route path="/upload" element={<ReceiptUpload />} />
+                      <Route path="/imports" element={<ImportHistory />} />
+                      <Route path="/reports" element={<Reports />} />
+                      <Route path="/accounts" element={<Accounts />} />
+                      <Route path="/budgets" element={<Budgets />} />
+                      <Route path="/categories" element={<Categories />} />
+                      <Route path="/rules" element={<Rules />} />
+                      <Route path="/merchants" element={<Merchants />} />
+                      <Route path="/recurring" element={<Recurring />} />
+                      <Route path="/currencies" element={<Currencies />} />
+                      <Route path="/duplicates" element={<Duplicates />} />
+                      {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                      <Route path="*" element={<NotFound />} />
+                    </Routes>
+                  </Layout>
+                </RequireAuth>
+              }
+            />
           </Routes>
-        </Layout>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
@@ -0,0 +1,166 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Coins, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { accountTypeLabels } from "@/lib/accounts";
+import { currencyCodes, DEFAULT_CURRENCY } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { accountApi, Account } from "@/services/api";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50, "Name must be less than 50 characters"),
+  type: z.enum(["checking", "savings", "credit", "cash"]),
+  openingBalance: z.string().regex(/^-?\d+(\.\d{1,2})?$/, "Please enter a valid amount"),
+  currency: z.string().length(3, "Currency is required"),
+});
+
+interface AccountFormProps {
+  /** When provided the form edits this account instead of creating a new one. */
+  account?: Account;
+  onSuccess?: () => void;
+}
+
+export function AccountForm({ account, onSuccess }: AccountFormProps) {
+  const { toast } = useToast();
+  const baseCurrency = useAuth().user?.baseCurrency ?? DEFAULT_CURRENCY;
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: account?.name ?? "",
+      type: account?.type ?? "checking",
+      openingBalance: account ? account.openingBalance.toFixed(2) : "0.00",
+      currency: account?.currency ?? baseCurrency,
+    },
+  });
+
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    const accountData = {
+      name: values.name,
+      type: values.type,
+      openingBalance: parseFloat(values.openingBalance),
+      currency: values.currency,
+    };
+
+    try {
+      if (account) {
+        await accountApi.updateAccount(account._id, accountData);
+      } else {
+        await accountApi.addAccount(accountData);
+      }
+      toast({
+        title: account ? "Account Updated" : "Account Created",
+        description: `${values.name} has been saved.`,
+      });
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save account. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Everyday checking" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(accountTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="openingBalance"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Opening balance</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <Coins className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                    <Input placeholder="0.00" className="pl-9" {...field} />
+                  </div>
+                </FormControl>
+                <FormDescription>Negative if money is owed, e.g. on a credit card.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="currency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Currency</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select currency" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {[...new Set([field.value, ...currencyCodes])].map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>The balance is kept in this currency.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {account ? "Save Account" : "Create Account"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -4,6 +4,16 @@ import {
   PlusCircle,
   List,
   Receipt,
+  Target,
+  Repeat,
+  Wallet,
+  Coins,
+  Tags,
+  CopyCheck,
+  History,
+  FileText,
+  Wand2,
+  Store,
 } from "lucide-react";
 
 import {
@@ -22,7 +32,17 @@ const navigation = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard },
   { title: "Add Transaction", url: "/add", icon: PlusCircle },
   { title: "Transactions", url: "/transactions", icon: List },
-  { title: "Upload Excel", url: "/upload", icon: Receipt },
+  { title: "Reports", url: "/reports", icon: FileText },
+  { title: "Upload", url: "/upload", icon: Receipt },
+  { title: "Import History", url: "/imports", icon: History },
+  { title: "Accounts", url: "/accounts", icon: Wallet },
+  { title: "Budgets", url: "/budgets", icon: Target },
+  { title: "Categories", url: "/categories", icon: Tags },
+  { title: "Rules", url: "/rules", icon: Wand2 },
+  { title: "Merchants", url: "/merchants", icon: Store },
+  { title: "Recurring", url: "/recurring", icon: Repeat },
+  { title: "Currencies", url: "/currencies", icon: Coins },
+  { title: "Duplicates", url: "/duplicates", icon: CopyCheck },
 ];
 
 export function AppSidebar() {
@@ -0,0 +1,221 @@
+import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Coins, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { orderCategories } from "@/lib/categories";
+import { formatMoney } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { budgetApi, categoryApi, Budget } from "@/services/api";
+
+const formSchema = z.object({
+  category: z.string().min(1, "Category is required"),
+  period: z.enum(["monthly", "weekly", "custom"]),
+  amount: z.string().min(1, "Amount is required").regex(/^\d+(\.\d{1,2})?$/, "Please enter a valid amount"),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  rollover: z.boolean(),
+}).refine((values) => values.period !== "custom" || (values.startDate && values.endDate), {
+  message: "Custom budgets need a start and end date",
+  path: ["endDate"],
+}).refine((values) => values.period !== "custom" || !values.startDate || !values.endDate || values.endDate >= values.startDate, {
+  message: "End date must not be before the start date",
+  path: ["endDate"],
+});
+
+interface BudgetFormProps {
+  /** When provided the form edits this budget instead of creating a new one. */
+  budget?: Budget;
+  onSuccess?: () => void;
+}
+
+export function BudgetForm({ budget, onSuccess }: BudgetFormProps) {
+  const { toast } = useToast();
+  const baseCurrency = useAuth().user?.baseCurrency;
+
+  const { data: allCategories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: categoryApi.getCategories,
+    refetchOnWindowFocus: false,
+  });
+  const categories = orderCategories(allCategories, "expense");
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      category: budget?.category ?? "",
+      period: budget?.period ?? "monthly",
+      amount: budget ? budget.amount.toFixed(2) : "",
+      startDate: budget?.startDate?.slice(0, 10) ?? "",
+      endDate: budget?.endDate?.slice(0, 10) ?? "",
+      rollover: budget?.rollover ?? false,
+    },
+  });
+
+  const period = form.watch("period");
+
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    const budgetData = {
+      category: values.category,
+      period: values.period,
+      amount: parseFloat(values.amount),
+      startDate: values.period === "custom" ? values.startDate : null,
+      endDate: values.period === "custom" ? values.endDate : null,
+      rollover: values.period !== "custom" && values.rollover,
+    };
+
+    try {
+      if (budget) {
+        await budgetApi.updateBudget(budget._id, budgetData);
+      } else {
+        await budgetApi.addBudget(budgetData);
+      }
+      toast({
+        title: budget ? "Budget Updated" : "Budget Created",
+        description: `${values.category} budget of ${formatMoney(budgetData.amount, baseCurrency)} has been saved.`,
+      });
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save budget. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {categories.map(({ category, depth }) => (
+                    <SelectItem key={category._id} value={category.name}>
+                      <CategoryLabel category={category} depth={depth} />
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="period"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Period</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select period" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="custom">Custom dates</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <Coins className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                    <Input placeholder="0.00" className="pl-9" {...field} />
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {period === "custom" ? (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Start date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="endDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>End date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        ) : (
+          <FormField
+            control={form.control}
+            name="rollover"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <FormLabel>Roll over unused funds</FormLabel>
+                  <FormDescription>
+                    Add what was left of last period's budget to this one.
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        )}
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {budget ? "Save Budget" : "Create Budget"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
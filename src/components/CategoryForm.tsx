@@ -0,0 +1,225 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Check, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { cn } from "@/lib/utils";
+import { categoryColors, categoryIcons, categoryTypeLabels } from "@/lib/categories";
+import { useToast } from "@/hooks/use-toast";
+import { categoryApi, Category } from "@/services/api";
+
+// Select items can't have an empty value, so "no parent" gets a placeholder
+const NO_PARENT = "none";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50, "Name must be less than 50 characters"),
+  type: z.enum(["income", "expense", "both"]),
+  parentId: z.string(),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, "Pick a colour"),
+  icon: z.string(),
+});
+
+interface CategoryFormProps {
+  /** When provided the form edits this category instead of creating a new one. */
+  category?: Category;
+  /** Every category, to offer as parents. */
+  categories: Category[];
+  onSuccess?: () => void;
+}
+
+export function CategoryForm({ category, categories, onSuccess }: CategoryFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: category?.name ?? "",
+      type: category?.type ?? "expense",
+      parentId: category?.parentId ?? NO_PARENT,
+      color: category?.color ?? categoryColors[categories.length % categoryColors.length],
+      icon: category?.icon ?? "tag",
+    },
+  });
+
+  // Only top-level categories can be parents, and one with subcategories can't become one
+  const hasChildren = Boolean(category && categories.some((c) => c.parentId === category._id));
+  const parents = categories.filter((c) => !c.parentId && c._id !== category?._id);
+  const [color, name, icon] = form.watch(["color", "name", "icon"]);
+
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    const categoryData = {
+      name: values.name,
+      type: values.type,
+      parentId: values.parentId === NO_PARENT ? null : values.parentId,
+      color: values.color,
+      icon: values.icon,
+    };
+
+    try {
+      if (category) {
+        const saved = await categoryApi.updateCategory(category._id, categoryData);
+        toast({
+          title: "Category Updated",
+          description: saved.renamed > 0
+            ? `${saved.renamed} transaction${saved.renamed !== 1 ? "s were" : " was"} moved to "${saved.name}".`
+            : `${saved.name} has been saved.`,
+        });
+      } else {
+        await categoryApi.addCategory(categoryData);
+        toast({ title: "Category Created", description: `${values.name} has been saved.` });
+      }
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save category. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Groceries" {...field} />
+              </FormControl>
+              {category && category.transactionCount > 0 && (
+                <FormDescription>
+                  Renaming also renames it on {category.transactionCount} existing transaction{category.transactionCount !== 1 ? "s" : ""}.
+                </FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Used for</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(categoryTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="parentId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Parent</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value} disabled={hasChildren}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select parent" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>None (top-level)</SelectItem>
+                    {parents.map((parent) => (
+                      <SelectItem key={parent._id} value={parent._id}>
+                        <CategoryLabel category={parent} />
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {hasChildren && <FormDescription>Has subcategories, so it stays top-level.</FormDescription>}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="color"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Colour</FormLabel>
+              <div className="flex flex-wrap gap-2">
+                {categoryColors.map((swatch) => (
+                  <button
+                    key={swatch}
+                    type="button"
+                    aria-label={swatch}
+                    className="flex h-7 w-7 items-center justify-center rounded-full"
+                    style={{ backgroundColor: swatch }}
+                    onClick={() => field.onChange(swatch)}
+                  >
+                    {field.value.toLowerCase() === swatch && <Check className="h-4 w-4 text-white" />}
+                  </button>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="icon"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Icon</FormLabel>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(categoryIcons).map(([key, Icon]) => (
+                  <Button
+                    key={key}
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label={key}
+                    className={cn("h-8 w-8", field.value === key && "ring-2 ring-primary")}
+                    style={field.value === key ? { color } : undefined}
+                    onClick={() => field.onChange(key)}
+                  >
+                    <Icon className="h-4 w-4" />
+                  </Button>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="rounded-lg border p-3 text-sm">
+          <CategoryLabel category={{ name: name || "Preview", color, icon }} />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {category ? "Save Category" : "Create Category"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
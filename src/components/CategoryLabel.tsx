@@ -0,0 +1,26 @@
+import { cn } from "@/lib/utils";
+import { getCategoryIcon } from "@/lib/categories";
+import type { Category } from "@/services/api";
+
+interface CategoryLabelProps {
+  category: Pick<Category, "name" | "color" | "icon">;
+  /** Subcategories are indented under their parent. */
+  depth?: number;
+  className?: string;
+}
+
+// Category name with its colour and icon, as used in selects and lists
+export function CategoryLabel({ category, depth = 0, className }: CategoryLabelProps) {
+  const Icon = getCategoryIcon(category.icon);
+  return (
+    <span className={cn("flex items-center gap-2", depth > 0 && "pl-4", className)}>
+      <span
+        className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full"
+        style={{ backgroundColor: `${category.color}26`, color: category.color }}
+      >
+        <Icon className="h-3 w-3" />
+      </span>
+      <span className="truncate">{category.name}</span>
+    </span>
+  );
+}
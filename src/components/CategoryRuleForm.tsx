@@ -0,0 +1,425 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { orderCategories } from "@/lib/categories";
+import { descriptionMatchLabels } from "@/lib/categoryRules";
+import { parseTagList } from "@/lib/tags";
+import { useToast } from "@/hooks/use-toast";
+import { accountApi, categoryApi, categoryRuleApi, CategoryRule, CategoryRuleInput } from "@/services/api";
+
+// Select items can't have an empty value, so conditions and actions that
+// aren't used get a placeholder
+const ANY = "any";
+
+const amountField = z.string().regex(/^(\d+(\.\d{1,2})?)?$/, "Please enter a valid amount");
+
+const isPattern = (value: string) => {
+  try {
+    new RegExp(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50, "Name must be less than 50 characters"),
+  priority: z.string().regex(/^-?\d+$/, "Enter a whole number"),
+  enabled: z.boolean(),
+  descriptionMatch: z.enum([ANY, "contains", "equals", "regex"]),
+  descriptionValue: z.string().max(200, "Text must be less than 200 characters"),
+  minAmount: amountField,
+  maxAmount: amountField,
+  accountId: z.string(),
+  conditionType: z.enum([ANY, "income", "expense"]),
+  category: z.string(),
+  actionType: z.enum([ANY, "income", "expense"]),
+  tags: z.string(),
+  description: z.string().max(200, "Description must be less than 200 characters"),
+}).refine((values) => values.descriptionMatch === ANY || values.descriptionValue.trim(), {
+  message: "Enter the text to look for",
+  path: ["descriptionValue"],
+}).refine((values) => values.descriptionMatch !== "regex" || isPattern(values.descriptionValue), {
+  message: "This is not a valid pattern",
+  path: ["descriptionValue"],
+}).refine((values) => !values.minAmount || !values.maxAmount || parseFloat(values.minAmount) <= parseFloat(values.maxAmount), {
+  message: "Must be at least the minimum",
+  path: ["maxAmount"],
+}).refine((values) => values.descriptionMatch !== ANY || values.minAmount || values.maxAmount
+  || values.accountId !== ANY || values.conditionType !== ANY, {
+  message: "Add at least one condition",
+  path: ["descriptionMatch"],
+}).refine((values) => values.category !== ANY || values.actionType !== ANY
+  || parseTagList(values.tags).length > 0 || values.description.trim(), {
+  message: "Add at least one action",
+  path: ["category"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const orNull = <T extends string>(value: T) => (value === ANY ? null : (value as Exclude<T, typeof ANY>));
+
+function toRuleInput(values: FormValues): CategoryRuleInput {
+  return {
+    name: values.name,
+    priority: parseInt(values.priority, 10),
+    enabled: values.enabled,
+    conditions: {
+      descriptionMatch: orNull(values.descriptionMatch),
+      descriptionValue: values.descriptionMatch === ANY ? null : values.descriptionValue.trim(),
+      minAmount: values.minAmount ? parseFloat(values.minAmount) : null,
+      maxAmount: values.maxAmount ? parseFloat(values.maxAmount) : null,
+      accountId: orNull(values.accountId),
+      transactionType: orNull(values.conditionType),
+    },
+    actions: {
+      category: orNull(values.category),
+      transactionType: orNull(values.actionType),
+      tags: parseTagList(values.tags),
+      description: values.description.trim() || null,
+    },
+  };
+}
+
+interface CategoryRuleFormProps {
+  /** When provided the form edits this rule instead of creating a new one. */
+  rule?: CategoryRule;
+  /** Priority given to a new rule, so it runs after the existing ones. */
+  nextPriority?: number;
+  onSuccess?: () => void;
+}
+
+export function CategoryRuleForm({ rule, nextPriority = 0, onSuccess }: CategoryRuleFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: rule?.name ?? "",
+      priority: String(rule?.priority ?? nextPriority),
+      enabled: rule?.enabled ?? true,
+      descriptionMatch: rule ? rule.conditions.descriptionMatch ?? ANY : "contains",
+      descriptionValue: rule?.conditions.descriptionValue ?? "",
+      minAmount: rule?.conditions.minAmount?.toString() ?? "",
+      maxAmount: rule?.conditions.maxAmount?.toString() ?? "",
+      accountId: rule?.conditions.accountId ?? ANY,
+      conditionType: rule?.conditions.transactionType ?? ANY,
+      category: rule?.actions.category ?? ANY,
+      actionType: rule?.actions.transactionType ?? ANY,
+      tags: rule?.actions.tags.join(", ") ?? "",
+      description: rule?.actions.description ?? "",
+    },
+  });
+
+  const { data: accountData } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: accountApi.getAccounts,
+    refetchOnWindowFocus: false,
+  });
+  const accounts = accountData?.accounts ?? [];
+
+  const { data: allCategories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: categoryApi.getCategories,
+    refetchOnWindowFocus: false,
+  });
+
+  // Offer the categories that fit the type the transaction ends up with
+  const [descriptionMatch, conditionType, actionType] = form.watch(["descriptionMatch", "conditionType", "actionType"]);
+  const resultType = orNull(actionType) ?? orNull(conditionType);
+  const categories = orderCategories(allCategories, resultType ?? undefined);
+
+  async function onSubmit(values: FormValues) {
+    try {
+      const input = toRuleInput(values);
+      if (rule) {
+        await categoryRuleApi.updateRule(rule._id, input);
+        toast({ title: "Rule Updated", description: `${values.name} has been saved.` });
+      } else {
+        await categoryRuleApi.addRule(input);
+        toast({ title: "Rule Created", description: `${values.name} will be applied to new transactions.` });
+      }
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save rule. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem className="col-span-2">
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Rides" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="priority"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Priority</FormLabel>
+                <FormControl>
+                  <Input type="number" step="1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-4 rounded-lg border p-3">
+          <p className="text-sm font-medium">When a transaction</p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="descriptionMatch"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any description</SelectItem>
+                      {Object.entries(descriptionMatchLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="descriptionValue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Text</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder={descriptionMatch === "regex" ? "e.g. ^uber\\s" : "e.g. uber"}
+                      disabled={descriptionMatch === ANY}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="minAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount at least</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Any" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="maxAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount at most</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Any" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="accountId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Account</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any account</SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account._id} value={account._id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="conditionType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Income or expense</SelectItem>
+                      <SelectItem value="income">Income</SelectItem>
+                      <SelectItem value="expense">Expense</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-4 rounded-lg border p-3">
+          <p className="text-sm font-medium">Then</p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Set category</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Leave as it is</SelectItem>
+                      {categories.map(({ category, depth }) => (
+                        <SelectItem key={category._id} value={category.name}>
+                          <CategoryLabel category={category} depth={depth} />
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="actionType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Set type</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Leave as it is</SelectItem>
+                      <SelectItem value="income">Income</SelectItem>
+                      <SelectItem value="expense">Expense</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="tags"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Add tags</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. travel, work" {...field} />
+                </FormControl>
+                <FormDescription>Separate tags with commas.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rename to</FormLabel>
+                <FormControl>
+                  <Input placeholder="Keep the description" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <FormLabel>Apply this rule</FormLabel>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {rule ? "Save Rule" : "Create Rule"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
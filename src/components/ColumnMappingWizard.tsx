@@ -0,0 +1,328 @@
+import { useMemo, useState } from "react";
+import * as XLSX from "xlsx";
+import { AlertCircle, Loader2, Save } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { orderCategories } from "@/lib/categories";
+import {
+  amountModeFields,
+  amountModeLabels,
+  applyMapping,
+  dateFormatLabels,
+  getHeaders,
+  getSheetRows,
+  importFieldLabels,
+  missingFields,
+  validateImportedRow,
+} from "@/lib/importMapping";
+import { useToast } from "@/hooks/use-toast";
+import {
+  importProfileApi,
+  Category,
+  ColumnMapping,
+  ImportAmountMode,
+  ImportDateFormat,
+  ImportField,
+  ImportProfile,
+} from "@/services/api";
+
+// Select items can't have an empty value, so "not mapped" gets a placeholder
+const NOT_MAPPED = "none";
+const SAMPLE_ROWS = 5;
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  workbook: XLSX.WorkBook;
+  mapping: ColumnMapping;
+  profiles: ImportProfile[];
+  categories: Category[];
+  /** Name of the profile the mapping came from, offered when saving. */
+  profileName?: string;
+  onApply: (mapping: ColumnMapping, profileName: string | null) => void;
+  onCancel: () => void;
+}
+
+// Assign a spreadsheet's columns to transaction fields, with a live preview
+// of the first rows, and optionally save the result as a named profile
+export function ColumnMappingWizard({
+  fileName,
+  workbook,
+  mapping: initialMapping,
+  profiles,
+  categories,
+  profileName: initialProfileName = "",
+  onApply,
+  onCancel,
+}: ColumnMappingWizardProps) {
+  const [mapping, setMapping] = useState(initialMapping);
+  const [profileName, setProfileName] = useState(initialProfileName);
+  const [isSaving, setIsSaving] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const rows = useMemo(() => getSheetRows(workbook, mapping.sheetName), [workbook, mapping.sheetName]);
+  const headers = getHeaders(rows, mapping.headerRow);
+  const sampleRows = rows.slice(mapping.headerRow, mapping.headerRow + SAMPLE_ROWS);
+  const preview = applyMapping(rows.slice(0, mapping.headerRow + SAMPLE_ROWS), mapping);
+  const missing = missingFields(mapping);
+  const fields: ImportField[] = ["date", "description", "category", "tags", ...amountModeFields[mapping.amountMode]];
+
+  const update = (changes: Partial<ColumnMapping>) => setMapping((current) => ({ ...current, ...changes }));
+  const setColumn = (field: ImportField, value: string) =>
+    update({ columns: { ...mapping.columns, [field]: value === NOT_MAPPED ? null : Number(value) } });
+  const columnLabel = (index: number) => `${XLSX.utils.encode_col(index)}: ${headers[index] || "(no header)"}`;
+
+  const apply = async () => {
+    const name = profileName.trim();
+    if (name) {
+      setIsSaving(true);
+      try {
+        const profile = { ...mapping, name, headers };
+        const existing = profiles.find((p) => p.name.toLowerCase() === name.toLowerCase());
+        if (existing) {
+          await importProfileApi.updateProfile(existing._id, profile);
+        } else {
+          await importProfileApi.addProfile(profile);
+        }
+        queryClient.invalidateQueries({ queryKey: ['import-profiles'] });
+        toast({ title: "Profile Saved", description: `Files with these headers will use "${name}" automatically.` });
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to save import profile. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      } finally {
+        setIsSaving(false);
+      }
+    }
+    onApply(mapping, name || null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Map columns: {fileName}</CardTitle>
+        <CardDescription>
+          Tell us which column holds what. Rows with problems can be fixed after processing. Save the mapping
+          as a profile to skip this step next time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label>Sheet</Label>
+            <Select
+              value={mapping.sheetName ?? workbook.SheetNames[0]}
+              onValueChange={(sheetName) => update({ sheetName })}
+              disabled={workbook.SheetNames.length < 2}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workbook.SheetNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="header-row">Header row</Label>
+            <Input
+              id="header-row"
+              type="number"
+              min={1}
+              value={mapping.headerRow}
+              onChange={(e) => update({ headerRow: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Date format</Label>
+            <Select value={mapping.dateFormat} onValueChange={(value) => update({ dateFormat: value as ImportDateFormat })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(dateFormatLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Amounts</Label>
+            <Select value={mapping.amountMode} onValueChange={(value) => update({ amountMode: value as ImportAmountMode })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(amountModeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {fields.map((field) => (
+            <div key={field} className="space-y-2">
+              <Label>{importFieldLabels[field]}</Label>
+              <Select
+                value={mapping.columns[field] === null ? NOT_MAPPED : String(mapping.columns[field])}
+                onValueChange={(value) => setColumn(field, value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                  {headers.map((_, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {columnLabel(index)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label>Category for rows without one</Label>
+            <Select
+              value={mapping.defaultCategory ?? NOT_MAPPED}
+              onValueChange={(value) => update({ defaultCategory: value === NOT_MAPPED ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_MAPPED}>None</SelectItem>
+                {orderCategories(categories).map(({ category, depth }) => (
+                  <SelectItem key={category._id} value={category.name}>
+                    <CategoryLabel category={category} depth={depth} />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Raw sample of the sheet */}
+        <div>
+          <h4 className="font-medium mb-3">Sample rows</h4>
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {headers.map((_, index) => (
+                    <TableHead key={index} className="whitespace-nowrap">{columnLabel(index)}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sampleRows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {headers.map((_, index) => (
+                      <TableCell key={index} className="max-w-[200px] truncate">{String(row[index] ?? "")}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {/* What those rows become with the current mapping */}
+        <div>
+          <h4 className="font-medium mb-3">Preview</h4>
+          {missing.length > 0 ? (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Pick a column for: {missing.map((field) => importFieldLabels[field]).join(", ")}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Tags</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map((transaction) => {
+                    const problems = Object.values(validateImportedRow(transaction, categories));
+                    return (
+                      <TableRow key={transaction.row}>
+                        <TableCell>{transaction.row}</TableCell>
+                        <TableCell>{transaction.date}</TableCell>
+                        <TableCell>{transaction.type}</TableCell>
+                        <TableCell>{isNaN(transaction.amount) ? "" : transaction.amount}</TableCell>
+                        <TableCell>{transaction.category}</TableCell>
+                        <TableCell className="max-w-[200px] truncate">{transaction.description}</TableCell>
+                        <TableCell className="max-w-[150px] truncate">{transaction.tags?.join(", ")}</TableCell>
+                        <TableCell className="max-w-[200px] truncate text-expense" title={problems.join("\n")}>
+                          {problems[0]}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3 pt-4 border-t">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="profile-name">Save as profile (optional)</Label>
+            <Input
+              id="profile-name"
+              placeholder="e.g. My Bank checking export"
+              maxLength={50}
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-3">
+            <Button onClick={apply} disabled={missing.length > 0 || isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Use Mapping
+            </Button>
+            <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
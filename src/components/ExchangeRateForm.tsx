@@ -0,0 +1,141 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { currencyCodes } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { exchangeRateApi } from "@/services/api";
+
+const formSchema = z.object({
+  date: z.string().min(1, "Date is required"),
+  from: z.string().length(3, "Currency is required"),
+  to: z.string().length(3, "Currency is required"),
+  rate: z.string().regex(/^\d+(\.\d+)?$/, "Please enter a valid rate").refine((value) => parseFloat(value) > 0, "Rate must be above zero"),
+}).refine((values) => values.from !== values.to, {
+  message: "Pick two different currencies",
+  path: ["to"],
+});
+
+interface ExchangeRateFormProps {
+  /** Currency the rate converts to, normally the base currency. */
+  defaultTo: string;
+  onSuccess?: () => void;
+}
+
+export function ExchangeRateForm({ defaultTo, onSuccess }: ExchangeRateFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      date: new Date().toISOString().slice(0, 10),
+      from: defaultTo === "EUR" ? "USD" : "EUR",
+      to: defaultTo,
+      rate: "",
+    },
+  });
+
+  const [from, to] = form.watch(["from", "to"]);
+
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    try {
+      await exchangeRateApi.addRate({
+        date: values.date,
+        from: values.from,
+        to: values.to,
+        rate: parseFloat(values.rate),
+      });
+      toast({
+        title: "Exchange Rate Saved",
+        description: `1 ${values.from} = ${values.rate} ${values.to} on ${values.date}.`,
+      });
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save exchange rate. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  const currencySelect = (name: "from" | "to", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder="Select currency" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {[...new Set([field.value, ...currencyCodes])].map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          {currencySelect("from", "From")}
+          {currencySelect("to", "To")}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="rate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rate</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. 0.92" inputMode="decimal" {...field} />
+                </FormControl>
+                <FormDescription>1 {from} is worth this many {to}.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormDescription>Used from this day until a newer rate.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Rate
+        </Button>
+      </form>
+    </Form>
+  );
+}
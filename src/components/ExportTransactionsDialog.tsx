@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { dateFormatLabels } from "@/lib/importMapping";
+import {
+  exportColumnLabels,
+  exportColumns,
+  exportFileName,
+  exportFormatLabels,
+  saveFile,
+  saveWorkbook,
+  ExportFileFormat,
+} from "@/lib/transactionExport";
+import { useToast } from "@/hooks/use-toast";
+import { transactionApi, ExportColumn, ExportOptions, ImportDateFormat, TransactionQuery } from "@/services/api";
+
+interface ExportTransactionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Filters and sort of the transaction list
+  query: TransactionQuery;
+  hasFilters: boolean;
+}
+
+// The import date formats, which are the ones an export can be written in
+const dateFormats = (Object.keys(dateFormatLabels) as ImportDateFormat[]).filter(
+  (dateFormat): dateFormat is ExportOptions["dateFormat"] => dateFormat !== "auto"
+);
+
+// Download the filtered transactions, or all of them, as CSV, Excel or JSON.
+// Every layout uses headers and date formats the upload page reads back.
+export function ExportTransactionsDialog({ open, onOpenChange, query, hasFilters }: ExportTransactionsDialogProps) {
+  const [scope, setScope] = useState<"filtered" | "all">("filtered");
+  const [fileFormat, setFileFormat] = useState<ExportFileFormat>("csv");
+  const [columns, setColumns] = useState<ExportColumn[]>(exportColumns);
+  const [dateFormat, setDateFormat] = useState<ExportOptions["dateFormat"]>("yyyy-MM-dd");
+  const [decimal, setDecimal] = useState<ExportOptions["decimal"]>(".");
+  const [includeTransfers, setIncludeTransfers] = useState(true);
+  const { toast } = useToast();
+
+  const toggleColumn = (column: ExportColumn, checked: boolean) => {
+    // Kept in the order of the list rather than the order they were picked
+    setColumns((current) => exportColumns.filter((item) => (item === column ? checked : current.includes(item))));
+  };
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const exportQuery = scope === "filtered" ? query : { sort: query.sort, order: query.order };
+      // Excel files are built here from the server's JSON
+      const { blob, skippedTransfers } = await transactionApi.exportTransactions(exportQuery, {
+        format: fileFormat === "csv" ? "csv" : "json",
+        columns,
+        dateFormat,
+        decimal,
+        transfers: includeTransfers ? "include" : "skip",
+      });
+      if (fileFormat === "xlsx") {
+        saveWorkbook(JSON.parse(await blob.text()), columns);
+      } else {
+        saveFile(blob, exportFileName(fileFormat));
+      }
+      return skippedTransfers;
+    },
+    onSuccess: (skippedTransfers) => {
+      toast({
+        title: "Export Ready",
+        description: skippedTransfers > 0
+          ? `Your transactions have been downloaded, without ${skippedTransfers} transfer${skippedTransfers !== 1 ? "s" : ""}.`
+          : "Your transactions have been downloaded.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export transactions. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Transactions</DialogTitle>
+          <DialogDescription>
+            Exported files can be uploaded again on the Upload page. Split transactions are written as a row per line.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Transactions</Label>
+            <RadioGroup value={scope} onValueChange={(value) => setScope(value as "filtered" | "all")}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="filtered" id="export-filtered" />
+                <Label htmlFor="export-filtered" className="font-normal">
+                  {hasFilters ? "Matching the current filters" : "The current view"}
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="all" id="export-all" />
+                <Label htmlFor="export-all" className="font-normal">Everything</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={fileFormat} onValueChange={(value) => setFileFormat(value as ExportFileFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(exportFormatLabels) as ExportFileFormat[]).map((item) => (
+                    <SelectItem key={item} value={item}>{exportFormatLabels[item]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Date format</Label>
+              <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as ExportOptions["dateFormat"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dateFormats.map((item) => (
+                    <SelectItem key={item} value={item}>{dateFormatLabels[item]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Decimal separator</Label>
+              {/* Excel and JSON files keep amounts as numbers */}
+              <Select
+                value={decimal}
+                onValueChange={(value) => setDecimal(value as ExportOptions["decimal"])}
+                disabled={fileFormat !== "csv"}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=".">Point (1234.50)</SelectItem>
+                  <SelectItem value=",">Comma (1234,50)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {exportColumns.map((column) => (
+                <div key={column} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-${column}`}
+                    checked={columns.includes(column)}
+                    onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                  />
+                  <Label htmlFor={`export-${column}`} className="font-normal">{exportColumnLabels[column]}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-transfers"
+                checked={includeTransfers}
+                onCheckedChange={(checked) => setIncludeTransfers(checked === true)}
+              />
+              <Label htmlFor="export-transfers" className="font-normal">Include transfers</Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Transfers move money between two accounts, so the Upload page can't read them back.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending || columns.length === 0}>
+            {exportMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,290 @@
+import { useMemo, useState } from "react";
+import { ArrowLeftRight, CircleCheck, CircleX, Copy, Sparkles, Wand2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { cn } from "@/lib/utils";
+import { formatConfidence, orderCategories } from "@/lib/categories";
+import { describeTransaction } from "@/lib/transactions";
+import { getStagedRowProblems, matchCategory, ImportRowErrors, StagedRow } from "@/lib/importMapping";
+import { parseTagList } from "@/lib/tags";
+import type { Category } from "@/services/api";
+
+// Rows have a fixed height so only the visible ones need rendering
+const ROW_HEIGHT = 48;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN = 6;
+const COLUMNS = "grid-cols-[32px_56px_110px_150px_120px_110px_190px_minmax(180px,1fr)_150px_minmax(200px,1fr)]";
+
+interface ImportStagingGridProps {
+  rows: StagedRow[];
+  categories: Category[];
+  onChange: (rows: StagedRow[]) => void;
+}
+
+// Every parsed row of an import, editable in place. Rows are only submitted
+// while included and free of problems; likely duplicates are only flagged.
+export function ImportStagingGrid({ rows, categories, onChange }: ImportStagingGridProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [onlyProblems, setOnlyProblems] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const orderedCategories = orderCategories(categories);
+
+  const problems = useMemo(
+    () => new Map(rows.map((row) => [row.id, getStagedRowProblems(row, categories)])),
+    [rows, categories]
+  );
+  const hasProblems = (row: StagedRow) => Object.keys(problems.get(row.id) ?? {}).length > 0;
+  const visibleRows = onlyProblems ? rows.filter(hasProblems) : rows;
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(visibleRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  // Editing a row clears the server's complaint about it
+  const updateRows = (ids: Set<number>, change: (row: StagedRow) => Partial<StagedRow>) =>
+    onChange(rows.map((row) => (ids.has(row.id) ? { ...row, ...change(row), serverError: undefined } : row)));
+  const updateRow = (id: number, changes: Partial<StagedRow>) => updateRows(new Set([id]), () => changes);
+
+  const allVisibleSelected = visibleRows.length > 0 && visibleRows.every((row) => selected.has(row.id));
+  const toggleAll = () =>
+    setSelected(allVisibleSelected ? new Set() : new Set(visibleRows.map((row) => row.id)));
+  const toggleRow = (id: number) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  // Learned categories are offered while the row has none the user has
+  const suggestedIds = new Set(rows
+    .filter((row) => row.suggestion && problems.get(row.id)?.category && matchCategory(categories, row.suggestion.category))
+    .map((row) => row.id));
+  const acceptSuggestions = (ids: Set<number>) =>
+    updateRows(ids, (row) => ({ category: row.suggestion?.category ?? row.category }));
+
+  const cellClass = (row: StagedRow, field: keyof ImportRowErrors) =>
+    cn("h-8", problems.get(row.id)?.[field] && "border-expense focus-visible:ring-expense");
+
+  return (
+    <div className="space-y-3">
+      {/* Bulk actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground mr-2">{selected.size} selected</span>
+        <Select
+          value=""
+          onValueChange={(category) => updateRows(selected, () => ({ category }))}
+          disabled={selected.size === 0}
+        >
+          <SelectTrigger className="w-48 h-8">
+            <SelectValue placeholder="Set category..." />
+          </SelectTrigger>
+          <SelectContent>
+            {orderedCategories.map(({ category, depth }) => (
+              <SelectItem key={category._id} value={category.name}>
+                <CategoryLabel category={category} depth={depth} />
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={selected.size === 0}
+          onClick={() => updateRows(selected, (row) => ({ type: row.type === "income" ? "expense" : "income" }))}
+        >
+          <ArrowLeftRight className="h-4 w-4 mr-2" />
+          Flip Type
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={selected.size === 0}
+          onClick={() => updateRows(selected, () => ({ included: true }))}
+        >
+          <CircleCheck className="h-4 w-4 mr-2" />
+          Include
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={selected.size === 0}
+          onClick={() => updateRows(selected, () => ({ included: false }))}
+        >
+          <CircleX className="h-4 w-4 mr-2" />
+          Exclude
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={suggestedIds.size === 0}
+          onClick={() => acceptSuggestions(suggestedIds)}
+        >
+          <Sparkles className="h-4 w-4 mr-2" />
+          Accept {suggestedIds.size} Suggested Categor{suggestedIds.size === 1 ? "y" : "ies"}
+        </Button>
+        <div className="flex items-center gap-2 ml-auto">
+          <Switch
+            id="only-problems"
+            checked={onlyProblems}
+            onCheckedChange={(checked) => {
+              setOnlyProblems(checked);
+              setScrollTop(0);
+            }}
+          />
+          <Label htmlFor="only-problems">Only rows with problems</Label>
+        </div>
+      </div>
+
+      <div
+        className="border rounded-lg overflow-auto"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div className="min-w-[1310px]">
+          <div className={cn("grid gap-2 items-center px-2 h-10 sticky top-0 z-10 bg-muted text-sm font-medium text-muted-foreground", COLUMNS)}>
+            <Checkbox checked={allVisibleSelected} onCheckedChange={toggleAll} aria-label="Select all rows" />
+            <span>Include</span>
+            <span>Source</span>
+            <span>Date</span>
+            <span>Type</span>
+            <span>Amount</span>
+            <span>Category</span>
+            <span>Description</span>
+            <span>Tags</span>
+            <span>Problems</span>
+          </div>
+
+          <div className="relative" style={{ height: visibleRows.length * ROW_HEIGHT }}>
+            {visibleRows.slice(start, end).map((row, index) => {
+              const rowProblems = Object.values(problems.get(row.id) ?? {});
+              const category = matchCategory(categories, row.category);
+              const suggestion = suggestedIds.has(row.id) ? row.suggestion : undefined;
+              return (
+                <div
+                  key={row.id}
+                  className={cn("absolute inset-x-0 grid gap-2 items-center px-2 border-t text-sm", COLUMNS, !row.included && "opacity-50")}
+                  style={{ top: (start + index) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                >
+                  <Checkbox
+                    checked={selected.has(row.id)}
+                    onCheckedChange={() => toggleRow(row.id)}
+                    aria-label={`Select row ${row.row}`}
+                  />
+                  <Switch
+                    checked={row.included}
+                    onCheckedChange={(included) => updateRow(row.id, { included })}
+                    aria-label={`Include row ${row.row}`}
+                  />
+                  <span className="truncate text-muted-foreground" title={`${row.file}, row ${row.row}`}>
+                    {row.file}:{row.row}
+                  </span>
+                  <Input
+                    type="date"
+                    className={cellClass(row, "date")}
+                    title={problems.get(row.id)?.date}
+                    value={/^\d{4}-\d{2}-\d{2}$/.test(row.date) ? row.date : ""}
+                    onChange={(e) => updateRow(row.id, { date: e.target.value })}
+                  />
+                  <Select value={row.type === "income" || row.type === "expense" ? row.type : ""} onValueChange={(type) => updateRow(row.id, { type })}>
+                    <SelectTrigger className={cellClass(row, "type")} title={problems.get(row.id)?.type}>
+                      <SelectValue placeholder={row.type || "Type"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="income">Income</SelectItem>
+                      <SelectItem value="expense">Expense</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className={cellClass(row, "amount")}
+                    title={problems.get(row.id)?.amount}
+                    value={isNaN(row.amount) ? "" : row.amount}
+                    onChange={(e) => updateRow(row.id, { amount: parseFloat(e.target.value) })}
+                  />
+                  <Select value={category?.name ?? ""} onValueChange={(name) => updateRow(row.id, { category: name })}>
+                    <SelectTrigger className={cellClass(row, "category")} title={problems.get(row.id)?.category}>
+                      <SelectValue placeholder={row.category || "Category"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {orderedCategories.map(({ category, depth }) => (
+                        <SelectItem key={category._id} value={category.name}>
+                          <CategoryLabel category={category} depth={depth} />
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className={cellClass(row, "description")}
+                    title={problems.get(row.id)?.description}
+                    value={row.description}
+                    onChange={(e) => updateRow(row.id, { description: e.target.value })}
+                  />
+                  {/* Read when the cell is left, so commas can be typed; keyed by
+                      the tags so that rules adding some show up */}
+                  <Input
+                    key={row.tags?.join(",")}
+                    className={cellClass(row, "tags")}
+                    title={problems.get(row.id)?.tags}
+                    placeholder="Tags"
+                    defaultValue={row.tags?.join(", ")}
+                    onBlur={(e) => {
+                      const tags = parseTagList(e.target.value);
+                      if (tags.join(",") !== (row.tags ?? []).join(",")) updateRow(row.id, { tags });
+                    }}
+                  />
+                  {rowProblems.length === 0 && row.duplicates ? (
+                    <span
+                      className="flex items-center gap-1 truncate text-xs text-warning"
+                      title={row.duplicates.map(describeTransaction).join("\n")}
+                    >
+                      <Copy className="h-3 w-3 shrink-0" />
+                      Possible duplicate of {describeTransaction(row.duplicates[0])}
+                    </span>
+                  ) : suggestion && rowProblems.length === 1 ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 justify-start gap-1 truncate text-xs"
+                      title={rowProblems.join("\n")}
+                      onClick={() => acceptSuggestions(new Set([row.id]))}
+                    >
+                      <Sparkles className="h-3 w-3 shrink-0" />
+                      Use {suggestion.category}
+                      <span className="text-muted-foreground">{formatConfidence(suggestion.confidence)}</span>
+                    </Button>
+                  ) : rowProblems.length === 0 && row.rules ? (
+                    <span
+                      className="flex items-center gap-1 truncate text-xs text-muted-foreground"
+                      title={row.tags?.length ? `Tags: ${row.tags.join(", ")}` : undefined}
+                    >
+                      <Wand2 className="h-3 w-3 shrink-0" />
+                      {row.rules.join(", ")}
+                    </span>
+                  ) : (
+                    <span className="truncate text-xs text-expense" title={rowProblems.join("\n")}>
+                      {rowProblems.length > 1 ? `${rowProblems[0]} (+${rowProblems.length - 1} more)` : rowProblems[0]}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {visibleRows.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          {onlyProblems ? "No rows with problems." : "No rows to import."}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { checkPatterns, parseLines } from "@/lib/payees";
+import { useToast } from "@/hooks/use-toast";
+import { payeeApi, Payee } from "@/services/api";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
+  aliases: z.string(),
+  patterns: z.string().superRefine((value, ctx) => {
+    const patternError = checkPatterns(parseLines(value));
+    if (patternError) ctx.addIssue({ code: z.ZodIssueCode.custom, message: patternError });
+  }),
+});
+
+interface PayeeFormProps {
+  /** When provided the form edits this payee instead of creating a new one. */
+  payee?: Payee;
+  onSuccess?: () => void;
+}
+
+export function PayeeForm({ payee, onSuccess }: PayeeFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: payee?.name ?? "",
+      aliases: payee?.aliases.join("\n") ?? "",
+      patterns: payee?.patterns.join("\n") ?? "",
+    },
+  });
+
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    const payeeData = {
+      name: values.name,
+      aliases: parseLines(values.aliases),
+      patterns: parseLines(values.patterns),
+    };
+
+    try {
+      if (payee) {
+        await payeeApi.updatePayee(payee._id, payeeData);
+        toast({ title: "Payee Updated", description: `${values.name} has been saved.` });
+      } else {
+        await payeeApi.addPayee(payeeData);
+        toast({ title: "Payee Created", description: `${values.name} has been saved.` });
+      }
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save payee. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Amazon" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="aliases"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Aliases</FormLabel>
+              <FormControl>
+                <Textarea placeholder={"AMAZON.COM\nAmazon Marketplace"} className="min-h-[80px]" {...field} />
+              </FormControl>
+              <FormDescription>
+                One per line. Descriptions spelled exactly like this, ignoring case and punctuation, belong to the payee.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="patterns"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Patterns</FormLabel>
+              <FormControl>
+                <Textarea placeholder={"^AMZN Mktp\nAMAZON PRIME\\*"} className="min-h-[80px] font-mono" {...field} />
+              </FormControl>
+              <FormDescription>
+                One regular expression per line, for descriptions that vary, such as ones ending in an order number.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {payee ? "Save Payee" : "Create Payee"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { useDropzone, FileRejection } from "react-dropzone";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Camera, FileText, Loader2, ScanLine, X } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { TransactionForm } from "@/components/TransactionForm";
+import { cn } from "@/lib/utils";
+import { formatConfidence } from "@/lib/categories";
+import { formatMoney } from "@/lib/currency";
+import { MAX_ATTACHMENT_BYTES } from "@/lib/attachments";
+import { LOW_CONFIDENCE, receiptFileTypes, receiptToDraft, TransactionDraft } from "@/lib/receipts";
+import { useToast } from "@/hooks/use-toast";
+import { attachmentApi, receiptApi, ReceiptField, ReceiptScan, Transaction } from "@/services/api";
+
+function DetectedField({ label, field, children }: { label: string; field: ReceiptField<unknown> | null; children?: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="font-medium flex items-center gap-2">
+        {field ? children : <span className="text-muted-foreground font-normal">Not found</span>}
+        {field && (
+          <Badge variant="outline" className={cn(field.confidence < LOW_CONFIDENCE && "border-warning text-warning")}>
+            {formatConfidence(field.confidence)}
+          </Badge>
+        )}
+      </dd>
+    </div>
+  );
+}
+
+// Turn a photo or PDF of a receipt into a new expense. The details the
+// scanner reads are prefilled and highlighted for checking, and the receipt
+// is attached to the transaction once it is saved.
+export function ReceiptScanner() {
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [scan, setScan] = useState<ReceiptScan | null>(null);
+  // Set once the receipt has been read, or the user chose to type the details
+  const [draft, setDraft] = useState<TransactionDraft | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Photos are previewed from memory; the URL is released with the file
+  useEffect(() => {
+    if (!file || !file.type.startsWith("image/")) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const scanMutation = useMutation({
+    mutationFn: receiptApi.scanReceipt,
+    onSuccess: (result) => {
+      setScan(result);
+      setDraft(receiptToDraft(result.fields));
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't read the receipt",
+        description: error instanceof Error ? error.message : "Failed to read receipt. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clear = () => {
+    setFile(null);
+    setScan(null);
+    setDraft(null);
+    scanMutation.reset();
+  };
+
+  const onDrop = (acceptedFiles: File[], rejections: FileRejection[]) => {
+    if (rejections.length > 0) {
+      toast({
+        title: "Unsupported file",
+        description: "Choose a JPEG or PNG photo, or a PDF, up to 10MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const [accepted] = acceptedFiles;
+    if (!accepted) return;
+    clear();
+    setFile(accepted);
+    scanMutation.mutate(accepted);
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: receiptFileTypes,
+    maxSize: MAX_ATTACHMENT_BYTES,
+    multiple: false,
+  });
+
+  // The transaction is saved even when attaching fails, so say so
+  const attachReceipt = async (transaction: Transaction) => {
+    if (!file) return;
+    try {
+      await attachmentApi.uploadAttachment(transaction._id, file);
+      toast({ title: "Receipt Attached", description: `${file.name} is kept with the transaction.` });
+    } catch (error) {
+      toast({
+        title: "Receipt Not Attached",
+        description: error instanceof Error ? error.message : "The transaction was saved without its receipt.",
+        variant: "destructive",
+      });
+    }
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    clear();
+  };
+
+  const fields = scan?.fields;
+  const currency = fields?.currency?.value;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScanLine className="h-5 w-5" />
+          Scan a Receipt
+        </CardTitle>
+        <CardDescription>
+          Drop a photo (JPEG, PNG) or a PDF of a receipt to start a new expense from it. Receipts are read on this
+          server and kept with the transaction.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!file ? (
+          <div
+            {...getRootProps()}
+            className={cn(
+              "border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors",
+              isDragActive ? "border-primary bg-primary/5" : "border-muted-foreground/25 hover:border-primary/50"
+            )}
+          >
+            <input {...getInputProps()} />
+            <Camera className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            {isDragActive ? (
+              <p className="text-primary font-medium">Drop the receipt here...</p>
+            ) : (
+              <div>
+                <p className="font-medium mb-2">Choose a receipt or drag and drop</p>
+                <p className="text-sm text-muted-foreground">JPEG, PNG or PDF up to 10MB</p>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-6">
+            <div className="md:w-48 shrink-0 space-y-2">
+              {previewUrl ? (
+                <img src={previewUrl} alt={file.name} className="w-full max-h-64 object-contain rounded-md border" />
+              ) : (
+                <div className="flex flex-col items-center justify-center h-40 rounded-md border bg-muted/50">
+                  <FileText className="h-10 w-10 text-muted-foreground" />
+                </div>
+              )}
+              <p className="text-sm truncate" title={file.name}>{file.name}</p>
+              <Button variant="ghost" size="sm" className="w-full" onClick={clear} disabled={scanMutation.isPending}>
+                <X className="h-4 w-4 mr-2" />
+                Choose Another
+              </Button>
+            </div>
+
+            <div className="flex-1 space-y-4">
+              {scanMutation.isPending && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Reading the receipt...
+                </div>
+              )}
+
+              {scanMutation.isError && !draft && (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    You can still enter the details yourself; the receipt will be attached all the same.
+                  </p>
+                  <Button variant="outline" onClick={() => setDraft({ values: {}, confidence: {} })}>
+                    Enter Details by Hand
+                  </Button>
+                </div>
+              )}
+
+              {fields && (
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <DetectedField label="Merchant" field={fields.merchant}>{fields.merchant?.value}</DetectedField>
+                  <DetectedField label="Date" field={fields.date}>{fields.date?.value}</DetectedField>
+                  <DetectedField label="Total" field={fields.total}>
+                    {fields.total && formatMoney(fields.total.value, currency)}
+                  </DetectedField>
+                  <DetectedField label="Tax" field={fields.tax}>
+                    {fields.tax && formatMoney(fields.tax.value, currency)}
+                  </DetectedField>
+                </dl>
+              )}
+              {scan && (
+                <p className="text-xs text-muted-foreground">
+                  {scan.engine === "pdf" ? "Read from the PDF's text." : "Read from the photo."} Check the highlighted
+                  fields before saving.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {file && draft && (
+          <TransactionForm draft={draft} onSuccess={attachReceipt} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,500 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery } from "@tanstack/react-query";
+import { CalendarClock, Coins, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { orderCategories } from "@/lib/categories";
+import { NO_ACCOUNT } from "@/lib/accounts";
+import { formatOccurrence, frequencyLabels, weekdayNames, weekOfMonthLabels } from "@/lib/recurring";
+import { useToast } from "@/hooks/use-toast";
+import { accountApi, categoryApi, recurringApi, RecurringRule, RecurringRuleInput } from "@/services/api";
+
+const formSchema = z.object({
+  type: z.enum(["income", "expense"]),
+  amount: z.string().min(1, "Amount is required").regex(/^\d+(\.\d{1,2})?$/, "Please enter a valid amount"),
+  category: z.string().min(1, "Category is required"),
+  accountId: z.string(),
+  description: z.string().min(1, "Description is required").max(200, "Description must be less than 200 characters"),
+  frequency: z.enum(["daily", "weekly", "biweekly", "monthly", "yearly"]),
+  startDate: z.string().min(1, "Start date is required"),
+  ends: z.enum(["never", "onDate", "afterCount"]),
+  endDate: z.string().optional(),
+  count: z.string().optional(),
+  monthlyMode: z.enum(["dayOfMonth", "nthWeekday"]),
+  dayOfMonth: z.string().optional(),
+  weekOfMonth: z.string().optional(),
+  weekday: z.string().optional(),
+  active: z.boolean(),
+}).refine((values) => values.ends !== "onDate" || values.endDate, {
+  message: "End date is required",
+  path: ["endDate"],
+}).refine((values) => values.ends !== "afterCount" || /^[1-9]\d*$/.test(values.count ?? ""), {
+  message: "Enter a number of occurrences",
+  path: ["count"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+function toRuleInput(values: FormValues): RecurringRuleInput {
+  const usesMonthDay = values.frequency === "monthly" || values.frequency === "yearly";
+  const byWeekday = usesMonthDay && values.monthlyMode === "nthWeekday";
+  return {
+    type: values.type,
+    amount: parseFloat(values.amount),
+    category: values.category,
+    description: values.description,
+    accountId: values.accountId === NO_ACCOUNT ? null : values.accountId,
+    frequency: values.frequency,
+    startDate: values.startDate,
+    endDate: values.ends === "onDate" ? values.endDate : null,
+    count: values.ends === "afterCount" ? parseInt(values.count ?? "", 10) : null,
+    monthlyMode: byWeekday ? "nthWeekday" : "dayOfMonth",
+    dayOfMonth: usesMonthDay && !byWeekday && values.dayOfMonth ? parseInt(values.dayOfMonth, 10) : null,
+    weekOfMonth: byWeekday ? (parseInt(values.weekOfMonth ?? "1", 10) as RecurringRuleInput["weekOfMonth"]) : null,
+    weekday: byWeekday ? parseInt(values.weekday ?? "1", 10) : null,
+    active: values.active,
+  };
+}
+
+interface RecurringRuleFormProps {
+  /** When provided the form edits this rule instead of creating a new one. */
+  rule?: RecurringRule;
+  onSuccess?: () => void;
+}
+
+export function RecurringRuleForm({ rule, onSuccess }: RecurringRuleFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      type: rule?.type ?? "expense",
+      amount: rule ? rule.amount.toFixed(2) : "",
+      category: rule?.category ?? "",
+      accountId: rule?.accountId ?? NO_ACCOUNT,
+      description: rule?.description ?? "",
+      frequency: rule?.frequency ?? "monthly",
+      startDate: rule?.startDate.slice(0, 10) ?? new Date().toISOString().slice(0, 10),
+      ends: rule?.endDate ? "onDate" : rule?.count ? "afterCount" : "never",
+      endDate: rule?.endDate?.slice(0, 10) ?? "",
+      count: rule?.count ? String(rule.count) : "",
+      monthlyMode: rule?.monthlyMode ?? "dayOfMonth",
+      dayOfMonth: rule?.dayOfMonth ? String(rule.dayOfMonth) : "",
+      weekOfMonth: rule?.weekOfMonth ? String(rule.weekOfMonth) : "1",
+      weekday: rule?.weekday !== null && rule?.weekday !== undefined ? String(rule.weekday) : "1",
+      active: rule?.active ?? true,
+    },
+  });
+
+  const { data: accountData } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: accountApi.getAccounts,
+    refetchOnWindowFocus: false,
+  });
+  const accounts = accountData?.accounts ?? [];
+
+  const { data: allCategories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: categoryApi.getCategories,
+    refetchOnWindowFocus: false,
+  });
+
+  const values = form.watch();
+  const categories = orderCategories(allCategories, values.type);
+  const usesMonthDay = values.frequency === "monthly" || values.frequency === "yearly";
+
+  // Preview the schedule as it is edited, waiting for typing to settle first
+  const [previewInput, setPreviewInput] = useState<RecurringRuleInput | null>(null);
+  const previewKey = JSON.stringify(values);
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const parsed = formSchema.safeParse(form.getValues());
+      setPreviewInput(parsed.success ? toRuleInput(parsed.data) : null);
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [previewKey, form]);
+
+  const { data: preview = [], isFetching: isPreviewing, error: previewError } = useQuery({
+    queryKey: ['recurring-preview', previewInput],
+    queryFn: () => recurringApi.previewRule(previewInput!, 6),
+    enabled: previewInput !== null,
+    retry: false,
+  });
+
+  async function onSubmit(formValues: FormValues) {
+    try {
+      const input = toRuleInput(formValues);
+      const saved = rule
+        ? await recurringApi.updateRule(rule._id, input)
+        : await recurringApi.addRule(input);
+      toast({
+        title: rule ? "Recurring Rule Updated" : "Recurring Rule Created",
+        description: saved.posted > 0
+          ? `${saved.posted} past occurrence${saved.posted !== 1 ? "s were" : " was"} posted as transactions.`
+          : `"${formValues.description}" will be posted automatically.`,
+      });
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save recurring rule. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Transaction Type</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    form.setValue("category", "");
+                  }}
+                  value={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="income">Income</SelectItem>
+                    <SelectItem value="expense">Expense</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <Coins className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                    <Input placeholder="0.00" className="pl-9" {...field} />
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {categories.map(({ category, depth }) => (
+                      <SelectItem key={category._id} value={category.name}>
+                        <CategoryLabel category={category} depth={depth} />
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="frequency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repeats</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select frequency" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(frequencyLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {accounts.length > 0 && (
+            <FormField
+              control={form.control}
+              name="accountId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Account</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select account" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account._id} value={account._id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea placeholder="e.g. Rent, Netflix subscription..." className="min-h-[60px]" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="startDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Starts on</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {usesMonthDay && (
+            <FormField
+              control={form.control}
+              name="monthlyMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Falls on</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="dayOfMonth">A day of the month</SelectItem>
+                      <SelectItem value="nthWeekday">A weekday of the month</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        {usesMonthDay && values.monthlyMode === "dayOfMonth" && (
+          <FormField
+            control={form.control}
+            name="dayOfMonth"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Day of month</FormLabel>
+                <FormControl>
+                  <Input type="number" min="1" max="31" placeholder="Same day as the start date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {usesMonthDay && values.monthlyMode === "nthWeekday" && (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="weekOfMonth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Week</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(weekOfMonthLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="weekday"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Weekday</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {weekdayNames.map((name, index) => (
+                        <SelectItem key={name} value={String(index)}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="ends"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ends</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="never">Never</SelectItem>
+                    <SelectItem value="onDate">On a date</SelectItem>
+                    <SelectItem value="afterCount">After a number of times</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+
+          {values.ends === "onDate" && (
+            <FormField
+              control={form.control}
+              name="endDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>End date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {values.ends === "afterCount" && (
+            <FormField
+              control={form.control}
+              name="count"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Occurrences</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="1" placeholder="12" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="active"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <FormLabel>Post occurrences automatically</FormLabel>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="rounded-lg border bg-muted/30 p-3">
+          <p className="text-sm font-medium flex items-center gap-2 mb-2">
+            <CalendarClock className="h-4 w-4" />
+            Upcoming occurrences
+            {isPreviewing && <Loader2 className="h-3 w-3 animate-spin" />}
+          </p>
+          {previewError ? (
+            <p className="text-sm text-destructive">{previewError.message}</p>
+          ) : preview.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {previewInput ? "No upcoming occurrences." : "Complete the form to preview the schedule."}
+            </p>
+          ) : (
+            <ul className="text-sm text-muted-foreground grid grid-cols-2 gap-1">
+              {preview.map((date) => (
+                <li key={date}>{formatOccurrence(date)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {rule ? "Save Rule" : "Create Rule"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
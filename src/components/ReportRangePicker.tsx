@@ -0,0 +1,67 @@
+import { format, startOfMonth } from "date-fns";
+import { CalendarRange } from "lucide-react";
+
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { reportRangeLabels } from "@/lib/reports";
+import type { ReportQuery, ReportRangePreset } from "@/services/api";
+
+interface ReportRangePickerProps {
+  value: ReportQuery;
+  onChange: (value: ReportQuery) => void;
+}
+
+// Preset or custom period for the dashboard reports
+export function ReportRangePicker({ value, onChange }: ReportRangePickerProps) {
+  const selectRange = (range: ReportRangePreset) => {
+    if (range !== "custom") {
+      onChange({ range });
+      return;
+    }
+    // Start a custom range from the current month so far
+    const today = new Date();
+    onChange({
+      range,
+      from: value.from ?? format(startOfMonth(today), "yyyy-MM-dd"),
+      to: value.to ?? format(today, "yyyy-MM-dd"),
+    });
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <Select value={value.range ?? "this-month"} onValueChange={(range) => selectRange(range as ReportRangePreset)}>
+        <SelectTrigger className="sm:w-48">
+          <CalendarRange className="h-4 w-4 mr-2" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(reportRangeLabels).map(([range, label]) => (
+            <SelectItem key={range} value={range}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {value.range === "custom" && (
+        <>
+          <Input
+            type="date"
+            aria-label="From date"
+            className="sm:w-40"
+            value={value.from ?? ""}
+            max={value.to}
+            onChange={(e) => onChange({ ...value, from: e.target.value })}
+          />
+          <Input
+            type="date"
+            aria-label="To date"
+            className="sm:w-40"
+            value={value.to ?? ""}
+            min={value.from}
+            onChange={(e) => onChange({ ...value, to: e.target.value })}
+          />
+        </>
+      )}
+    </div>
+  );
+}
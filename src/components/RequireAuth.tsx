@@ -0,0 +1,28 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+
+import { useAuth } from "@/hooks/use-auth";
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+}
+
+// Only render children for a logged in user; everyone else goes to the login page
+export function RequireAuth({ children }: RequireAuthProps) {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  return <>{children}</>;
+}
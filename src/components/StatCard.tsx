@@ -1,11 +1,18 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { LucideIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatChange } from "@/lib/reports";
 
 interface StatCardProps {
   title: string;
   value: string;
-  change?: string;
+  /** Percentage change against the comparison period; hidden when null. */
+  change?: number | null;
+  /** Unit of `change`, e.g. " pts" for a difference between percentages. */
+  changeUnit?: string;
+  changeLabel?: string;
+  /** Show a rise as bad news, as for expenses. */
+  invertChange?: boolean;
   icon: LucideIcon;
   variant?: "income" | "expense" | "default";
   className?: string;
@@ -15,6 +22,9 @@ export function StatCard({
   title, 
   value, 
   change, 
+  changeUnit = "%",
+  changeLabel = "from last month",
+  invertChange = false,
   icon: Icon, 
   variant = "default",
   className 
@@ -53,12 +63,12 @@ export function StatCard({
       </CardHeader>
       <CardContent>
         <div className="text-2xl font-bold">{value}</div>
-        {change && (
+        {change !== undefined && change !== null && (
           <p className={cn(
             "text-xs mt-1",
-            change.startsWith("+") ? "text-income" : "text-expense"
+            change === 0 ? "text-muted-foreground" : (change > 0) !== invertChange ? "text-income" : "text-expense"
           )}>
-            {change} from last month
+            {formatChange(change, changeUnit)} {changeLabel}
           </p>
         )}
       </CardContent>
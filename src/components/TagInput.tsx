@@ -0,0 +1,127 @@
+import { KeyboardEvent, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { X } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { checkTags, parseTagList } from "@/lib/tags";
+import { transactionApi } from "@/services/api";
+
+// How many of the user's tags are offered while typing
+const MAX_SUGGESTIONS = 6;
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  className?: string;
+}
+
+// Free-form tags, typed and finished with Enter or a comma. Tags already in
+// use are offered as the user types, most used first.
+export function TagInput({ value, onChange, className }: TagInputProps) {
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isFocused, setIsFocused] = useState(false);
+  // The suggestion picked with the arrow keys, -1 for none
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const { data: usage = [] } = useQuery({
+    queryKey: ['tags'],
+    queryFn: transactionApi.getTags,
+    refetchOnWindowFocus: false,
+  });
+
+  const typed = text.trim().toLowerCase();
+  const suggestions = usage
+    .filter(({ tag }) => !value.includes(tag) && (!typed || tag.includes(typed)))
+    .slice(0, MAX_SUGGESTIONS);
+  const showSuggestions = isFocused && suggestions.length > 0;
+
+  const addTags = (input: string) => {
+    const tags = [...new Set([...value, ...parseTagList(input)])];
+    const tagsError = checkTags(tags);
+    setError(tagsError);
+    if (tagsError) return;
+    onChange(tags);
+    setText("");
+    setHighlighted(-1);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (suggestions.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : suggestions.length - 1;
+      setHighlighted((current) => (Math.max(current, e.key === "ArrowDown" ? -1 : 0) + step) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === ",") {
+      // Never submit the surrounding form from here
+      e.preventDefault();
+      const suggestion = e.key === "Enter" && showSuggestions ? suggestions[highlighted] : undefined;
+      addTags(suggestion?.tag ?? text);
+    } else if (e.key === "Backspace" && !text && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="relative">
+        <div className="flex min-h-10 flex-wrap items-center gap-1 rounded-md border border-input bg-background px-2 py-1 focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                className="rounded-full hover:text-foreground text-muted-foreground"
+                aria-label={`Remove ${tag}`}
+                onClick={() => onChange(value.filter((item) => item !== tag))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <Input
+            value={text}
+            placeholder={value.length === 0 ? "e.g. vacation-2026, tax-deductible" : ""}
+            aria-label="Add tag"
+            className="h-8 flex-1 min-w-[8rem] border-0 px-1 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+            onChange={(e) => {
+              setText(e.target.value);
+              setHighlighted(-1);
+              setError(null);
+            }}
+            onKeyDown={onKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => {
+              setIsFocused(false);
+              if (typed) addTags(text);
+            }}
+          />
+        </div>
+        {showSuggestions && (
+          <ul className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+            {suggestions.map(({ tag, count }, index) => (
+              <li key={tag}>
+                <button
+                  type="button"
+                  className={cn(
+                    "flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm",
+                    index === highlighted ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+                  )}
+                  // Keep focus in the input so the click isn't lost to its blur
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => addTags(tag)}
+                >
+                  {tag}
+                  <span className="text-xs text-muted-foreground">{count}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+    </div>
+  );
+}
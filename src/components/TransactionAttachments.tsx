@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useDropzone, FileRejection } from "react-dropzone";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, FileText, ImageIcon, Loader2, Paperclip, Trash2 } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { attachmentFileTypes, formatFileSize, MAX_ATTACHMENT_BYTES } from "@/lib/attachments";
+import { saveFile } from "@/lib/transactionExport";
+import { useToast } from "@/hooks/use-toast";
+import { attachmentApi, Attachment } from "@/services/api";
+
+// The image preview, or an icon for the file type. Thumbnails need the
+// session token, so they are fetched and shown from memory.
+function AttachmentPreview({ attachment }: { attachment: Attachment }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const { data: thumbnail } = useQuery({
+    queryKey: ['attachments', attachment.transactionId, attachment._id, 'thumbnail'],
+    queryFn: () => attachmentApi.getThumbnail(attachment),
+    enabled: attachment.hasThumbnail,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (!thumbnail) return;
+    const objectUrl = URL.createObjectURL(thumbnail);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [thumbnail]);
+
+  if (url) {
+    return <img src={url} alt="" className="h-12 w-12 rounded object-cover border" />;
+  }
+  const Icon = attachment.contentType.startsWith("image/") ? ImageIcon : FileText;
+  return (
+    <div className="h-12 w-12 rounded border bg-muted/50 flex items-center justify-center">
+      <Icon className="h-5 w-5 text-muted-foreground" />
+    </div>
+  );
+}
+
+interface TransactionAttachmentsProps {
+  transactionId: string;
+}
+
+// Receipts, invoices and other files kept with a transaction
+export function TransactionAttachments({ transactionId }: TransactionAttachmentsProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: attachments = [], isLoading } = useQuery({
+    queryKey: ['attachments', transactionId],
+    queryFn: () => attachmentApi.getAttachments(transactionId),
+    refetchOnWindowFocus: false,
+  });
+
+  // Files go up one at a time; one that fails doesn't stop the rest
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const failed: string[] = [];
+      for (const file of files) {
+        try {
+          await attachmentApi.uploadAttachment(transactionId, file);
+        } catch (error) {
+          failed.push(`${file.name}: ${error instanceof Error ? error.message : "upload failed"}`);
+        }
+      }
+      return { uploaded: files.length - failed.length, failed };
+    },
+    onSuccess: ({ uploaded, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['attachments', transactionId] });
+      if (failed.length > 0) {
+        toast({ title: "Some files weren't attached", description: failed.join("; "), variant: "destructive" });
+      } else {
+        toast({ title: "Files Attached", description: `${uploaded} file(s) attached to the transaction.` });
+      }
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: attachmentApi.deleteAttachment,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attachments', transactionId] });
+      toast({ title: "Attachment Deleted", description: "The file has been removed." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete attachment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const download = async (attachment: Attachment) => {
+    try {
+      saveFile(await attachmentApi.downloadAttachment(attachment), attachment.filename);
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Failed to download attachment. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const onDrop = (acceptedFiles: File[], rejections: FileRejection[]) => {
+    if (rejections.length > 0) {
+      toast({
+        title: "Unsupported file",
+        description: `${rejections.map(({ file }) => file.name).join(", ")}: attach images (JPEG, PNG, GIF, WebP) or PDFs up to 10MB.`,
+        variant: "destructive",
+      });
+    }
+    if (acceptedFiles.length > 0) uploadMutation.mutate(acceptedFiles);
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: attachmentFileTypes,
+    maxSize: MAX_ATTACHMENT_BYTES,
+    multiple: true,
+    disabled: uploadMutation.isPending,
+  });
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        <Paperclip className="h-4 w-4" />
+        Attachments {attachments.length > 0 && `(${attachments.length})`}
+      </h4>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map((attachment) => (
+            <li key={attachment._id} className="flex items-center gap-3 text-sm">
+              <AttachmentPreview attachment={attachment} />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate" title={attachment.filename}>{attachment.filename}</p>
+                <p className="text-muted-foreground text-xs">
+                  {formatFileSize(attachment.size)} • Added {format(new Date(attachment.createdAt), "MMM d, yyyy")}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => download(attachment)} title="Download">
+                <Download className="h-4 w-4" />
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="icon" title="Delete" disabled={deleteMutation.isPending}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this attachment?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      "{attachment.filename}" will be permanently removed. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => deleteMutation.mutate(attachment)}>Delete</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div
+        {...getRootProps()}
+        className={cn(
+          "border-2 border-dashed rounded-lg p-4 text-center text-sm cursor-pointer transition-colors",
+          isDragActive ? "border-primary bg-primary/5" : "border-muted-foreground/25 hover:border-primary/50"
+        )}
+      >
+        <input {...getInputProps()} />
+        {uploadMutation.isPending ? (
+          <span className="flex items-center justify-center gap-2 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Uploading...
+          </span>
+        ) : (
+          <span className="text-muted-foreground">
+            Drop receipts, invoices or warranties here, or click to attach (images or PDF, up to 10MB)
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Pencil, Trash2, Loader2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { TransactionForm } from "@/components/TransactionForm";
+import { TransactionAttachments } from "@/components/TransactionAttachments";
+import { cn } from "@/lib/utils";
+import { getAccountName } from "@/lib/accounts";
+import { getPayeeName } from "@/lib/payees";
+import { transactionTypeStyles } from "@/lib/transactions";
+import { formatMoney } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { accountApi, payeeApi, transactionApi, Transaction } from "@/services/api";
+
+interface TransactionDetailSheetProps {
+  transaction: Transaction | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TransactionDetailSheet({ transaction, onOpenChange }: TransactionDetailSheetProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: accountData } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: accountApi.getAccounts,
+    refetchOnWindowFocus: false,
+  });
+  const accounts = accountData?.accounts ?? [];
+
+  const { data: payees = [] } = useQuery({
+    queryKey: ['payees'],
+    queryFn: payeeApi.getPayees,
+    refetchOnWindowFocus: false,
+  });
+
+  // Always open a freshly selected transaction in read-only mode
+  useEffect(() => {
+    setIsEditing(false);
+  }, [transaction?._id]);
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => transactionApi.deleteTransaction(id),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      queryClient.removeQueries({ queryKey: ['attachments', id] });
+      toast({
+        title: "Transaction Deleted",
+        description: "The transaction has been removed.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete transaction. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet open={transaction !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        {transaction && (
+          <>
+            <SheetHeader>
+              <SheetTitle>Transaction Details</SheetTitle>
+              <SheetDescription>
+                Added {format(new Date(transaction.createdAt), "MMM d, yyyy")}
+                {transaction.updatedAt !== transaction.createdAt &&
+                  ` • Last edited ${format(new Date(transaction.updatedAt), "MMM d, yyyy")}`}
+              </SheetDescription>
+            </SheetHeader>
+
+            {isEditing ? (
+              <div className="mt-6">
+                <TransactionForm
+                  transaction={transaction}
+                  onSuccess={() => {
+                    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+                    onOpenChange(false);
+                  }}
+                />
+                <Button variant="ghost" className="w-full mt-3" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <div className="mt-6 space-y-6">
+                <div>
+                  <div className="flex items-center gap-3 mb-2">
+                    <h3 className="text-xl font-semibold">{transaction.description}</h3>
+                    <Badge variant="outline" className={transactionTypeStyles[transaction.type].badge}>
+                      {transaction.type}
+                    </Badge>
+                  </div>
+                  <div className={cn("text-3xl font-bold", transactionTypeStyles[transaction.type].amount)}>
+                    {transactionTypeStyles[transaction.type].sign}{formatMoney(Math.abs(transaction.amount), transaction.currency)}
+                  </div>
+                </div>
+
+                <Separator />
+
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground">Category</dt>
+                    <dd className="font-medium">{transaction.splits?.length ? "Split" : transaction.category}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Date</dt>
+                    <dd className="font-medium">{format(new Date(transaction.date), "MMM d, yyyy")}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">
+                      {transaction.type === "transfer" ? "From account" : "Account"}
+                    </dt>
+                    <dd className="font-medium">{getAccountName(accounts, transaction.accountId)}</dd>
+                  </div>
+                  {transaction.type === "transfer" && (
+                    <div>
+                      <dt className="text-muted-foreground">To account</dt>
+                      <dd className="font-medium">{getAccountName(accounts, transaction.toAccountId)}</dd>
+                    </div>
+                  )}
+                  {transaction.type !== "transfer" && (
+                    <div>
+                      <dt className="text-muted-foreground">Payee</dt>
+                      <dd className="font-medium">{getPayeeName(payees, transaction.payeeId)}</dd>
+                    </div>
+                  )}
+                  {transaction.splits && transaction.splits.length > 0 && (
+                    <div className="col-span-2">
+                      <dt className="text-muted-foreground">Splits</dt>
+                      <dd>
+                        <ul className="mt-1 space-y-1">
+                          {transaction.splits.map((split, index) => (
+                            <li key={index} className="flex justify-between gap-4">
+                              <span>
+                                <span className="font-medium">{split.category}</span>
+                                {split.memo && <span className="text-muted-foreground"> – {split.memo}</span>}
+                              </span>
+                              <span className="font-medium">{formatMoney(split.amount, transaction.currency)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </dd>
+                    </div>
+                  )}
+                  {transaction.tags && transaction.tags.length > 0 && (
+                    <div className="col-span-2">
+                      <dt className="text-muted-foreground">Tags</dt>
+                      <dd className="flex flex-wrap gap-1 mt-1">
+                        {transaction.tags.map((tag) => (
+                          <Badge key={tag} variant="secondary">{tag}</Badge>
+                        ))}
+                      </dd>
+                    </div>
+                  )}
+                </dl>
+
+                <Separator />
+
+                <TransactionAttachments transactionId={transaction._id} />
+
+                <div className="flex gap-3 pt-4 border-t">
+                  <Button className="flex-1 flex items-center gap-2" onClick={() => setIsEditing(true)}>
+                    <Pencil className="h-4 w-4" />
+                    Edit
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="destructive"
+                        className="flex items-center gap-2"
+                        disabled={deleteMutation.isPending}
+                      >
+                        {deleteMutation.isPending ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                        Delete
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete this transaction?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          "{transaction.description}" and its attachments will be permanently removed. This cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deleteMutation.mutate(transaction._id)}>
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
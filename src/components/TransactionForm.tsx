@@ -1,9 +1,10 @@
-import { useState } from "react";
-import { useForm } from "react-hook-form";
+import { useEffect, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format } from "date-fns";
-import { CalendarIcon, DollarSign } from "lucide-react";
+import { AlertCircle, CalendarIcon, Coins, DollarSign, Plus, Sparkles, Split, Trash2, Wand2 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,51 +12,385 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { TagInput } from "@/components/TagInput";
 import { cn } from "@/lib/utils";
+import { formatConfidence, orderCategories } from "@/lib/categories";
+import { getBudgetAlert } from "@/lib/budgets";
+import { NO_ACCOUNT } from "@/lib/accounts";
+import { NO_PAYEE } from "@/lib/payees";
+import { describeChanges } from "@/lib/categoryRules";
+import { describeTransaction, splitRemainder, transactionTypeStyles } from "@/lib/transactions";
+import { confidenceStyle, DraftField, LOW_CONFIDENCE, TransactionDraft } from "@/lib/receipts";
+import { currencyCodes, DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  API_BASE_URL,
+  accountApi,
+  authFetch,
+  budgetApi,
+  categoryApi,
+  categoryRuleApi,
+  duplicateApi,
+  payeeApi,
+  transactionApi,
+  CategorySuggestion,
+  DuplicateCandidate,
+  RuleMatch,
+  Transaction,
+  TransactionType,
+} from "@/services/api";
+
+const amountPattern = /^\d+(\.\d{1,2})?$/;
+
+// A line of a split transaction, as typed into the split editor
+const splitSchema = z.object({
+  category: z.string().min(1, "Pick a category"),
+  amount: z.string().regex(amountPattern, "Enter an amount").refine((value) => parseFloat(value) > 0, "Enter an amount"),
+  memo: z.string().max(100, "Memo must be less than 100 characters"),
+});
 
 const formSchema = z.object({
-  type: z.enum(["income", "expense"]),
-  amount: z.string().min(1, "Amount is required").regex(/^\d+(\.\d{1,2})?$/, "Please enter a valid amount"),
-  category: z.string().min(1, "Category is required"),
+  type: z.enum(["income", "expense", "transfer"]),
+  amount: z.string().min(1, "Amount is required").regex(amountPattern, "Please enter a valid amount"),
+  currency: z.string().length(3, "Currency is required"),
+  // Transfers are filed under "Transfer" by the server
+  category: z.string(),
+  accountId: z.string(),
+  toAccountId: z.string(),
   date: z.date({ required_error: "Date is required" }),
   description: z.string().min(1, "Description is required").max(200, "Description must be less than 200 characters"),
+  payeeId: z.string(),
+  // Empty unless the amount is split across categories
+  splits: z.array(splitSchema),
+}).refine((values) => values.type === "transfer" || values.splits.length > 0 || values.category, {
+  message: "Category is required",
+  path: ["category"],
+}).refine((values) => values.splits.length === 0 || splitRemainder(
+  parseFloat(values.amount) || 0,
+  values.splits.map((split) => parseFloat(split.amount) || 0),
+) === 0, {
+  message: "The splits must add up to the amount",
+  path: ["splits"],
+}).refine((values) => values.type !== "transfer" || values.accountId !== NO_ACCOUNT, {
+  message: "Choose the account the money leaves",
+  path: ["accountId"],
+}).refine((values) => values.type !== "transfer" || values.toAccountId !== NO_ACCOUNT, {
+  message: "Choose the account the money goes to",
+  path: ["toAccountId"],
+}).refine((values) => values.type !== "transfer" || values.accountId !== values.toAccountId, {
+  message: "Pick two different accounts",
+  path: ["toAccountId"],
 });
 
-const incomeCategories = [
-  "Salary", "Freelance", "Investment", "Bonus", "Gift", "Other Income"
-];
+interface TransactionFormProps {
+  /** When provided the form edits this transaction instead of creating a new one. */
+  transaction?: Transaction;
+  /** Values read from a receipt to start a new transaction with. */
+  draft?: TransactionDraft;
+  onSuccess?: (transaction: Transaction) => void;
+}
 
-const expenseCategories = [
-  "Food & Dining", "Transportation", "Shopping", "Entertainment", "Bills & Utilities",
-  "Healthcare", "Travel", "Education", "Personal Care", "Other Expenses"
-];
+// How sure the receipt scanner was of a prefilled value
+function DraftHint({ confidence }: { confidence?: number }) {
+  if (confidence === undefined) return null;
+  const isLow = confidence < LOW_CONFIDENCE;
+  return (
+    <p className={cn("text-xs", isLow ? "text-warning" : "text-muted-foreground")}>
+      Read from the receipt, {formatConfidence(confidence)} sure{isLow && ". Please check it."}
+    </p>
+  );
+}
 
-export function TransactionForm() {
-  const [transactionType, setTransactionType] = useState<"income" | "expense">("expense");
+export function TransactionForm({ transaction, draft, onSuccess }: TransactionFormProps = {}) {
+  const isEditing = Boolean(transaction);
+  const [transactionType, setTransactionType] = useState<TransactionType>(transaction?.type ?? "expense");
+  // Recorded transactions this one looks like; submitting again saves anyway
+  const [duplicates, setDuplicates] = useState<Transaction[]>([]);
+  // What the user's rules would change on a new transaction. Tags are kept
+  // outside the form so rules can add to them as well as the user.
+  const [ruleMatch, setRuleMatch] = useState<RuleMatch | null>(null);
+  const [tags, setTags] = useState<string[]>(transaction?.tags ?? []);
+  // The category past transactions like this one were filed under
+  const [categorySuggestion, setCategorySuggestion] = useState<CategorySuggestion | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const baseCurrency = useAuth().user?.baseCurrency ?? DEFAULT_CURRENCY;
+
+  const { data: accountData } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: accountApi.getAccounts,
+    refetchOnWindowFocus: false,
+  });
+  const accounts = accountData?.accounts ?? [];
+
+  const { data: allCategories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: categoryApi.getCategories,
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: payees = [] } = useQuery({
+    queryKey: ['payees'],
+    queryFn: payeeApi.getPayees,
+    refetchOnWindowFocus: false,
+  });
+
+  // Budgets are advisory, so failing to load them never blocks saving. A
+  // split transaction reports the first budget any of its lines runs into.
+  const checkBudget = async (type: string, categories: string[]) => {
+    if (type !== "expense") return null;
+    try {
+      const budgets = await queryClient.fetchQuery({
+        queryKey: ['budgets'],
+        queryFn: budgetApi.getBudgets,
+        staleTime: 0,
+      });
+      return categories.map((category) => getBudgetAlert(budgets, category, baseCurrency)).find(Boolean) ?? null;
+    } catch {
+      return null;
+    }
+  };
+
+  // Duplicate checks are advisory too, so a failed check never blocks saving
+  const findDuplicates = async (candidate: DuplicateCandidate) => {
+    try {
+      const { matches } = await duplicateApi.checkDuplicates([candidate], { excludeId: transaction?._id });
+      return matches[0]?.transactions ?? [];
+    } catch {
+      return [];
+    }
+  };
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
+    defaultValues: transaction ? {
+      type: transaction.type,
+      amount: transaction.amount.toFixed(2),
+      currency: transaction.currency ?? DEFAULT_CURRENCY,
+      category: transaction.category,
+      accountId: transaction.accountId ?? NO_ACCOUNT,
+      toAccountId: transaction.toAccountId ?? NO_ACCOUNT,
+      date: new Date(transaction.date),
+      description: transaction.description,
+      payeeId: transaction.payeeId ?? NO_PAYEE,
+      splits: (transaction.splits ?? []).map((split) => ({
+        category: split.category,
+        amount: split.amount.toFixed(2),
+        memo: split.memo ?? "",
+      })),
+    } : {
       type: "expense",
       amount: "",
+      currency: baseCurrency,
       category: "",
+      accountId: NO_ACCOUNT,
+      toAccountId: NO_ACCOUNT,
       description: "",
+      payeeId: NO_PAYEE,
+      splits: [],
+      ...draft?.values,
     },
   });
 
+  const { fields: splitFields, append: appendSplit, remove: removeSplit, replace: replaceSplits } = useFieldArray({
+    control: form.control,
+    name: "splits",
+  });
+  const isSplit = splitFields.length > 0;
+
+  // Splitting starts from the category and amount already entered, with a
+  // blank line to share them with
+  const startSplit = () => {
+    const amount = form.getValues("amount");
+    replaceSplits([
+      { category: form.getValues("category"), amount: amountPattern.test(amount) ? amount : "", memo: "" },
+      { category: "", amount: "", memo: "" },
+    ]);
+  };
+
+  // Taking away the second last line files the whole amount under the
+  // category of the line that is left
+  const removeSplitLine = (index: number) => {
+    if (splitFields.length > 2) {
+      removeSplit(index);
+      return;
+    }
+    form.setValue("category", form.getValues(`splits.${1 - index}.category`));
+    replaceSplits([]);
+  };
+
+  // Values from a receipt stay highlighted until the user changes them
+  const { dirtyFields } = form.formState;
+  const draftConfidence = (name: DraftField) =>
+    transaction || dirtyFields[name] ? undefined : draft?.confidence[name];
+
+  // Amounts are in the account's currency unless the user picks another one
+  const syncCurrency = (accountId: string) => {
+    const account = accounts.find((item) => item._id === accountId);
+    form.setValue("currency", account?.currency ?? baseCurrency);
+  };
+
+  // New transactions go to the first account unless another one is picked,
+  // keeping the currency printed on a receipt
+  const firstAccount = accounts[0];
+  const draftCurrency = draft?.values.currency;
+  useEffect(() => {
+    if (!transaction && firstAccount && form.getValues("accountId") === NO_ACCOUNT) {
+      form.setValue("accountId", firstAccount._id);
+      form.setValue("currency", draftCurrency ?? firstAccount.currency);
+    }
+  }, [transaction, draftCurrency, firstAccount, form]);
+
+  // A changed transaction needs checking again
+  useEffect(() => {
+    const subscription = form.watch(() => setDuplicates([]));
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  // Run the user's rules over a new transaction as it is filled in, waiting
+  // for typing to settle first. A missing category is filled in straight
+  // away; anything else is offered as a suggestion, as is the category
+  // learned from past transactions. The payee the description belongs to
+  // is picked unless the user chose one.
+  const [type, amount, description, accountId] = form.watch(["type", "amount", "description", "accountId"]);
+  useEffect(() => {
+    if (transaction || type === "transfer" || !description.trim()) {
+      setRuleMatch(null);
+      setCategorySuggestion(null);
+      return;
+    }
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      // Learned suggestions are a convenience too
+      categoryApi.suggestCategories([{ type, amount: parseFloat(amount) || 0, description }])
+        .then(({ suggestions }) => !cancelled && setCategorySuggestion(suggestions[0] ?? null))
+        .catch(() => !cancelled && setCategorySuggestion(null));
+      payeeApi.matchPayees([description])
+        .then(({ matches }) => {
+          if (!cancelled && !form.getFieldState("payeeId").isDirty) {
+            form.setValue("payeeId", matches[0]?.payeeId ?? NO_PAYEE);
+          }
+        })
+        .catch(() => undefined);
+      try {
+        const { matches } = await categoryRuleApi.matchRules([{
+          type,
+          amount: parseFloat(amount) || 0,
+          description,
+          accountId: accountId === NO_ACCOUNT ? null : accountId,
+          category: form.getValues("category") || undefined,
+        }]);
+        if (cancelled) return;
+        const match = matches[0] ?? null;
+        const { category: ruleCategory, type: ruleType, tags: ruleTags = [] } = match?.changes ?? {};
+        if (ruleCategory && !ruleType && !form.getValues("category") && form.getValues("splits").length === 0) {
+          form.setValue("category", ruleCategory);
+          setTags((current) => [...new Set([...current, ...ruleTags])]);
+        }
+        setRuleMatch(match);
+      } catch {
+        // Rules are a convenience, so a failed match never blocks saving
+        if (!cancelled) setRuleMatch(null);
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [transaction, type, amount, description, accountId, form]);
+
+  // What the matched rules would still change. The lines of a split keep
+  // their own categories.
+  const [category, splits] = form.watch(["category", "splits"]);
+  const suggestion = ruleMatch && {
+    ...ruleMatch.changes,
+    category: ruleMatch.changes.category !== category && !isSplit ? ruleMatch.changes.category : undefined,
+    tags: ruleMatch.changes.tags?.filter((tag) => !tags.includes(tag)),
+  };
+  // Live total for the split editor
+  const currency = form.watch("currency");
+  const remaining = splitRemainder(
+    parseFloat(amount) || 0,
+    splits.map((split) => parseFloat(split.amount) || 0),
+  );
+  const splitsError = form.formState.errors.splits?.message ?? form.formState.errors.splits?.root?.message;
+
+  const hasSuggestion = Boolean(suggestion && (suggestion.category || suggestion.type
+    || suggestion.description || suggestion.tags?.length));
+
+  const applySuggestion = () => {
+    if (!suggestion) return;
+    if (suggestion.type) {
+      form.setValue("type", suggestion.type);
+      setTransactionType(suggestion.type);
+    }
+    if (suggestion.category) form.setValue("category", suggestion.category);
+    if (suggestion.description) form.setValue("description", suggestion.description);
+    setTags((current) => [...new Set([...current, ...(suggestion.tags ?? [])])]);
+  };
+
   async function onSubmit(values: z.infer<typeof formSchema>) {
     try {
       // Convert amount to number as backend expects
+      const isTransfer = values.type === "transfer";
+      const splitLines = isTransfer ? [] : values.splits.map((split) => ({
+        category: split.category,
+        amount: parseFloat(split.amount),
+        memo: split.memo.trim() || undefined,
+      }));
+      // The server files a split transaction under its largest line
       const transactionData = {
         ...values,
-        amount: parseFloat(values.amount)
+        amount: parseFloat(values.amount),
+        category: isTransfer || splitLines.length > 0 ? undefined : values.category,
+        // Sent empty to undo an existing split
+        splits: splitLines.length > 0 || transaction?.splits?.length ? splitLines : undefined,
+        accountId: values.accountId === NO_ACCOUNT ? null : values.accountId,
+        toAccountId: isTransfer ? values.toAccountId : null,
+        tags: isTransfer ? undefined : tags,
+        payeeId: isTransfer || values.payeeId === NO_PAYEE ? null : values.payeeId,
       };
+      const typeLabel = transactionTypeStyles[values.type].label;
+      const budgetCategories = splitLines.length > 0 ? splitLines.map((split) => split.category) : [values.category];
 
-      const response = await fetch('http://localhost:3001/api/transactions', {
+      if (duplicates.length === 0) {
+        const matches = await findDuplicates({
+          type: values.type,
+          amount: transactionData.amount,
+          date: values.date.toISOString(),
+          description: values.description,
+          accountId: transactionData.accountId,
+          currency: values.currency,
+        });
+        if (matches.length > 0) {
+          setDuplicates(matches);
+          return;
+        }
+      }
+
+      if (transaction) {
+        const updated = await transactionApi.updateTransaction(transaction._id, {
+          ...transactionData,
+          date: values.date.toISOString(),
+        });
+        queryClient.invalidateQueries({ queryKey: ['accounts'] });
+        queryClient.invalidateQueries({ queryKey: ['tags'] });
+        const budgetAlert = await checkBudget(values.type, budgetCategories);
+        toast(budgetAlert ?? {
+          title: "Transaction Updated",
+          description: `${typeLabel} of ${formatMoney(transactionData.amount, values.currency)} has been saved.`,
+        });
+        onSuccess?.(updated);
+        return;
+      }
+
+      const response = await authFetch(`${API_BASE_URL}/transactions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -68,31 +403,40 @@ export function TransactionForm() {
         throw new Error(errorData.error || 'Failed to add transaction');
       }
 
-      toast({
+      const created: Transaction = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      const budgetAlert = await checkBudget(values.type, budgetCategories);
+      toast(budgetAlert ?? {
         title: "Transaction Added",
-        description: `${values.type === "income" ? "Income" : "Expense"} of $${values.amount} has been recorded.`,
+        description: `${typeLabel} of ${formatMoney(transactionData.amount, values.currency)} has been recorded.`,
       });
-      form.reset();
+      // Keep the chosen account and currency for the next entry
+      form.reset({ ...form.formState.defaultValues, accountId: values.accountId, currency: values.currency });
+      setTags([]);
+      onSuccess?.(created);
     } catch (error) {
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to add transaction. Please try again.",
+        description: error instanceof Error ? error.message : `Failed to ${isEditing ? "update" : "add"} transaction. Please try again.`,
         variant: "destructive",
       });
     }
   }
 
-  const categories = transactionType === "income" ? incomeCategories : expenseCategories;
+  const categories = transactionType === "transfer" ? [] : orderCategories(allCategories, transactionType);
 
   return (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <DollarSign className="h-5 w-5 text-primary" />
-          Add New Transaction
+          {isEditing ? "Edit Transaction" : "Add New Transaction"}
         </CardTitle>
         <CardDescription>
-          Record your income or expenses to track your financial activity.
+          {isEditing
+            ? "Correct the details of this transaction."
+            : "Record your income, expenses or transfers to track your financial activity."}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -108,10 +452,11 @@ export function TransactionForm() {
                     <Select 
                       onValueChange={(value) => {
                         field.onChange(value);
-                        setTransactionType(value as "income" | "expense");
+                        setTransactionType(value as TransactionType);
                         form.setValue("category", "");
+                        replaceSplits([]);
                       }} 
-                      defaultValue={field.value}
+                      value={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -121,6 +466,7 @@ export function TransactionForm() {
                       <SelectContent>
                         <SelectItem value="income">Income</SelectItem>
                         <SelectItem value="expense">Expense</SelectItem>
+                        <SelectItem value="transfer">Transfer</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -136,14 +482,15 @@ export function TransactionForm() {
                     <FormLabel>Amount</FormLabel>
                     <FormControl>
                       <div className="relative">
-                        <DollarSign className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Coins className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                         <Input 
                           placeholder="0.00" 
-                          className="pl-9" 
+                          className={cn("pl-9", confidenceStyle(draftConfidence("amount")))} 
                           {...field}
                         />
                       </div>
                     </FormControl>
+                    <DraftHint confidence={draftConfidence("amount")} />
                     <FormMessage />
                   </FormItem>
                 )}
@@ -151,20 +498,55 @@ export function TransactionForm() {
 
               <FormField
                 control={form.control}
-                name="category"
+                name="currency"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Category</FormLabel>
+                    <FormLabel>Currency</FormLabel>
                     <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className={confidenceStyle(draftConfidence("currency"))}>
+                          <SelectValue placeholder="Select currency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {[...new Set([field.value, ...currencyCodes])].map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {code}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <DraftHint confidence={draftConfidence("currency")} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="accountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{transactionType === "transfer" ? "From account" : "Account"}</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        syncCurrency(value);
+                      }}
+                      value={transactionType === "transfer" && field.value === NO_ACCOUNT ? "" : field.value}
+                    >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select category" />
+                          <SelectValue placeholder="Select account" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {categories.map((category) => (
-                          <SelectItem key={category} value={category}>
-                            {category}
+                        {transactionType !== "transfer" && (
+                          <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                        )}
+                        {accounts.map((account) => (
+                          <SelectItem key={account._id} value={account._id}>
+                            {account.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -174,6 +556,90 @@ export function TransactionForm() {
                 )}
               />
 
+              {transactionType === "transfer" ? (
+                <FormField
+                  control={form.control}
+                  name="toAccountId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>To account</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value === NO_ACCOUNT ? "" : field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select account" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {accounts.map((account) => (
+                            <SelectItem key={account._id} value={account._id}>
+                              {account.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : isSplit ? (
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <p className="flex h-10 items-center gap-2 text-sm text-muted-foreground">
+                    <Split className="h-4 w-4" />
+                    Split across {splitFields.length} lines below
+                  </p>
+                </div>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select category" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {categories.map(({ category, depth }) => (
+                            <SelectItem key={category._id} value={category.name}>
+                              <CategoryLabel category={category} depth={depth} />
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {!field.value && categorySuggestion
+                        && categories.some(({ category }) => category.name === categorySuggestion.category) && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="h-7 gap-1 text-xs"
+                          onClick={() => field.onChange(categorySuggestion.category)}
+                        >
+                          <Sparkles className="h-3 w-3" />
+                          {categorySuggestion.category}
+                          <span className="text-muted-foreground">{formatConfidence(categorySuggestion.confidence)} sure</span>
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs"
+                        onClick={startSplit}
+                      >
+                        <Split className="h-3 w-3 mr-1" />
+                        Split across categories
+                      </Button>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="date"
@@ -187,7 +653,8 @@ export function TransactionForm() {
                             variant="outline"
                             className={cn(
                               "w-full pl-3 text-left font-normal",
-                              !field.value && "text-muted-foreground"
+                              !field.value && "text-muted-foreground",
+                              confidenceStyle(draftConfidence("date"))
                             )}
                           >
                             {field.value ? (
@@ -212,12 +679,102 @@ export function TransactionForm() {
                         />
                       </PopoverContent>
                     </Popover>
+                    <DraftHint confidence={draftConfidence("date")} />
                     <FormMessage />
                   </FormItem>
                 )}
               />
             </div>
 
+            {isSplit && (
+              <div className="space-y-3 rounded-lg border p-4">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium">Splits</h4>
+                  <span className={cn("text-sm", remaining === 0 ? "text-income" : "text-warning")}>
+                    {remaining === 0
+                      ? "Fully allocated"
+                      : `${formatMoney(Math.abs(remaining), currency)} ${remaining > 0 ? "left to allocate" : "over the amount"}`}
+                  </span>
+                </div>
+                {splitFields.map((line, index) => (
+                  <div key={line.id} className="grid grid-cols-1 sm:grid-cols-[1fr_7rem_1fr_auto] gap-2 items-start">
+                    <FormField
+                      control={form.control}
+                      name={`splits.${index}.category`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger aria-label="Category">
+                                <SelectValue placeholder="Category" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {categories.map(({ category, depth }) => (
+                                <SelectItem key={category._id} value={category.name}>
+                                  <CategoryLabel category={category} depth={depth} />
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`splits.${index}.amount`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="0.00" aria-label="Amount" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`splits.${index}.memo`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="Memo (optional)" aria-label="Memo" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      title="Remove line"
+                      onClick={() => removeSplitLine(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => appendSplit({
+                      category: "",
+                      amount: remaining > 0 ? remaining.toFixed(2) : "",
+                      memo: "",
+                    })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Split
+                  </Button>
+                  {splitsError && <p className="text-sm font-medium text-destructive">{splitsError}</p>}
+                </div>
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="description"
@@ -227,25 +784,94 @@ export function TransactionForm() {
                   <FormControl>
                     <Textarea 
                       placeholder="Enter a description for this transaction..."
-                      className="min-h-[80px]"
+                      className={cn("min-h-[80px]", confidenceStyle(draftConfidence("description")))}
                       {...field} 
                     />
                   </FormControl>
+                  <DraftHint confidence={draftConfidence("description")} />
                   <FormMessage />
                   </FormItem>
               )}
             />
 
+            {transactionType !== "transfer" && (
+              <FormField
+                control={form.control}
+                name="payeeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payee</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select payee" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PAYEE}>No payee</SelectItem>
+                        {payees.map((payee) => (
+                          <SelectItem key={payee._id} value={payee._id}>
+                            {payee.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {transactionType !== "transfer" && (
+              <div className="space-y-2">
+                <Label>Tags</Label>
+                <TagInput value={tags} onChange={setTags} />
+                <p className="text-sm text-muted-foreground">
+                  Labels that cut across categories, such as a trip or expenses to claim back.
+                </p>
+              </div>
+            )}
+
+            {suggestion && hasSuggestion && (
+              <Alert>
+                <Wand2 className="h-4 w-4" />
+                <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <span>
+                    {ruleMatch.rules.map((rule) => rule.name).join(", ")} suggest{ruleMatch.rules.length === 1 ? "s" : ""}{" "}
+                    {describeChanges(suggestion)}.
+                  </span>
+                  <Button type="button" variant="outline" size="sm" onClick={applySuggestion}>
+                    Apply
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {duplicates.length > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  This looks like a transaction you already recorded:
+                  <ul className="list-disc pl-4 my-1">
+                    {duplicates.slice(0, 3).map((duplicate) => (
+                      <li key={duplicate._id}>{describeTransaction(duplicate)}</li>
+                    ))}
+                  </ul>
+                  Submit again to save it anyway.
+                </AlertDescription>
+              </Alert>
+            )}
+
             <Button 
               type="submit" 
               className={cn(
                 "w-full",
-                transactionType === "income" ? 
-                  "bg-income hover:bg-income/90" : 
-                  "bg-expense hover:bg-expense/90"
+                transactionType === "income" && "bg-income hover:bg-income/90",
+                transactionType === "expense" && "bg-expense hover:bg-expense/90"
               )}
             >
-              Add {transactionType === "income" ? "Income" : "Expense"}
+              {isEditing ? "Save" : "Add"} {transactionTypeStyles[transactionType].label}
+              {duplicates.length > 0 && " Anyway"}
             </Button>
           </form>
         </Form>
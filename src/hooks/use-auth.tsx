@@ -0,0 +1,70 @@
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { AUTH_EXPIRED_EVENT, authApi, getAuthToken, setAuthToken, User } from "@/services/api";
+
+interface AuthContextValue {
+  user: User | null;
+  isLoading: boolean;
+  login: (email: string, password: string) => Promise<void>;
+  register: (name: string, email: string, password: string) => Promise<void>;
+  logout: () => void;
+  // Replace the user after their settings were saved
+  updateUser: (user: User) => void;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(() => Boolean(getAuthToken()));
+  const queryClient = useQueryClient();
+
+  // Restore the session from a stored token on first load
+  useEffect(() => {
+    if (!getAuthToken()) return;
+    authApi
+      .me()
+      .then(setUser)
+      .catch(() => setAuthToken(null))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const logout = useCallback(() => {
+    setAuthToken(null);
+    setUser(null);
+    // Don't let the next user see cached data from this session
+    queryClient.clear();
+  }, [queryClient]);
+
+  useEffect(() => {
+    window.addEventListener(AUTH_EXPIRED_EVENT, logout);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, logout);
+  }, [logout]);
+
+  const login = useCallback(async (email: string, password: string) => {
+    const { token, user } = await authApi.login({ email, password });
+    setAuthToken(token);
+    setUser(user);
+  }, []);
+
+  const register = useCallback(async (name: string, email: string, password: string) => {
+    const { token, user } = await authApi.register({ name, email, password });
+    setAuthToken(token);
+    setUser(user);
+  }, []);
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, login, register, logout, updateUser: setUser }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
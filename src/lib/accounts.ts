@@ -0,0 +1,24 @@
+import { Banknote, CreditCard, Landmark, PiggyBank, type LucideIcon } from "lucide-react";
+import type { Account, AccountType } from "@/services/api";
+
+export const accountTypeLabels: Record<AccountType, string> = {
+  checking: "Checking",
+  savings: "Savings",
+  credit: "Credit card",
+  cash: "Cash",
+};
+
+export const accountTypeIcons: Record<AccountType, LucideIcon> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  credit: CreditCard,
+  cash: Banknote,
+};
+
+// Select items can't have an empty value, so "no account" gets a placeholder
+export const NO_ACCOUNT = "none";
+
+export function getAccountName(accounts: Account[], id?: string | null) {
+  if (!id) return "No account";
+  return accounts.find((account) => account._id === id)?.name ?? "Unknown account";
+}
@@ -0,0 +1,30 @@
+import type { BudgetProgress } from "@/services/api";
+import { formatMoney } from "@/lib/currency";
+
+export const periodLabels: Record<BudgetProgress["period"], string> = {
+  monthly: "Monthly",
+  weekly: "Weekly",
+  custom: "Custom",
+};
+
+// Toast content warning about a category whose budget is nearly or fully spent.
+// Budgets are tracked in the user's base currency.
+export function getBudgetAlert(budgets: BudgetProgress[], category: string, currency?: string) {
+  const budget = budgets
+    .filter((b) => b.category === category && b.status !== "ok")
+    .sort((a, b) => b.percentUsed - a.percentUsed)[0];
+  if (!budget) return null;
+
+  const label = `${periodLabels[budget.period].toLowerCase()} ${budget.category} budget`;
+  if (budget.status === "over") {
+    return {
+      title: "Budget exceeded",
+      description: `Expense saved, but you've now spent ${formatMoney(budget.spent, currency)} of your ${formatMoney(budget.available, currency)} ${label}.`,
+      variant: "destructive" as const,
+    };
+  }
+  return {
+    title: "Nearing budget",
+    description: `Expense saved. ${Math.round(budget.percentUsed)}% of your ${label} is used, ${formatMoney(budget.remaining, currency)} left.`,
+  };
+}
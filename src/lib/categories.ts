@@ -0,0 +1,76 @@
+import {
+  Award, Baby, Briefcase, Car, CircleDollarSign, Coffee, Dog, Dumbbell, Film, Gift, GraduationCap,
+  HeartPulse, House, Laptop, Plane, Receipt, Shirt, ShoppingBag, Smartphone, Sparkles, Tag, TrendingUp,
+  Utensils, Zap, type LucideIcon,
+} from "lucide-react";
+import type { Category, TransactionType } from "@/services/api";
+
+// Icons a category can use, keyed by the name stored on the server
+export const categoryIcons: Record<string, LucideIcon> = {
+  tag: Tag,
+  utensils: Utensils,
+  coffee: Coffee,
+  "shopping-bag": ShoppingBag,
+  shirt: Shirt,
+  car: Car,
+  plane: Plane,
+  house: House,
+  receipt: Receipt,
+  zap: Zap,
+  smartphone: Smartphone,
+  "heart-pulse": HeartPulse,
+  dumbbell: Dumbbell,
+  sparkles: Sparkles,
+  film: Film,
+  "graduation-cap": GraduationCap,
+  baby: Baby,
+  dog: Dog,
+  gift: Gift,
+  briefcase: Briefcase,
+  laptop: Laptop,
+  "trending-up": TrendingUp,
+  award: Award,
+  "circle-dollar-sign": CircleDollarSign,
+};
+
+export const categoryColors = [
+  "#ef4444", "#f97316", "#eab308", "#22c55e", "#3b82f6", "#8b5cf6",
+  "#ec4899", "#14b8a6", "#84cc16", "#06b6d4", "#a855f7", "#64748b",
+];
+
+export const categoryTypeLabels: Record<Category["type"], string> = {
+  income: "Income",
+  expense: "Expenses",
+  both: "Income & expenses",
+};
+
+export function getCategoryIcon(icon?: string) {
+  return (icon && categoryIcons[icon]) || Tag;
+}
+
+// Categories in display order: each top-level category followed by its
+// subcategories. With a transaction type, only categories that apply to it.
+export function orderCategories(categories: Category[], type?: TransactionType) {
+  const applicable = categories.filter((category) => !type || category.type === "both" || category.type === type);
+  const ids = new Set(applicable.map((category) => category._id));
+  const topLevel = applicable.filter((category) => !category.parentId || !ids.has(category.parentId));
+
+  return topLevel.flatMap((parent) => [
+    { category: parent, depth: 0 },
+    ...applicable
+      .filter((category) => category.parentId === parent._id)
+      .map((category) => ({ category, depth: 1 })),
+  ]);
+}
+
+// A category's own name plus those of its subcategories, for filtering
+export function withSubcategories(categories: Category[], name: string) {
+  const parent = categories.find((category) => category.name === name);
+  if (!parent) return [name];
+  return [name, ...categories.filter((category) => category.parentId === parent._id).map((category) => category.name)];
+}
+
+// How sure a learned suggestion is, e.g. "87%"
+export function formatConfidence(confidence: number) {
+  return `${Math.round(confidence * 100)}%`;
+}
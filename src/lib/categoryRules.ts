@@ -0,0 +1,49 @@
+import { getAccountName } from "@/lib/accounts";
+import type { Account, CategoryRule, RuleChanges, RuleDescriptionMatch } from "@/services/api";
+
+export const descriptionMatchLabels: Record<RuleDescriptionMatch, string> = {
+  contains: "contains",
+  equals: "is exactly",
+  regex: "matches the pattern",
+};
+
+// Rule amounts apply to whatever currency a transaction is in
+const formatAmount = (amount: number) => amount.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// The conditions of a rule in words, e.g. "description contains "uber" and
+// amount at least 10"
+export function describeConditions(rule: CategoryRule, accounts: Account[]) {
+  const { descriptionMatch, descriptionValue, minAmount, maxAmount, accountId, transactionType } = rule.conditions;
+  const parts: string[] = [];
+  if (transactionType) parts.push(transactionType === "income" ? "income" : "expenses");
+  if (descriptionMatch) parts.push(`description ${descriptionMatchLabels[descriptionMatch]} "${descriptionValue}"`);
+  if (minAmount !== null && maxAmount !== null) {
+    parts.push(`amount from ${formatAmount(minAmount)} to ${formatAmount(maxAmount)}`);
+  } else if (minAmount !== null) {
+    parts.push(`amount at least ${formatAmount(minAmount)}`);
+  } else if (maxAmount !== null) {
+    parts.push(`amount at most ${formatAmount(maxAmount)}`);
+  }
+  if (accountId) parts.push(`in ${getAccountName(accounts, accountId)}`);
+  return parts.join(" and ");
+}
+
+// What a rule or a match changes, e.g. "category Transport, tags travel, work"
+export function describeChanges(changes: RuleChanges) {
+  const parts: string[] = [];
+  if (changes.category) parts.push(`category ${changes.category}`);
+  if (changes.type) parts.push(`type ${changes.type}`);
+  if (changes.description) parts.push(`description "${changes.description}"`);
+  if (changes.tags && changes.tags.length > 0) parts.push(`tags ${changes.tags.join(", ")}`);
+  return parts.join(", ");
+}
+
+export function describeActions(rule: CategoryRule) {
+  const { category, transactionType, description, tags } = rule.actions;
+  return describeChanges({
+    category: category ?? undefined,
+    type: transactionType ?? undefined,
+    description: description ?? undefined,
+    tags,
+  });
+}
@@ -0,0 +1,17 @@
+// Codes offered in currency pickers; any ISO 4217 code works with the API
+export const currencyCodes = [
+  "USD", "EUR", "GBP", "JPY", "CHF", "CAD", "AUD", "NZD", "SEK", "NOK", "DKK",
+  "PLN", "CZK", "HUF", "CNY", "HKD", "SGD", "INR", "BRL", "MXN", "ZAR",
+];
+
+export const DEFAULT_CURRENCY = "USD";
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// Format an amount in the user's locale, e.g. "$1,234.50" or "1.234,50 €"
+export function formatMoney(amount: number, currency = DEFAULT_CURRENCY) {
+  if (!formatters.has(currency)) {
+    formatters.set(currency, new Intl.NumberFormat(undefined, { style: "currency", currency }));
+  }
+  return formatters.get(currency)!.format(amount);
+}
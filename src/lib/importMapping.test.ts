@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { applyMapping, getSheetRows, guessMapping, parseAmount, parseDate, readWorkbook } from "@/lib/importMapping";
+import { createExporter, parseExportOptions } from "../../Backend/lib/transactionExport.js";
+
+test("parseAmount reads both decimal separators", () => {
+  assert.equal(parseAmount("1,234.56"), 1234.56);
+  assert.equal(parseAmount("1.234,56"), 1234.56);
+  assert.equal(parseAmount("12,50"), 12.5);
+  assert.equal(parseAmount("1,234"), 1234);
+  assert.equal(parseAmount("(12.00)"), -12);
+  assert.equal(parseAmount("-$12"), -12);
+  assert.equal(parseAmount(7.5), 7.5);
+  assert.ok(Number.isNaN(parseAmount("n/a")));
+});
+
+test("parseDate reads the chosen layout or detects one", () => {
+  assert.equal(parseDate("05/01/2026", "dd/MM/yyyy"), "2026-01-05");
+  assert.equal(parseDate("05/01/2026", "MM/dd/yyyy"), "2026-05-01");
+  assert.equal(parseDate("31/01/2026", "MM/dd/yyyy"), null);
+  assert.equal(parseDate("2026-10-14T00:00:00.000Z", "auto"), "2026-10-14");
+  assert.equal(parseDate("31.01.2026", "auto"), "2026-01-31");
+});
+
+// Export transactions the way GET /api/transactions/export does and read
+// the file back the way the upload page does
+async function roundTrip(query: Record<string, string>, transactions: object[]) {
+  const { value: options } = parseExportOptions(query);
+  const exporter = createExporter(options, new Map([["a1", "Current account"], ["a2", "Savings"]]));
+  const text = exporter.start + exporter.rows(transactions) + exporter.end;
+  const workbook = await readWorkbook(new File([text], `transactions.${options.format}`));
+  const mapping = guessMapping(workbook);
+  return applyMapping(getSheetRows(workbook, mapping.sheetName), mapping);
+}
+
+const exported = [
+  {
+    type: "expense",
+    amount: 1234.5,
+    date: "2026-10-14T00:00:00.000Z",
+    category: "Shopping",
+    description: "Desk, chair",
+    accountId: "a1",
+    tags: ["home", "office"],
+  },
+  // Cells a spreadsheet would run as a formula are exported with an apostrophe
+  { type: "income", amount: 20, date: "2026-10-15T00:00:00.000Z", category: "Salary", description: "=SUM(A1)", tags: [] },
+  {
+    type: "expense",
+    amount: 60,
+    date: "2026-10-16T00:00:00.000Z",
+    category: "Food & Dining",
+    description: "Market",
+    splits: [{ category: "Food & Dining", amount: 45 }, { category: "Shopping", amount: 15 }],
+  },
+];
+
+const imported = [
+  { row: 2, type: "expense", amount: 1234.5, category: "Shopping", date: "2026-10-14", description: "Desk, chair", tags: ["home", "office"] },
+  { row: 3, type: "income", amount: 20, category: "Salary", date: "2026-10-15", description: "=SUM(A1)", tags: [] },
+  { row: 4, type: "expense", amount: 45, category: "Food & Dining", date: "2026-10-16", description: "Market", tags: [] },
+  { row: 5, type: "expense", amount: 15, category: "Shopping", date: "2026-10-16", description: "Market", tags: [] },
+];
+
+test("CSV exports import again as they were, a row per split line", async () => {
+  assert.deepEqual(await roundTrip({}, exported), imported);
+});
+
+test("CSV exports with a decimal comma and day first dates import again", async () => {
+  assert.deepEqual(await roundTrip({ decimal: ",", dateFormat: "dd/MM/yyyy" }, exported), imported);
+});
+
+test("JSON exports import again", async () => {
+  assert.deepEqual(await roundTrip({ format: "json", columns: "date,type,amount,category,description,tags" }, exported), imported);
+});
@@ -0,0 +1,397 @@
+import * as XLSX from "xlsx";
+import { format, isValid, parse } from "date-fns";
+
+import { checkTags, parseTagList } from "@/lib/tags";
+import type {
+  Category,
+  ColumnMapping,
+  ImportAmountMode,
+  ImportDateFormat,
+  ImportField,
+  ImportProfile,
+  RuleMatch,
+  Transaction,
+} from "@/services/api";
+
+// A spreadsheet or statement row turned into a transaction. Cells that
+// couldn't be read are kept as text (dates) or NaN (amounts).
+export interface ImportedRow {
+  // 1-based row number in the sheet, or transaction number in a statement
+  row: number;
+  type: string;
+  amount: number;
+  category: string;
+  date: string;
+  description: string;
+  // The bank's own id for the transaction, from OFX statements
+  externalId?: string;
+  // From the file's tag column, plus any added by categorisation rules
+  tags?: string[];
+}
+
+// A row waiting in the import staging grid
+export interface StagedRow extends ImportedRow {
+  id: number;
+  file: string;
+  // SHA-256 of the file the row came from
+  fingerprint: string;
+  // Excluded rows are never submitted
+  included: boolean;
+  // Recorded transactions the row probably duplicates
+  duplicates?: Transaction[];
+  // The names of the categorisation rules that matched
+  rules?: string[];
+  // The category past transactions like this one were filed under, offered
+  // while the row has none of the user's categories
+  suggestion?: { category: string; confidence: number };
+  // Why the server refused the row on the last submit
+  serverError?: string;
+}
+
+export type ImportRowField = "date" | "type" | "amount" | "category" | "description" | "tags";
+export type ImportRowErrors = Partial<Record<ImportRowField, string>>;
+
+export const importFieldLabels: Record<ImportField, string> = {
+  date: "Date",
+  description: "Description",
+  category: "Category",
+  type: "Type",
+  amount: "Amount",
+  debit: "Debit (money out)",
+  credit: "Credit (money in)",
+  tags: "Tags",
+};
+
+export const amountModeLabels: Record<ImportAmountMode, string> = {
+  signed: "One signed amount column (negative is an expense)",
+  "type-column": "Amount column plus an income/expense type column",
+  "debit-credit": "Separate debit and credit columns",
+};
+
+export const dateFormatLabels: Record<ImportDateFormat, string> = {
+  auto: "Detect automatically",
+  "yyyy-MM-dd": "2024-01-31",
+  "dd/MM/yyyy": "31/01/2024",
+  "MM/dd/yyyy": "01/31/2024",
+  "dd.MM.yyyy": "31.01.2024",
+  "dd-MM-yyyy": "31-01-2024",
+};
+
+// Fields the amount mode needs besides date and description
+export const amountModeFields: Record<ImportAmountMode, ImportField[]> = {
+  signed: ["amount"],
+  "type-column": ["amount", "type"],
+  "debit-credit": ["debit", "credit"],
+};
+
+// Header names banks commonly use for each field, for the first guess
+const FIELD_PATTERNS: Record<ImportField, RegExp> = {
+  date: /date|booked|posted|valuta/i,
+  description: /desc|memo|payee|narrative|details|reference|text/i,
+  category: /categ/i,
+  type: /^type$|transaction type|direction/i,
+  // Before amount, so "Debit amount" and "Credit amount" land here
+  debit: /debit|withdrawal|paid out|money out/i,
+  credit: /credit|deposit|paid in|money in/i,
+  amount: /amount|value|sum|betrag/i,
+  tags: /^tags?$|labels?/i,
+};
+
+// Spreadsheet words for each transaction type
+const TYPE_ALIASES: Record<string, "income" | "expense"> = {
+  income: "income",
+  credit: "income",
+  deposit: "income",
+  cr: "income",
+  expense: "expense",
+  debit: "expense",
+  withdrawal: "expense",
+  payment: "expense",
+  dr: "expense",
+};
+
+const emptyColumns = (): Record<ImportField, number | null> => ({
+  date: null,
+  description: null,
+  category: null,
+  type: null,
+  amount: null,
+  debit: null,
+  credit: null,
+  tags: null,
+});
+
+// CSV cells are kept as typed, so dates are read with the mapping's date
+// format instead of SheetJS guessing month/day order. JSON files, such as
+// the Transactions page exports, must hold an array of flat objects, whose
+// keys become the header row.
+export async function readWorkbook(file: File) {
+  if (file.name.toLowerCase().endsWith(".json")) {
+    const records = JSON.parse(await file.text());
+    if (!Array.isArray(records)) {
+      throw new Error("A JSON file must hold an array of transactions");
+    }
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(records), "Transactions");
+    return workbook;
+  }
+  return XLSX.read(await file.arrayBuffer(), { type: "array", raw: true });
+}
+
+// SHA-256 of a file's contents in hex, so a file imported before can be
+// recognised whatever it is called
+export async function fileFingerprint(file: File) {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Every row of a sheet as raw cell values, blank rows included so indexes
+// line up with sheet row numbers. Unknown sheets fall back to the first one.
+export function getSheetRows(workbook: XLSX.WorkBook, sheetName: string | null): unknown[][] {
+  const name = sheetName && workbook.SheetNames.includes(sheetName) ? sheetName : workbook.SheetNames[0];
+  return XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: true, defval: "", blankrows: true });
+}
+
+export function getHeaders(rows: unknown[][], headerRow: number) {
+  return (rows[headerRow - 1] ?? []).map((cell) => String(cell ?? "").trim());
+}
+
+const sameHeaders = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((header, index) => header.toLowerCase() === b[index].toLowerCase());
+
+// First guess at a mapping from the header names
+export function guessMapping(workbook: XLSX.WorkBook): ColumnMapping {
+  const sheetName = workbook.SheetNames[0] ?? null;
+  const headers = getHeaders(getSheetRows(workbook, sheetName), 1);
+  const columns = emptyColumns();
+  (Object.keys(FIELD_PATTERNS) as ImportField[]).forEach((field) => {
+    const index = headers.findIndex((header, i) =>
+      FIELD_PATTERNS[field].test(header) && !Object.values(columns).includes(i));
+    if (index !== -1) columns[field] = index;
+  });
+
+  let amountMode: ImportAmountMode = "signed";
+  if (columns.debit !== null && columns.credit !== null) amountMode = "debit-credit";
+  else if (columns.type !== null && columns.amount !== null) amountMode = "type-column";
+
+  return {
+    sheetName,
+    headerRow: 1,
+    columns,
+    amountMode,
+    dateFormat: guessDateFormat(getSheetRows(workbook, sheetName).slice(1), columns.date),
+    defaultCategory: null,
+  };
+}
+
+// The one date format every text date in the column can be read with, so
+// 05/01/2024 is read day first when another row has 31/01/2024. Columns
+// that fit several formats, or none, are left to automatic detection.
+function guessDateFormat(rows: unknown[][], column: number | null): ImportDateFormat {
+  if (column === null) return "auto";
+  const samples = rows.map((row) => row[column]).filter((value) => typeof value === "string" && !isBlank(value));
+  if (samples.length === 0) return "auto";
+  const fitting = (Object.keys(dateFormatLabels) as ImportDateFormat[])
+    .filter((dateFormat) => dateFormat !== "auto" && samples.every((value) => parseDate(value, dateFormat) !== null));
+  return fitting.length === 1 ? fitting[0] : "auto";
+}
+
+// The saved profile made for files with this layout, if any
+export function findProfile(profiles: ImportProfile[], workbook: XLSX.WorkBook) {
+  return profiles.find((profile) => {
+    if (profile.headers.length === 0) return false;
+    const headers = getHeaders(getSheetRows(workbook, profile.sheetName), profile.headerRow);
+    return sameHeaders(headers, profile.headers);
+  });
+}
+
+// The mapping part of a saved profile
+export function profileMapping(profile: ImportProfile): ColumnMapping {
+  const { sheetName, headerRow, columns, amountMode, dateFormat, defaultCategory } = profile;
+  return { sheetName, headerRow, columns: { ...emptyColumns(), ...columns }, amountMode, dateFormat, defaultCategory };
+}
+
+// Mapped fields that are still missing a column
+export function missingFields(mapping: ColumnMapping) {
+  return (["date", "description", ...amountModeFields[mapping.amountMode]] as ImportField[])
+    .filter((field) => mapping.columns[field] === null);
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === "";
+
+// Parse "1,234.56", "1.234,56", "(12.00)" or "-$12" into a number
+export function parseAmount(value: unknown): number {
+  if (typeof value === "number") return value;
+  let text = String(value ?? "").trim();
+  const negative = /^\(.*\)$/.test(text) || text.includes("-");
+  text = text.replace(/[^\d.,]/g, "");
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  // Whichever separator comes last is the decimal one; a lone comma is
+  // decimal only when two digits follow it
+  if (lastComma > lastDot && (lastDot !== -1 || /,\d{1,2}$/.test(text))) {
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else {
+    text = text.replace(/,/g, "");
+  }
+  const amount = parseFloat(text);
+  return negative ? -amount : amount;
+}
+
+// Parse a date cell into YYYY-MM-DD. Excel stores dates as day serials.
+export function parseDate(value: unknown, dateFormat: ImportDateFormat): string | null {
+  if (typeof value === "number") {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (!parsed) return null;
+    return format(new Date(parsed.y, parsed.m - 1, parsed.d), "yyyy-MM-dd");
+  }
+
+  const text = String(value ?? "").trim();
+  const parseWith = (pattern: string) => {
+    const parsed = parse(text, pattern, new Date());
+    return isValid(parsed) ? format(parsed, "yyyy-MM-dd") : null;
+  };
+  if (dateFormat !== "auto") return parseWith(dateFormat);
+
+  // ISO first, then whatever the browser understands (month first for
+  // slashes), then the day-first layouts it doesn't
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+  const parsed = new Date(text);
+  if (!isNaN(parsed.getTime())) return format(parsed, "yyyy-MM-dd");
+  return parseWith("dd/MM/yyyy") ?? parseWith("dd.MM.yyyy") ?? parseWith("dd-MM-yyyy");
+}
+
+// Turn the rows below the header into transactions. Blank rows are skipped;
+// cells that can't be read are kept as they are, for validateImportedRow to
+// report and the user to fix.
+export function applyMapping(rows: unknown[][], mapping: ColumnMapping): ImportedRow[] {
+  const cell = (row: unknown[], field: ImportField) => {
+    const column = mapping.columns[field];
+    return column === null ? "" : row[column];
+  };
+  // Exports put an apostrophe before text a spreadsheet would take for a formula
+  const text = (row: unknown[], field: ImportField) =>
+    String(cell(row, field) ?? "").trim().replace(/^'(?=[=+\-@\t\r])/, "").trim();
+
+  return rows.slice(mapping.headerRow).flatMap((row, index) => {
+    if (row.every(isBlank)) return [];
+
+    const rawDate = cell(row, "date");
+    const date = parseDate(rawDate, mapping.dateFormat) ?? String(rawDate ?? "").trim();
+
+    let type: string;
+    let amount: number;
+    if (mapping.amountMode === "debit-credit") {
+      const debit = cell(row, "debit");
+      const credit = cell(row, "credit");
+      const debitAmount = isBlank(debit) ? 0 : Math.abs(parseAmount(debit));
+      type = debitAmount ? "expense" : "income";
+      amount = debitAmount || (isBlank(credit) ? NaN : Math.abs(parseAmount(credit)));
+    } else {
+      const signed = parseAmount(cell(row, "amount"));
+      amount = Math.abs(signed);
+      if (mapping.amountMode === "signed") {
+        type = signed < 0 ? "expense" : "income";
+      } else {
+        const label = String(cell(row, "type") ?? "").trim().toLowerCase();
+        type = TYPE_ALIASES[label] ?? label;
+      }
+    }
+
+    return [{
+      row: mapping.headerRow + index + 1,
+      type,
+      amount,
+      category: text(row, "category") || mapping.defaultCategory || "",
+      date,
+      description: text(row, "description"),
+      tags: parseTagList(text(row, "tags")),
+    }];
+  });
+}
+
+// The user's category with this name, ignoring case
+export function matchCategory(categories: Category[], name: string) {
+  const wanted = name.trim().toLowerCase();
+  return categories.find((category) => category.name.toLowerCase() === wanted);
+}
+
+// Problems with an imported row, by field; an empty object means it can be
+// submitted. Mirrors the checks of POST /api/transactions/bulk.
+export function validateImportedRow(row: ImportedRow, categories: Category[]): ImportRowErrors {
+  const errors: ImportRowErrors = {};
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(row.date) || isNaN(new Date(row.date).getTime())) {
+    errors.date = row.date ? `Invalid date: ${row.date}` : "Date is required";
+  }
+
+  const validType = row.type === "income" || row.type === "expense";
+  if (!validType) {
+    errors.type = row.type ? `Invalid type: ${row.type}. Must be 'income' or 'expense'` : "Type is required";
+  }
+
+  if (isNaN(row.amount) || row.amount <= 0) {
+    errors.amount = "Amount must be a positive number";
+  }
+
+  if (!row.category.trim()) {
+    errors.category = "Category is required";
+  } else {
+    const category = matchCategory(categories, row.category);
+    if (!category) {
+      errors.category = `Unknown category: ${row.category}. Add it on the Categories page first`;
+    } else if (validType && category.type !== "both" && category.type !== row.type) {
+      errors.category = `Category ${category.name} is only for ${category.type} transactions`;
+    }
+  }
+
+  if (!row.description.trim()) {
+    errors.description = "Description is required";
+  } else if (row.description.length > 200) {
+    errors.description = "Description must not exceed 200 characters";
+  }
+
+  const tagsError = checkTags(row.tags ?? []);
+  if (tagsError) errors.tags = tagsError;
+
+  return errors;
+}
+
+// Everything that stops a staged row from being submitted, including the
+// server's reason for refusing it last time
+export function getStagedRowProblems(row: StagedRow, categories: Category[]): ImportRowErrors & { server?: string } {
+  const problems: ImportRowErrors & { server?: string } = validateImportedRow(row, categories);
+  if (row.serverError) problems.server = row.serverError;
+  return problems;
+}
+
+// Attach duplicate matches by row id. Rows that become likely duplicates are
+// excluded and rows that stop being ones are included again; rows whose
+// status doesn't change keep whatever the user chose.
+export function markDuplicates(rows: StagedRow[], matches: Map<number, Transaction[]>): StagedRow[] {
+  return rows.map((row) => {
+    const duplicates = matches.get(row.id);
+    const changed = Boolean(duplicates) !== Boolean(row.duplicates);
+    return { ...row, duplicates, included: changed ? !duplicates : row.included };
+  });
+}
+
+// Apply what the categorisation rules matched, by row id. A category the
+// file already gives is kept when it is one of the user's; the rules fill in
+// the others.
+export function applyRuleMatches(rows: StagedRow[], matches: Map<number, RuleMatch>, categories: Category[]): StagedRow[] {
+  return rows.map((row) => {
+    const match = matches.get(row.id);
+    if (!match) return row;
+    const { category, type, description, tags } = match.changes;
+    const keepCategory = Boolean(matchCategory(categories, row.category));
+    return {
+      ...row,
+      category: category && !keepCategory ? category : row.category,
+      type: type ?? row.type,
+      description: description ?? row.description,
+      tags: [...new Set([...(row.tags ?? []), ...(tags ?? [])])],
+      rules: [...new Set([...(row.rules ?? []), ...match.rules.map((rule) => rule.name)])],
+    };
+  });
+}
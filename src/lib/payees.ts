@@ -0,0 +1,28 @@
+import type { Payee } from "@/services/api";
+
+// Select items can't have an empty value, so "no payee" gets a placeholder
+export const NO_PAYEE = "none";
+
+export function getPayeeName(payees: Payee[], id?: string | null) {
+  if (!id) return "No payee";
+  return payees.find((payee) => payee._id === id)?.name ?? "Unknown payee";
+}
+
+// Aliases and patterns are edited one per line. Patterns can hold commas,
+// so only line breaks separate entries.
+export function parseLines(text: string) {
+  return [...new Set(text.split("\n").map((line) => line.trim()).filter(Boolean))];
+}
+
+// Why a pattern isn't a valid regular expression, or null. The server also
+// refuses patterns that could take too long to match, such as (a+)+.
+export function checkPatterns(patterns: string[]) {
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      return `"${pattern}" is not a valid regular expression`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,55 @@
+import { ReceiptFields } from "@/services/api";
+
+// Files the receipt scanner reads, as react-dropzone accept rules
+export const receiptFileTypes = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'application/pdf': ['.pdf'],
+};
+
+// Below this the form asks the user to check a prefilled field
+export const LOW_CONFIDENCE = 0.75;
+
+export type DraftField = "amount" | "currency" | "date" | "description";
+
+// Values read from a receipt to start a new transaction with, and how sure
+// the scanner was of each one
+export interface TransactionDraft {
+  values: Partial<{ amount: string; currency: string; date: Date; description: string }>;
+  confidence: Partial<Record<DraftField, number>>;
+}
+
+// Receipts are expenses: the total becomes the amount and the merchant the
+// description. Fields the scanner didn't find are left for the user.
+export function receiptToDraft(fields: ReceiptFields): TransactionDraft {
+  const draft: TransactionDraft = { values: {}, confidence: {} };
+  if (fields.total) {
+    draft.values.amount = fields.total.value.toFixed(2);
+    draft.confidence.amount = fields.total.confidence;
+  }
+  if (fields.currency) {
+    draft.values.currency = fields.currency.value;
+    draft.confidence.currency = fields.currency.confidence;
+  }
+  if (fields.date) {
+    // Dates come back as YYYY-MM-DD; read them as local midnight
+    const [year, month, day] = fields.date.value.split("-").map(Number);
+    const date = new Date(year, month - 1, day);
+    // The date picker doesn't allow future dates, so a misread one is dropped
+    if (date <= new Date()) {
+      draft.values.date = date;
+      draft.confidence.date = fields.date.confidence;
+    }
+  }
+  if (fields.merchant) {
+    draft.values.description = fields.merchant.value;
+    draft.confidence.description = fields.merchant.confidence;
+  }
+  return draft;
+}
+
+// Field outline for a value read from a receipt, if there is one
+export const confidenceStyle = (confidence?: number) => {
+  if (confidence === undefined) return undefined;
+  return confidence < LOW_CONFIDENCE ? "border-warning bg-warning/5" : "border-primary/50 bg-primary/5";
+};
@@ -0,0 +1,40 @@
+import { format, parseISO } from "date-fns";
+import type { RecurringRuleInput } from "@/services/api";
+
+export const frequencyLabels: Record<RecurringRuleInput["frequency"], string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+  yearly: "Yearly",
+};
+
+export const weekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const weekOfMonthLabels: Record<string, string> = {
+  "1": "First",
+  "2": "Second",
+  "3": "Third",
+  "4": "Fourth",
+  "-1": "Last",
+};
+
+// Occurrences are calendar days stored as UTC midnight; format them without
+// letting the local timezone shift them onto the previous day.
+export function formatOccurrence(iso: string, pattern = "EEE, MMM d, yyyy") {
+  return format(parseISO(iso.slice(0, 10)), pattern);
+}
+
+// Human readable summary such as "Monthly on the last Friday"
+export function describeSchedule(rule: RecurringRuleInput) {
+  const base = frequencyLabels[rule.frequency];
+  if (rule.frequency === "monthly" || rule.frequency === "yearly") {
+    if (rule.monthlyMode === "nthWeekday" && rule.weekOfMonth && rule.weekday !== null && rule.weekday !== undefined) {
+      return `${base} on the ${weekOfMonthLabels[String(rule.weekOfMonth)].toLowerCase()} ${weekdayNames[rule.weekday]}`;
+    }
+    if (rule.dayOfMonth) {
+      return `${base} on day ${rule.dayOfMonth}`;
+    }
+  }
+  return base;
+}
@@ -0,0 +1,61 @@
+import { format, startOfMonth, subMonths } from "date-fns";
+import type { ReportQuery, ReportRangePreset, ReportTemplate } from "@/services/api";
+
+// Ranges offered by the dashboard picker
+export const reportRangeLabels: Partial<Record<ReportRangePreset, string>> = {
+  "this-month": "This month",
+  "last-month": "Last month",
+  ytd: "Year to date",
+  "last-12-months": "Last 12 months",
+  custom: "Custom range",
+};
+
+// What the change on each stat card is measured against
+export const comparisonLabels: Partial<Record<ReportRangePreset, string>> = {
+  "this-month": "from last month",
+  "last-month": "from the month before",
+  ytd: "from the same period last year",
+  "last-12-months": "from the 12 months before",
+  custom: "from the previous period",
+};
+
+// Short description of a report range for chart subtitles
+export function describeReportRange(query: ReportQuery) {
+  if (query.range === "custom" && query.from && query.to) {
+    return `${format(new Date(`${query.from}T00:00`), "MMM d, yyyy")} – ${format(new Date(`${query.to}T00:00`), "MMM d, yyyy")}`;
+  }
+  return (reportRangeLabels[query.range ?? "this-month"] ?? "").toLowerCase();
+}
+
+// Signed percentage change, e.g. "+12.5%"
+export function formatChange(change: number, unit = "%") {
+  return `${change > 0 ? "+" : ""}${change.toFixed(1)}${unit}`;
+}
+
+export const reportTemplateLabels: Record<ReportTemplate, string> = {
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  annual: "Annual",
+};
+
+const PERIODS_OFFERED: Record<ReportTemplate, number> = { monthly: 24, quarterly: 12, annual: 6 };
+
+// Periods a printable report can cover, newest first: the current one, which
+// has not ended yet, and the ones before it in the query format of the API
+export function reportPeriods(template: ReportTemplate, today = new Date()) {
+  const months = template === "monthly" ? 1 : template === "quarterly" ? 3 : 12;
+  const month = startOfMonth(today);
+  const current = subMonths(month, month.getMonth() % months);
+  return Array.from({ length: PERIODS_OFFERED[template] }, (_, index) => {
+    const start = subMonths(current, index * months);
+    const quarter = Math.floor(start.getMonth() / 3) + 1;
+    switch (template) {
+      case "monthly":
+        return { value: format(start, "yyyy-MM"), label: format(start, "MMMM yyyy"), current: index === 0 };
+      case "quarterly":
+        return { value: `${start.getFullYear()}-Q${quarter}`, label: `Q${quarter} ${start.getFullYear()}`, current: index === 0 };
+      default:
+        return { value: String(start.getFullYear()), label: String(start.getFullYear()), current: index === 0 };
+    }
+  });
+}
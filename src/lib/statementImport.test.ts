@@ -0,0 +1,154 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+
+import { isReconciled, parseCamt053, parseMt940, parseOfx, parseQif, statementFormat } from "@/lib/statementImport";
+
+// camt.053 files are read with the browser's XML parser
+globalThis.DOMParser = new JSDOM().window.DOMParser;
+
+test("statement formats come from the file extension", () => {
+  assert.equal(statementFormat("Export.QFX"), "ofx");
+  assert.equal(statementFormat("statement.xml"), "camt053");
+  assert.equal(statementFormat("MT940_2026.sta"), "mt940");
+  assert.equal(statementFormat("transactions.csv"), null);
+});
+
+test("parseOfx reads SGML and XML statements", () => {
+  const sgml = [
+    "OFXHEADER:100",
+    "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>",
+    "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20261014120000[0:GMT]<TRNAMT>-12.50<FITID>2026101401",
+    "<NAME>CORNER CAFE<MEMO>Card payment",
+    "<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20261015<TRNAMT>2500.00<FITID>2026101502<NAME>ACME &amp; SONS",
+    "</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+  ].join("\n");
+  assert.deepEqual(parseOfx(sgml), [
+    { row: 1, type: "expense", amount: 12.5, category: "", date: "2026-10-14", description: "CORNER CAFE - Card payment", externalId: "2026101401" },
+    { row: 2, type: "income", amount: 2500, category: "", date: "2026-10-15", description: "ACME & SONS", externalId: "2026101502" },
+  ]);
+
+  const xml = "<OFX><STMTTRN><DTPOSTED>20261001</DTPOSTED><TRNAMT>-4.20</TRNAMT><NAME>Bakery</NAME><MEMO>bakery</MEMO></STMTTRN></OFX>";
+  assert.deepEqual(parseOfx(xml), [{ row: 1, type: "expense", amount: 4.2, category: "", date: "2026-10-01", description: "Bakery" }]);
+
+  assert.throws(() => parseOfx("Date,Amount\n"), /Not an OFX file/);
+});
+
+test("parseQif keeps bank records, with the category of a single line record", () => {
+  const qif = [
+    "!Type:Bank",
+    "D10/14'26",
+    "T-1,234.56",
+    "PLandlord",
+    "LHousing:Rent",
+    "^",
+    "D10/15'26",
+    "U300.00",
+    "PSavings",
+    "L[Savings Account]",
+    "^",
+    "D10/16'26",
+    "T-40.00",
+    "PMarket",
+    "SFood:Groceries",
+    "$-30.00",
+    "SHousehold",
+    "$-10.00",
+    "^",
+    "!Type:Cat",
+    "NFood",
+    "^",
+  ].join("\r\n");
+  assert.deepEqual(parseQif(qif), [
+    { row: 1, type: "expense", amount: 1234.56, category: "Rent", date: "2026-10-14", description: "Landlord" },
+    { row: 2, type: "income", amount: 300, category: "", date: "2026-10-15", description: "Savings" },
+    { row: 3, type: "expense", amount: 40, category: "", date: "2026-10-16", description: "Market" },
+  ]);
+  assert.throws(() => parseQif("D10/14'26\n^"), /Not a QIF file/);
+});
+
+const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">1987.50</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+      <Ntry>
+        <Amt Ccy="EUR">12.50</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-10-14</Dt></BookgDt><AcctSvcrRef>REF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Nm>Corner Cafe</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Card payment</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2026-10-15T09:00:00</DtTm></BookgDt>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Nm>ACME GmbH</Nm></Dbtr><DbtrAcct><Id><IBAN>DE02120300000000202051</IBAN></Id></DbtrAcct></RltdPties>
+          <RmtInf><Ustrd>Salary</Ustrd><Ustrd>October</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">99.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>PDNG</Sts>
+        <BookgDt><Dt>2026-10-16</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+test("parseCamt053 reads booked entries and balances", () => {
+  const { rows, balances } = parseCamt053(camt);
+  assert.deepEqual(rows, [
+    { row: 1, type: "expense", amount: 12.5, category: "", date: "2026-10-14", description: "Corner Cafe - Card payment", externalId: "REF-1" },
+    {
+      row: 2,
+      type: "income",
+      amount: 1000,
+      category: "",
+      date: "2026-10-15",
+      description: "ACME GmbH (DE02120300000000202051) - Salary October",
+    },
+  ]);
+  assert.deepEqual(balances, [
+    { account: "DE89370400440532013000", currency: "EUR", opening: 1000, closing: 1987.5, computed: 1987.5 },
+  ]);
+  assert.ok(isReconciled(balances[0]));
+  assert.throws(() => parseCamt053("<Document/>"), /Not a camt.053 statement/);
+});
+
+test("parseMt940 reads statement lines, details and balances", () => {
+  const mt940 = [
+    "{1:F01BANKDEFFXXXX0000000000}{4:",
+    ":20:STARTUMSE",
+    ":25:37040044/0532013000",
+    ":28C:00000/001",
+    ":60F:C260930EUR1000,00",
+    ":61:2610141014DR12,50NTRFNONREF//BREF1",
+    ":86:105?00SEPA-BASISLASTSCHRIFT?20EREF+NOTPROVIDED?21SVWZ+Card pay?22ment?31DE02120300000000202051?32Corner Cafe",
+    ":61:2612310102CR1000,00NTRFNONREF",
+    ":86:/CNTP/DE89370400440532013000/COBADEFFXXX/ACME GmbH/Berlin//REMI/USTD//Salary/",
+    ":61:261001C5,00NMSCNONREF",
+    ":86:Interest",
+    ":62F:C270102EUR1992,50",
+    "-}",
+  ].join("\r\n");
+  const { rows, balances } = parseMt940(mt940);
+  assert.deepEqual(rows, [
+    {
+      row: 1,
+      type: "expense",
+      amount: 12.5,
+      category: "",
+      date: "2026-10-14",
+      description: "Corner Cafe (DE02120300000000202051) - Card payment",
+      externalId: "BREF1",
+    },
+    // Booked in the new year after a December value date
+    { row: 2, type: "income", amount: 1000, category: "", date: "2027-01-02", description: "ACME GmbH (DE89370400440532013000) - Salary" },
+    { row: 3, type: "income", amount: 5, category: "", date: "2026-10-01", description: "Interest" },
+  ]);
+  assert.deepEqual(balances, [{ account: "37040044/0532013000", currency: "EUR", opening: 1000, closing: 1992.5, computed: 1992.5 }]);
+  assert.throws(() => parseMt940("Date;Amount\n"), /Not an MT940 statement/);
+});
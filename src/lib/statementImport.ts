@@ -0,0 +1,386 @@
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { parseAmount, parseDate, ImportedRow } from "@/lib/importMapping";
+
+// Bank statement downloads. Unlike spreadsheets they have a fixed layout,
+// so they are read without a column mapping.
+export type StatementFormat = "ofx" | "qif" | "camt053" | "mt940";
+
+export const statementFormatLabels: Record<StatementFormat, string> = {
+  ofx: "OFX statement",
+  qif: "QIF statement",
+  camt053: "camt.053 statement",
+  mt940: "MT940 statement",
+};
+
+// QFX is Quicken's name for OFX; camt.053 statements are plain XML files
+const STATEMENT_EXTENSIONS: Record<string, StatementFormat> = {
+  ofx: "ofx",
+  qfx: "ofx",
+  qif: "qif",
+  xml: "camt053",
+  sta: "mt940",
+  mt940: "mt940",
+  "940": "mt940",
+};
+
+// Opening and closing balance of one statement in a file, with the closing
+// balance its entries add up to
+export interface StatementBalance {
+  account: string;
+  currency: string;
+  opening: number;
+  closing: number;
+  computed: number;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  rows: ImportedRow[];
+  // Only formats that carry opening and closing balances have any
+  balances: StatementBalance[];
+}
+
+// Half a cent of slack for floating point
+export const isReconciled = (balance: StatementBalance) => Math.abs(balance.computed - balance.closing) < 0.005;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// QIF sections that hold bank or card transactions; investment, category
+// and account lists are skipped
+const QIF_TRANSACTION_SECTIONS = new Set(["type:bank", "type:cash", "type:ccard", "type:oth a", "type:oth l"]);
+
+const ENTITIES: Record<string, string> = { "&amp;": "&", "&lt;": "<", "&gt;": ">", "&quot;": '"', "&apos;": "'" };
+
+// The statement format of a file, by extension; null for spreadsheets
+export function statementFormat(fileName: string): StatementFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return STATEMENT_EXTENSIONS[extension] ?? null;
+}
+
+// Read a statement file into rows. Throws when the file isn't a statement
+// of that format.
+export async function readStatement(file: File, format: StatementFormat): Promise<ParsedStatement> {
+  const bytes = await file.arrayBuffer();
+  let text = new TextDecoder().decode(bytes);
+  // OFX 1.x headers name a Windows code page instead of UTF-8, and MT940
+  // predates UTF-8 altogether
+  if ((format === "ofx" && /^\s*OFXHEADER[\s\S]*?CHARSET:\s*1252/i.test(text)) ||
+    (format === "mt940" && text.includes("\uFFFD"))) {
+    text = new TextDecoder("windows-1252").decode(bytes);
+  }
+
+  switch (format) {
+    case "ofx":
+      return { format, rows: parseOfx(text), balances: [] };
+    case "qif":
+      return { format, rows: parseQif(text), balances: [] };
+    case "camt053":
+      return { format, ...parseCamt053(text) };
+    case "mt940":
+      return { format, ...parseMt940(text) };
+  }
+}
+
+// Payee first, then the memo when it adds something. Long remittance texts
+// are cut to the 200 characters a description can hold.
+function describe(payee: string, memo: string) {
+  let description = `${payee} - ${memo}`;
+  if (!memo || payee.toLowerCase().includes(memo.toLowerCase())) description = payee;
+  else if (!payee) description = memo;
+  return description.slice(0, 200);
+}
+
+// "ACME GmbH (DE89370400440532013000)"
+function counterparty(name: string, iban: string) {
+  return name && iban ? `${name} (${iban})` : name || iban;
+}
+
+// Amounts are signed; money going out is an expense
+function signedRow(row: number, amountText: string, date: string, description: string) {
+  const signed = parseAmount(amountText);
+  return {
+    row,
+    type: signed < 0 ? "expense" : "income",
+    amount: Math.abs(signed),
+    category: "",
+    date,
+    description,
+  };
+}
+
+// The text of a leaf element. OFX 1.x is SGML and leaves leaf elements
+// unclosed, so the value runs to the next tag in both versions.
+function ofxValue(block: string, tag: string) {
+  const match = block.match(new RegExp(`<${tag}>([^<]*)`, "i"));
+  return match ? match[1].trim().replace(/&(amp|lt|gt|quot|apos);/g, (entity) => ENTITIES[entity]) : "";
+}
+
+// Every STMTTRN of an OFX/QFX file, bank and credit card statements alike.
+// Dates are YYYYMMDD followed by an optional time and zone.
+export function parseOfx(text: string): ImportedRow[] {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error("Not an OFX file");
+  }
+
+  return text.split(/<STMTTRN>/i).slice(1).map((part, index) => {
+    const block = part.split(/<\/STMTTRN>/i)[0];
+    const posted = ofxValue(block, "DTPOSTED");
+    const day = posted.match(/^(\d{4})(\d{2})(\d{2})/);
+    const row = signedRow(
+      index + 1,
+      ofxValue(block, "TRNAMT"),
+      day ? `${day[1]}-${day[2]}-${day[3]}` : posted,
+      describe(ofxValue(block, "NAME"), ofxValue(block, "MEMO"))
+    );
+    const fitId = ofxValue(block, "FITID");
+    return fitId ? { ...row, externalId: fitId } : row;
+  });
+}
+
+// Quicken writes years from 2000 on as 1/25'24
+function parseQifDate(text: string) {
+  const date = text.replace(/\s+/g, "").replace(/'(\d{2})$/, "/20$1");
+  return parseDate(date, "auto") ?? text;
+}
+
+// The category of a QIF split line: "Food:Groceries/Class" names the
+// subcategory Groceries, and "[Savings]" is a transfer, which has none
+function qifCategory(text: string) {
+  if (!text || text.startsWith("[")) return "";
+  return text.split("/")[0].split(":").pop()?.trim() ?? "";
+}
+
+// Every record of the QIF file's bank, cash and card sections. Each line
+// starts with a field code and records end with ^; split lines repeat codes,
+// so only the first of each is kept.
+export function parseQif(text: string): ImportedRow[] {
+  if (!/^\s*!/.test(text)) {
+    throw new Error("Not a QIF file");
+  }
+
+  const rows: ImportedRow[] = [];
+  let section = "";
+  let record: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (trimmed.startsWith("!")) {
+      section = trimmed.slice(1).trim().toLowerCase();
+      record = {};
+    } else if (trimmed.startsWith("^")) {
+      if (QIF_TRANSACTION_SECTIONS.has(section) && (record.T || record.U)) {
+        rows.push({
+          ...signedRow(rows.length + 1, record.T ?? record.U, parseQifDate(record.D ?? ""), describe(record.P ?? "", record.M ?? "")),
+          category: qifCategory(record.L ?? ""),
+        });
+      }
+      record = {};
+    } else if (!(trimmed[0] in record)) {
+      record[trimmed[0]] = trimmed.slice(1).trim();
+    }
+  }
+  return rows;
+}
+
+// Child elements by local name, whatever namespace prefix the bank uses
+const xmlChildren = (parent: Element | undefined, name: string) =>
+  parent ? Array.from(parent.children).filter((child) => child.localName === name) : [];
+
+// The first element along a path of local names, e.g. "Acct", "Id", "IBAN"
+function xmlAt(parent: Element | undefined, ...path: string[]) {
+  return path.reduce<Element | undefined>((element, name) => xmlChildren(element, name)[0], parent);
+}
+
+const xmlText = (parent: Element | undefined, ...path: string[]) => xmlAt(parent, ...path)?.textContent?.trim() ?? "";
+
+// An amount with its credit/debit indicator, as used by balances and entries
+const camtAmount = (element: Element) =>
+  parseFloat(xmlText(element, "Amt")) * (xmlText(element, "CdtDbtInd") === "DBIT" ? -1 : 1);
+
+// ISO 20022 bank-to-customer statements (camt.053), any version. Each Stmt
+// has its own account and balances; only booked entries are imported, and
+// an entry batching several transfers becomes one row described by the
+// first of them.
+export function parseCamt053(text: string) {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  const statements = Array.from(document.getElementsByTagNameNS("*", "Stmt"));
+  if (document.getElementsByTagName("parsererror").length > 0 || statements.length === 0) {
+    throw new Error("Not a camt.053 statement");
+  }
+
+  const rows: ImportedRow[] = [];
+  const balances: StatementBalance[] = [];
+  for (const statement of statements) {
+    const balanceOf = (...codes: string[]) => {
+      const balance = xmlChildren(statement, "Bal").find((item) => codes.includes(xmlText(item, "Tp", "CdOrPrtry", "Cd")));
+      return balance ? camtAmount(balance) : null;
+    };
+
+    const entries = xmlChildren(statement, "Ntry").filter((entry) => {
+      const status = xmlText(entry, "Sts", "Cd") || xmlText(entry, "Sts");
+      return !status || status === "BOOK";
+    });
+    for (const entry of entries) {
+      const details = xmlAt(entry, "NtryDtls", "TxDtls");
+      // The other party is the debtor of money coming in and the creditor
+      // of money going out
+      const party = xmlText(entry, "CdtDbtInd") === "CRDT" ? "Dbtr" : "Cdtr";
+      const name = xmlText(details, "RltdPties", party, "Nm") || xmlText(details, "RltdPties", party, "Pty", "Nm");
+      const iban = xmlText(details, "RltdPties", `${party}Acct`, "Id", "IBAN");
+      const remittance = xmlChildren(xmlAt(details, "RmtInf"), "Ustrd").map((item) => item.textContent?.trim()).join(" ") ||
+        xmlText(details, "RmtInf", "Strd", "CdtrRefInf", "Ref") ||
+        xmlText(details, "AddtlTxInf") ||
+        xmlText(entry, "AddtlNtryInf");
+      const booked = xmlText(entry, "BookgDt", "Dt") || xmlText(entry, "BookgDt", "DtTm") ||
+        xmlText(entry, "ValDt", "Dt") || xmlText(entry, "ValDt", "DtTm");
+
+      const row = signedRow(rows.length + 1, String(camtAmount(entry)), booked.slice(0, 10), describe(counterparty(name, iban), remittance));
+      const reference = xmlText(entry, "AcctSvcrRef") || xmlText(details, "Refs", "AcctSvcrRef");
+      rows.push(reference ? { ...row, externalId: reference } : row);
+    }
+
+    const opening = balanceOf("OPBD", "PRCD");
+    const closing = balanceOf("CLBD");
+    if (opening !== null && closing !== null) {
+      balances.push({
+        account: xmlText(statement, "Acct", "Id", "IBAN") || xmlText(statement, "Acct", "Id", "Othr", "Id"),
+        currency: xmlText(statement, "Acct", "Ccy") || xmlAt(xmlChildren(statement, "Bal")[0], "Amt")?.getAttribute("Ccy") ||
+          DEFAULT_CURRENCY,
+        opening,
+        closing,
+        computed: roundCents(entries.reduce((total, entry) => total + camtAmount(entry), opening)),
+      });
+    }
+  }
+  return { rows, balances };
+}
+
+// SWIFT dates are YYMMDD, all from 2000 on
+const swiftDate = (text: string) => `20${text.slice(0, 2)}-${text.slice(2, 4)}-${text.slice(4, 6)}`;
+
+// A :60F:/:62F: balance such as C240131EUR987,50
+function mt940Balance(value: string) {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})(\d+,?\d*)/);
+  if (!match) return null;
+  return { currency: match[3], amount: parseFloat(match[4].replace(",", ".")) * (match[1] === "D" ? -1 : 1) };
+}
+
+// Keywords that end a field of a structured :86: line
+const SEPA_KEYWORDS = "EREF|KREF|MREF|CRED|DEBT|COAM|OAMT|SVWZ|ABWA|ABWE|IBAN|BIC";
+const SWIFT_KEYWORDS = "EREF|ORDP|BENM|CNTP|MARF|CSID|BUSP|PURP|ULTC|ULTD|IREF|NAME|ADDR|ISDT|RTRN|ATOS|ATOC|TRCD|REMI";
+
+// Counterparty and remittance information of a :86: line, in the German
+// ?-subfield layout, the SWIFT /KEYWORD/ layout or as free text
+function mt940Details(text: string) {
+  const joined = text.replace(/\n/g, "");
+  if (/^\d{3}\?/.test(joined)) {
+    const subfields: Record<string, string> = {};
+    for (const part of joined.split("?").slice(1)) {
+      const code = part.slice(0, 2);
+      subfields[code] = (subfields[code] ?? "") + part.slice(2);
+    }
+    // ?20-?29 and ?60-?63 hold the remittance text, wrapped at any point
+    const lines = Object.keys(subfields)
+      .filter((code) => (code >= "20" && code <= "29") || (code >= "60" && code <= "63"))
+      .sort()
+      .map((code) => subfields[code])
+      .join("");
+    const purpose = lines.match(new RegExp(`SVWZ\\+(.*?)(?=(?:${SEPA_KEYWORDS})\\+|$)`));
+    return {
+      name: `${subfields["32"] ?? ""}${subfields["33"] ?? ""}`.trim(),
+      iban: (subfields["31"] ?? "").trim(),
+      remittance: (purpose ? purpose[1] : lines).trim() || (subfields["00"] ?? "").trim(),
+    };
+  }
+
+  if (new RegExp(`/(${SWIFT_KEYWORDS})/`).test(joined)) {
+    const field = (keyword: string) =>
+      joined.match(new RegExp(`/${keyword}/(.*?)(?=/(?:${SWIFT_KEYWORDS})/|$)`))?.[1] ?? "";
+    // /CNTP/account/BIC/name/city/
+    const [iban = "", , cntpName = ""] = field("CNTP").split("/");
+    return {
+      name: (cntpName || field("NAME")).replace(/\/+$/, "").trim(),
+      iban: iban.trim(),
+      remittance: field("REMI").replace(/^(USTD|STRD)\/+(CUR\/)?/, "").replace(/\/+$/, "").trim(),
+    };
+  }
+
+  return { name: "", iban: "", remittance: text.replace(/\n/g, " ").trim() };
+}
+
+// SWIFT MT940 customer statements, one or more per file. Each :61:
+// statement line becomes a row, described by the :86: line that follows it.
+export function parseMt940(text: string) {
+  const fields: { tag: string; value: string }[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    // SWIFT envelope blocks and message separators
+    if (!trimmed || trimmed.startsWith("{") || trimmed === "-" || trimmed === "-}") continue;
+    const field = trimmed.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (field) {
+      fields.push({ tag: field[1], value: field[2] });
+    } else if (fields.length > 0) {
+      fields[fields.length - 1].value += `\n${trimmed}`;
+    }
+  }
+  if (!fields.some((field) => field.tag === "61" || field.tag.startsWith("60"))) {
+    throw new Error("Not an MT940 statement");
+  }
+
+  const rows: ImportedRow[] = [];
+  const balances: StatementBalance[] = [];
+  let account = "";
+  let opening: { currency: string; amount: number } | null = null;
+  let total = 0;
+  let lastTag = "";
+  for (const { tag, value } of fields) {
+    if (tag === "25") {
+      account = value.trim();
+    } else if (tag.startsWith("60")) {
+      opening = mt940Balance(value);
+      total = 0;
+    } else if (tag.startsWith("62")) {
+      const closing = mt940Balance(value);
+      if (opening && closing) {
+        balances.push({
+          account,
+          currency: closing.currency,
+          opening: opening.amount,
+          closing: closing.amount,
+          computed: roundCents(opening.amount + total),
+        });
+      }
+      opening = null;
+    } else if (tag === "61") {
+      // Value date, optional booking date (MMDD), mark, optional funds code,
+      // amount, transaction type, reference, optional //bank reference and
+      // supplementary details on the next line
+      const line = value.match(/^(\d{6})(\d{4})?(RC|RD|C|D)[A-Z]?(\d+,?\d*)[NFS][A-Z0-9]{3}([^\n]*)(?:\n(.*))?/s);
+      if (!line) continue;
+      const [, valueDate, bookingDate, mark, amountText, references, supplementary = ""] = line;
+      // A reversed debit puts money back
+      const signed = parseFloat(amountText.replace(",", ".")) * (mark === "C" || mark === "RD" ? 1 : -1);
+      total += signed;
+
+      let date = swiftDate(valueDate);
+      if (bookingDate) {
+        // Bookings around new year can fall in the year before or after the value date
+        const valueMonth = Number(valueDate.slice(2, 4));
+        const bookingMonth = Number(bookingDate.slice(0, 2));
+        const year = 2000 + Number(valueDate.slice(0, 2)) + (bookingMonth === 1 && valueMonth === 12 ? 1 : 0) -
+          (bookingMonth === 12 && valueMonth === 1 ? 1 : 0);
+        date = `${year}-${bookingDate.slice(0, 2)}-${bookingDate.slice(2, 4)}`;
+      }
+
+      const bankReference = references.split("//")[1]?.trim() ?? "";
+      const row = signedRow(rows.length + 1, String(signed), date, describe("", supplementary.trim()));
+      rows.push(bankReference && bankReference !== "NONREF" ? { ...row, externalId: bankReference } : row);
+    } else if (tag === "86" && lastTag === "61" && rows.length > 0) {
+      const { name, iban, remittance } = mt940Details(value);
+      const row = rows[rows.length - 1];
+      row.description = describe(counterparty(name, iban), remittance) || row.description;
+    }
+    lastTag = tag;
+  }
+  return { rows, balances };
+}
@@ -0,0 +1,16 @@
+// Limits the server puts on a transaction's tags
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+// Split "travel, Work" into tags the way the server stores them. Semicolons
+// separate tags too, as some spreadsheets use them.
+export function parseTagList(text: string) {
+  return [...new Set(text.split(/[,;]/).map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+// Why the server would refuse these tags, or null when it would take them
+export function checkTags(tags: string[]) {
+  if (tags.length > MAX_TAGS) return `At most ${MAX_TAGS} tags`;
+  const long = tags.find((tag) => tag.length > MAX_TAG_LENGTH);
+  return long ? `Tag "${long}" is longer than ${MAX_TAG_LENGTH} characters` : null;
+}
@@ -0,0 +1,52 @@
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+
+import type { ExportColumn } from "@/services/api";
+
+export type ExportFileFormat = "csv" | "xlsx" | "json";
+
+export const exportFormatLabels: Record<ExportFileFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (.xlsx)",
+  json: "JSON",
+};
+
+// The headers the server writes, which the upload page maps automatically
+export const exportColumnLabels: Record<ExportColumn, string> = {
+  date: "Date",
+  type: "Type",
+  amount: "Amount",
+  currency: "Currency",
+  category: "Category",
+  description: "Description",
+  account: "Account",
+  tags: "Tags",
+};
+
+export const exportColumns = Object.keys(exportColumnLabels) as ExportColumn[];
+
+export const exportFileName = (extension: ExportFileFormat) =>
+  `transactions-${format(new Date(), "yyyy-MM-dd")}.${extension}`;
+
+// Save a downloaded file through a temporary link
+export function saveFile(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Write the records of a JSON export as a single-sheet workbook, with the
+// same headers as a CSV export. Amounts stay numbers, so Excel shows them
+// with the reader's own decimal separator.
+export function saveWorkbook(records: Record<string, unknown>[], columns: ExportColumn[]) {
+  const rows = [
+    columns.map((column) => exportColumnLabels[column]),
+    ...records.map((record) => columns.map((column) => record[column] ?? "")),
+  ];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "Transactions");
+  XLSX.writeFile(workbook, exportFileName("xlsx"));
+}
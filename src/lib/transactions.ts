@@ -0,0 +1,25 @@
+import { format } from "date-fns";
+
+import { formatMoney } from "@/lib/currency";
+import type { Transaction, TransactionType } from "@/services/api";
+
+// Colours and sign used wherever a transaction amount is listed. Transfers
+// only move money between accounts, so they are shown without a sign.
+export const transactionTypeStyles: Record<TransactionType, { label: string; badge: string; amount: string; sign: string }> = {
+  income: { label: "Income", badge: "border-income text-income bg-income/5", amount: "text-income", sign: "+" },
+  expense: { label: "Expense", badge: "border-expense text-expense bg-expense/5", amount: "text-expense", sign: "" },
+  transfer: { label: "Transfer", badge: "border-primary text-primary bg-primary/5", amount: "text-primary", sign: "" },
+};
+
+// One-line summary of a transaction, e.g. for duplicate warnings
+export function describeTransaction(transaction: Transaction) {
+  const amount = formatMoney(transaction.amount, transaction.currency);
+  return `${transaction.description} on ${format(new Date(transaction.date), "MMM d, yyyy")} (${amount})`;
+}
+
+// What is left of an amount once split lines have taken their share,
+// worked out in cents so that 0.1 + 0.2 lines add up exactly
+export function splitRemainder(amount: number, lines: number[]) {
+  const cents = lines.reduce((left, line) => left - Math.round(line * 100), Math.round(amount * 100));
+  return cents / 100;
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { AlertCircle, List, Pencil, Plus, RefreshCw, Trash2, Wallet } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AccountForm } from "@/components/AccountForm";
+import { cn } from "@/lib/utils";
+import { accountTypeIcons, accountTypeLabels } from "@/lib/accounts";
+import { formatMoney } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { accountApi, Account } from "@/services/api";
+
+export default function Accounts() {
+  // undefined: dialog closed, null: creating, Account: editing
+  const [editingAccount, setEditingAccount] = useState<Account | null | undefined>(undefined);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: accountApi.getAccounts,
+    refetchOnWindowFocus: false,
+  });
+  const accounts = data?.accounts ?? [];
+  const unassigned = data?.unassigned ?? 0;
+  const baseCurrency = data?.baseCurrency;
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => accountApi.deleteAccount(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      toast({ title: "Account Deleted", description: "The account has been removed." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete account. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Accounts</h1>
+          <p className="text-muted-foreground">
+            Keep checking, savings, credit cards and cash apart
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+            Refresh
+          </Button>
+          <Button className="flex items-center gap-2" onClick={() => setEditingAccount(null)}>
+            <Plus className="h-4 w-4" />
+            New Account
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to load accounts. Please check your connection and try again.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {accounts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5" />
+              Net worth
+            </CardTitle>
+            <CardDescription>
+              {formatMoney(data?.totalBalance ?? 0, baseCurrency)} across {accounts.length} account{accounts.length !== 1 ? 's' : ''}
+              {unassigned !== 0 && ` (including ${formatMoney(unassigned, baseCurrency)} not assigned to an account)`}
+              {data && data.missingRates.length > 0 && `. Missing exchange rates for ${data.missingRates.join(", ")}.`}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+          Loading accounts...
+        </div>
+      ) : accounts.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12 text-muted-foreground">
+            No accounts yet. Add one for each bank account, card or wallet you track.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {accounts.map((account) => {
+            const Icon = accountTypeIcons[account.type];
+            return (
+              <Card key={account._id}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Icon className="h-5 w-5 text-muted-foreground" />
+                    {account.name}
+                  </CardTitle>
+                  <CardDescription>
+                    {accountTypeLabels[account.type]} • {account.transactionCount} transaction{account.transactionCount !== 1 ? 's' : ''}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className={cn("text-2xl font-bold", account.balance < 0 && "text-expense")}>
+                    {formatMoney(account.balance, account.currency)}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {account.currency} • Opening balance {formatMoney(account.openingBalance, account.currency)}
+                  </p>
+                  <div className="flex gap-2 pt-2">
+                    <Button variant="outline" size="sm" className="flex-1" onClick={() => setEditingAccount(account)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button variant="outline" size="sm" asChild>
+                      <Link to={`/transactions?account=${account._id}`}>
+                        <List className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(account._id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={editingAccount !== undefined} onOpenChange={(open) => !open && setEditingAccount(undefined)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? "Edit Account" : "New Account"}</DialogTitle>
+            <DialogDescription>
+              The balance is worked out from the opening balance and the transactions booked to the account.
+            </DialogDescription>
+          </DialogHeader>
+          {editingAccount !== undefined && (
+            <AccountForm
+              key={editingAccount?._id ?? "new"}
+              account={editingAccount ?? undefined}
+              onSuccess={() => {
+                queryClient.invalidateQueries({ queryKey: ['accounts'] });
+                setEditingAccount(undefined);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertCircle, Pencil, Plus, RefreshCw, Target, Trash2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { BudgetForm } from "@/components/BudgetForm";
+import { cn } from "@/lib/utils";
+import { periodLabels } from "@/lib/budgets";
+import { formatMoney } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { budgetApi, Budget, BudgetProgress } from "@/services/api";
+
+const statusStyles: Record<BudgetProgress["status"], { badge: string; indicator: string; label: string }> = {
+  ok: { badge: "border-income text-income bg-income/5", indicator: "bg-income", label: "On track" },
+  warning: { badge: "border-warning text-warning bg-warning/5", indicator: "bg-warning", label: "Nearing limit" },
+  over: { badge: "border-expense text-expense bg-expense/5", indicator: "bg-expense", label: "Over budget" },
+};
+
+export default function Budgets() {
+  // undefined: dialog closed, null: creating, Budget: editing
+  const [editingBudget, setEditingBudget] = useState<Budget | null | undefined>(undefined);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // Spending in every currency is converted to the base currency
+  const currency = useAuth().user?.baseCurrency;
+
+  const { data: budgets = [], isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['budgets'],
+    queryFn: budgetApi.getBudgets,
+    refetchOnWindowFocus: false,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => budgetApi.deleteBudget(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      toast({ title: "Budget Deleted", description: "The budget has been removed." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete budget. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const totalAvailable = budgets.reduce((sum, budget) => sum + budget.available, 0);
+  const totalSpent = budgets.reduce((sum, budget) => sum + budget.spent, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Budgets</h1>
+          <p className="text-muted-foreground">
+            Set spending limits per category and see how much is left
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+            Refresh
+          </Button>
+          <Button className="flex items-center gap-2" onClick={() => setEditingBudget(null)}>
+            <Plus className="h-4 w-4" />
+            New Budget
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to load budgets. Please check your connection and try again.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {budgets.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Overall
+            </CardTitle>
+            <CardDescription>
+              {formatMoney(totalSpent, currency)} spent of {formatMoney(totalAvailable, currency)} budgeted across {budgets.length} budget{budgets.length !== 1 ? 's' : ''}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Progress
+              value={Math.min(100, totalAvailable > 0 ? (totalSpent / totalAvailable) * 100 : 0)}
+              indicatorClassName={totalSpent > totalAvailable ? "bg-expense" : undefined}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+          Loading budgets...
+        </div>
+      ) : budgets.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12 text-muted-foreground">
+            No budgets yet. Create one to start tracking your spending limits.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {budgets.map((budget) => {
+            const styles = statusStyles[budget.status];
+            return (
+              <Card key={budget._id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-lg">{budget.category}</CardTitle>
+                      <CardDescription>
+                        {periodLabels[budget.period]} • {format(new Date(budget.periodStart), "MMM d")} – {format(new Date(budget.periodEnd), "MMM d, yyyy")}
+                      </CardDescription>
+                    </div>
+                    <Badge variant="outline" className={styles.badge}>
+                      {styles.label}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex items-baseline justify-between">
+                    <span className="text-2xl font-bold">{formatMoney(budget.spent, currency)}</span>
+                    <span className="text-sm text-muted-foreground">of {formatMoney(budget.available, currency)}</span>
+                  </div>
+                  <Progress value={Math.min(100, budget.percentUsed)} indicatorClassName={styles.indicator} />
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>
+                      {budget.remaining >= 0
+                        ? `${formatMoney(budget.remaining, currency)} left`
+                        : `${formatMoney(Math.abs(budget.remaining), currency)} over`}
+                    </span>
+                    {budget.carriedOver > 0 && <span>+{formatMoney(budget.carriedOver, currency)} rolled over</span>}
+                  </div>
+                  <div className="flex gap-2 pt-2">
+                    <Button variant="outline" size="sm" className="flex-1" onClick={() => setEditingBudget(budget)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(budget._id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={editingBudget !== undefined} onOpenChange={(open) => !open && setEditingBudget(undefined)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingBudget ? "Edit Budget" : "New Budget"}</DialogTitle>
+            <DialogDescription>
+              Choose a category, how often the budget resets and how much you plan to spend.
+            </DialogDescription>
+          </DialogHeader>
+          {editingBudget !== undefined && (
+            <BudgetForm
+              key={editingBudget?._id ?? "new"}
+              budget={editingBudget ?? undefined}
+              onSuccess={() => {
+                queryClient.invalidateQueries({ queryKey: ['budgets'] });
+                setEditingBudget(undefined);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
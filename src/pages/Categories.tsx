@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { AlertCircle, GitMerge, List, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CategoryForm } from "@/components/CategoryForm";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { cn } from "@/lib/utils";
+import { categoryTypeLabels, orderCategories, withSubcategories } from "@/lib/categories";
+import { useToast } from "@/hooks/use-toast";
+import { categoryApi, Category } from "@/services/api";
+
+export default function Categories() {
+  // undefined: dialog closed, null: creating, Category: editing
+  const [editingCategory, setEditingCategory] = useState<Category | null | undefined>(undefined);
+  const [mergingCategory, setMergingCategory] = useState<Category | null>(null);
+  const [mergeTarget, setMergeTarget] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: categories = [], isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['categories'],
+    queryFn: categoryApi.getCategories,
+    refetchOnWindowFocus: false,
+  });
+
+  // Renames and merges rewrite transactions, budgets and recurring rules
+  const refreshAffected = () => {
+    queryClient.invalidateQueries({ queryKey: ['categories'] });
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    queryClient.invalidateQueries({ queryKey: ['recurring-rules'] });
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => categoryApi.deleteCategory(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+      toast({ title: "Category Deleted", description: "The category has been removed." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete category. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ id, targetId }: { id: string; targetId: string }) => categoryApi.mergeCategory(id, targetId),
+    onSuccess: (result) => {
+      refreshAffected();
+      setMergingCategory(null);
+      toast({
+        title: "Categories Merged",
+        description: `${result.merged} transaction${result.merged !== 1 ? "s were" : " was"} moved.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to merge categories. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const ordered = orderCategories(categories);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Categories</h1>
+          <p className="text-muted-foreground">
+            Organise income and spending into categories and subcategories
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+            Refresh
+          </Button>
+          <Button className="flex items-center gap-2" onClick={() => setEditingCategory(null)}>
+            <Plus className="h-4 w-4" />
+            New Category
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to load categories. Please check your connection and try again.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+          Loading categories...
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="divide-y p-0">
+            {ordered.map(({ category, depth }) => (
+              <div key={category._id} className="flex items-center gap-3 px-4 py-3">
+                <CategoryLabel category={category} depth={depth} className="flex-1 min-w-0 font-medium" />
+                <Badge variant="outline" className="hidden sm:inline-flex">
+                  {categoryTypeLabels[category.type]}
+                </Badge>
+                <span className="w-28 text-right text-sm text-muted-foreground">
+                  {category.transactionCount} transaction{category.transactionCount !== 1 ? "s" : ""}
+                </span>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => setEditingCategory(category)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link to={`/transactions?${new URLSearchParams(withSubcategories(categories, category.name).map((name) => ["category", name]))}`}>
+                      <List className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setMergeTarget("");
+                      setMergingCategory(category);
+                    }}
+                  >
+                    <GitMerge className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(category._id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={editingCategory !== undefined} onOpenChange={(open) => !open && setEditingCategory(undefined)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingCategory ? "Edit Category" : "New Category"}</DialogTitle>
+            <DialogDescription>
+              The colour is used for this category everywhere, including the dashboard chart.
+            </DialogDescription>
+          </DialogHeader>
+          {editingCategory !== undefined && (
+            <CategoryForm
+              key={editingCategory?._id ?? "new"}
+              category={editingCategory ?? undefined}
+              categories={categories}
+              onSuccess={() => {
+                refreshAffected();
+                setEditingCategory(undefined);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={mergingCategory !== null} onOpenChange={(open) => !open && setMergingCategory(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge "{mergingCategory?.name}"</DialogTitle>
+            <DialogDescription>
+              Its transactions, budgets, recurring rules and subcategories move to the category you pick,
+              then it is deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={mergeTarget} onValueChange={setMergeTarget}>
+            <SelectTrigger>
+              <SelectValue placeholder="Merge into..." />
+            </SelectTrigger>
+            <SelectContent>
+              {ordered
+                .filter(({ category }) => category._id !== mergingCategory?._id)
+                // Only categories its transactions still fit
+                .filter(({ category }) => category.type === "both" || category.type === mergingCategory?.type)
+                .map(({ category, depth }) => (
+                  <SelectItem key={category._id} value={category._id}>
+                    <CategoryLabel category={category} depth={depth} />
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergingCategory(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!mergeTarget || mergeMutation.isPending}
+              onClick={() => mergingCategory && mergeMutation.mutate({ id: mergingCategory._id, targetId: mergeTarget })}
+            >
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertCircle, Coins, FileUp, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ExchangeRateForm } from "@/components/ExchangeRateForm";
+import { cn } from "@/lib/utils";
+import { currencyCodes, DEFAULT_CURRENCY } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { authApi, exchangeRateApi, ExchangeRateImportResult } from "@/services/api";
+
+export default function Currencies() {
+  const [isAdding, setIsAdding] = useState(false);
+  const [csv, setCsv] = useState("");
+  const [importResult, setImportResult] = useState<ExchangeRateImportResult | null>(null);
+  const { user, updateUser } = useAuth();
+  const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: rates = [], isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['exchange-rates'],
+    queryFn: exchangeRateApi.getRates,
+    refetchOnWindowFocus: false,
+  });
+
+  // Totals, balances and budgets all depend on the rates and the base currency
+  const refreshReports = () => {
+    queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+    queryClient.invalidateQueries({ queryKey: ['accounts'] });
+    queryClient.invalidateQueries({ queryKey: ['budgets'] });
+  };
+
+  const baseCurrencyMutation = useMutation({
+    mutationFn: (code: string) => authApi.updateMe({ baseCurrency: code }),
+    onSuccess: (updated) => {
+      updateUser(updated);
+      refreshReports();
+      toast({ title: "Base Currency Updated", description: `Reports are now shown in ${updated.baseCurrency}.` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update base currency. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (text: string) => exchangeRateApi.importRates(text),
+    onSuccess: (result) => {
+      setImportResult(result);
+      refreshReports();
+      if (result.errors.length === 0) setCsv("");
+      toast({
+        title: "Import Complete",
+        description: `${result.imported} rate${result.imported !== 1 ? "s" : ""} imported, ${result.errors.length} skipped.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import exchange rates. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => exchangeRateApi.deleteRate(id),
+    onSuccess: () => {
+      refreshReports();
+      toast({ title: "Exchange Rate Deleted", description: "The rate has been removed." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete exchange rate. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsv(await file.text());
+    setImportResult(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Currencies</h1>
+          <p className="text-muted-foreground">
+            Pick the currency reports are shown in and keep exchange rates up to date
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+            Refresh
+          </Button>
+          <Button className="flex items-center gap-2" onClick={() => setIsAdding(true)}>
+            <Plus className="h-4 w-4" />
+            New Rate
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to load exchange rates. Please check your connection and try again.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Coins className="h-5 w-5" />
+              Base currency
+            </CardTitle>
+            <CardDescription>
+              Totals, the dashboard and budgets are converted to this currency using the rate of each transaction's day.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Select
+              value={baseCurrency}
+              onValueChange={(code) => baseCurrencyMutation.mutate(code)}
+              disabled={baseCurrencyMutation.isPending}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...new Set([baseCurrency, ...currencyCodes])].map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileUp className="h-5 w-5" />
+              Import historical rates
+            </CardTitle>
+            <CardDescription>
+              CSV with date, from, to and rate columns, e.g. <code>2024-03-01,EUR,USD,1.08</code>. Rates for a day
+              that already has one replace it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input type="file" accept=".csv,text/csv,text/plain" onChange={(event) => loadFile(event.target.files?.[0])} />
+            <Textarea
+              placeholder={"date,from,to,rate\n2024-03-01,EUR,USD,1.08"}
+              className="min-h-[100px] font-mono text-sm"
+              value={csv}
+              onChange={(event) => {
+                setCsv(event.target.value);
+                setImportResult(null);
+              }}
+            />
+            {importResult && importResult.errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="space-y-0.5">
+                    {importResult.errors.slice(0, 5).map((item) => (
+                      <li key={item.line}>Line {item.line}: {item.error}</li>
+                    ))}
+                  </ul>
+                  {importResult.errors.length > 5 && <p>...and {importResult.errors.length - 5} more</p>}
+                </AlertDescription>
+              </Alert>
+            )}
+            <Button
+              className="w-full"
+              disabled={!csv.trim() || importMutation.isPending}
+              onClick={() => importMutation.mutate(csv)}
+            >
+              {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Import Rates
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exchange rates</CardTitle>
+          <CardDescription>
+            Each rate applies from its day until a newer one; the inverse direction is worked out automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+              Loading exchange rates...
+            </div>
+          ) : rates.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              No exchange rates yet. Add one for every currency you use besides {baseCurrency}.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Pair</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate._id}>
+                    <TableCell>{format(new Date(rate.date), "MMM d, yyyy")}</TableCell>
+                    <TableCell>1 {rate.from} = {rate.to}</TableCell>
+                    <TableCell className="text-right font-mono">{rate.rate}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(rate._id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isAdding} onOpenChange={setIsAdding}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Exchange Rate</DialogTitle>
+            <DialogDescription>
+              A rate for a pair and day that already has one replaces it.
+            </DialogDescription>
+          </DialogHeader>
+          {isAdding && (
+            <ExchangeRateForm
+              defaultTo={baseCurrency}
+              onSuccess={() => {
+                refreshReports();
+                setIsAdding(false);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,80 +1,220 @@
 import { useState, useEffect } from "react";
-import { TrendingUp, TrendingDown, DollarSign, PieChart } from "lucide-react";
+import { Link } from "react-router-dom";
+import { TrendingUp, TrendingDown, DollarSign, PieChart, AlertCircle } from "lucide-react";
 import { StatCard } from "@/components/StatCard";
+import { CategoryLabel } from "@/components/CategoryLabel";
+import { ReportRangePicker } from "@/components/ReportRangePicker";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart as RechartsPieChart, Pie, Cell } from "recharts";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { cn } from "@/lib/utils";
+import { accountTypeIcons, accountTypeLabels } from "@/lib/accounts";
+import { formatMoney } from "@/lib/currency";
+import { transactionTypeStyles } from "@/lib/transactions";
+import { comparisonLabels, describeReportRange, formatChange } from "@/lib/reports";
+import {
+  API_BASE_URL,
+  authFetch,
+  transactionApi,
+  AccountSummary,
+  CategoryBreakdown,
+  MonthlyOverview,
+  ReportQuery,
+  TagBreakdown,
+  TransactionStats
+} from "@/services/api";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart as RechartsPieChart, Pie, Cell, LabelList } from "recharts";
 
 export default function Dashboard() {
-  const [monthlyData, setMonthlyData] = useState([]);
-  const [categoryData, setCategoryData] = useState([]);
+  const [reportQuery, setReportQuery] = useState<ReportQuery>({ range: "this-month" });
+  const [monthlyData, setMonthlyData] = useState<MonthlyOverview[]>([]);
+  const [categoryData, setCategoryData] = useState<CategoryBreakdown[]>([]);
+  const [tagData, setTagData] = useState<TagBreakdown[]>([]);
   const [recentTransactions, setRecentTransactions] = useState([]);
-  const [stats, setStats] = useState({
+  const [accountSummary, setAccountSummary] = useState<AccountSummary>({
+    accounts: [],
+    unassigned: 0,
+    totalBalance: 0,
+    baseCurrency: "USD",
+    missingRates: []
+  });
+  const [stats, setStats] = useState<TransactionStats>({
     totalBalance: "0.00",
-    monthlyIncome: "0.00",
-    monthlyExpenses: "0.00",
-    savingsRate: "0.0"
+    income: "0.00",
+    expenses: "0.00",
+    savingsRate: "0.0",
+    changes: null,
+    range: null,
+    comparison: null,
+    baseCurrency: "USD",
+    missingRates: []
   });
 
+  // The stat cards and all the charts cover the same range
   useEffect(() => {
+    // A custom range waits until both ends are picked
+    if (reportQuery.range === "custom" && (!reportQuery.from || !reportQuery.to)) return;
+
     // Fetch monthly overview
-    fetch('http://localhost:3001/api/monthly-overview')
-      .then(res => res.json())
+    transactionApi.getMonthlyOverview(reportQuery)
       .then(data => setMonthlyData(data))
       .catch(err => console.error('Error fetching monthly data:', err));
 
     // Fetch category breakdown
-    fetch('http://localhost:3001/api/category-breakdown')
-      .then(res => res.json())
+    transactionApi.getCategoryBreakdown(reportQuery)
       .then(data => setCategoryData(data))
       .catch(err => console.error('Error fetching category data:', err));
 
+    // Fetch spending per tag
+    transactionApi.getTagBreakdown(reportQuery)
+      .then(data => setTagData(data))
+      .catch(err => console.error('Error fetching tag data:', err));
+
+    // Fetch stats
+    transactionApi.getStats(reportQuery)
+      .then(data => setStats(data))
+      .catch(err => console.error('Error fetching stats:', err));
+  }, [reportQuery]);
+
+  useEffect(() => {
     // Fetch recent transactions
-    fetch('http://localhost:3001/api/transactions')
+    authFetch(`${API_BASE_URL}/transactions?limit=10`)
       .then(res => res.json())
-      .then(data => setRecentTransactions(data))
+      .then(data => setRecentTransactions(data.items))
       .catch(err => console.error('Error fetching transactions:', err));
 
-    // Fetch stats
-    fetch('http://localhost:3001/api/stats')
+    // Fetch per-account balances
+    authFetch(`${API_BASE_URL}/accounts`)
       .then(res => res.json())
-      .then(data => setStats(data))
-      .catch(err => console.error('Error fetching stats:', err));
+      .then(data => setAccountSummary(data))
+      .catch(err => console.error('Error fetching accounts:', err));
   }, []);
 
+  const rangeDescription = describeReportRange(reportQuery);
+  const changeLabel = comparisonLabels[reportQuery.range ?? "this-month"];
+  const topCategories = [...categoryData].sort((a, b) => b.value - a.value);
+  // Tags come biggest first
+  const topTags = tagData.slice(0, 10);
+  // Ranges spanning several years label each month with its year
+  const spansYears = new Set(monthlyData.map((item) => item.year)).size > 1;
+  const chartData = monthlyData.map((item) => ({
+    ...item,
+    label: spansYears ? `${item.month} '${String(item.year).slice(2)}` : item.month,
+  }));
+
   return (
     <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Dashboard</h1>
+          <p className="text-muted-foreground">
+            Your finances for {rangeDescription}
+          </p>
+        </div>
+        <ReportRangePicker value={reportQuery} onChange={setReportQuery} />
+      </div>
+
+      {stats.missingRates.length > 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No exchange rate for {stats.missingRates.join(", ")}, so those amounts are left out of the totals.{" "}
+            <Link to="/currencies" className="underline">Add exchange rates</Link>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Stats Overview */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <StatCard
           title="Total Balance"
-          value={`$${stats.totalBalance}`}
-          change="+12.5%"
+          value={formatMoney(Number(stats.totalBalance), stats.baseCurrency)}
+          change={stats.changes?.totalBalance}
+          changeLabel={changeLabel}
           icon={DollarSign}
           variant="default"
         />
         <StatCard
-          title="Monthly Income"
-          value={`$${stats.monthlyIncome}`}
-          change="+8.2%"
+          title="Income"
+          value={formatMoney(Number(stats.income), stats.baseCurrency)}
+          change={stats.changes?.income}
+          changeLabel={changeLabel}
           icon={TrendingUp}
           variant="income"
         />
         <StatCard
-          title="Monthly Expenses"
-          value={`$${stats.monthlyExpenses}`}
-          change="-2.4%"
+          title="Expenses"
+          value={formatMoney(Number(stats.expenses), stats.baseCurrency)}
+          change={stats.changes?.expenses}
+          changeLabel={changeLabel}
+          invertChange
           icon={TrendingDown}
           variant="expense"
         />
         <StatCard
           title="Savings Rate"
           value={`${stats.savingsRate}%`}
-          change="+5.1%"
+          change={stats.changes?.savingsRate}
+          changeUnit=" pts"
+          changeLabel={changeLabel}
           icon={PieChart}
           variant="default"
         />
       </div>
 
+      {/* Account Balances */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Accounts</CardTitle>
+            <CardDescription>
+              Current balance of each account
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/accounts">Manage</Link>
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {accountSummary.accounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Add your checking, savings, credit card and cash accounts to see a balance for each.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {accountSummary.accounts.map((account) => {
+                const Icon = accountTypeIcons[account.type];
+                return (
+                  <Link
+                    key={account._id}
+                    to={`/transactions?account=${account._id}`}
+                    className="flex items-center gap-3 p-4 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
+                  >
+                    <Icon className="h-5 w-5 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{account.name}</p>
+                      <p className="text-xs text-muted-foreground">{accountTypeLabels[account.type]}</p>
+                    </div>
+                    <span className={cn("font-semibold", account.balance < 0 && "text-expense")}>
+                      {formatMoney(account.balance, account.currency)}
+                    </span>
+                  </Link>
+                );
+              })}
+              {accountSummary.unassigned !== 0 && (
+                <div className="flex items-center gap-3 p-4 rounded-lg border border-dashed">
+                  <div className="flex-1">
+                    <p className="font-medium">No account</p>
+                    <p className="text-xs text-muted-foreground">Transactions without an account</p>
+                  </div>
+                  <span className="font-semibold">{formatMoney(accountSummary.unassigned, accountSummary.baseCurrency)}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Monthly Overview Chart */}
@@ -82,14 +222,14 @@ export default function Dashboard() {
           <CardHeader>
             <CardTitle>Monthly Overview</CardTitle>
             <CardDescription>
-              Income vs Expenses for the last 6 months
+              Income vs Expenses by month, {rangeDescription}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={monthlyData}>
+              <BarChart data={chartData}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="month" />
+                <XAxis dataKey="label" />
                 <YAxis />
                 <Tooltip />
                 <Bar dataKey="income" fill="hsl(var(--income))" name="Income" />
@@ -104,7 +244,7 @@ export default function Dashboard() {
           <CardHeader>
             <CardTitle>Expense Categories</CardTitle>
             <CardDescription>
-              Breakdown of your spending by category this month
+              Breakdown of your spending by category, {rangeDescription}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -126,10 +266,56 @@ export default function Dashboard() {
                 <Tooltip />
               </RechartsPieChart>
             </ResponsiveContainer>
+            {topCategories.length > 0 && (
+              <div className="space-y-2 mt-4">
+                {topCategories.slice(0, 5).map((category) => (
+                  <div key={category.name} className="flex items-center gap-3 text-sm">
+                    <CategoryLabel category={category} className="flex-1 min-w-0" />
+                    <span className="font-medium">{formatMoney(category.value, stats.baseCurrency)}</span>
+                    {category.change !== undefined && category.change !== null && (
+                      <span className={cn("w-16 text-right text-xs", category.change > 0 ? "text-expense" : "text-income")}>
+                        {formatChange(category.change)}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
 
+      {/* Spending by Tag Chart */}
+      {tagData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Spending by Tag</CardTitle>
+            <CardDescription>
+              Expenses carrying each tag, {rangeDescription}. A transaction with several tags counts under each.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={Math.max(120, topTags.length * 36)}>
+              <BarChart data={topTags} layout="vertical" margin={{ left: 24 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                <XAxis type="number" />
+                <YAxis type="category" dataKey="tag" width={120} />
+                <Tooltip formatter={(value: number) => formatMoney(value, stats.baseCurrency)} />
+                <Bar dataKey="value" fill="hsl(var(--expense))" name="Spent">
+                  <LabelList
+                    dataKey="change"
+                    position="right"
+                    className="fill-muted-foreground text-xs"
+                    formatter={(change: number | null | undefined) =>
+                      change === undefined || change === null ? "" : formatChange(change)}
+                  />
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Transactions */}
       <Card>
         <CardHeader>
@@ -148,10 +334,8 @@ export default function Dashboard() {
                     {transaction.category} • {new Date(transaction.date).toLocaleDateString()}
                   </p>
                 </div>
-                <div className={`font-semibold ${
-                  transaction.type === "income" ? "text-income" : "text-expense"
-                }`}>
-                  {transaction.type === "income" ? "+" : ""}${transaction.amount.toFixed(2)}
+                <div className={`font-semibold ${transactionTypeStyles[transaction.type].amount}`}>
+                  {transactionTypeStyles[transaction.type].sign}{formatMoney(transaction.amount, transaction.currency)}
                 </div>
               </div>
             ))}
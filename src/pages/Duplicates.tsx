@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { AlertCircle, CopyCheck, Loader2, RefreshCw, Save, SlidersHorizontal, Trash2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { getAccountName } from "@/lib/accounts";
+import { formatMoney } from "@/lib/currency";
+import { transactionTypeStyles } from "@/lib/transactions";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { accountApi, authApi, duplicateApi, transactionApi, DuplicateTolerance } from "@/services/api";
+
+// A group is identified by its transactions, so it stays dismissed after a refetch
+const groupKey = (ids: string[]) => ids.join(":");
+
+export default function Duplicates() {
+  const { user, updateUser } = useAuth();
+  const [tolerance, setTolerance] = useState({ days: "2", amount: "0" });
+  // Groups the user said are not duplicates, for this visit
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user) {
+      setTolerance({ days: String(user.duplicateTolerance.days), amount: String(user.duplicateTolerance.amount) });
+    }
+  }, [user]);
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['duplicates'],
+    queryFn: duplicateApi.getDuplicates,
+    refetchOnWindowFocus: false,
+  });
+  const { data: accountData } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: accountApi.getAccounts,
+    refetchOnWindowFocus: false,
+  });
+  const accounts = accountData?.accounts ?? [];
+
+  const groups = (data?.groups ?? []).filter(
+    (group) => !dismissed.has(groupKey(group.map((transaction) => transaction._id)))
+  );
+
+  const toleranceMutation = useMutation({
+    mutationFn: (duplicateTolerance: DuplicateTolerance) => authApi.updateMe({ duplicateTolerance }),
+    onSuccess: (updated) => {
+      updateUser(updated);
+      queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+      toast({ title: "Tolerance Saved", description: "Duplicates are now matched with the new tolerance." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save tolerance. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => transactionApi.deleteTransaction(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      toast({ title: "Transaction Deleted", description: "The duplicate has been removed." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete transaction. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveTolerance = () => {
+    toleranceMutation.mutate({ days: parseInt(tolerance.days, 10), amount: parseFloat(tolerance.amount) });
+  };
+
+  const dismiss = (ids: string[]) => setDismissed((current) => new Set(current).add(groupKey(ids)));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Duplicates</h1>
+          <p className="text-muted-foreground">
+            Find transactions that were recorded more than once and remove the extra copies
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          className="flex items-center gap-2"
+        >
+          <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to look for duplicates. Please check your connection and try again.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Matching tolerance
+          </CardTitle>
+          <CardDescription>
+            Transactions of the same type and account with similar descriptions are flagged when their dates and
+            amounts are this close. The same tolerance is used when importing and adding transactions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tolerance-days">Days apart</Label>
+              <Input
+                id="tolerance-days"
+                type="number"
+                min={0}
+                max={31}
+                className="sm:w-32"
+                value={tolerance.days}
+                onChange={(e) => setTolerance((current) => ({ ...current, days: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tolerance-amount">Amount difference</Label>
+              <Input
+                id="tolerance-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                className="sm:w-32"
+                value={tolerance.amount}
+                onChange={(e) => setTolerance((current) => ({ ...current, amount: e.target.value }))}
+              />
+            </div>
+            <Button onClick={saveTolerance} disabled={toleranceMutation.isPending}>
+              {toleranceMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+          Looking for duplicates...
+        </div>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12 text-muted-foreground">
+            <CopyCheck className="h-8 w-8 mx-auto mb-3" />
+            No likely duplicates found.
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map((group) => {
+          const ids = group.map((transaction) => transaction._id);
+          return (
+            <Card key={groupKey(ids)}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="text-base">{group[0].description}</CardTitle>
+                  <CardDescription>{group.length} similar transactions</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => dismiss(ids)}>
+                  Not Duplicates
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Account</TableHead>
+                      <TableHead>Added</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="w-12" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.map((transaction) => (
+                      <TableRow key={transaction._id}>
+                        <TableCell>{format(new Date(transaction.date), "MMM d, yyyy")}</TableCell>
+                        <TableCell className="max-w-[240px] truncate">{transaction.description}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{transaction.category}</Badge>
+                        </TableCell>
+                        <TableCell>{getAccountName(accounts, transaction.accountId)}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {format(new Date(transaction.createdAt), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell className={cn("text-right font-medium", transactionTypeStyles[transaction.type].amount)}>
+                          {transactionTypeStyles[transaction.type].sign}{formatMoney(transaction.amount, transaction.currency)}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => deleteMutation.mutate(transaction._id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
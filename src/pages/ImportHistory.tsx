@@ -0,0 +1,197 @@
+import { format } from "date-fns";
+import { AlertCircle, FileSpreadsheet, History, RefreshCw, Undo2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { getAccountName } from "@/lib/accounts";
+import { useToast } from "@/hooks/use-toast";
+import { accountApi, importBatchApi } from "@/services/api";
+
+export default function ImportHistory() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: batches = [], isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['import-batches'],
+    queryFn: importBatchApi.getBatches,
+    refetchOnWindowFocus: false,
+  });
+  const { data: accountData } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: accountApi.getAccounts,
+    refetchOnWindowFocus: false,
+  });
+  const accounts = accountData?.accounts ?? [];
+
+  const revertMutation = useMutation({
+    mutationFn: (id: string) => importBatchApi.revertBatch(id),
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+      toast({
+        title: "Import Reverted",
+        description: `${batch.removed} transaction${batch.removed !== 1 ? "s were" : " was"} removed.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revert import. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Import History</h1>
+          <p className="text-muted-foreground">
+            Every spreadsheet upload, with the option to undo one that went wrong
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          className="flex items-center gap-2"
+        >
+          <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to load import history. Please check your connection and try again.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Imports
+          </CardTitle>
+          <CardDescription>
+            Reverting an import deletes every transaction it created, including ones edited since, and lets its
+            files be imported again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+              Loading import history...
+            </div>
+          ) : batches.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              Nothing has been imported yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Imported</TableHead>
+                  <TableHead>Files</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Transactions</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch._id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(batch.createdAt), "MMM d, yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell>
+                      {batch.files.length === 0 ? (
+                        <span className="text-muted-foreground">No file name</span>
+                      ) : (
+                        <div className="space-y-1">
+                          {batch.files.map((file, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                              <FileSpreadsheet className="h-4 w-4 text-muted-foreground shrink-0" />
+                              <span className="truncate max-w-[240px]" title={file.fingerprint ?? undefined}>
+                                {file.name}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{getAccountName(accounts, batch.accountId)}</TableCell>
+                    <TableCell className="text-right">
+                      {batch.transactionCount} of {batch.rowCount}
+                    </TableCell>
+                    <TableCell>
+                      {batch.revertedAt ? (
+                        <Badge variant="outline" className="text-muted-foreground">
+                          Reverted {format(new Date(batch.revertedAt), "MMM d, yyyy")}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="border-success text-success">
+                          {batch.atomic ? "Imported (all or nothing)" : "Imported"}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {!batch.revertedAt && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" disabled={revertMutation.isPending} title="Revert this import">
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Revert this import?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The {batch.transactionCount} transaction{batch.transactionCount !== 1 ? "s" : ""} it
+                                created will be permanently deleted. This cannot be undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => revertMutation.mutate(batch._id)}>
+                                Revert
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { AlertCircle, List, Loader2, Pencil, Plus, RefreshCw, Trash2, Wand2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PayeeForm } from "@/components/PayeeForm";
+import { ReportRangePicker } from "@/components/ReportRangePicker";
+import { cn } from "@/lib/utils";
+import { categoryColors } from "@/lib/categories";
+import { formatMoney } from "@/lib/currency";
+import { describeReportRange } from "@/lib/reports";
+import { useToast } from "@/hooks/use-toast";
+import { payeeApi, Payee, PayeeTotals, ReportQuery } from "@/services/api";
+
+// Payees drawn in the spending chart, biggest first
+const CHART_PAYEES = 5;
+
+export default function Merchants() {
+  const [reportQuery, setReportQuery] = useState<ReportQuery>({ range: "last-12-months" });
+  // undefined: dialog closed, null: creating, Payee: editing
+  const [editingPayee, setEditingPayee] = useState<Payee | null | undefined>(undefined);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: payees = [], isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['payees'],
+    queryFn: payeeApi.getPayees,
+    refetchOnWindowFocus: false,
+  });
+
+  // A custom range waits until both ends are picked
+  const { data: spending } = useQuery({
+    queryKey: ['payee-spending', reportQuery],
+    queryFn: () => payeeApi.getSpending(reportQuery),
+    enabled: reportQuery.range !== "custom" || Boolean(reportQuery.from && reportQuery.to),
+    refetchOnWindowFocus: false,
+  });
+
+  const refreshPayees = () => {
+    queryClient.invalidateQueries({ queryKey: ['payees'] });
+    queryClient.invalidateQueries({ queryKey: ['payee-spending'] });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => payeeApi.deletePayee(id),
+    onSuccess: () => {
+      refreshPayees();
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      toast({ title: "Payee Deleted", description: "Its transactions are kept without a payee." });
+    },
+    onError: onError("Failed to delete payee. Please try again."),
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: payeeApi.applyPayees,
+    onSuccess: (result) => {
+      refreshPayees();
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      toast({
+        title: "Transactions Matched",
+        description: `${result.matched} of ${result.scanned} transaction${result.scanned !== 1 ? "s were" : " was"} given a payee.`,
+      });
+    },
+    onError: onError("Failed to match transactions. Please try again."),
+  });
+
+  const baseCurrency = spending?.baseCurrency ?? "USD";
+  const months = spending?.months ?? [];
+  const totalsById = new Map((spending?.payees ?? []).map((entry) => [entry.payeeId, entry]));
+  // Payees spent with in the range first, biggest first, then the rest by name
+  const rows = [
+    ...(spending?.payees ?? []).flatMap((entry) => {
+      const payee = payees.find((item) => item._id === entry.payeeId);
+      return payee ? [payee] : [];
+    }),
+    ...payees.filter((payee) => !totalsById.has(payee._id)),
+  ];
+
+  const chartPayees = (spending?.payees ?? []).slice(0, CHART_PAYEES);
+  const chartData = months.map(({ year, month }, index) => ({
+    label: format(new Date(year, month - 1, 1), "MMM yy"),
+    ...Object.fromEntries(chartPayees.map((entry) => [entry.name, entry.monthly[index]])),
+  }));
+
+  const perMonth = (totals: PayeeTotals) =>
+    months.length > 0 ? (totals.count / months.length).toFixed(1) : "0";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Merchants</h1>
+          <p className="text-muted-foreground">
+            Group the many spellings of a merchant under one payee and see what you spend with each
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+            Refresh
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => applyMutation.mutate()}
+            disabled={applyMutation.isPending || payees.length === 0}
+            className="flex items-center gap-2"
+          >
+            {applyMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+            Match Existing Transactions
+          </Button>
+          <Button className="flex items-center gap-2" onClick={() => setEditingPayee(null)}>
+            <Plus className="h-4 w-4" />
+            New Payee
+          </Button>
+        </div>
+      </div>
+
+      <ReportRangePicker value={reportQuery} onChange={setReportQuery} />
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to load payees. Please check your connection and try again.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {chartPayees.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Spending Over Time</CardTitle>
+            <CardDescription>
+              Monthly spending with your top {chartPayees.length} payee{chartPayees.length !== 1 ? "s" : ""},{" "}
+              {describeReportRange(reportQuery)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis />
+                <Tooltip formatter={(value: number) => formatMoney(value, baseCurrency)} />
+                <Legend />
+                {chartPayees.map((entry, index) => (
+                  <Line
+                    key={entry.payeeId}
+                    type="monotone"
+                    dataKey={entry.name}
+                    stroke={categoryColors[index % categoryColors.length]}
+                    strokeWidth={2}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+          Loading payees...
+        </div>
+      ) : payees.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No payees yet. Add one to group descriptions like "AMZN Mktp US*2K4" and "Amazon.com" as Amazon.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Payees</CardTitle>
+            <CardDescription>
+              Expenses per payee, {describeReportRange(reportQuery)}, in {baseCurrency}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Payee</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Transactions</TableHead>
+                  <TableHead className="text-right">Per month</TableHead>
+                  <TableHead className="text-right">Average ticket</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((payee) => {
+                  const totals = totalsById.get(payee._id);
+                  return (
+                    <TableRow key={payee._id} className={cn(!totals && "text-muted-foreground")}>
+                      <TableCell className="max-w-[240px]">
+                        <p className="font-medium truncate">{payee.name}</p>
+                        {(payee.aliases.length > 0 || payee.patterns.length > 0) && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            {[...payee.aliases, ...payee.patterns.map((pattern) => `/${pattern}/`)].join(", ")}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{formatMoney(totals?.total ?? 0, baseCurrency)}</TableCell>
+                      <TableCell className="text-right">{totals?.count ?? 0}</TableCell>
+                      <TableCell className="text-right">{totals ? perMonth(totals) : "–"}</TableCell>
+                      <TableCell className="text-right">{totals ? formatMoney(totals.average, baseCurrency) : "–"}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" asChild title="Transactions">
+                            <Link to={`/transactions?payee=${payee._id}`}>
+                              <List className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                          <Button variant="ghost" size="sm" title="Edit" onClick={() => setEditingPayee(payee)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Delete"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => deleteMutation.mutate(payee._id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {spending?.unassigned && (
+                  <TableRow className="text-muted-foreground">
+                    <TableCell className="italic">No payee</TableCell>
+                    <TableCell className="text-right">{formatMoney(spending.unassigned.total, baseCurrency)}</TableCell>
+                    <TableCell className="text-right">{spending.unassigned.count}</TableCell>
+                    <TableCell className="text-right">{perMonth(spending.unassigned)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(spending.unassigned.average, baseCurrency)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={editingPayee !== undefined} onOpenChange={(open) => !open && setEditingPayee(undefined)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPayee ? "Edit Payee" : "New Payee"}</DialogTitle>
+            <DialogDescription>
+              New and imported transactions whose description matches the name, an alias or a pattern get this payee.
+            </DialogDescription>
+          </DialogHeader>
+          {editingPayee !== undefined && (
+            <PayeeForm
+              key={editingPayee?._id ?? "new"}
+              payee={editingPayee ?? undefined}
+              onSuccess={() => {
+                refreshPayees();
+                setEditingPayee(undefined);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,118 +1,218 @@
 import { useState, useCallback } from "react";
 import { useDropzone } from "react-dropzone";
-import { Upload, FileSpreadsheet, CheckCircle, AlertCircle, Loader2, Database } from "lucide-react";
-import * as XLSX from 'xlsx';
+import { Upload, FileSpreadsheet, CheckCircle, AlertCircle, Loader2, Database, Columns3, Trash2 } from "lucide-react";
+import type { WorkBook } from "xlsx";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ColumnMappingWizard } from "@/components/ColumnMappingWizard";
+import { ImportStagingGrid } from "@/components/ImportStagingGrid";
+import { ReceiptScanner } from "@/components/ReceiptScanner";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-
-interface ExcelTransaction {
-  type: string;
-  amount: number;
-  category: string;
-  date: string;
-  description: string;
+import { NO_ACCOUNT } from "@/lib/accounts";
+import {
+  amountModeLabels,
+  applyMapping,
+  applyRuleMatches,
+  fileFingerprint,
+  findProfile,
+  getSheetRows,
+  getStagedRowProblems,
+  guessMapping,
+  markDuplicates,
+  matchCategory,
+  profileMapping,
+  readWorkbook,
+  validateImportedRow,
+  StagedRow,
+} from "@/lib/importMapping";
+import { formatMoney } from "@/lib/currency";
+import { isReconciled, readStatement, statementFormat, statementFormatLabels, ParsedStatement } from "@/lib/statementImport";
+import {
+  API_BASE_URL,
+  accountApi,
+  authFetch,
+  categoryApi,
+  categoryRuleApi,
+  duplicateApi,
+  importProfileApi,
+  CategorySuggestion,
+  ColumnMapping,
+  RuleMatch,
+  Transaction,
+} from "@/services/api";
+
+interface UploadedFile {
+  file: File;
+  // SHA-256 of the contents, to recognise files imported before
+  fingerprint: string;
+  // Spreadsheets need their columns mapped; bank statements are read
+  // straight away and have no workbook
+  workbook: WorkBook | null;
+  statement: ParsedStatement | null;
+  // null until the columns have been mapped
+  mapping: ColumnMapping | null;
+  // Saved profile the mapping came from or was saved as
+  profileName: string | null;
 }
 
-interface ProcessedData {
-  success: ExcelTransaction[];
-  errors: Array<{ row: number; error: string; data: any }>;
-}
+const needsMapping = (item: UploadedFile) => item.workbook !== null && !item.mapping;
 
 export default function ReceiptUpload() {
-  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
-  const [processedData, setProcessedData] = useState<ProcessedData | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  // Index of the file whose columns are being mapped
+  const [mappingIndex, setMappingIndex] = useState<number | null>(null);
+  // Every parsed row, waiting for review in the staging grid
+  const [stagedRows, setStagedRows] = useState<StagedRow[] | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
+  const [importAccount, setImportAccount] = useState(NO_ACCOUNT);
+  // Save every submitted row or, if the server refuses any, none of them
+  const [allOrNothing, setAllOrNothing] = useState(true);
+  const queryClient = useQueryClient();
+
+  const { data: accountData } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: accountApi.getAccounts,
+    refetchOnWindowFocus: false,
+  });
+  const accounts = accountData?.accounts ?? [];
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: categoryApi.getCategories,
+    refetchOnWindowFocus: false,
+  });
+  const { data: profiles = [] } = useQuery({
+    queryKey: ['import-profiles'],
+    queryFn: importProfileApi.getProfiles,
+    refetchOnWindowFocus: false,
+  });
+
+  // Imported rows are booked in the account's currency
+  const importCurrency = accounts.find((account) => account._id === importAccount)?.currency ?? accountData?.baseCurrency;
   const { toast } = useToast();
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    setUploadedFiles(prev => [...prev, ...acceptedFiles]);
+  // Files whose header row matches a saved profile are mapped straight away;
+  // the first one that doesn't opens the mapping step
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const added: UploadedFile[] = [];
+    for (const file of acceptedFiles) {
+      try {
+        const fingerprint = await fileFingerprint(file);
+        if ([...uploadedFiles, ...added].some((item) => item.fingerprint === fingerprint)) {
+          toast({ title: "Already added", description: `${file.name} is already in the list.` });
+          continue;
+        }
+        const format = statementFormat(file.name);
+        if (format) {
+          const statement = await readStatement(file, format);
+          added.push({ file, fingerprint, workbook: null, statement, mapping: null, profileName: null });
+          continue;
+        }
+        const workbook = await readWorkbook(file);
+        const profile = findProfile(profiles, workbook);
+        added.push({
+          file,
+          fingerprint,
+          workbook,
+          statement: null,
+          mapping: profile ? profileMapping(profile) : null,
+          profileName: profile?.name ?? null,
+        });
+      } catch (error) {
+        const format = statementFormat(file.name);
+        toast({
+          title: "Unreadable file",
+          description: `${file.name} could not be read as ${format ? `a valid ${statementFormatLabels[format]}` : "a spreadsheet"}.`,
+          variant: "destructive",
+        });
+      }
+    }
+    if (added.length === 0) return;
+
+    const matched = added.filter((item) => item.mapping).length;
+    const firstUnmapped = added.findIndex(needsMapping);
+    if (firstUnmapped !== -1 && mappingIndex === null) {
+      setMappingIndex(uploadedFiles.length + firstUnmapped);
+    }
+    setUploadedFiles(prev => [...prev, ...added]);
+    setStagedRows(null);
     toast({
       title: "Files uploaded",
-      description: `${acceptedFiles.length} Excel file(s) added for processing.`,
+      description: `${added.length} file(s) added for processing, ${matched} matched a saved profile.`,
     });
-  }, [toast]);
+  }, [profiles, toast, uploadedFiles, mappingIndex]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'application/vnd.ms-excel': ['.xls'],
-      'text/csv': ['.csv']
+      'text/csv': ['.csv'],
+      'application/json': ['.json'],
+      'application/x-ofx': ['.ofx', '.qfx'],
+      'application/qif': ['.qif'],
+      'application/xml': ['.xml'],
+      'application/x-mt940': ['.sta', '.mt940', '.940']
     },
     multiple: true
   });
 
-  const parseExcelFile = async (file: File): Promise<ExcelTransaction[]> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const data = e.target?.result;
-          const workbook = XLSX.read(data, { type: 'binary' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-
-          // Skip header row and process data
-          const transactions: ExcelTransaction[] = [];
-          for (let i = 1; i < jsonData.length; i++) {
-            const row = jsonData[i] as any[];
-            if (row.length >= 5 && row[0] && row[1] && row[2] && row[3] && row[4]) {
-              transactions.push({
-                type: String(row[0]).toLowerCase(),
-                amount: parseFloat(row[1]) || 0,
-                category: String(row[2]),
-                date: String(row[3]),
-                description: String(row[4])
-              });
-            }
-          }
-          resolve(transactions);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      reader.readAsBinaryString(file);
-    });
+  // Recorded transactions in the target account that each row probably
+  // duplicates, by row id
+  const findRowDuplicates = async (rows: StagedRow[], accountId: string) => {
+    const { matches } = await duplicateApi.checkDuplicates(rows.map((row) => ({
+      type: row.type,
+      amount: row.amount,
+      date: row.date,
+      description: row.description,
+      accountId: accountId === NO_ACCOUNT ? null : accountId,
+      externalId: row.externalId,
+    })));
+    return new Map<number, Transaction[]>(matches.map((match) => [rows[match.index].id, match.transactions]));
   };
 
-  const validateTransaction = (transaction: ExcelTransaction, rowIndex: number): string | null => {
-    // Validate type
-    if (!['income', 'expense'].includes(transaction.type)) {
-      return `Invalid type: ${transaction.type}. Must be 'income' or 'expense'`;
-    }
-
-    // Validate amount
-    if (isNaN(transaction.amount) || transaction.amount <= 0) {
-      return `Invalid amount: ${transaction.amount}. Must be a positive number`;
-    }
-
-    // Validate category
-    if (!transaction.category || transaction.category.trim() === '') {
-      return `Category is required`;
-    }
-
-    // Validate date
-    const date = new Date(transaction.date);
-    if (isNaN(date.getTime())) {
-      return `Invalid date format: ${transaction.date}`;
+  // What the categorisation rules change on each row, by row id. Rules are
+  // a convenience, so failing to run them leaves the rows as they are.
+  const findRuleMatches = async (rows: StagedRow[], accountId: string) => {
+    try {
+      const { matches } = await categoryRuleApi.matchRules(rows.map((row) => ({
+        type: row.type,
+        amount: row.amount,
+        description: row.description,
+        accountId: accountId === NO_ACCOUNT ? null : accountId,
+        category: row.category,
+      })));
+      return new Map<number, RuleMatch>(matches.map((match) => [rows[match.index].id, match]));
+    } catch {
+      return new Map<number, RuleMatch>();
     }
+  };
 
-    // Validate description
-    if (!transaction.description || transaction.description.trim() === '') {
-      return `Description is required`;
+  // Learned categories for the rows without one of the user's categories, by
+  // row id. Like rules they are a convenience, so a failure suggests nothing.
+  const findCategorySuggestions = async (rows: StagedRow[]) => {
+    const uncategorised = rows.filter((row) => !matchCategory(categories, row.category));
+    if (uncategorised.length === 0) return new Map<number, CategorySuggestion>();
+    try {
+      const { suggestions } = await categoryApi.suggestCategories(uncategorised.map((row) => ({
+        type: row.type,
+        amount: row.amount,
+        description: row.description,
+      })));
+      return new Map(suggestions.map((suggestion) => [uncategorised[suggestion.index].id, suggestion]));
+    } catch {
+      return new Map<number, CategorySuggestion>();
     }
-
-    return null;
   };
 
   const processExcelFiles = async () => {
@@ -120,40 +220,76 @@ export default function ReceiptUpload() {
 
     setIsProcessing(true);
     setProcessingProgress(0);
-    const allTransactions: ExcelTransaction[] = [];
-    const errors: Array<{ row: number; error: string; data: any }> = [];
+    let rows: StagedRow[] = [];
 
     try {
+      // Importing a file again changes nothing, so its rows are left out
+      const { importedFiles } = await duplicateApi.checkDuplicates([], {
+        fingerprints: uploadedFiles.map((item) => item.fingerprint),
+      });
+      const importedBefore = new Set(importedFiles.map((item) => item.fingerprint));
+      if (importedFiles.length > 0) {
+        toast({
+          title: "Already imported",
+          description: `Skipped ${importedFiles.map((item) => item.name).join(", ")}, which ${importedFiles.length === 1 ? "was" : "were"} imported before. Revert the earlier import under Import History to import again.`,
+        });
+      }
+
+      // Overlapping statement downloads repeat transactions; the bank's id
+      // shows which, so only the first copy is kept
+      const seenIds = new Set<string>();
+      let repeated = 0;
+
       for (let i = 0; i < uploadedFiles.length; i++) {
-        const file = uploadedFiles[i];
-        const transactions = await parseExcelFile(file);
-        
-        // Validate each transaction
-        transactions.forEach((transaction, index) => {
-          const error = validateTransaction(transaction, index + 2); // +2 because we skip header and 0-indexed
-          if (error) {
-            errors.push({ row: index + 2, error, data: transaction });
-          } else {
-            allTransactions.push(transaction);
+        const { file, fingerprint, workbook, statement, mapping } = uploadedFiles[i];
+        if (importedBefore.has(fingerprint)) continue;
+        const imported = statement ? statement.rows : applyMapping(getSheetRows(workbook, mapping.sheetName), mapping);
+        imported.forEach((transaction) => {
+          if (transaction.externalId) {
+            if (seenIds.has(transaction.externalId)) {
+              repeated++;
+              return;
+            }
+            seenIds.add(transaction.externalId);
           }
+          // Files are matched to categories ignoring case
+          const category = matchCategory(categories, transaction.category);
+          rows.push({
+            ...transaction,
+            category: category?.name ?? transaction.category,
+            id: rows.length,
+            file: file.name,
+            fingerprint,
+            included: true,
+          });
         });
 
         setProcessingProgress(((i + 1) / uploadedFiles.length) * 100);
       }
 
-      setProcessedData({
-        success: allTransactions,
-        errors: errors
-      });
+      if (rows.length > 0) {
+        rows = applyRuleMatches(rows, await findRuleMatches(rows, importAccount), categories);
+        const suggestions = await findCategorySuggestions(rows);
+        rows = rows.map((row) => {
+          const suggestion = suggestions.get(row.id);
+          return suggestion ? { ...row, suggestion: { category: suggestion.category, confidence: suggestion.confidence } } : row;
+        });
+        rows = markDuplicates(rows, await findRowDuplicates(rows, importAccount));
+      }
+      setStagedRows(rows);
 
+      const invalid = rows.filter((row) => Object.keys(validateImportedRow(row, categories)).length > 0).length;
+      const duplicates = rows.filter((row) => row.duplicates).length;
       toast({
         title: "Processing complete",
-        description: `Processed ${allTransactions.length} valid transactions. ${errors.length} errors found.`,
+        description: `Parsed ${rows.length} rows. ${invalid} need fixing before they can be submitted` +
+          (duplicates > 0 ? ` and ${duplicates} look like duplicates, which were excluded.` : ".") +
+          (repeated > 0 ? ` ${repeated} repeated statement transaction${repeated !== 1 ? "s were" : " was"} skipped.` : ""),
       });
     } catch (error) {
       toast({
         title: "Processing failed",
-        description: "Failed to process Excel files. Please check the file format.",
+        description: error instanceof Error ? error.message : "Failed to process Excel files. Please check the file format.",
         variant: "destructive",
       });
     } finally {
@@ -162,41 +298,75 @@ export default function ReceiptUpload() {
   };
 
   const uploadTransactions = async () => {
-    if (!processedData || processedData.success.length === 0) return;
+    if (approvedRows.length === 0) return;
 
     setIsUploading(true);
 
     try {
-      // Prepare transactions for bulk upload
-      const transactionsToUpload = processedData.success.map(transaction => ({
-        ...transaction,
-        date: new Date(transaction.date).toISOString()
+      // Only included rows without problems are sent, and only the files
+      // they come from; skipped files and files whose rows were all left
+      // out stay importable
+      const sentFingerprints = new Set(approvedRows.map((transaction) => transaction.fingerprint));
+      const transactionsToUpload = approvedRows.map(transaction => ({
+        type: transaction.type,
+        amount: transaction.amount,
+        category: transaction.category,
+        description: transaction.description,
+        date: new Date(transaction.date).toISOString(),
+        fingerprint: transaction.fingerprint,
+        externalId: transaction.externalId,
+        tags: transaction.tags
       }));
 
-      const response = await fetch('http://localhost:3001/api/transactions/bulk', {
+      const response = await authFetch(`${API_BASE_URL}/transactions/bulk`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          transactions: transactionsToUpload
+          transactions: transactionsToUpload,
+          accountId: importAccount === NO_ACCOUNT ? null : importAccount,
+          files: uploadedFiles
+            .filter(({ fingerprint }) => sentFingerprints.has(fingerprint))
+            .map(({ file, fingerprint }) => ({ name: file.name, fingerprint })),
+          atomic: allOrNothing
         }),
       });
 
+      const result = await response.json().catch(() => ({ error: 'Unknown error' }));
+      const refused = new Map<number, string>(
+        (result.results?.errors ?? []).map((item: { index: number; error: string }) => [approvedRows[item.index].id, item.error])
+      );
+
       if (response.ok) {
-        const result = await response.json();
+        queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        queryClient.invalidateQueries({ queryKey: ['accounts'] });
+        queryClient.invalidateQueries({ queryKey: ['import-batches'] });
         
         toast({
           title: "Submit complete",
           description: `Successfully submitted ${result.successCount} transactions to database. ${result.errorCount} errors occurred.`,
         });
 
-        // Clear processed data after successful upload
-        setProcessedData(null);
-        setUploadedFiles([]);
+        // Saved and excluded rows leave the grid; included rows that still
+        // need fixing stay, as do rows the server refused, with its reason
+        const remaining = stagedRows
+          .filter((row) => row.included && (!approvedRows.includes(row) || refused.has(row.id)))
+          .map((row) => (refused.has(row.id) ? { ...row, serverError: refused.get(row.id) } : row));
+        if (remaining.length === 0) {
+          setStagedRows(null);
+          setUploadedFiles([]);
+        } else {
+          setStagedRows(remaining);
+        }
       } else {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        throw new Error(errorData.error || 'Upload failed');
+        // An all-or-nothing upload saved nothing; every row stays, and the
+        // refused ones show why
+        if (refused.size > 0) {
+          setStagedRows((current) => current.map((row) =>
+            refused.has(row.id) ? { ...row, serverError: refused.get(row.id) } : row));
+        }
+        throw new Error(result.error || 'Upload failed');
       }
     } catch (error) {
       toast({
@@ -209,21 +379,75 @@ export default function ReceiptUpload() {
     }
   };
 
+  // Duplicates are per account, and rules can be too, so moving the import
+  // runs the rules again and re-checks every row
+  const changeImportAccount = async (accountId: string) => {
+    setImportAccount(accountId);
+    if (!stagedRows || stagedRows.length === 0) return;
+    const ruleMatches = await findRuleMatches(stagedRows, accountId);
+    setStagedRows((current) => current && applyRuleMatches(current, ruleMatches, categories));
+    try {
+      const matches = await findRowDuplicates(applyRuleMatches(stagedRows, ruleMatches, categories), accountId);
+      setStagedRows((current) => current && markDuplicates(current, matches));
+    } catch (error) {
+      toast({
+        title: "Duplicate check failed",
+        description: error instanceof Error ? error.message : "Could not check the rows for duplicates.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const clearAll = () => {
     setUploadedFiles([]);
-    setProcessedData(null);
+    setMappingIndex(null);
+    setStagedRows(null);
     setProcessingProgress(0);
   };
 
+  const applyFileMapping = (mapping: ColumnMapping, profileName: string | null) => {
+    setUploadedFiles(prev => prev.map((item, index) => (index === mappingIndex ? { ...item, mapping, profileName } : item)));
+    setStagedRows(null);
+    // Move on to the next file that still needs mapping
+    const next = uploadedFiles.findIndex((item, index) => index !== mappingIndex && needsMapping(item));
+    setMappingIndex(next === -1 ? null : next);
+  };
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: (id: string) => importProfileApi.deleteProfile(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['import-profiles'] });
+      toast({ title: "Profile Deleted", description: "The import profile has been removed." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete import profile. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mappingFile = mappingIndex === null ? null : uploadedFiles[mappingIndex];
+  const includedRows = stagedRows?.filter((row) => row.included) ?? [];
+  const approvedRows = includedRows.filter((row) => Object.keys(getStagedRowProblems(row, categories)).length === 0);
+  const rowsToFix = includedRows.length - approvedRows.length;
+  const duplicateCount = stagedRows?.filter((row) => row.duplicates).length ?? 0;
+  const allMapped = !uploadedFiles.some(needsMapping);
+
   return (
     <div className="space-y-6">
       <div>
-        <h1 className="text-3xl font-bold">Excel Upload</h1>
+        <h1 className="text-3xl font-bold">Upload</h1>
         <p className="text-muted-foreground mt-2">
-          Upload Excel files (.xlsx, .xls) or CSV files to bulk import transaction data
+          Scan a receipt into a new expense, or upload Excel, CSV or JSON files in any column layout, or OFX/QFX, QIF,
+          camt.053 and MT940 statements from your bank, to bulk import transaction data
         </p>
       </div>
 
+      {/* Receipt Scanning */}
+      <ReceiptScanner />
+
       {/* Upload Area */}
       <Card>
         <CardHeader>
@@ -232,7 +456,8 @@ export default function ReceiptUpload() {
             Upload Excel Files
           </CardTitle>
           <CardDescription>
-            Drag and drop Excel files (.xlsx, .xls) or CSV files, or click to browse
+            Drag and drop Excel (.xlsx, .xls), CSV, JSON, OFX/QFX, QIF, camt.053 (.xml) or MT940 (.sta) files, or click
+            to browse
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -251,7 +476,7 @@ export default function ReceiptUpload() {
               <div>
                 <p className="font-medium mb-2">Choose files or drag and drop</p>
                 <p className="text-sm text-muted-foreground">
-                  Supports Excel (.xlsx, .xls) and CSV files up to 10MB each
+                  Supports Excel (.xlsx, .xls), CSV, JSON, OFX/QFX, QIF, camt.053 and MT940 files up to 10MB each
                 </p>
               </div>
             )}
@@ -259,54 +484,60 @@ export default function ReceiptUpload() {
         </CardContent>
       </Card>
 
-      {/* Expected Format */}
+      {/* Saved Profiles */}
       <Card>
         <CardHeader>
-          <CardTitle>Expected Excel Format</CardTitle>
+          <CardTitle>Import Profiles</CardTitle>
           <CardDescription>
-            Your Excel file should have the following columns in order:
+            Saved column mappings. A file whose header row matches a profile is mapped with it automatically.
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Column</TableHead>
-                <TableHead>Description</TableHead>
-                <TableHead>Example</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              <TableRow>
-                <TableCell className="font-medium">Type</TableCell>
-                <TableCell>Transaction type</TableCell>
-                <TableCell>income or expense</TableCell>
-              </TableRow>
-              <TableRow>
-                <TableCell className="font-medium">Amount</TableCell>
-                <TableCell>Transaction amount</TableCell>
-                <TableCell>100.50</TableCell>
-              </TableRow>
-              <TableRow>
-                <TableCell className="font-medium">Category</TableCell>
-                <TableCell>Transaction category</TableCell>
-                <TableCell>Food & Dining</TableCell>
-              </TableRow>
-              <TableRow>
-                <TableCell className="font-medium">Date</TableCell>
-                <TableCell>Transaction date</TableCell>
-                <TableCell>2024-01-15</TableCell>
-              </TableRow>
-              <TableRow>
-                <TableCell className="font-medium">Description</TableCell>
-                <TableCell>Transaction description</TableCell>
-                <TableCell>Grocery shopping</TableCell>
-              </TableRow>
-            </TableBody>
-          </Table>
+          {profiles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No saved profiles yet. Give a column mapping a name to save it for your bank's next export.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {profiles.map((profile) => (
+                <div key={profile._id} className="flex items-center gap-3 p-3 border rounded-lg">
+                  <Columns3 className="h-5 w-5 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{profile.name}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {profile.headers.join(", ")} · {amountModeLabels[profile.amountMode]}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteProfileMutation.isPending}
+                    onClick={() => deleteProfileMutation.mutate(profile._id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {/* Column Mapping */}
+      {mappingFile?.workbook && (
+        <ColumnMappingWizard
+          key={mappingIndex}
+          fileName={mappingFile.file.name}
+          workbook={mappingFile.workbook}
+          mapping={mappingFile.mapping ?? guessMapping(mappingFile.workbook)}
+          profiles={profiles}
+          categories={categories}
+          profileName={mappingFile.profileName ?? undefined}
+          onApply={applyFileMapping}
+          onCancel={() => setMappingIndex(null)}
+        />
+      )}
+
       {/* Uploaded Files */}
       {uploadedFiles.length > 0 && (
         <Card>
@@ -318,7 +549,7 @@ export default function ReceiptUpload() {
           </CardHeader>
           <CardContent>
             <div className="space-y-3 mb-4">
-              {uploadedFiles.map((file, index) => (
+              {uploadedFiles.map(({ file, statement, mapping, profileName }, index) => (
                 <div key={index} className="flex items-center gap-3 p-3 border rounded-lg">
                   <FileSpreadsheet className="h-5 w-5 text-green-500" />
                   <div className="flex-1">
@@ -326,14 +557,40 @@ export default function ReceiptUpload() {
                     <p className="text-sm text-muted-foreground">
                       {(file.size / 1024 / 1024).toFixed(2)} MB
                     </p>
+                    {/* Entries that don't add up to the closing balance mean the file is incomplete */}
+                    {statement?.balances.map((balance, balanceIndex) => (
+                      <p
+                        key={balanceIndex}
+                        className={cn("text-sm", isReconciled(balance) ? "text-success" : "text-destructive")}
+                      >
+                        {balance.account && `${balance.account}: `}
+                        {isReconciled(balance)
+                          ? `closing balance of ${formatMoney(balance.closing, balance.currency)} matches the entries`
+                          : `entries add up to ${formatMoney(balance.computed, balance.currency)}, but the statement closes at ${formatMoney(balance.closing, balance.currency)}`}
+                      </p>
+                    ))}
                   </div>
-                  <Badge variant="outline">Ready</Badge>
+                  {statement ? (
+                    <Badge variant="outline">
+                      {statementFormatLabels[statement.format]} · {statement.rows.length} transactions
+                    </Badge>
+                  ) : mapping ? (
+                    <Badge variant="outline">{profileName ? `Profile: ${profileName}` : "Mapped"}</Badge>
+                  ) : (
+                    <Badge variant="destructive">Needs mapping</Badge>
+                  )}
+                  {!statement && (
+                    <Button variant="outline" size="sm" onClick={() => setMappingIndex(index)} disabled={isProcessing}>
+                      <Columns3 className="h-4 w-4 mr-2" />
+                      Map Columns
+                    </Button>
+                  )}
                 </div>
               ))}
             </div>
             
             <div className="flex gap-3">
-              <Button onClick={processExcelFiles} disabled={isProcessing}>
+              <Button onClick={processExcelFiles} disabled={isProcessing || !allMapped}>
                 {isProcessing ? (
                   <>
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
@@ -364,116 +621,101 @@ export default function ReceiptUpload() {
         </Card>
       )}
 
-      {/* Processed Data */}
-      {processedData && (
+      {/* Staged Rows */}
+      {stagedRows && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Database className="h-5 w-5 text-success" />
-              Processed Data
+              Review Import
             </CardTitle>
             <CardDescription>
-              Review the processed transaction data before uploading to your database
+              Fix or exclude rows with problems, then submit the rest to your database
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-6">
-              {/* Success Summary */}
-              <div className="flex items-center gap-4 p-4 bg-green-50 dark:bg-green-950/20 rounded-lg">
-                <CheckCircle className="h-8 w-8 text-green-600" />
-                <div>
-                  <h3 className="font-semibold text-green-800 dark:text-green-200">
-                    {processedData.success.length} Valid Transactions
-                  </h3>
-                  <p className="text-sm text-green-600 dark:text-green-400">
-                    Ready to upload to database
-                  </p>
+              {/* Summary */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="flex items-center gap-4 p-4 bg-muted/50 rounded-lg">
+                  <FileSpreadsheet className="h-8 w-8 text-muted-foreground" />
+                  <div>
+                    <h3 className="font-semibold">{stagedRows.length} Rows</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {includedRows.length} included
+                      {duplicateCount > 0 && `, ${duplicateCount} possible duplicate${duplicateCount !== 1 ? "s" : ""}`}
+                    </p>
+                  </div>
                 </div>
-              </div>
-
-              {/* Errors Summary */}
-              {processedData.errors.length > 0 && (
-                <div className="flex items-center gap-4 p-4 bg-red-50 dark:bg-red-950/20 rounded-lg">
-                  <AlertCircle className="h-8 w-8 text-red-600" />
+                <div className="flex items-center gap-4 p-4 bg-green-50 dark:bg-green-950/20 rounded-lg">
+                  <CheckCircle className="h-8 w-8 text-green-600" />
                   <div>
-                    <h3 className="font-semibold text-red-800 dark:text-red-200">
-                      {processedData.errors.length} Errors Found
+                    <h3 className="font-semibold text-green-800 dark:text-green-200">
+                      {approvedRows.length} Ready
                     </h3>
-                    <p className="text-sm text-red-600 dark:text-red-400">
-                      These rows will be skipped during upload
+                    <p className="text-sm text-green-600 dark:text-green-400">
+                      Amounts in {importCurrency}
                     </p>
                   </div>
                 </div>
-              )}
-
-              {/* Preview Table */}
-              {processedData.success.length > 0 && (
-                <div>
-                  <h4 className="font-medium mb-3">Preview (First 10 transactions):</h4>
-                  <div className="border rounded-lg overflow-hidden">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Type</TableHead>
-                          <TableHead>Amount</TableHead>
-                          <TableHead>Category</TableHead>
-                          <TableHead>Date</TableHead>
-                          <TableHead>Description</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {processedData.success.slice(0, 10).map((transaction, index) => (
-                          <TableRow key={index}>
-                            <TableCell>
-                              <Badge variant={transaction.type === 'income' ? 'default' : 'destructive'}>
-                                {transaction.type}
-                              </Badge>
-                            </TableCell>
-                            <TableCell className="font-medium">
-                              ${transaction.amount.toFixed(2)}
-                            </TableCell>
-                            <TableCell>{transaction.category}</TableCell>
-                            <TableCell>{new Date(transaction.date).toLocaleDateString()}</TableCell>
-                            <TableCell className="max-w-[200px] truncate">{transaction.description}</TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
+                {rowsToFix > 0 && (
+                  <div className="flex items-center gap-4 p-4 bg-red-50 dark:bg-red-950/20 rounded-lg">
+                    <AlertCircle className="h-8 w-8 text-red-600" />
+                    <div>
+                      <h3 className="font-semibold text-red-800 dark:text-red-200">
+                        {rowsToFix} To Fix
+                      </h3>
+                      <p className="text-sm text-red-600 dark:text-red-400">
+                        Fix or exclude these rows to submit
+                      </p>
+                    </div>
                   </div>
-                  {processedData.success.length > 10 && (
-                    <p className="text-sm text-muted-foreground mt-2">
-                      ... and {processedData.success.length - 10} more transactions
+                )}
+              </div>
+
+              <ImportStagingGrid rows={stagedRows} categories={categories} onChange={setStagedRows} />
+
+              {/* Target Account */}
+              {accounts.length > 0 && (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3 pt-4 border-t">
+                  <div className="flex-1">
+                    <h4 className="font-medium">Import into account</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Every imported transaction is booked against this account
                     </p>
-                  )}
+                  </div>
+                  <Select value={importAccount} onValueChange={changeImportAccount}>
+                    <SelectTrigger className="sm:w-64">
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account._id} value={account._id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
               )}
 
-              {/* Error Details */}
-              {processedData.errors.length > 0 && (
-                <div>
-                  <h4 className="font-medium mb-3">Error Details:</h4>
-                  <div className="space-y-2">
-                    {processedData.errors.slice(0, 5).map((error, index) => (
-                      <div key={index} className="p-3 bg-red-50 dark:bg-red-950/20 rounded-lg">
-                        <p className="text-sm font-medium text-red-800 dark:text-red-200">
-                          Row {error.row}: {error.error}
-                        </p>
-                      </div>
-                    ))}
-                    {processedData.errors.length > 5 && (
-                      <p className="text-sm text-muted-foreground">
-                        ... and {processedData.errors.length - 5} more errors
-                      </p>
-                    )}
-                  </div>
+              {/* Import Mode */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3 pt-4 border-t">
+                <div className="flex-1">
+                  <Label htmlFor="all-or-nothing" className="font-medium">All or nothing</Label>
+                  <p className="text-sm text-muted-foreground">
+                    If the server refuses any row, nothing is imported. Every import can be reverted from Import History.
+                  </p>
                 </div>
-              )}
+                <Switch id="all-or-nothing" checked={allOrNothing} onCheckedChange={setAllOrNothing} />
+              </div>
 
               {/* Upload Button */}
               <div className="flex gap-3 pt-4 border-t">
                 <Button 
                   onClick={uploadTransactions} 
-                  disabled={isUploading || processedData.success.length === 0}
+                  disabled={isUploading || approvedRows.length === 0 || rowsToFix > 0}
                   className="flex-1"
                 >
                   {isUploading ? (
@@ -484,7 +726,7 @@ export default function ReceiptUpload() {
                   ) : (
                     <>
                       <Database className="h-4 w-4 mr-2" />
-                      Submit {processedData.success.length} Transactions
+                      Submit {approvedRows.length} Transactions
                     </>
                   )}
                 </Button>
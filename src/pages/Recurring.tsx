@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { AlertCircle, CalendarClock, Pencil, Plus, RefreshCw, Repeat, Trash2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RecurringRuleForm } from "@/components/RecurringRuleForm";
+import { cn } from "@/lib/utils";
+import { describeSchedule, formatOccurrence } from "@/lib/recurring";
+import { formatMoney } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { recurringApi, RecurringRule } from "@/services/api";
+
+export default function Recurring() {
+  // undefined: dialog closed, null: creating, RecurringRule: editing
+  const [editingRule, setEditingRule] = useState<RecurringRule | null | undefined>(undefined);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: rules = [], isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['recurring-rules'],
+    queryFn: recurringApi.getRules,
+    refetchOnWindowFocus: false,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => recurringApi.deleteRule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurring-rules'] });
+      toast({ title: "Recurring Rule Deleted", description: "Transactions it already posted were kept." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete recurring rule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Recurring</h1>
+          <p className="text-muted-foreground">
+            Salaries, rent and subscriptions that are posted for you on schedule
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+            Refresh
+          </Button>
+          <Button className="flex items-center gap-2" onClick={() => setEditingRule(null)}>
+            <Plus className="h-4 w-4" />
+            New Rule
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to load recurring rules. Please check your connection and try again.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+          Loading recurring rules...
+        </div>
+      ) : rules.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12 text-muted-foreground">
+            No recurring rules yet. Create one for income or bills that repeat on a schedule.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {rules.map((rule) => (
+            <Card key={rule._id} className={cn(!rule.active && "opacity-70")}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-lg">{rule.description}</CardTitle>
+                    <CardDescription className="flex items-center gap-1">
+                      <Repeat className="h-3 w-3" />
+                      {describeSchedule(rule)} • {rule.category}
+                    </CardDescription>
+                  </div>
+                  <Badge variant="outline" className={rule.active ? "border-income text-income bg-income/5" : undefined}>
+                    {rule.active ? "Active" : "Paused"}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-baseline justify-between">
+                  <span className={cn("text-2xl font-bold", rule.type === "income" ? "text-income" : "text-expense")}>
+                    {rule.type === "income" ? "+" : "-"}{formatMoney(rule.amount, rule.currency)}
+                  </span>
+                  <span className="text-sm text-muted-foreground">
+                    Posted {rule.postedCount}{rule.count ? ` of ${rule.count}` : ""} time{rule.postedCount !== 1 ? "s" : ""}
+                  </span>
+                </div>
+                <div className="text-sm">
+                  <p className="text-muted-foreground flex items-center gap-1 mb-1">
+                    <CalendarClock className="h-3 w-3" />
+                    Next up
+                  </p>
+                  {rule.upcoming.length === 0 ? (
+                    <p className="text-muted-foreground">No more occurrences</p>
+                  ) : (
+                    <ul className="space-y-0.5">
+                      {rule.upcoming.map((date) => (
+                        <li key={date}>{formatOccurrence(date)}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="flex gap-2 pt-2">
+                  <Button variant="outline" size="sm" className="flex-1" onClick={() => setEditingRule(rule)}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(rule._id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={editingRule !== undefined} onOpenChange={(open) => !open && setEditingRule(undefined)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Recurring Rule" : "New Recurring Rule"}</DialogTitle>
+            <DialogDescription>
+              Occurrences that are already due are posted as soon as the rule is saved.
+            </DialogDescription>
+          </DialogHeader>
+          {editingRule !== undefined && (
+            <RecurringRuleForm
+              key={editingRule?._id ?? "new"}
+              rule={editingRule ?? undefined}
+              onSuccess={() => {
+                queryClient.invalidateQueries({ queryKey: ['recurring-rules'] });
+                queryClient.invalidateQueries({ queryKey: ['transactions'] });
+                queryClient.invalidateQueries({ queryKey: ['accounts'] });
+                setEditingRule(undefined);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertCircle, DollarSign, FileDown, Loader2, PieChart, RefreshCw, TrendingDown, TrendingUp } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+
+import { StatCard } from "@/components/StatCard";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { formatMoney } from "@/lib/currency";
+import { formatChange, reportPeriods, reportTemplateLabels } from "@/lib/reports";
+import { saveFile } from "@/lib/transactionExport";
+import { useToast } from "@/hooks/use-toast";
+import { reportApi, ReportTemplate } from "@/services/api";
+
+// The last period that has ended, which is what an accountant usually wants
+const defaultPeriod = (template: ReportTemplate) => reportPeriods(template)[1].value;
+
+export default function Reports() {
+  const [template, setTemplate] = useState<ReportTemplate>("monthly");
+  const [period, setPeriod] = useState(() => defaultPeriod("monthly"));
+  const { toast } = useToast();
+  const query = { template, period };
+  const periods = reportPeriods(template);
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ['report', query],
+    queryFn: () => reportApi.getReport(query),
+    refetchOnWindowFocus: false,
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async () => {
+      const blob = await reportApi.downloadReportPdf(query);
+      saveFile(blob, `report-${period}.pdf`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to download report. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changeTemplate = (value: string) => {
+    setTemplate(value as ReportTemplate);
+    setPeriod(defaultPeriod(value as ReportTemplate));
+  };
+
+  const currency = report?.baseCurrency;
+  const changeLabel = report ? `from ${report.comparison.label}` : "";
+  const totals = (report?.months ?? []).reduce(
+    (sum, item) => ({ income: sum.income + item.income, expenses: sum.expenses + item.expenses }),
+    { income: 0, expenses: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Reports</h1>
+          <p className="text-muted-foreground">
+            Printable statements of a month, quarter or year, with every transaction listed
+          </p>
+        </div>
+        <Button
+          onClick={() => downloadMutation.mutate()}
+          disabled={downloadMutation.isPending || !report}
+          className="flex items-center gap-2"
+        >
+          {downloadMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+          Download PDF
+        </Button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="space-y-2">
+          <Label>Report</Label>
+          <Select value={template} onValueChange={changeTemplate}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(reportTemplateLabels) as ReportTemplate[]).map((item) => (
+                <SelectItem key={item} value={item}>{reportTemplateLabels[item]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Period</Label>
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="w-full sm:w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {periods.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}{item.current ? " (so far)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {error instanceof Error ? error.message : "Failed to load the report."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {report && report.missingRates.length > 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No exchange rate for {report.missingRates.join(", ")}. Those amounts are left out of the totals.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading || !report ? (
+        !error && (
+          <div className="text-center py-8 text-muted-foreground">
+            <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+            Loading report...
+          </div>
+        )
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              title="Income"
+              value={formatMoney(report.summary.income, currency)}
+              change={report.summary.changes.income}
+              changeLabel={changeLabel}
+              icon={TrendingUp}
+              variant="income"
+            />
+            <StatCard
+              title="Expenses"
+              value={formatMoney(report.summary.expenses, currency)}
+              change={report.summary.changes.expenses}
+              changeLabel={changeLabel}
+              invertChange
+              icon={TrendingDown}
+              variant="expense"
+            />
+            <StatCard
+              title="Savings Rate"
+              value={`${report.summary.savingsRate}%`}
+              change={report.summary.changes.savingsRate}
+              changeUnit=" pts"
+              changeLabel={changeLabel}
+              icon={PieChart}
+              variant="default"
+            />
+            <StatCard
+              title="Closing Balance"
+              value={formatMoney(report.summary.closingBalance, currency)}
+              change={report.summary.changes.closingBalance}
+              changeLabel={changeLabel}
+              icon={DollarSign}
+              variant="default"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Monthly Overview</CardTitle>
+                <CardDescription>
+                  Income and expenses by month
+                  {report.template === "monthly" ? ", with the five months before" : ""}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Month</TableHead>
+                      <TableHead className="text-right">Income</TableHead>
+                      <TableHead className="text-right">Expenses</TableHead>
+                      <TableHead className="text-right">Net</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.months.map((item) => (
+                      <TableRow key={`${item.year}-${item.month}`}>
+                        <TableCell>{item.month} {item.year}</TableCell>
+                        <TableCell className="text-right">{formatMoney(item.income, currency)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(item.expenses, currency)}</TableCell>
+                        <TableCell className={cn("text-right", item.net < 0 && "text-expense")}>
+                          {formatMoney(item.net, currency)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-semibold">
+                      <TableCell>Total</TableCell>
+                      <TableCell className="text-right">{formatMoney(totals.income, currency)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(totals.expenses, currency)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(totals.income - totals.expenses, currency)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Spending by Category</CardTitle>
+                <CardDescription>Share of {report.period.label}'s expenses</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.categories.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No expenses in this period.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {report.categories.map((category) => (
+                      <div key={category.name} className="space-y-1">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="font-medium truncate">{category.name}</span>
+                          <span className="text-muted-foreground">
+                            {formatMoney(category.value, currency)} ({category.share}%)
+                            {category.change !== null && (
+                              <span className="ml-2 text-xs">{formatChange(category.change)}</span>
+                            )}
+                          </span>
+                        </div>
+                        <div className="h-2 rounded-full bg-muted overflow-hidden">
+                          <div
+                            className="h-full rounded-full"
+                            style={{ width: `${category.share}%`, backgroundColor: category.color }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Top Merchants</CardTitle>
+                <CardDescription>Where the money went, by description</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.merchants.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No expenses in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Merchant</TableHead>
+                        <TableHead className="text-right">Transactions</TableHead>
+                        <TableHead className="text-right">Spent</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.merchants.map((merchant) => (
+                        <TableRow key={merchant.name}>
+                          <TableCell className="max-w-[220px] truncate">{merchant.name}</TableCell>
+                          <TableCell className="text-right">{merchant.count}</TableCell>
+                          <TableCell className="text-right">{formatMoney(merchant.total, currency)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Transaction Ledger</CardTitle>
+                <CardDescription>
+                  {report.ledger.length} transaction{report.ledger.length !== 1 ? "s" : ""} from{" "}
+                  {format(new Date(`${report.period.from.slice(0, 10)}T00:00`), "MMM d, yyyy")} to{" "}
+                  {format(new Date(`${report.period.to.slice(0, 10)}T00:00`), "MMM d, yyyy")},
+                  listed in full in the PDF. The latest:
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.ledger.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No transactions in this period.</p>
+                ) : (
+                  <Table>
+                    <TableBody>
+                      {report.ledger.slice(-8).reverse().map((transaction) => (
+                        <TableRow key={transaction._id}>
+                          <TableCell className="whitespace-nowrap">{format(new Date(transaction.date), "MMM d")}</TableCell>
+                          <TableCell className="max-w-[200px] truncate">{transaction.description}</TableCell>
+                          <TableCell
+                            className={cn(
+                              "text-right whitespace-nowrap",
+                              transaction.type === "income" && "text-income",
+                              transaction.type === "expense" && "text-expense"
+                            )}
+                          >
+                            {transaction.type === "income" ? "+" : transaction.type === "expense" ? "-" : ""}
+                            {formatMoney(transaction.amount, transaction.currency)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
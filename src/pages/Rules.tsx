@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertCircle, ArrowRight, Loader2, Pencil, Play, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CategoryRuleForm } from "@/components/CategoryRuleForm";
+import { cn } from "@/lib/utils";
+import { describeActions, describeChanges, describeConditions } from "@/lib/categoryRules";
+import { useToast } from "@/hooks/use-toast";
+import { accountApi, categoryRuleApi, CategoryRule, RuleRunResult } from "@/services/api";
+
+export default function Rules() {
+  // undefined: dialog closed, null: creating, CategoryRule: editing
+  const [editingRule, setEditingRule] = useState<CategoryRule | null | undefined>(undefined);
+  // The preview waiting to be applied, and the rule it was limited to
+  const [preview, setPreview] = useState<{ result: RuleRunResult; rule: CategoryRule | null } | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: rules = [], isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['category-rules'],
+    queryFn: categoryRuleApi.getRules,
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: accountData } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: accountApi.getAccounts,
+    refetchOnWindowFocus: false,
+  });
+  const accounts = accountData?.accounts ?? [];
+
+  // A preview is stale as soon as the rules change
+  const refreshRules = () => {
+    queryClient.invalidateQueries({ queryKey: ['category-rules'] });
+    setPreview(null);
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ _id, createdAt, updatedAt, ...rule }: CategoryRule) =>
+      categoryRuleApi.updateRule(_id, { ...rule, enabled: !rule.enabled }),
+    onSuccess: refreshRules,
+    onError: onError("Failed to update rule. Please try again."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => categoryRuleApi.deleteRule(id),
+    onSuccess: () => {
+      refreshRules();
+      toast({ title: "Rule Deleted", description: "The rule has been removed." });
+    },
+    onError: onError("Failed to delete rule. Please try again."),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (rule: CategoryRule | null) =>
+      categoryRuleApi.runRules({ ruleId: rule?._id }).then((result) => ({ result, rule })),
+    onSuccess: setPreview,
+    onError: onError("Failed to preview rules. Please try again."),
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (rule: CategoryRule | null) => categoryRuleApi.runRules({ ruleId: rule?._id, apply: true }),
+    onSuccess: (result) => {
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+      toast({
+        title: "Rules Applied",
+        description: `${result.changed} transaction${result.changed !== 1 ? "s were" : " was"} updated.`,
+      });
+    },
+    onError: onError("Failed to apply rules. Please try again."),
+  });
+
+  const nextPriority = rules.length > 0 ? Math.max(...rules.map((rule) => rule.priority)) + 10 : 10;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Rules</h1>
+          <p className="text-muted-foreground">
+            Categorise, tag and rename transactions automatically as they are added or imported
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+            Refresh
+          </Button>
+          <Button className="flex items-center gap-2" onClick={() => setEditingRule(null)}>
+            <Plus className="h-4 w-4" />
+            New Rule
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Failed to load rules. Please check your connection and try again.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+          Loading rules...
+        </div>
+      ) : rules.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No rules yet. Add one to categorise transactions like "Uber" as Transport without picking it each time.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="divide-y p-0">
+            {rules.map((rule) => (
+              <div key={rule._id} className={cn("flex items-center gap-3 px-4 py-3", !rule.enabled && "opacity-60")}>
+                <Badge variant="outline" className="w-12 justify-center">{rule.priority}</Badge>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{rule.name}</p>
+                  <p className="text-sm text-muted-foreground flex flex-wrap items-center gap-1">
+                    <span>{describeConditions(rule, accounts)}</span>
+                    <ArrowRight className="h-3 w-3" />
+                    <span>{describeActions(rule)}</span>
+                  </p>
+                </div>
+                <Switch
+                  checked={rule.enabled}
+                  disabled={toggleMutation.isPending}
+                  onCheckedChange={() => toggleMutation.mutate(rule)}
+                  aria-label={`Apply ${rule.name}`}
+                />
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => setEditingRule(rule)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={previewMutation.isPending}
+                    onClick={() => previewMutation.mutate(rule)}
+                  >
+                    <Play className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(rule._id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Apply to Existing Transactions</CardTitle>
+            <CardDescription>
+              {preview?.rule
+                ? `What "${preview.rule.name}" would change on the transactions already recorded.`
+                : "Rules only run on new transactions. Preview what they would change on the ones already recorded."}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            disabled={previewMutation.isPending || rules.length === 0}
+            onClick={() => previewMutation.mutate(null)}
+            className="flex items-center gap-2"
+          >
+            {previewMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+            Preview All Rules
+          </Button>
+        </CardHeader>
+        {preview && (
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {preview.result.scanned} transaction{preview.result.scanned !== 1 ? "s" : ""} checked,{" "}
+              {preview.result.changed} would change
+              {preview.result.skipped > 0 && `, ${preview.result.skipped} skipped`}.
+              {preview.result.items.length < preview.result.changed + preview.result.skipped
+                && ` The first ${preview.result.items.length} are listed.`}
+            </p>
+
+            {preview.result.items.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Transaction</TableHead>
+                    <TableHead>Changes</TableHead>
+                    <TableHead>Rules</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.result.items.map(({ transaction, changes, rules: matched, error: itemError }) => (
+                    <TableRow key={transaction._id} className={cn(itemError && "text-muted-foreground")}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(transaction.date), "MMM d, yyyy")}</TableCell>
+                      <TableCell className="max-w-[220px]">
+                        <p className="truncate">{transaction.description}</p>
+                        <p className="text-xs text-muted-foreground">{transaction.category}</p>
+                      </TableCell>
+                      <TableCell>
+                        {describeChanges(changes)}
+                        {itemError && <p className="text-xs text-destructive">{itemError}</p>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {matched.map((item) => item.name).join(", ")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPreview(null)}>
+                Cancel
+              </Button>
+              <Button
+                disabled={preview.result.changed === 0 || applyMutation.isPending}
+                onClick={() => applyMutation.mutate(preview.rule)}
+                className="flex items-center gap-2"
+              >
+                {applyMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Apply {preview.result.changed} Change{preview.result.changed !== 1 ? "s" : ""}
+              </Button>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      <Dialog open={editingRule !== undefined} onOpenChange={(open) => !open && setEditingRule(undefined)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Rule" : "New Rule"}</DialogTitle>
+            <DialogDescription>
+              Rules run from the lowest priority up. The first rule to set a field wins it; tags from every
+              matching rule are added.
+            </DialogDescription>
+          </DialogHeader>
+          {editingRule !== undefined && (
+            <CategoryRuleForm
+              key={editingRule?._id ?? "new"}
+              rule={editingRule ?? undefined}
+              nextPriority={nextPriority}
+              onSuccess={() => {
+                refreshRules();
+                setEditingRule(undefined);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
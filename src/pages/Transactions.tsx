@@ -1,7 +1,8 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { format } from "date-fns";
-import { Search, Filter, Download, Eye, RefreshCw, AlertCircle } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { Search, Filter, Download, Eye, RefreshCw, AlertCircle, ChevronDown } from "lucide-react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -9,37 +10,159 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { TransactionDetailSheet } from "@/components/TransactionDetailSheet";
+import { ExportTransactionsDialog } from "@/components/ExportTransactionsDialog";
+import { CategoryLabel } from "@/components/CategoryLabel";
 import { cn } from "@/lib/utils";
-import { transactionApi, Transaction } from "@/services/api";
+import { getAccountName } from "@/lib/accounts";
+import { orderCategories, withSubcategories } from "@/lib/categories";
+import { transactionTypeStyles } from "@/lib/transactions";
+import { formatMoney } from "@/lib/currency";
+import { accountApi, categoryApi, payeeApi, transactionApi, Transaction, TransactionQuery } from "@/services/api";
+
+const PAGE_SIZE = 20;
+
+const sortOptions = [
+  { value: "date:desc", label: "Newest first" },
+  { value: "date:asc", label: "Oldest first" },
+  { value: "amount:desc", label: "Highest amount" },
+  { value: "amount:asc", label: "Lowest amount" },
+  { value: "description:asc", label: "Description (A-Z)" },
+  { value: "category:asc", label: "Category (A-Z)" },
+];
+
+// Page numbers to render, with null standing in for an ellipsis
+function getPageNumbers(page: number, totalPages: number): (number | null)[] {
+  if (totalPages <= 7) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1);
+  }
+  const pages: (number | null)[] = [1];
+  const start = Math.max(2, page - 1);
+  const end = Math.min(totalPages - 1, page + 1);
+  if (start > 2) pages.push(null);
+  for (let i = start; i <= end; i++) pages.push(i);
+  if (end < totalPages - 1) pages.push(null);
+  pages.push(totalPages);
+  return pages;
+}
 
 export default function Transactions() {
+  // Account pages link here with ?account=<id>, the merchants page with ?payee=<id>
+  const [searchParams] = useSearchParams();
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [filterType, setFilterType] = useState("all");
-  const [filterCategory, setFilterCategory] = useState("all");
-
-  // Fetch transactions from server
-  const { 
-    data: transactions = [], 
-    isLoading, 
-    error, 
-    refetch 
+  const [filterCategories, setFilterCategories] = useState<string[]>(searchParams.getAll("category"));
+  const [filterTags, setFilterTags] = useState<string[]>(searchParams.getAll("tag"));
+  const [filterAccount, setFilterAccount] = useState(searchParams.get("account") ?? "all");
+  const [filterPayee, setFilterPayee] = useState(searchParams.get("payee") ?? "all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [sortOption, setSortOption] = useState("date:desc");
+  const [page, setPage] = useState(1);
+  const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Avoid a request per keystroke while typing in the search box
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Any change to the filters starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, filterType, filterCategories, filterTags, filterAccount, filterPayee, fromDate, toDate, minAmount, maxAmount, sortOption]);
+
+  const [sort, order] = sortOption.split(":") as [TransactionQuery["sort"], TransactionQuery["order"]];
+  const query: TransactionQuery = {
+    page,
+    limit: PAGE_SIZE,
+    sort,
+    order,
+    type: filterType === "all" ? undefined : filterType as TransactionQuery["type"],
+    category: filterCategories,
+    tag: filterTags,
+    account: filterAccount === "all" ? undefined : filterAccount,
+    payee: filterPayee === "all" ? undefined : filterPayee,
+    from: fromDate || undefined,
+    to: toDate || undefined,
+    minAmount: minAmount ? parseFloat(minAmount) : undefined,
+    maxAmount: maxAmount ? parseFloat(maxAmount) : undefined,
+    q: debouncedSearch.trim() || undefined,
+  };
+
+  // Fetch the current page of transactions from the server
+  const {
+    data,
+    isLoading,
+    isFetching,
+    error,
+    refetch
   } = useQuery({
-    queryKey: ['transactions'],
-    queryFn: transactionApi.getTransactions,
+    queryKey: ['transactions', query],
+    queryFn: () => transactionApi.getTransactions(query),
+    placeholderData: keepPreviousData,
     refetchOnWindowFocus: false,
   });
 
-  // Filter transactions based on search and filters
-  const filteredTransactions = transactions.filter((transaction) => {
-    const matchesSearch = transaction.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         transaction.category.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = filterType === "all" || transaction.type === filterType;
-    const matchesCategory = filterCategory === "all" || transaction.category === filterCategory;
-    
-    return matchesSearch && matchesType && matchesCategory;
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: categoryApi.getCategories,
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: tagUsage = [] } = useQuery({
+    queryKey: ['tags'],
+    queryFn: transactionApi.getTags,
+    refetchOnWindowFocus: false,
   });
 
-  const categories = [...new Set(transactions.map(t => t.category))];
+  const { data: accountData } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: accountApi.getAccounts,
+    refetchOnWindowFocus: false,
+  });
+  const accounts = accountData?.accounts ?? [];
+
+  const { data: payees = [] } = useQuery({
+    queryKey: ['payees'],
+    queryFn: payeeApi.getPayees,
+    refetchOnWindowFocus: false,
+  });
+
+  const transactions = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasFilters = Boolean(
+    debouncedSearch || filterType !== "all" || filterCategories.length || filterTags.length || filterAccount !== "all" || filterPayee !== "all" ||
+    fromDate || toDate || minAmount || maxAmount
+  );
+
+  // Picking a top-level category picks its subcategories too
+  const toggleCategory = (category: string, checked: boolean) => {
+    const names = withSubcategories(categories, category);
+    setFilterCategories((prev) =>
+      checked ? [...new Set([...prev, ...names])] : prev.filter((c) => !names.includes(c))
+    );
+  };
 
   return (
     <div className="space-y-6">
@@ -54,15 +177,15 @@ export default function Transactions() {
           <Button 
             variant="outline" 
             onClick={() => refetch()}
-            disabled={isLoading}
+            disabled={isFetching}
             className="flex items-center gap-2"
           >
-            <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
             Refresh
           </Button>
-          <Button className="flex items-center gap-2">
+          <Button className="flex items-center gap-2" onClick={() => setIsExporting(true)}>
             <Download className="h-4 w-4" />
-            Export CSV
+            Export
           </Button>
         </div>
       </div>
@@ -75,7 +198,7 @@ export default function Transactions() {
             Filters
           </CardTitle>
           <CardDescription>
-            Filter your transactions by type, category, or search term
+            Filter your transactions by type, category, tag, account, payee, date, amount or search term
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -98,29 +221,151 @@ export default function Transactions() {
                 <SelectItem value="all">All Types</SelectItem>
                 <SelectItem value="income">Income</SelectItem>
                 <SelectItem value="expense">Expense</SelectItem>
+                <SelectItem value="transfer">Transfer</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="justify-between font-normal">
+                  <span className="truncate">
+                    {filterCategories.length === 0
+                      ? "All Categories"
+                      : filterCategories.length === 1
+                        ? filterCategories[0]
+                        : `${filterCategories.length} categories`}
+                  </span>
+                  <ChevronDown className="h-4 w-4 opacity-50" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="w-56 max-h-72 overflow-y-auto">
+                {orderCategories(categories).map(({ category, depth }) => (
+                  <DropdownMenuCheckboxItem
+                    key={category._id}
+                    checked={filterCategories.includes(category.name)}
+                    onCheckedChange={(checked) => toggleCategory(category.name, checked)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    <CategoryLabel category={category} depth={depth} />
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="justify-between font-normal" disabled={tagUsage.length === 0}>
+                  <span className="truncate">
+                    {filterTags.length === 0
+                      ? "All Tags"
+                      : filterTags.length === 1
+                        ? filterTags[0]
+                        : `${filterTags.length} tags`}
+                  </span>
+                  <ChevronDown className="h-4 w-4 opacity-50" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="w-56 max-h-72 overflow-y-auto">
+                {tagUsage.map(({ tag, count }) => (
+                  <DropdownMenuCheckboxItem
+                    key={tag}
+                    checked={filterTags.includes(tag)}
+                    onCheckedChange={(checked) =>
+                      setFilterTags((prev) => (checked ? [...prev, tag] : prev.filter((item) => item !== tag)))
+                    }
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    <span className="flex-1 truncate">{tag}</span>
+                    <span className="text-xs text-muted-foreground">{count}</span>
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Select value={filterAccount} onValueChange={setFilterAccount}>
+              <SelectTrigger>
+                <SelectValue placeholder="Account" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Accounts</SelectItem>
+                {accounts.map((account) => (
+                  <SelectItem key={account._id} value={account._id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
-            <Select value={filterCategory} onValueChange={setFilterCategory}>
+            <Select value={filterPayee} onValueChange={setFilterPayee}>
               <SelectTrigger>
-                <SelectValue placeholder="Category" />
+                <SelectValue placeholder="Payee" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Categories</SelectItem>
-                {categories.map((category) => (
-                  <SelectItem key={category} value={category}>
-                    {category}
+                <SelectItem value="all">All Payees</SelectItem>
+                {payees.map((payee) => (
+                  <SelectItem key={payee._id} value={payee._id}>
+                    {payee.name}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
 
+            <Select value={sortOption} onValueChange={setSortOption}>
+              <SelectTrigger>
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Input
+              type="date"
+              aria-label="From date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+            <Input
+              type="date"
+              aria-label="To date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="number"
+                min="0"
+                placeholder="Min amount"
+                value={minAmount}
+                onChange={(e) => setMinAmount(e.target.value)}
+              />
+              <Input
+                type="number"
+                min="0"
+                placeholder="Max amount"
+                value={maxAmount}
+                onChange={(e) => setMaxAmount(e.target.value)}
+              />
+            </div>
+
             <Button 
               variant="outline" 
               onClick={() => {
                 setSearchTerm("");
                 setFilterType("all");
-                setFilterCategory("all");
+                setFilterCategories([]);
+                setFilterTags([]);
+                setFilterAccount("all");
+                setFilterPayee("all");
+                setFromDate("");
+                setToDate("");
+                setMinAmount("");
+                setMaxAmount("");
+                setSortOption("date:desc");
               }}
             >
               Clear Filters
@@ -147,7 +392,7 @@ export default function Transactions() {
             {isLoading ? (
               "Loading transactions..."
             ) : (
-              `${filteredTransactions.length} transaction${filteredTransactions.length !== 1 ? 's' : ''} found`
+              `${total} transaction${total !== 1 ? 's' : ''} found`
             )}
           </CardDescription>
         </CardHeader>
@@ -158,15 +403,15 @@ export default function Transactions() {
                 <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
                 Loading transactions...
               </div>
-            ) : filteredTransactions.length === 0 ? (
+            ) : transactions.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
-                {transactions.length === 0 
+                {!hasFilters
                   ? "No transactions found. Add your first transaction to get started!"
                   : "No transactions found matching your criteria."
                 }
               </div>
             ) : (
-              filteredTransactions.map((transaction) => (
+              transactions.map((transaction) => (
                 <div
                   key={transaction._id}
                   className="flex items-center justify-between p-4 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
@@ -176,30 +421,40 @@ export default function Transactions() {
                       <h3 className="font-medium">{transaction.description}</h3>
                       <Badge 
                         variant="outline"
-                        className={cn(
-                          transaction.type === "income" 
-                            ? "border-income text-income bg-income/5" 
-                            : "border-expense text-expense bg-expense/5"
-                        )}
+                        className={transactionTypeStyles[transaction.type].badge}
                       >
                         {transaction.type}
                       </Badge>
+                      {transaction.tags?.map((tag) => (
+                        <Badge key={tag} variant="secondary" className="hidden sm:inline-flex">{tag}</Badge>
+                      ))}
                     </div>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <span>{transaction.category}</span>
+                      <span title={transaction.splits?.map((split) => split.category).join(", ")}>
+                        {transaction.splits?.length ? `Split (${transaction.splits.length})` : transaction.category}
+                      </span>
                       <span>•</span>
                       <span>{format(new Date(transaction.date), "MMM d, yyyy")}</span>
+                      {accounts.length > 0 && (
+                        <>
+                          <span>•</span>
+                          <span>
+                            {getAccountName(accounts, transaction.accountId)}
+                            {transaction.type === "transfer" && ` → ${getAccountName(accounts, transaction.toAccountId)}`}
+                          </span>
+                        </>
+                      )}
                     </div>
                   </div>
                   
                   <div className="flex items-center gap-3">
                     <div className={cn(
                       "text-right font-semibold text-lg",
-                      transaction.type === "income" ? "text-income" : "text-expense"
+                      transactionTypeStyles[transaction.type].amount
                     )}>
-                      {transaction.type === "income" ? "+" : ""}${Math.abs(transaction.amount).toFixed(2)}
+                      {transactionTypeStyles[transaction.type].sign}{formatMoney(Math.abs(transaction.amount), transaction.currency)}
                     </div>
-                    <Button variant="ghost" size="sm">
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedTransaction(transaction)}>
                       <Eye className="h-4 w-4" />
                     </Button>
                   </div>
@@ -207,8 +462,62 @@ export default function Transactions() {
               ))
             )}
           </div>
+
+          {totalPages > 1 && (
+            <Pagination className="mt-6">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    aria-disabled={page === 1}
+                    className={cn(page === 1 && "pointer-events-none opacity-50")}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage((p) => Math.max(1, p - 1));
+                    }}
+                  />
+                </PaginationItem>
+                {getPageNumbers(page, totalPages).map((pageNumber, index) => (
+                  <PaginationItem key={pageNumber ?? `ellipsis-${index}`}>
+                    {pageNumber === null ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink
+                        href="#"
+                        isActive={pageNumber === page}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          setPage(pageNumber);
+                        }}
+                      >
+                        {pageNumber}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    aria-disabled={page === totalPages}
+                    className={cn(page === totalPages && "pointer-events-none opacity-50")}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage((p) => Math.min(totalPages, p + 1));
+                    }}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
         </CardContent>
       </Card>
+
+      <TransactionDetailSheet
+        transaction={selectedTransaction}
+        onOpenChange={(open) => !open && setSelectedTransaction(null)}
+      />
+
+      <ExportTransactionsDialog open={isExporting} onOpenChange={setIsExporting} query={query} hasFilters={hasFilters} />
     </div>
   );
 }
\ No newline at end of file
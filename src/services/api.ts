@@ -1,49 +1,718 @@
-const API_BASE_URL = 'http://localhost:3001/api';
+export const API_BASE_URL = 'http://localhost:3001/api';
+
+const TOKEN_STORAGE_KEY = 'auth_token';
+
+// Fired when the server rejects the stored session so the app can return to the login page
+export const AUTH_EXPIRED_EVENT = 'auth:expired';
+
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_STORAGE_KEY);
+
+export const setAuthToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+};
+
+// fetch() that attaches the session token and drops it when the server rejects it
+export const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  const token = getAuthToken();
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401 && token) {
+    setAuthToken(null);
+    window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+  }
+  return response;
+};
+
+export interface User {
+  _id: string;
+  name: string;
+  email: string;
+  // ISO 4217 code that reports and totals are converted to
+  baseCurrency: string;
+  duplicateTolerance: DuplicateTolerance;
+  createdAt: string;
+}
+
+export interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+export type TransactionType = 'income' | 'expense' | 'transfer';
 
 export interface Transaction {
   _id: string;
-  type: 'income' | 'expense';
+  type: TransactionType;
   amount: number;
   category: string;
   date: string;
   description: string;
+  // Missing on transactions recorded before accounts existed
+  accountId?: string | null;
+  // Destination of a transfer
+  toAccountId?: string | null;
+  // ISO 4217 code; missing on transactions recorded before currencies existed
+  currency?: string;
+  // Bulk upload that created the transaction
+  importBatchId?: string | null;
+  // The bank's own id, for transactions imported from a statement
+  externalId?: string;
+  // Lower-case labels, e.g. added by categorisation rules
+  tags?: string[];
+  // Lines sharing the amount across categories; `category` is the largest line's
+  splits?: TransactionSplit[];
+  // The merchant or person paid, see payeeApi
+  payeeId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+  memo?: string;
+}
+
+// A file kept with a transaction, such as the receipt it was scanned from
+export interface Attachment {
+  _id: string;
+  transactionId: string;
+  filename: string;
+  contentType: string;
+  // Bytes
+  size: number;
+  // Images get a small preview when the server can make one
+  hasThumbnail: boolean;
+  createdAt: string;
+}
+
+// A value read from a receipt. Confidence runs from 0 to 1.
+export interface ReceiptField<T> {
+  value: T;
+  confidence: number;
+}
+
+export interface ReceiptFields {
+  merchant: ReceiptField<string> | null;
+  // YYYY-MM-DD
+  date: ReceiptField<string> | null;
+  total: ReceiptField<number> | null;
+  tax: ReceiptField<number> | null;
+  currency: ReceiptField<string> | null;
+}
+
+export interface ReceiptScan {
+  fields: ReceiptFields;
+  // The receipt's text, line by line
+  lines: string[];
+  // pdf when the text came from the PDF itself, ocr when read from a photo
+  engine: 'pdf' | 'ocr';
+}
+
+export interface TransactionQuery {
+  page?: number;
+  limit?: number;
+  cursor?: string;
+  sort?: 'date' | 'amount' | 'category' | 'description' | 'createdAt';
+  order?: 'asc' | 'desc';
+  type?: TransactionType;
+  category?: string[];
+  // Transactions carrying any of these tags
+  tag?: string[];
+  account?: string;
+  payee?: string;
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  q?: string;
+}
+
+export type ExportColumn = 'date' | 'type' | 'amount' | 'currency' | 'category' | 'description' | 'account' | 'tags';
+
+// A tag and how many transactions carry it
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+// Layout of a transaction export made by the server. Dates are written in
+// one of the import date formats so the file can be uploaded again.
+export interface ExportOptions {
+  format: 'csv' | 'json';
+  columns: ExportColumn[];
+  dateFormat: Exclude<ImportDateFormat, 'auto'>;
+  decimal: '.' | ',';
+  // Transfers need two accounts, so the Upload page can't read them back
+  transfers: 'include' | 'skip';
+}
+
+export interface TransactionExport {
+  blob: Blob;
+  // Transfers left out with `transfers: 'skip'`
+  skippedTransfers: number;
+}
+
+export interface TransactionPage {
+  items: Transaction[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// How far apart two transactions may be and still count as duplicates
+export interface DuplicateTolerance {
+  days: number;
+  amount: number;
+}
+
+// A transaction about to be saved; without a currency it is in its account's
+export interface DuplicateCandidate {
+  type: string;
+  amount: number;
+  date: string;
+  description: string;
+  accountId?: string | null;
+  currency?: string;
+  externalId?: string;
+}
+
+export type RuleDescriptionMatch = 'contains' | 'equals' | 'regex';
+
+// A categorisation rule. Transactions meeting every condition that isn't
+// null get the actions; rules run by priority, lowest first, and the first
+// to set a field wins it. Tags from every matching rule are added.
+export interface CategoryRuleInput {
+  name: string;
+  priority: number;
+  enabled: boolean;
+  conditions: {
+    // Descriptions are matched ignoring case
+    descriptionMatch: RuleDescriptionMatch | null;
+    descriptionValue: string | null;
+    minAmount: number | null;
+    maxAmount: number | null;
+    accountId: string | null;
+    transactionType: 'income' | 'expense' | null;
+  };
+  actions: {
+    category: string | null;
+    transactionType: 'income' | 'expense' | null;
+    tags: string[];
+    description: string | null;
+  };
+}
+
+export interface CategoryRule extends CategoryRuleInput {
+  _id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The fields a rule can change
+export type RuleChanges = Partial<Pick<Transaction, 'category' | 'type' | 'description' | 'tags'>>;
+
+export interface RuleMatch {
+  // Position of the transaction in the request
+  index: number;
+  // Only fields that end up different
+  changes: RuleChanges;
+  rules: { _id: string; name: string }[];
+}
+
+export interface RuleRunResult {
+  scanned: number;
+  changed: number;
+  // Changes left out because the category doesn't fit the transaction
+  skipped: number;
+  // The first changed transactions, as they are before the run
+  items: { transaction: Transaction; changes: RuleChanges; rules: { _id: string; name: string }[]; error: string | null }[];
+  applied: boolean;
+}
+
+// A merchant or person paid. Descriptions equal to the name or an alias
+// (ignoring case and punctuation), or matching a pattern, belong to it.
+export interface PayeeInput {
+  name: string;
+  aliases: string[];
+  // Regular expressions, matched ignoring case
+  patterns: string[];
+}
+
+export interface Payee extends PayeeInput {
+  _id: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Expenses paid to one payee over a range, in the base currency
+export interface PayeeTotals {
+  total: number;
+  count: number;
+  // Average ticket: the total over the number of transactions
+  average: number;
+  // One total per month of the range, oldest first
+  monthly: number[];
+}
+
+export interface PayeeSpending {
+  from: string;
+  to: string;
+  baseCurrency: string;
+  months: { year: number; month: number }[];
+  // Biggest total first
+  payees: (PayeeTotals & { payeeId: string; name: string })[];
+  // Expenses without a payee; null when there are none
+  unassigned: PayeeTotals | null;
+}
+
+export interface ImportBatchFile {
+  name: string;
+  // SHA-256 of the file's contents; null when the uploader sent none
+  fingerprint: string | null;
+  // Transactions created from the file
+  rowCount: number;
+}
+
+export interface ImportBatch {
+  _id: string;
+  files: ImportBatchFile[];
+  accountId: string | null;
+  // Saved every row or none
+  atomic: boolean;
+  // Rows sent, and how many of them became transactions
+  rowCount: number;
+  transactionCount: number;
+  revertedAt: string | null;
+  createdAt: string;
+}
+
+export interface ImportedFile extends ImportBatchFile {
+  batchId: string;
+  importedAt: string;
+}
+
+export interface DuplicateCheckResult {
+  // Only candidates that match something, by their index
+  matches: { index: number; transactions: Transaction[] }[];
+  // Files among the checked fingerprints that were imported before
+  importedFiles: ImportedFile[];
+}
+
+export interface DuplicateGroups {
+  tolerance: DuplicateTolerance;
+  groups: Transaction[][];
+}
+
+// Serialise a query object, repeating array values and skipping empty ones
+const toSearchParams = (query: object): string => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    (Array.isArray(value) ? value : [value]).forEach((item) => params.append(key, String(item)));
+  });
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+export type ReportRangePreset = 'this-month' | 'last-month' | 'ytd' | 'last-6-months' | 'last-12-months' | 'custom';
+
+// Period covered by the dashboard reports. `from`/`to` (YYYY-MM-DD) are only
+// used with the "custom" range; `compare` defaults to the previous period,
+// or the same period last year for year to date.
+export interface ReportQuery {
+  range?: ReportRangePreset;
+  from?: string;
+  to?: string;
+  compare?: 'previous' | 'year' | 'none';
+}
+
+export interface ReportRange {
+  from: string;
+  to: string;
+}
+
 export interface TransactionStats {
+  // Balance at the end of the range
   totalBalance: string;
-  monthlyIncome: string;
-  monthlyExpenses: string;
+  income: string;
+  expenses: string;
   savingsRate: string;
+  // Percentage change against the comparison period (percentage points for
+  // the savings rate); null values mean there is nothing to compare against
+  changes: {
+    totalBalance: number | null;
+    income: number | null;
+    expenses: number | null;
+    savingsRate: number;
+  } | null;
+  range: ReportRange;
+  comparison: ReportRange | null;
+  baseCurrency: string;
+  // Currency pairs without an exchange rate, left out of the totals
+  missingRates: string[];
 }
 
 export interface MonthlyOverview {
   month: string;
+  year: number;
   income: number;
   expenses: number;
+  // The matching month of the comparison period, when there is one
+  previousIncome?: number;
+  previousExpenses?: number;
 }
 
 export interface CategoryBreakdown {
   name: string;
   value: number;
   color: string;
+  icon: string;
+  // Spending in the comparison period and the percentage change since
+  previousValue?: number;
+  change?: number | null;
+}
+
+// Spending under one tag. A transaction with several tags counts under each.
+export interface TagBreakdown {
+  tag: string;
+  value: number;
+  previousValue?: number;
+  change?: number | null;
+}
+
+export type ReportTemplate = 'monthly' | 'quarterly' | 'annual';
+
+export interface FinancialReportQuery {
+  template?: ReportTemplate;
+  // 2024-05, 2024-Q2 or 2024 for the template; defaults to the last period
+  // that has ended
+  period?: string;
+}
+
+export interface FinancialReportPeriod extends ReportRange {
+  // e.g. "May 2024", "Q2 2024" or "2024"
+  label: string;
+}
+
+export interface FinancialReport {
+  template: ReportTemplate;
+  period: FinancialReportPeriod;
+  // The period before
+  comparison: FinancialReportPeriod;
+  baseCurrency: string;
+  summary: {
+    income: number;
+    expenses: number;
+    net: number;
+    savingsRate: number;
+    // Total balance at the end of the period
+    closingBalance: number;
+    // Percentage change against the comparison period (percentage points
+    // for the savings rate)
+    changes: {
+      income: number | null;
+      expenses: number | null;
+      savingsRate: number;
+      closingBalance: number | null;
+    };
+  };
+  // Monthly reports include the five months before the period
+  months: { month: string; year: number; income: number; expenses: number; net: number }[];
+  categories: {
+    name: string;
+    value: number;
+    // Percentage of the period's spending
+    share: number;
+    color: string;
+    previousValue: number;
+    change: number | null;
+  }[];
+  merchants: { name: string; total: number; count: number }[];
+  // Every transaction of the period, oldest first, in its own currency
+  ledger: {
+    _id: string;
+    date: string;
+    type: 'income' | 'expense' | 'transfer';
+    description: string;
+    category: string;
+    account: string;
+    toAccount: string;
+    amount: number;
+    currency: string;
+  }[];
+  generatedAt: string;
+  missingRates: string[];
+}
+
+export interface CategoryInput {
+  name: string;
+  // Which transactions may use the category
+  type: 'income' | 'expense' | 'both';
+  // Set on subcategories; only top-level categories can be parents
+  parentId?: string | null;
+  color?: string;
+  icon?: string;
+}
+
+export interface Category extends CategoryInput {
+  _id: string;
+  parentId: string | null;
+  color: string;
+  icon: string;
+  transactionCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A category learned from the user's past transactions. Confidence runs
+// from 0 to 1.
+export interface CategorySuggestion {
+  // Position of the transaction in the request
+  index: number;
+  category: string;
+  confidence: number;
+  // The next best categories
+  alternatives: { category: string; confidence: number }[];
+}
+
+export type AccountType = 'checking' | 'savings' | 'credit' | 'cash';
+
+export interface AccountInput {
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  // Defaults to the user's base currency
+  currency?: string;
+}
+
+export interface Account extends AccountInput {
+  _id: string;
+  currency: string;
+  balance: number;
+  transactionCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AccountSummary {
+  accounts: Account[];
+  // Net of transactions recorded without an account, in the base currency
+  unassigned: number;
+  // Every account plus unassigned, in the base currency
+  totalBalance: number;
+  baseCurrency: string;
+  missingRates: string[];
 }
 
+export interface ExchangeRateInput {
+  date: string;
+  from: string;
+  to: string;
+  // How much one `from` is worth in `to`
+  rate: number;
+}
+
+export interface ExchangeRate extends ExchangeRateInput {
+  _id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExchangeRateImportResult {
+  imported: number;
+  errors: { line: number; error: string }[];
+}
+
+export type ImportAmountMode = 'type-column' | 'signed' | 'debit-credit';
+export type ImportDateFormat = 'auto' | 'yyyy-MM-dd' | 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'dd.MM.yyyy' | 'dd-MM-yyyy';
+export type ImportField = 'date' | 'description' | 'category' | 'type' | 'amount' | 'debit' | 'credit' | 'tags';
+
+// How a spreadsheet's columns map to transaction fields. Columns are
+// zero-based; unmapped fields are null.
+export interface ColumnMapping {
+  sheetName: string | null;
+  // 1-based row holding the column headers
+  headerRow: number;
+  columns: Record<ImportField, number | null>;
+  amountMode: ImportAmountMode;
+  dateFormat: ImportDateFormat;
+  // Used for rows whose category cell is blank or not mapped
+  defaultCategory: string | null;
+}
+
+export interface ImportProfileInput extends ColumnMapping {
+  name: string;
+  // Header row of the files the profile is applied to automatically
+  headers: string[];
+}
+
+export interface ImportProfile extends ImportProfileInput {
+  _id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BudgetPeriod = 'monthly' | 'weekly' | 'custom';
+
+export interface BudgetInput {
+  category: string;
+  period: BudgetPeriod;
+  amount: number;
+  startDate?: string | null;
+  endDate?: string | null;
+  rollover: boolean;
+}
+
+export interface Budget extends BudgetInput {
+  _id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BudgetProgress extends Budget {
+  periodStart: string;
+  periodEnd: string;
+  spent: number;
+  carriedOver: number;
+  available: number;
+  remaining: number;
+  percentUsed: number;
+  status: 'ok' | 'warning' | 'over';
+}
+
+export type RecurringFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+
+export interface RecurringRuleInput {
+  type: 'income' | 'expense';
+  amount: number;
+  category: string;
+  description: string;
+  accountId?: string | null;
+  currency?: string;
+  frequency: RecurringFrequency;
+  startDate: string;
+  endDate?: string | null;
+  count?: number | null;
+  monthlyMode?: 'dayOfMonth' | 'nthWeekday';
+  dayOfMonth?: number | null;
+  weekOfMonth?: 1 | 2 | 3 | 4 | -1 | null;
+  weekday?: number | null;
+  active: boolean;
+}
+
+export interface RecurringRule extends RecurringRuleInput {
+  _id: string;
+  lastOccurrence?: string | null;
+  postedCount: number;
+  upcoming: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Authentication API functions
+export const authApi = {
+  // Create an account and receive a session token
+  register: async (details: { name: string; email: string; password: string }): Promise<AuthResponse> => {
+    const response = await fetch(`${API_BASE_URL}/auth/register`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(details),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to create account');
+    }
+    return response.json();
+  },
+
+  // Exchange credentials for a session token
+  login: async (credentials: { email: string; password: string }): Promise<AuthResponse> => {
+    const response = await fetch(`${API_BASE_URL}/auth/login`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(credentials),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to log in');
+    }
+    return response.json();
+  },
+
+  // Get the user the stored token belongs to
+  me: async (): Promise<User> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/me`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch account');
+    }
+    return response.json();
+  },
+
+  // Change the current user's settings
+  updateMe: async (changes: { baseCurrency?: string; duplicateTolerance?: DuplicateTolerance }): Promise<User> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/me`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(changes),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update account');
+    }
+    return response.json();
+  },
+};
+
 // Transaction API functions
 export const transactionApi = {
-  // Get all transactions
-  getTransactions: async (): Promise<Transaction[]> => {
-    const response = await fetch(`${API_BASE_URL}/transactions`);
+  // Get a filtered, sorted page of transactions
+  getTransactions: async (query: TransactionQuery = {}): Promise<TransactionPage> => {
+    const response = await authFetch(`${API_BASE_URL}/transactions${toSearchParams(query)}`);
     if (!response.ok) {
       throw new Error('Failed to fetch transactions');
     }
     return response.json();
   },
 
+  // Get the tags in use, most used first
+  getTags: async (): Promise<TagUsage[]> => {
+    const response = await authFetch(`${API_BASE_URL}/transactions/tags`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch tags');
+    }
+    return response.json();
+  },
+
+  // Download every transaction matching the filters; paging is ignored
+  exportTransactions: async (query: TransactionQuery, options: ExportOptions): Promise<TransactionExport> => {
+    const { page, limit, cursor, ...filters } = query;
+    const response = await authFetch(`${API_BASE_URL}/transactions/export${toSearchParams({ ...filters, ...options })}`);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to export transactions');
+    }
+    return {
+      blob: await response.blob(),
+      skippedTransfers: Number(response.headers.get('X-Skipped-Transfers') ?? 0),
+    };
+  },
+
   // Add new transaction
   addTransaction: async (transaction: Omit<Transaction, '_id' | 'createdAt' | 'updatedAt'>): Promise<Transaction> => {
-    const response = await fetch(`${API_BASE_URL}/transactions`, {
+    const response = await authFetch(`${API_BASE_URL}/transactions`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -56,14 +725,44 @@ export const transactionApi = {
     return response.json();
   },
 
+  // Update an existing transaction
+  updateTransaction: async (id: string, transaction: Partial<Omit<Transaction, '_id' | 'createdAt' | 'updatedAt'>>): Promise<Transaction> => {
+    const response = await authFetch(`${API_BASE_URL}/transactions/${id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(transaction),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update transaction');
+    }
+    return response.json();
+  },
+
+  // Delete a transaction
+  deleteTransaction: async (id: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/transactions/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete transaction');
+    }
+  },
+
   // Bulk add transactions
-  addBulkTransactions: async (transactions: Omit<Transaction, '_id' | 'createdAt' | 'updatedAt'>[]): Promise<any> => {
-    const response = await fetch(`${API_BASE_URL}/transactions/bulk`, {
+  addBulkTransactions: async (
+    transactions: Omit<Transaction, '_id' | 'createdAt' | 'updatedAt'>[],
+    accountId: string | null = null
+  ): Promise<any> => {
+    const response = await authFetch(`${API_BASE_URL}/transactions/bulk`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ transactions }),
+      body: JSON.stringify({ transactions, accountId }),
     });
     if (!response.ok) {
       throw new Error('Failed to add bulk transactions');
@@ -71,30 +770,759 @@ export const transactionApi = {
     return response.json();
   },
 
-  // Get transaction stats
-  getStats: async (): Promise<TransactionStats> => {
-    const response = await fetch(`${API_BASE_URL}/stats`);
+  // Get stats for a report range
+  getStats: async (query: ReportQuery = {}): Promise<TransactionStats> => {
+    const response = await authFetch(`${API_BASE_URL}/stats${toSearchParams(query)}`);
     if (!response.ok) {
       throw new Error('Failed to fetch stats');
     }
     return response.json();
   },
 
-  // Get monthly overview
-  getMonthlyOverview: async (): Promise<MonthlyOverview[]> => {
-    const response = await fetch(`${API_BASE_URL}/monthly-overview`);
+  // Get monthly overview for a report range
+  getMonthlyOverview: async (query: ReportQuery = {}): Promise<MonthlyOverview[]> => {
+    const response = await authFetch(`${API_BASE_URL}/monthly-overview${toSearchParams(query)}`);
     if (!response.ok) {
       throw new Error('Failed to fetch monthly overview');
     }
     return response.json();
   },
 
-  // Get category breakdown
-  getCategoryBreakdown: async (): Promise<CategoryBreakdown[]> => {
-    const response = await fetch(`${API_BASE_URL}/category-breakdown`);
+  // Get category breakdown for a report range
+  getCategoryBreakdown: async (query: ReportQuery = {}): Promise<CategoryBreakdown[]> => {
+    const response = await authFetch(`${API_BASE_URL}/category-breakdown${toSearchParams(query)}`);
     if (!response.ok) {
       throw new Error('Failed to fetch category breakdown');
     }
     return response.json();
   },
+
+  // Get spending per tag for a report range, biggest first
+  getTagBreakdown: async (query: ReportQuery = {}): Promise<TagBreakdown[]> => {
+    const response = await authFetch(`${API_BASE_URL}/tag-breakdown${toSearchParams(query)}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch tag breakdown');
+    }
+    return response.json();
+  },
+};
+
+// Printable report API functions
+export const reportApi = {
+  // Get the figures of a monthly, quarterly or annual report
+  getReport: async (query: FinancialReportQuery = {}): Promise<FinancialReport> => {
+    const response = await authFetch(`${API_BASE_URL}/reports${toSearchParams(query)}`);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to fetch report');
+    }
+    return response.json();
+  },
+
+  // Download the same report as a PDF file
+  downloadReportPdf: async (query: FinancialReportQuery = {}): Promise<Blob> => {
+    const response = await authFetch(`${API_BASE_URL}/reports/pdf${toSearchParams(query)}`);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to download report');
+    }
+    return response.blob();
+  },
+};
+
+// Duplicate detection API functions
+export const duplicateApi = {
+  // Find recorded transactions the candidates probably duplicate, and which
+  // of the files being imported were imported before
+  checkDuplicates: async (
+    transactions: DuplicateCandidate[],
+    options: { fingerprints?: string[]; excludeId?: string } = {}
+  ): Promise<DuplicateCheckResult> => {
+    const response = await authFetch(`${API_BASE_URL}/transactions/duplicates/check`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ transactions, ...options }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to check for duplicates');
+    }
+    return response.json();
+  },
+
+  // Get groups of recorded transactions that look like copies of each other
+  getDuplicates: async (): Promise<DuplicateGroups> => {
+    const response = await authFetch(`${API_BASE_URL}/transactions/duplicates`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch duplicates');
+    }
+    return response.json();
+  },
+};
+
+// Account API functions
+export const accountApi = {
+  // Get accounts with their current balances
+  getAccounts: async (): Promise<AccountSummary> => {
+    const response = await authFetch(`${API_BASE_URL}/accounts`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch accounts');
+    }
+    return response.json();
+  },
+
+  // Add new account
+  addAccount: async (account: AccountInput): Promise<Account> => {
+    const response = await authFetch(`${API_BASE_URL}/accounts`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(account),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to add account');
+    }
+    return response.json();
+  },
+
+  // Update an existing account
+  updateAccount: async (id: string, account: AccountInput): Promise<Account> => {
+    const response = await authFetch(`${API_BASE_URL}/accounts/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(account),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update account');
+    }
+    return response.json();
+  },
+
+  // Delete an account; refused while transactions still use it
+  deleteAccount: async (id: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/accounts/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete account');
+    }
+  },
+};
+
+// Category API functions
+export const categoryApi = {
+  // Get all categories with how many transactions use each
+  getCategories: async (): Promise<Category[]> => {
+    const response = await authFetch(`${API_BASE_URL}/categories`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch categories');
+    }
+    return response.json();
+  },
+
+  // Add new category
+  addCategory: async (category: CategoryInput): Promise<Category> => {
+    const response = await authFetch(`${API_BASE_URL}/categories`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(category),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to add category');
+    }
+    return response.json();
+  },
+
+  // Update a category; renaming it also renames it on existing transactions
+  updateCategory: async (id: string, category: CategoryInput): Promise<Category & { renamed: number }> => {
+    const response = await authFetch(`${API_BASE_URL}/categories/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(category),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update category');
+    }
+    return response.json();
+  },
+
+  // Move everything filed under a category to another one and delete it
+  mergeCategory: async (id: string, targetId: string): Promise<{ merged: number }> => {
+    const response = await authFetch(`${API_BASE_URL}/categories/${id}/merge`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ targetId }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to merge category');
+    }
+    return response.json();
+  },
+
+  // Categories learned from past transactions, for ones that aren't saved yet
+  suggestCategories: async (
+    transactions: Pick<DuplicateCandidate, 'type' | 'amount' | 'description'>[]
+  ): Promise<{ suggestions: CategorySuggestion[] }> => {
+    const response = await authFetch(`${API_BASE_URL}/categories/suggest`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ transactions }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to suggest categories');
+    }
+    return response.json();
+  },
+
+  // Delete a category; refused while transactions still use it
+  deleteCategory: async (id: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/categories/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete category');
+    }
+  },
+};
+
+// Import profile API functions
+export const importProfileApi = {
+  // Get saved spreadsheet column mappings
+  getProfiles: async (): Promise<ImportProfile[]> => {
+    const response = await authFetch(`${API_BASE_URL}/import-profiles`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch import profiles');
+    }
+    return response.json();
+  },
+
+  // Save a column mapping under a name
+  addProfile: async (profile: ImportProfileInput): Promise<ImportProfile> => {
+    const response = await authFetch(`${API_BASE_URL}/import-profiles`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(profile),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to save import profile');
+    }
+    return response.json();
+  },
+
+  // Replace a saved column mapping
+  updateProfile: async (id: string, profile: ImportProfileInput): Promise<ImportProfile> => {
+    const response = await authFetch(`${API_BASE_URL}/import-profiles/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(profile),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update import profile');
+    }
+    return response.json();
+  },
+
+  // Delete an import profile
+  deleteProfile: async (id: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/import-profiles/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete import profile');
+    }
+  },
+};
+
+// Categorisation rule API functions
+export const categoryRuleApi = {
+  // Get every rule, in the order they run
+  getRules: async (): Promise<CategoryRule[]> => {
+    const response = await authFetch(`${API_BASE_URL}/category-rules`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch rules');
+    }
+    return response.json();
+  },
+
+  // Add a rule
+  addRule: async (rule: CategoryRuleInput): Promise<CategoryRule> => {
+    const response = await authFetch(`${API_BASE_URL}/category-rules`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(rule),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to save rule');
+    }
+    return response.json();
+  },
+
+  // Replace a rule
+  updateRule: async (id: string, rule: CategoryRuleInput): Promise<CategoryRule> => {
+    const response = await authFetch(`${API_BASE_URL}/category-rules/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(rule),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update rule');
+    }
+    return response.json();
+  },
+
+  // Delete a rule
+  deleteRule: async (id: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/category-rules/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete rule');
+    }
+  },
+
+  // What the rules change on transactions that aren't saved yet
+  matchRules: async (
+    transactions: (Pick<DuplicateCandidate, 'type' | 'amount' | 'description' | 'accountId'> & { category?: string })[]
+  ): Promise<{ matches: RuleMatch[] }> => {
+    const response = await authFetch(`${API_BASE_URL}/category-rules/match`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ transactions }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to match rules');
+    }
+    return response.json();
+  },
+
+  // Re-run the rules, or one of them, over every recorded transaction;
+  // without `apply` only a preview comes back
+  runRules: async (options: { ruleId?: string; apply?: boolean } = {}): Promise<RuleRunResult> => {
+    const response = await authFetch(`${API_BASE_URL}/category-rules/run`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(options),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to run rules');
+    }
+    return response.json();
+  },
+};
+
+// Payee API functions
+export const payeeApi = {
+  // Get every payee, by name
+  getPayees: async (): Promise<Payee[]> => {
+    const response = await authFetch(`${API_BASE_URL}/payees`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch payees');
+    }
+    return response.json();
+  },
+
+  // Add a payee
+  addPayee: async (payee: PayeeInput): Promise<Payee> => {
+    const response = await authFetch(`${API_BASE_URL}/payees`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payee),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to save payee');
+    }
+    return response.json();
+  },
+
+  // Replace a payee
+  updatePayee: async (id: string, payee: PayeeInput): Promise<Payee> => {
+    const response = await authFetch(`${API_BASE_URL}/payees/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payee),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update payee');
+    }
+    return response.json();
+  },
+
+  // Delete a payee; its transactions are kept without one
+  deletePayee: async (id: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/payees/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete payee');
+    }
+  },
+
+  // The payees of descriptions that aren't saved yet
+  matchPayees: async (descriptions: string[]): Promise<{ matches: { index: number; payeeId: string }[] }> => {
+    const response = await authFetch(`${API_BASE_URL}/payees/match`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ descriptions }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to match payees');
+    }
+    return response.json();
+  },
+
+  // Give recorded transactions without a payee the one their description matches
+  applyPayees: async (): Promise<{ scanned: number; matched: number }> => {
+    const response = await authFetch(`${API_BASE_URL}/payees/apply`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to match transactions');
+    }
+    return response.json();
+  },
+
+  // Get spending per payee for a report range
+  getSpending: async (query: ReportQuery = {}): Promise<PayeeSpending> => {
+    const response = await authFetch(`${API_BASE_URL}/payees/spending${toSearchParams(query)}`);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to fetch payee spending');
+    }
+    return response.json();
+  },
+};
+
+// Import history API functions
+export const importBatchApi = {
+  // Get every bulk upload, newest first
+  getBatches: async (): Promise<ImportBatch[]> => {
+    const response = await authFetch(`${API_BASE_URL}/import-batches`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch import history');
+    }
+    return response.json();
+  },
+
+  // Delete every transaction a bulk upload created
+  revertBatch: async (id: string): Promise<ImportBatch & { removed: number }> => {
+    const response = await authFetch(`${API_BASE_URL}/import-batches/${id}/revert`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to revert import');
+    }
+    return response.json();
+  },
+};
+
+// Budget API functions
+export const budgetApi = {
+  // Get budgets with spending for their current period
+  getBudgets: async (): Promise<BudgetProgress[]> => {
+    const response = await authFetch(`${API_BASE_URL}/budgets`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch budgets');
+    }
+    return response.json();
+  },
+
+  // Add new budget
+  addBudget: async (budget: BudgetInput): Promise<Budget> => {
+    const response = await authFetch(`${API_BASE_URL}/budgets`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(budget),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to add budget');
+    }
+    return response.json();
+  },
+
+  // Update an existing budget
+  updateBudget: async (id: string, budget: BudgetInput): Promise<Budget> => {
+    const response = await authFetch(`${API_BASE_URL}/budgets/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(budget),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update budget');
+    }
+    return response.json();
+  },
+
+  // Delete a budget
+  deleteBudget: async (id: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/budgets/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete budget');
+    }
+  },
+};
+
+// Recurring transaction API functions
+export const recurringApi = {
+  // Get recurring rules with their next few occurrences
+  getRules: async (): Promise<RecurringRule[]> => {
+    const response = await authFetch(`${API_BASE_URL}/recurring-rules`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch recurring rules');
+    }
+    return response.json();
+  },
+
+  // Add new recurring rule; occurrences already due are posted straight away
+  addRule: async (rule: RecurringRuleInput): Promise<RecurringRule & { posted: number }> => {
+    const response = await authFetch(`${API_BASE_URL}/recurring-rules`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(rule),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to add recurring rule');
+    }
+    return response.json();
+  },
+
+  // Update an existing recurring rule
+  updateRule: async (id: string, rule: RecurringRuleInput): Promise<RecurringRule & { posted: number }> => {
+    const response = await authFetch(`${API_BASE_URL}/recurring-rules/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(rule),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update recurring rule');
+    }
+    return response.json();
+  },
+
+  // Delete a recurring rule; transactions it already posted are kept
+  deleteRule: async (id: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/recurring-rules/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete recurring rule');
+    }
+  },
+
+  // Upcoming occurrence dates of a rule that may not be saved yet
+  previewRule: async (rule: RecurringRuleInput, limit = 5): Promise<string[]> => {
+    const response = await authFetch(`${API_BASE_URL}/recurring-rules/preview?limit=${limit}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(rule),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to preview recurring rule');
+    }
+    return response.json();
+  },
+};
+
+// Exchange rate API functions
+export const exchangeRateApi = {
+  // Get all exchange rates, newest first
+  getRates: async (): Promise<ExchangeRate[]> => {
+    const response = await authFetch(`${API_BASE_URL}/exchange-rates`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch exchange rates');
+    }
+    return response.json();
+  },
+
+  // Add a rate, replacing any rate for the same currencies and day
+  addRate: async (rate: ExchangeRateInput): Promise<ExchangeRate> => {
+    const response = await authFetch(`${API_BASE_URL}/exchange-rates`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(rate),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to add exchange rate');
+    }
+    return response.json();
+  },
+
+  // Import historical rates from date,from,to,rate CSV text
+  importRates: async (csv: string): Promise<ExchangeRateImportResult> => {
+    const response = await authFetch(`${API_BASE_URL}/exchange-rates/import`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ csv }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to import exchange rates');
+    }
+    return response.json();
+  },
+
+  // Delete an exchange rate
+  deleteRate: async (id: string): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/exchange-rates/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete exchange rate');
+    }
+  },
+};
+
+export const receiptApi = {
+  // Read the merchant, date, total and tax off a photo or PDF of a receipt
+  scanReceipt: async (file: File): Promise<ReceiptScan> => {
+    const response = await authFetch(`${API_BASE_URL}/receipts/scan`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': file.type,
+      },
+      body: file,
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to read receipt');
+    }
+    return response.json();
+  },
+};
+
+export const attachmentApi = {
+  // Get a transaction's attachments, oldest first
+  getAttachments: async (transactionId: string): Promise<Attachment[]> => {
+    const response = await authFetch(`${API_BASE_URL}/transactions/${transactionId}/attachments`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch attachments');
+    }
+    return response.json();
+  },
+
+  // Keep a file with a transaction
+  uploadAttachment: async (transactionId: string, file: File): Promise<Attachment> => {
+    const response = await authFetch(
+      `${API_BASE_URL}/transactions/${transactionId}/attachments${toSearchParams({ filename: file.name })}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': file.type,
+        },
+        body: file,
+      }
+    );
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to attach file');
+    }
+    return response.json();
+  },
+
+  // Download an attachment's file
+  downloadAttachment: async (attachment: Attachment): Promise<Blob> => {
+    const response = await authFetch(`${API_BASE_URL}/transactions/${attachment.transactionId}/attachments/${attachment._id}`);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to download attachment');
+    }
+    return response.blob();
+  },
+
+  // Get the small preview of an image attachment
+  getThumbnail: async (attachment: Attachment): Promise<Blob> => {
+    const response = await authFetch(`${API_BASE_URL}/transactions/${attachment.transactionId}/attachments/${attachment._id}/thumbnail`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch thumbnail');
+    }
+    return response.blob();
+  },
+
+  // Delete an attachment
+  deleteAttachment: async (attachment: Attachment): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/transactions/${attachment.transactionId}/attachments/${attachment._id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete attachment');
+    }
+  },
 };